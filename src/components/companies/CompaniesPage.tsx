@@ -1,7 +1,14 @@
 import { useState } from 'react';
-import { useCompanies, useProjects } from '../../contexts/StorageContext';
-import type { Company, Currency, BillingType } from '../../types';
+import { useCompanies, useProjects, useProfile } from '../../contexts/StorageContext';
+import type { Company, BillingType, RateChange, LineItem } from '../../types';
 import { formatCurrency } from '../../utils/formatCurrency';
+import { currencyOptions, currencyName, getReportingCurrency } from '../../utils/currencies';
+import { taxRateLabel } from '../../utils/tax';
+import { companyRateOn } from '../../utils/calculations';
+import { today, getMonthLabel } from '../../utils/dateUtils';
+import { DEFAULT_RETAINER_ISSUE_DAY, addMonths } from '../../utils/retainers';
+import { PAYMENT_TERMS_PRESETS, parsePaymentTerms, describePaymentTerms } from '../../utils/paymentTerms';
+import { formatCreditNoteNumber } from '../../utils/creditNotes';
 import Modal from '../shared/Modal';
 import Badge from '../shared/Badge';
 
@@ -22,6 +29,9 @@ const emptyCo: Omit<Company, 'id' | 'createdAt' | 'updatedAt'> = {
 
 export default function CompaniesPage() {
   const { companies, saveCompany } = useCompanies();
+  const { profile } = useProfile();
+  const templates = profile.invoiceTemplates || [];
+  const taxRates = profile.taxRates || [];
   const { projects, saveProject } = useProjects();
   const [editing, setEditing] = useState<Company | null>(null);
   const [showInactive, setShowInactive] = useState(false);
@@ -34,6 +44,7 @@ export default function CompaniesPage() {
     setIsNew(true);
     setEditing({
       ...emptyCo,
+      currency: getReportingCurrency(profile),
       id: crypto.randomUUID(),
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
@@ -47,10 +58,45 @@ export default function CompaniesPage() {
 
   function handleSave() {
     if (!editing || !editing.name.trim()) return;
-    saveCompany({ ...editing, updatedAt: new Date().toISOString() });
+    const rateHistory = (editing.rateHistory || [])
+      .filter((c) => c.effectiveFrom && c.hourlyRate > 0)
+      .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+    const recurring = (editing.recurringLineItems || []).filter((li) => li.description.trim() && li.amount);
+    saveCompany({
+      ...editing,
+      rateHistory: rateHistory.length > 0 ? rateHistory : undefined,
+      recurringLineItems: recurring.length > 0 ? recurring : undefined,
+      updatedAt: new Date().toISOString(),
+    });
     setEditing(null);
   }
 
+  function updateRateChange(index: number, change: RateChange | null) {
+    if (!editing) return;
+    const history = [...(editing.rateHistory || [])];
+    if (change) history[index] = change; else history.splice(index, 1);
+    setEditing({ ...editing, rateHistory: history });
+  }
+
+  function addRateChange() {
+    if (!editing) return;
+    const change = { effectiveFrom: today(), hourlyRate: companyRateOn(editing, today()) };
+    setEditing({ ...editing, rateHistory: [...(editing.rateHistory || []), change] });
+  }
+
+  function updateRecurringItem(index: number, item: LineItem | null) {
+    if (!editing) return;
+    const items = [...(editing.recurringLineItems || [])];
+    if (item) items[index] = item; else items.splice(index, 1);
+    setEditing({ ...editing, recurringLineItems: items });
+  }
+
+  function addRecurringItem() {
+    if (!editing) return;
+    const item = { id: crypto.randomUUID(), description: '', amount: 0 };
+    setEditing({ ...editing, recurringLineItems: [...(editing.recurringLineItems || []), item] });
+  }
+
   function toggleActive(co: Company) {
     saveCompany({ ...co, isActive: !co.isActive, updatedAt: new Date().toISOString() });
   }
@@ -91,13 +137,17 @@ export default function CompaniesPage() {
                   {!co.isActive && <Badge color="gray">Inactive</Badge>}
                   {co.billingType === 'fixed_monthly' && <Badge color="purple">Retainer</Badge>}
                   {co.invoiceRequired && <Badge color="blue">Invoice</Badge>}
-                  {co.vatReverseCharge && <Badge color="cyan">VAT RC</Badge>}
+                  {(() => {
+                    const rate = taxRates.find((r) => r.id === co.taxRateId);
+                    if (!rate) return null;
+                    return <Badge color="cyan">{rate.reverseCharge ? 'VAT RC' : taxRateLabel(rate)}</Badge>;
+                  })()}
                 </div>
               </div>
               <p className="text-lg font-medium text-gray-700">
                 {co.billingType === 'fixed_monthly'
                   ? <>{formatCurrency(co.monthlyRate || 0, co.currency)}<span className="text-sm text-gray-500">/mo</span></>
-                  : <>{formatCurrency(co.hourlyRate, co.currency)}<span className="text-sm text-gray-500">/hr</span></>
+                  : <>{formatCurrency(companyRateOn(co, today()), co.currency)}<span className="text-sm text-gray-500">/hr</span></>
                 }
               </p>
               {(() => {
@@ -181,15 +231,128 @@ export default function CompaniesPage() {
                 <label className="block text-sm font-medium text-gray-700 mb-1">Currency</label>
                 <select
                   value={editing.currency}
-                  onChange={(e) => setEditing({ ...editing, currency: e.target.value as Currency })}
+                  onChange={(e) => setEditing({ ...editing, currency: e.target.value })}
                   className="w-full border rounded-md px-3 py-2 text-sm"
                 >
-                  <option value="USD">USD</option>
-                  <option value="EUR">EUR</option>
-                  <option value="GBP">GBP</option>
+                  {currencyOptions(profile, editing.currency).map((c) => (
+                    <option key={c} value={c}>{c} — {currencyName(c)}</option>
+                  ))}
                 </select>
               </div>
             </div>
+            {editing.billingType === 'fixed_monthly' && (
+              <div className="space-y-3">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    id="retainerAutoDraft"
+                    checked={!!editing.retainerAutoDraft}
+                    onChange={(e) => setEditing({
+                      ...editing,
+                      retainerAutoDraft: e.target.checked,
+                      retainerStartMonth: editing.retainerStartMonth || today().substring(0, 7),
+                    })}
+                    className="rounded"
+                  />
+                  <label htmlFor="retainerAutoDraft" className="text-sm text-gray-700">Draft retainer invoices automatically</label>
+                </div>
+                {editing.retainerAutoDraft && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Issue Day</label>
+                      <input
+                        type="number"
+                        min={1}
+                        max={31}
+                        value={editing.retainerIssueDay ?? DEFAULT_RETAINER_ISSUE_DAY}
+                        onChange={(e) => setEditing({ ...editing, retainerIssueDay: Math.min(Math.max(parseInt(e.target.value, 10) || 1, 1), 31) })}
+                        className="w-full border rounded-md px-3 py-2 text-sm"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">First Month</label>
+                      <input
+                        type="month"
+                        value={editing.retainerStartMonth || ''}
+                        onChange={(e) => setEditing({ ...editing, retainerStartMonth: e.target.value || undefined })}
+                        className="w-full border rounded-md px-3 py-2 text-sm"
+                      />
+                    </div>
+                    <p className="col-span-2 text-xs text-gray-400">
+                      When the app opens, a draft is created for each month whose issue day has passed, dated on that day.
+                      {editing.retainerDraftedThrough
+                        ? ` Drafted through ${getMonthLabel(editing.retainerDraftedThrough + '-01')}; next is ${getMonthLabel(addMonths(editing.retainerDraftedThrough, 1) + '-01')}.`
+                        : ' Months that already have a retainer invoice are skipped.'}
+                    </p>
+                  </div>
+                )}
+                <div>
+                  <div className="flex items-center justify-between mb-1">
+                    <label className="block text-sm font-medium text-gray-700">Recurring Line Items</label>
+                    <button type="button" onClick={addRecurringItem} className="text-sm text-blue-600 hover:text-blue-800 font-medium">
+                      + Add Line Item
+                    </button>
+                  </div>
+                  {(editing.recurringLineItems || []).map((li, i) => (
+                    <div key={li.id} className="flex items-center gap-2 mb-2">
+                      <input
+                        type="text"
+                        placeholder="Description"
+                        value={li.description}
+                        onChange={(e) => updateRecurringItem(i, { ...li, description: e.target.value })}
+                        className="flex-1 border rounded-md px-3 py-1.5 text-sm"
+                      />
+                      <input
+                        type="number"
+                        step={0.01}
+                        placeholder="Amount"
+                        value={li.amount || ''}
+                        onChange={(e) => updateRecurringItem(i, { ...li, amount: parseFloat(e.target.value) || 0 })}
+                        className="w-28 border rounded-md px-2 py-1.5 text-sm text-right"
+                      />
+                      <button type="button" onClick={() => updateRecurringItem(i, null)} className="text-red-400 hover:text-red-600 text-sm px-1">✕</button>
+                    </div>
+                  ))}
+                  <p className="text-xs text-gray-400">Added to every retainer invoice for this company, such as a hosting or tooling fee.</p>
+                </div>
+              </div>
+            )}
+            {editing.billingType === 'hourly' && (
+              <div>
+                <div className="flex items-center justify-between mb-1">
+                  <label className="block text-sm font-medium text-gray-700">Rate Changes</label>
+                  <button type="button" onClick={addRateChange} className="text-sm text-blue-600 hover:text-blue-800 font-medium">
+                    + Add Rate Change
+                  </button>
+                </div>
+                {(editing.rateHistory || []).map((change, i) => (
+                  <div key={i} className="flex items-center gap-2 mb-2">
+                    <span className="text-sm text-gray-500">From</span>
+                    <input
+                      type="date"
+                      value={change.effectiveFrom}
+                      onChange={(e) => updateRateChange(i, { ...change, effectiveFrom: e.target.value })}
+                      className="border rounded-md px-3 py-1.5 text-sm"
+                    />
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      value={change.hourlyRate || ''}
+                      onChange={(e) => updateRateChange(i, { ...change, hourlyRate: parseFloat(e.target.value) || 0 })}
+                      className="w-28 border rounded-md px-2 py-1.5 text-sm text-right"
+                    />
+                    <span className="text-sm text-gray-500">/hr</span>
+                    <button type="button" onClick={() => updateRateChange(i, null)} className="text-red-400 hover:text-red-600 text-sm px-1">✕</button>
+                  </div>
+                ))}
+                <p className="text-xs text-gray-400">
+                  {editing.rateHistory && editing.rateHistory.length > 0
+                    ? 'Entries dated on or after a change bill at its rate; earlier entries use the hourly rate above. Invoiced entries keep their invoiced rate.'
+                    : 'Raising or lowering your rate? Add a change from a date so earlier entries keep the rate they were worked at.'}
+                </p>
+              </div>
+            )}
             <div className="space-y-2">
               <div className="flex items-center gap-2">
                 <input
@@ -201,17 +364,23 @@ export default function CompaniesPage() {
                 />
                 <label htmlFor="invoiceRequired" className="text-sm text-gray-700">Requires formal invoice for payment</label>
               </div>
-              <div className="flex items-center gap-2">
-                <input
-                  type="checkbox"
-                  id="vatReverseCharge"
-                  checked={editing.vatReverseCharge || false}
-                  onChange={(e) => setEditing({ ...editing, vatReverseCharge: e.target.checked })}
-                  className="rounded"
-                />
-                <label htmlFor="vatReverseCharge" className="text-sm text-gray-700">EU/UK client — VAT reverse charge applies</label>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Tax Rate</label>
+                <select
+                  value={editing.taxRateId || ''}
+                  onChange={(e) => setEditing({ ...editing, taxRateId: e.target.value || undefined })}
+                  className="w-full border rounded-md px-3 py-2 text-sm"
+                >
+                  <option value="">No tax</option>
+                  {taxRates.map((r) => (
+                    <option key={r.id} value={r.id}>{taxRateLabel(r)}</option>
+                  ))}
+                </select>
+                {taxRates.length === 0 && (
+                  <p className="text-xs text-gray-400 mt-1">Add VAT, sales tax or reverse-charge rates in Settings.</p>
+                )}
               </div>
-              {editing.vatReverseCharge && (
+              {taxRates.find((r) => r.id === editing.taxRateId)?.reverseCharge && (
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">VAT Notice Text</label>
                   <textarea
@@ -238,6 +407,34 @@ export default function CompaniesPage() {
                 <p className="text-xs text-gray-400 mt-1">Next invoice will be #{String(editing.nextInvoiceNumber || 1).padStart(3, '0')}</p>
               </div>
             )}
+            {editing.invoiceRequired && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Next Credit Note Number</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={editing.nextCreditNoteNumber || 1}
+                  onChange={(e) => setEditing({ ...editing, nextCreditNoteNumber: parseInt(e.target.value, 10) || 1 })}
+                  className="w-32 border rounded-md px-3 py-2 text-sm"
+                />
+                <p className="text-xs text-gray-400 mt-1">Next credit note will be #{formatCreditNoteNumber(editing.nextCreditNoteNumber || 1)}</p>
+              </div>
+            )}
+            {editing.invoiceRequired && templates.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Invoice Template</label>
+                <select
+                  value={editing.invoiceTemplateId || ''}
+                  onChange={(e) => setEditing({ ...editing, invoiceTemplateId: e.target.value || undefined })}
+                  className="w-full border rounded-md px-3 py-2 text-sm"
+                >
+                  <option value="">Default</option>
+                  {templates.map((t) => (
+                    <option key={t.id} value={t.id}>{t.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">Payment Terms</label>
@@ -246,8 +443,20 @@ export default function CompaniesPage() {
                   value={editing.paymentTerms || ''}
                   onChange={(e) => setEditing({ ...editing, paymentTerms: e.target.value })}
                   placeholder="e.g., Net 30, Upon receipt"
+                  list="payment-terms-presets"
                   className="w-full border rounded-md px-3 py-2 text-sm"
                 />
+                <datalist id="payment-terms-presets">
+                  {PAYMENT_TERMS_PRESETS.map((t) => <option key={t} value={t} />)}
+                </datalist>
+                {editing.paymentTerms?.trim() && (
+                  <p className="text-xs text-gray-400 mt-1">
+                    {(() => {
+                      const terms = parsePaymentTerms(editing.paymentTerms);
+                      return terms ? describePaymentTerms(terms) : 'Not recognized — invoices will have no due date';
+                    })()}
+                  </p>
+                )}
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">Payment Method</label>
@@ -308,8 +517,26 @@ export default function CompaniesPage() {
                 return (
                   <div className="space-y-2">
                     {companyProjects.map((p) => (
-                      <div key={p.id} className="flex items-center justify-between bg-gray-50 rounded px-3 py-1.5 text-sm">
-                        <span className={!p.isActive ? 'text-gray-400 line-through' : ''}>{p.name}</span>
+                      <div key={p.id} className="flex items-center justify-between gap-2 bg-gray-50 rounded px-3 py-1.5 text-sm">
+                        <span className={`flex-1 ${!p.isActive ? 'text-gray-400 line-through' : ''}`}>{p.name}</span>
+                        {editing.billingType === 'hourly' && (
+                          <input
+                            // Remount when the rate changes elsewhere (undo, sync)
+                            key={p.hourlyRate ?? ''}
+                            type="number"
+                            min={0}
+                            step={0.01}
+                            defaultValue={p.hourlyRate ?? ''}
+                            placeholder="Company rate"
+                            title="Hourly rate for this project"
+                            onBlur={(e) => {
+                              const value = parseFloat(e.target.value);
+                              const hourlyRate = value > 0 ? value : undefined;
+                              if (hourlyRate !== p.hourlyRate) saveProject({ ...p, hourlyRate, updatedAt: new Date().toISOString() });
+                            }}
+                            className="w-28 border rounded-md px-2 py-1 text-sm text-right bg-white"
+                          />
+                        )}
                         <button
                           type="button"
                           onClick={() => saveProject({ ...p, isActive: !p.isActive, updatedAt: new Date().toISOString() })}
@@ -1,15 +1,230 @@
-import { Fragment, useEffect, useMemo, useState } from 'react';
-import { useCompanies, useTimeEntries, useInvoices } from '../../contexts/StorageContext';
-import { totalsByCurrency, entryAmount, isFixedMonthly } from '../../utils/calculations';
+import { Fragment, useMemo, useState } from 'react';
+import { useCompanies, useProjects, useTimeEntries, useInvoices, useProfile } from '../../contexts/StorageContext';
+import { usePayments } from '../../hooks/usePayments';
+import { useHistory } from '../../hooks/useHistory';
+import { totalsByCurrency, billableAmount, isFixedMonthly, invoicePayments, invoiceBalance, isOverdue } from '../../utils/calculations';
 import { startOfMonth, endOfMonth, startOfYear, endOfYear, today, isInRange, getISOWeek, getWeekLabel, getMonthIndex, shortMonthName, formatDate, getMonthLabel, daysSince } from '../../utils/dateUtils';
 import { formatCurrency, formatCurrencyShort, formatHours } from '../../utils/formatCurrency';
-import { preloadRates, convertToUSD } from '../../utils/exchangeRate';
+import { convertAmount, recordedRate } from '../../utils/exchangeRate';
+import { getReportingCurrency } from '../../utils/currencies';
+import { useExchangeRates } from '../../hooks/useExchangeRates';
+import { invoiceNetAmount } from '../../utils/tax';
+import { isCreditNote } from '../../utils/creditNotes';
 import type { Currency } from '../../types';
 import { Link } from 'react-router-dom';
 import TimeEntryForm from '../time/TimeEntryForm';
 import Modal from '../shared/Modal';
+import AgingSummary from '../shared/AgingSummary';
 
 const CHANGELOG: { version: string; date: string; changes: string[] }[] = [
+  {
+    version: '1.24',
+    date: '2026-10-19',
+    changes: [
+      'Estimated Tax report: quarterly federal and state estimated payments from realized net profit in each IRS window, with configurable tax rates',
+      'Record the estimated payments you\'ve made and see what\'s due at the next deadline',
+    ],
+  },
+  {
+    version: '1.23',
+    date: '2026-10-19',
+    changes: [
+      'Profit & Loss report: a tax year\'s income on a cash and an accrual basis, with deductible expenses by Schedule C line (meals at 50%)',
+      'Print the summary or export it as CSV',
+    ],
+  },
+  {
+    version: '1.22',
+    date: '2026-10-19',
+    changes: [
+      'Recurring expenses repeat on a schedule: weekly, monthly, quarterly or yearly, with an optional end date and price changes',
+      'Due occurrences are added when the app opens and listed on the Expenses page for review',
+    ],
+  },
+  {
+    version: '1.21',
+    date: '2026-10-19',
+    changes: [
+      'Attach receipt images and PDFs to expenses. Files are kept in the browser, included in the JSON backup, and can be uploaded to a Google Drive folder next to the backup spreadsheet',
+      'Missing Receipts report lists a tax year\'s expenses without a receipt',
+    ],
+  },
+  {
+    version: '1.20',
+    date: '2026-10-19',
+    changes: [
+      'Expenses can be marked billable to a client, with an optional markup',
+      'Create Invoice lists the client\'s unbilled billable expenses, converted into the invoice currency at the rate on the expense date',
+      'Billed expenses print in their own Expenses section on invoices',
+    ],
+  },
+  {
+    version: '1.19',
+    date: '2026-10-19',
+    changes: [
+      'Sent invoices can be voided instead of deleted: the invoice keeps its number, marked void, and leaves accounts receivable',
+      'Voiding can issue a credit note with negative amounts, numbered per company (CN-001, CN-002…), printable and exportable like an invoice',
+      'Time entries on a voided invoice can be released for re-invoicing or kept on it',
+    ],
+  },
+  {
+    version: '1.18',
+    date: '2026-10-19',
+    changes: [
+      'Compose payment reminders for overdue invoices from first reminder, second reminder and final notice templates, editable in Settings',
+      'Reminders open in your mail app or save as an .eml file with the invoice PDF attached, and each one is logged on the invoice',
+    ],
+  },
+  {
+    version: '1.17',
+    date: '2026-10-19',
+    changes: [
+      'Payment terms such as Net 30, EOM or Due on receipt are recognized, and new invoices get a due date printed on HTML, Word and PDF invoices',
+      'Invoices past their due date show as overdue, with an Overdue filter on the Invoices page',
+      'Accounts receivable aging (current, 1–30, 31–60, 61–90, 90+ days) on the dashboard and in the Invoicing Status report',
+    ],
+  },
+  {
+    version: '1.16',
+    date: '2026-10-19',
+    changes: [
+      'Fixed-monthly companies can draft their retainer invoices automatically: on opening the app, a draft is created for every month whose issue day has passed',
+      'Recurring line items on retainer companies are added to every retainer invoice',
+    ],
+  },
+  {
+    version: '1.15',
+    date: '2026-10-19',
+    changes: [
+      'Payments record the exchange rate on the payment date, fetched automatically when none is entered',
+      'Invoices show the realized FX gain or loss once payments arrive in a foreign currency',
+      'New FX Gains/Losses report tab summarizing realized gains and losses by year and currency, with a button to fill in missing rates',
+    ],
+  },
+  {
+    version: '1.14',
+    date: '2026-10-19',
+    changes: [
+      'Exchange rate sources in Settings: Frankfurter online, ECB XML file import or manual entry',
+      'A rate table keeps every fetched, imported and manually entered rate; dates without a rate use the nearest earlier one, so totals still convert offline',
+      'Manual rates take precedence over fetched and imported ones for the same day',
+    ],
+  },
+  {
+    version: '1.13',
+    date: '2026-10-19',
+    changes: [
+      'Reporting currency in Settings → Currencies: dashboard, report and expense totals are shown in it instead of always USD',
+      'Invoices and payments store their exchange rate per reporting currency; existing USD rates are migrated',
+      'Invoice CSV export converts into the reporting currency',
+    ],
+  },
+  {
+    version: '1.12',
+    date: '2026-10-19',
+    changes: [
+      'Any ISO 4217 currency: pick the ones you bill in (CHF, CAD, AUD, SEK, JPY, ...) under Settings → Currencies',
+      'Amounts use each currency\'s own decimals and symbol, e.g. whole yen for JPY',
+      'Exchange rates are fetched for every currency in use; unknown currency codes in a synced sheet fall back to USD with a warning',
+    ],
+  },
+  {
+    version: '1.11',
+    date: '2026-10-19',
+    changes: [
+      'Rate changes with effective dates on companies, so raising a rate no longer revalues earlier work',
+      'Optional hourly rate per project, overriding the company rate',
+      'Time entries, invoices, reports, dashboard totals and CSV export use each entry\'s resolved rate; invoices record per-entry rates when they vary',
+    ],
+  },
+  {
+    version: '1.10',
+    date: '2026-10-19',
+    changes: [
+      'Tax rates in Settings: VAT, sales tax and 0% reverse charge; assign one per company and override it on line items',
+      'Invoices store net, tax and gross amounts and show subtotal and tax lines on screen and in print, Word and PDF output',
+      'Companies flagged for VAT reverse charge now use a reverse-charge tax rate; revenue figures exclude tax',
+    ],
+  },
+  {
+    version: '1.9',
+    date: '2026-10-19',
+    changes: [
+      'Invoice templates in Settings: logo, accent color, font, heading, footer and toggles for bank details, hours column and rate line, with a live preview',
+      'Pick a template per company, or use the default template, for printed, Word and PDF invoices',
+    ],
+  },
+  {
+    version: '1.8.1',
+    date: '2026-10-19',
+    changes: [
+      'Save invoices as PDF directly, without going through the browser print dialog',
+      'PDF output is built from a shared invoice document so it matches the printed layout',
+    ],
+  },
+  {
+    version: '1.8',
+    date: '2026-10-19',
+    changes: [
+      'Record payments against invoices, including partial payments, fees withheld and the rate received',
+      'Partially paid invoices show their balance and can be filtered on the Invoices page',
+      'Outstanding AR on the Dashboard uses each invoice\'s remaining balance',
+      'Payments sync to a new Payments sheet; existing paid invoices get a matching payment',
+    ],
+  },
+  {
+    version: '1.7.1',
+    date: '2026-10-19',
+    changes: [
+      'Undo/redo for every change: Ctrl+Z (Cmd+Z) undoes, Ctrl+Shift+Z redoes',
+      'Deleting a time entry, invoice, expense, company or project shows an Undo toast',
+      'Marking several entries paid and creating an invoice each undo as a single step',
+    ],
+  },
+  {
+    version: '1.7',
+    date: '2026-10-19',
+    changes: [
+      'Sheets sync is now incremental: only rows changed since the last sync are updated, appended or deleted instead of clearing and rewriting every sheet',
+      'Local changes are journaled, so edits made before a reload or a failed push are still sent on the next sync',
+      'Sheets are fully rewritten only on first connect or when their column layout isn\'t recognized',
+    ],
+  },
+  {
+    version: '1.6.2',
+    date: '2026-10-19',
+    changes: [
+      'Sync conflicts are now reviewed instead of silently merged: a dialog lists each record changed on both this device and Google Sheets with a field-by-field diff',
+      'Keep this device\'s version, the Sheets version, or pick individual fields per record; "Remember" reuses the choices for the rest of the session',
+      'Closing the review pauses auto-sync until Sync Now is clicked',
+    ],
+  },
+  {
+    version: '1.6.1',
+    date: '2026-10-19',
+    changes: [
+      'Deletes now sync: deleted records are kept as tombstones so a merge with another device no longer brings them back',
+      'Sheets gain a Deleted At column; tombstones are purged locally after 90 days',
+      'Merging duplicate companies from two devices now records the removed duplicate as deleted',
+    ],
+  },
+  {
+    version: '1.6',
+    date: '2026-10-19',
+    changes: [
+      'Storage moved from localStorage to IndexedDB — saving an entry writes just that record instead of re-serializing every entry, and the ~5MB localStorage quota no longer caps how much history you can keep',
+      'Existing data is moved over automatically on first load; browsers without IndexedDB keep using localStorage',
+      'Data-shape upgrades now run as numbered migrations on startup (and on JSON import / Sheets pull) instead of ad-hoc fixes on every read',
+    ],
+  },
+  {
+    version: '1.5.6',
+    date: '2026-10-19',
+    changes: [
+      'Google Sheets sync is now lossless — billing address, VAT reverse charge and notice text, invoice line items, detail level and payment notes on invoices and time entries now survive a push/pull round trip (previously a Pull from Sheets on a second device wiped them)',
+      'Sheets columns are matched by header name instead of position, so older spreadsheets with fewer columns still load; the spreadsheet records its column schema version and an out-of-date app refuses to overwrite a newer layout',
+    ],
+  },
   {
     version: '1.5.5',
     date: '2026-05-05',
@@ -163,25 +378,31 @@ const CHANGELOG: { version: string; date: string; changes: string[] }[] = [
   },
 ];
 
+// Stacked chart segments, one per currency in the chart
+const BAR_COLORS = ['bg-blue-500', 'bg-emerald-500', 'bg-purple-500', 'bg-amber-500', 'bg-rose-500', 'bg-cyan-500', 'bg-lime-500', 'bg-fuchsia-500'];
+
 export default function DashboardPage() {
   const { companies } = useCompanies();
+  const { projects } = useProjects();
   const { timeEntries, saveTimeEntry } = useTimeEntries();
   const { invoices } = useInvoices();
+  const { payments } = usePayments();
+  const { batch } = useHistory();
+  const { profile } = useProfile();
   const [quickEntryKey, setQuickEntryKey] = useState(0);
   const [showChangelog, setShowChangelog] = useState(false);
   const [chartOpen, setChartOpen] = useState(false);
   const [chartMode, setChartMode] = useState<'week' | 'month'>('month');
-  const [rates, setRates] = useState<Record<Currency, number | null>>({ USD: 1, EUR: null, GBP: null });
-  const [ratesLoaded, setRatesLoaded] = useState(false);
+  const reporting = getReportingCurrency(profile);
 
-  useEffect(() => {
-    preloadRates().then((r) => {
-      setRates(r);
-      setRatesLoaded(true);
-    });
-  }, []);
+  // Only fetch rates for currencies actually billed in
+  const currenciesInUse = useMemo(
+    () => [...companies.map((c) => c.currency), ...invoices.map((i) => i.currency)],
+    [companies, invoices],
+  );
+  const { rates, loaded: ratesLoaded } = useExchangeRates(currenciesInUse, reporting);
 
-  const allRatesAvailable = rates.EUR != null && rates.GBP != null;
+  const allRatesAvailable = currenciesInUse.every((c) => rates[c] != null);
 
   const now = new Date();
   const year = now.getFullYear();
@@ -192,6 +413,7 @@ export default function DashboardPage() {
   const currentMonth = today().substring(0, 7);
 
   const companyMap = useMemo(() => new Map(companies.map((c) => [c.id, c])), [companies]);
+  const projectMap = useMemo(() => new Map(projects.map((p) => [p.id, p])), [projects]);
 
   // Filter out fixed-monthly entries from hourly totals
   const monthEntriesHourly = useMemo(
@@ -214,13 +436,13 @@ export default function DashboardPage() {
 
   // Retainer invoices in period
   const monthRetainerInvoices = useMemo(
-    () => invoices.filter((i) => i.billingType === 'fixed_monthly' && i.retainerMonth === currentMonth),
+    () => invoices.filter((i) => i.billingType === 'fixed_monthly' && i.retainerMonth === currentMonth && i.status !== 'void'),
     [invoices, currentMonth]
   );
 
   const yearRetainerInvoices = useMemo(
     () => invoices.filter((i) => {
-      if (i.billingType !== 'fixed_monthly' || !i.retainerMonth) return false;
+      if (i.billingType !== 'fixed_monthly' || !i.retainerMonth || i.status === 'void') return false;
       return i.retainerMonth >= yearStart.substring(0, 7) && i.retainerMonth <= yearEnd.substring(0, 7);
     }),
     [invoices, yearStart, yearEnd]
@@ -228,45 +450,45 @@ export default function DashboardPage() {
 
   // Month totals: hourly entries + retainer invoices
   const monthTotals = useMemo(() => {
-    const hourlyTotals = totalsByCurrency(monthEntriesHourly, companies);
+    const hourlyTotals = totalsByCurrency(monthEntriesHourly, companies, projects);
     const totalsMap = new Map<Currency, { hours: number; amount: number }>();
     for (const t of hourlyTotals) {
       totalsMap.set(t.currency, { hours: t.hours, amount: t.amount });
     }
     for (const inv of monthRetainerInvoices) {
       const existing = totalsMap.get(inv.currency) || { hours: 0, amount: 0 };
-      existing.amount += inv.totalAmount;
+      existing.amount += invoiceNetAmount(inv);
       totalsMap.set(inv.currency, existing);
     }
     return Array.from(totalsMap.entries()).map(([currency, t]) => ({ currency, ...t }));
-  }, [monthEntriesHourly, companies, monthRetainerInvoices]);
+  }, [monthEntriesHourly, companies, projects, monthRetainerInvoices]);
 
   // Year totals: hourly entries + retainer invoices
   const yearTotals = useMemo(() => {
-    const hourlyTotals = totalsByCurrency(yearEntriesHourly, companies);
+    const hourlyTotals = totalsByCurrency(yearEntriesHourly, companies, projects);
     const totalsMap = new Map<Currency, { hours: number; amount: number }>();
     for (const t of hourlyTotals) {
       totalsMap.set(t.currency, { hours: t.hours, amount: t.amount });
     }
     for (const inv of yearRetainerInvoices) {
       const existing = totalsMap.get(inv.currency) || { hours: 0, amount: 0 };
-      existing.amount += inv.totalAmount;
+      existing.amount += invoiceNetAmount(inv);
       totalsMap.set(inv.currency, existing);
     }
     return Array.from(totalsMap.entries()).map(([currency, t]) => ({ currency, ...t }));
-  }, [yearEntriesHourly, companies, yearRetainerInvoices]);
+  }, [yearEntriesHourly, companies, projects, yearRetainerInvoices]);
 
   const monthHours = monthTotals.reduce((s, t) => s + t.hours, 0);
   const yearHours = yearTotals.reduce((s, t) => s + t.hours, 0);
 
-  // Converted USD totals
+  // Totals converted to the reporting currency
   const convertedMonthTotal = useMemo(() => {
     let total = 0;
     let hasNull = false;
     for (const t of monthTotals) {
-      const usd = convertToUSD(t.amount, t.currency, rates[t.currency]);
-      if (usd == null) { hasNull = true; continue; }
-      total += usd;
+      const converted = convertAmount(t.amount, rates[t.currency]);
+      if (converted == null) { hasNull = true; continue; }
+      total += converted;
     }
     return hasNull ? null : total;
   }, [monthTotals, rates]);
@@ -275,14 +497,14 @@ export default function DashboardPage() {
     let total = 0;
     let hasNull = false;
     for (const t of yearTotals) {
-      const usd = convertToUSD(t.amount, t.currency, rates[t.currency]);
-      if (usd == null) { hasNull = true; continue; }
-      total += usd;
+      const converted = convertAmount(t.amount, rates[t.currency]);
+      if (converted == null) { hasNull = true; continue; }
+      total += converted;
     }
     return hasNull ? null : total;
   }, [yearTotals, rates]);
 
-  // Chart data — convert to USD when rates available
+  // Chart data — converted to the reporting currency when rates are available
   const chartData = useMemo(() => {
     if (!chartOpen) return [];
 
@@ -298,7 +520,7 @@ export default function DashboardPage() {
         if (!co) continue;
         const cur = co.currency;
         const prev = buckets[mi].amounts.get(cur) || 0;
-        buckets[mi].amounts.set(cur, prev + entryAmount(e, co.hourlyRate));
+        buckets[mi].amounts.set(cur, prev + billableAmount(e, co, projectMap));
       }
       // Retainer invoices by month
       for (const inv of yearRetainerInvoices) {
@@ -306,7 +528,7 @@ export default function DashboardPage() {
         const mi = parseInt(inv.retainerMonth.split('-')[1], 10) - 1;
         if (mi >= 0 && mi < 12) {
           const prev = buckets[mi].amounts.get(inv.currency) || 0;
-          buckets[mi].amounts.set(inv.currency, prev + inv.totalAmount);
+          buckets[mi].amounts.set(inv.currency, prev + invoiceNetAmount(inv));
         }
       }
       return buckets;
@@ -322,24 +544,24 @@ export default function DashboardPage() {
         if (!co) continue;
         const bucket = weekMap.get(wk)!;
         const prev = bucket.amounts.get(co.currency) || 0;
-        bucket.amounts.set(co.currency, prev + entryAmount(e, co.hourlyRate));
+        bucket.amounts.set(co.currency, prev + billableAmount(e, co, projectMap));
       }
       return Array.from(weekMap.entries())
         .sort(([a], [b]) => a - b)
         .map(([, v]) => v);
     }
-  }, [chartOpen, chartMode, yearEntriesHourly, yearRetainerInvoices, companyMap]);
+  }, [chartOpen, chartMode, yearEntriesHourly, yearRetainerInvoices, companyMap, projectMap]);
 
-  // Convert chart buckets to USD when all rates available
-  const chartDataUSD = useMemo(() => {
+  // Convert chart buckets to the reporting currency when all rates are available
+  const chartDataConverted = useMemo(() => {
     if (!allRatesAvailable) return null;
     return chartData.map((bucket) => {
-      let usdTotal = 0;
+      let convertedTotal = 0;
       bucket.amounts.forEach((val, cur) => {
-        const converted = convertToUSD(val, cur, rates[cur]);
-        if (converted != null) usdTotal += converted;
+        const converted = convertAmount(val, rates[cur]);
+        if (converted != null) convertedTotal += converted;
       });
-      return { label: bucket.label, usdTotal };
+      return { label: bucket.label, convertedTotal };
     });
   }, [chartData, rates, allRatesAvailable]);
 
@@ -351,10 +573,10 @@ export default function DashboardPage() {
   }, [chartData]);
 
   const maxVal = useMemo(() => {
-    if (chartDataUSD) {
+    if (chartDataConverted) {
       let max = 0;
-      for (const b of chartDataUSD) {
-        if (b.usdTotal > max) max = b.usdTotal;
+      for (const b of chartDataConverted) {
+        if (b.convertedTotal > max) max = b.convertedTotal;
       }
       return max || 1;
     }
@@ -365,9 +587,9 @@ export default function DashboardPage() {
       if (total > max) max = total;
     }
     return max || 1;
-  }, [chartData, chartDataUSD]);
+  }, [chartData, chartDataConverted]);
 
-  const barColors: Record<Currency, string> = { USD: 'bg-blue-500', EUR: 'bg-emerald-500', GBP: 'bg-purple-500' };
+  const barColor = (c: Currency) => BAR_COLORS[allCurrencies.indexOf(c) % BAR_COLORS.length];
 
   // Action items — skip fixed-monthly for uninvoiced entries
   const uninvoicedByCompany = useMemo(() => {
@@ -391,44 +613,52 @@ export default function DashboardPage() {
     return companies.filter((co) => {
       if (!co.isActive || !isFixedMonthly(co) || !co.invoiceRequired) return false;
       return !invoices.some(
-        (i) => i.companyId === co.id && i.billingType === 'fixed_monthly' && i.retainerMonth === currentMonth
+        (i) => i.companyId === co.id && i.billingType === 'fixed_monthly' && i.retainerMonth === currentMonth && i.status !== 'void'
       );
     });
   }, [companies, invoices, currentMonth]);
 
+  // Sent invoices with what is still owed on each after partial payments
   const awaitingPayment = useMemo(
-    () => invoices.filter((i) => i.status === 'sent'),
-    [invoices]
+    () => invoices
+      .filter((i) => i.status === 'sent' && !isCreditNote(i))
+      .map((inv) => {
+        const own = invoicePayments(inv, payments);
+        return { inv, balance: invoiceBalance(inv, own), isPartial: own.length > 0 };
+      }),
+    [invoices, payments]
   );
 
-  // Outstanding AR total in USD
+  // Outstanding AR total in the reporting currency
   const arData = useMemo(() => {
-    let totalUSD = 0;
+    let totalConverted = 0;
     let hasUnconverted = false;
 
     // Sent invoices
-    const invoiceItems = awaitingPayment.map((inv) => {
+    const invoiceItems = awaitingPayment.map(({ inv, balance, isPartial }) => {
       const co = companyMap.get(inv.companyId);
-      const usdAmount = inv.exchangeRateToUSD != null
-        ? inv.totalAmount * inv.exchangeRateToUSD
-        : null;
-      if (usdAmount != null) {
-        totalUSD += usdAmount;
+      // Rate recorded when the invoice was sent, else today's
+      const convertedAmount = convertAmount(balance, recordedRate(inv, reporting) ?? rates[inv.currency]);
+      if (convertedAmount != null) {
+        totalConverted += convertedAmount;
       } else {
         hasUnconverted = true;
       }
       return {
         type: 'invoice' as const,
         inv,
+        balance,
+        isPartial,
         companyName: co?.name ?? 'Unknown',
-        usdAmount,
+        convertedAmount,
         daysOutstanding: daysSince(inv.invoiceDate),
       };
     });
 
-    // IDs already on a sent or paid invoice — those are accounted for above
+    // IDs already on a sent or paid invoice — those are accounted for above —
+    // or left on a voided one, which writes them off
     const invoicedEntryIds = new Set(
-      invoices.filter((i) => i.status === 'sent' || i.status === 'paid').flatMap((i) => i.timeEntryIds)
+      invoices.filter((i) => i.status !== 'draft').flatMap((i) => i.timeEntryIds)
     );
 
     // Unpaid entries: non-invoice companies (not paid) + invoice-required companies (not yet on a sent/paid invoice)
@@ -445,10 +675,10 @@ export default function DashboardPage() {
       })
       .map((e) => {
         const co = companyMap.get(e.companyId)!;
-        const amount = entryAmount(e, co.hourlyRate);
-        const usdAmount = convertToUSD(amount, co.currency, rates[co.currency]);
-        if (usdAmount != null) {
-          totalUSD += usdAmount;
+        const amount = billableAmount(e, co, projectMap);
+        const convertedAmount = convertAmount(amount, rates[co.currency]);
+        if (convertedAmount != null) {
+          totalConverted += convertedAmount;
         } else {
           hasUnconverted = true;
         }
@@ -459,71 +689,74 @@ export default function DashboardPage() {
           currency: co.currency,
           companyName: co.name,
           invoiceRequired: co.invoiceRequired,
-          usdAmount,
+          convertedAmount,
           daysOutstanding: daysSince(e.date),
         };
       });
 
-    return { totalUSD, hasUnconverted, invoiceItems, entryItems, totalItems: invoiceItems.length + entryItems.length };
-  }, [awaitingPayment, companyMap, timeEntries, invoices, rates]);
+    return { totalConverted, hasUnconverted, invoiceItems, entryItems, totalItems: invoiceItems.length + entryItems.length };
+  }, [awaitingPayment, companyMap, projectMap, timeEntries, invoices, rates, reporting]);
 
   const unpaidNonInvoice = arData.entryItems.filter((item) => !item.invoiceRequired);
 
   // Group AR items by company for the AR table
   const arByCompany = useMemo(() => {
-    type ARItem = { key: string; ref: string; hours: number; amount: string; usdAmount: number | null; daysOutstanding: number; isUninvoiced?: boolean };
-    const groups = new Map<string, { companyName: string; items: ARItem[]; subtotalUSD: number; subtotalHours: number }>();
+    type ARItem = { key: string; ref: string; hours: number; amount: string; convertedAmount: number | null; daysOutstanding: number; isUninvoiced?: boolean; isOverdue?: boolean };
+    const groups = new Map<string, { companyName: string; items: ARItem[]; subtotalConverted: number; subtotalHours: number }>();
 
     for (const item of arData.invoiceItems) {
-      const group = groups.get(item.inv.companyId) || { companyName: item.companyName, items: [], subtotalUSD: 0, subtotalHours: 0 };
+      const group = groups.get(item.inv.companyId) || { companyName: item.companyName, items: [], subtotalConverted: 0, subtotalHours: 0 };
       group.items.push({
         key: item.inv.id,
-        ref: `Invoice #${item.inv.invoiceNumber}`,
+        ref: `Invoice #${item.inv.invoiceNumber}${item.isPartial ? ' (partially paid)' : ''}`,
         hours: item.inv.totalHours,
-        amount: formatCurrency(item.inv.totalAmount, item.inv.currency),
-        usdAmount: item.usdAmount,
+        amount: formatCurrency(item.balance, item.inv.currency),
+        convertedAmount: item.convertedAmount,
         daysOutstanding: item.daysOutstanding,
+        isOverdue: isOverdue(item.inv),
       });
       group.subtotalHours += item.inv.totalHours;
-      if (item.usdAmount != null) group.subtotalUSD += item.usdAmount;
+      if (item.convertedAmount != null) group.subtotalConverted += item.convertedAmount;
       groups.set(item.inv.companyId, group);
     }
 
     for (const item of arData.entryItems) {
-      const group = groups.get(item.entry.companyId) || { companyName: item.companyName, items: [], subtotalUSD: 0, subtotalHours: 0 };
+      const group = groups.get(item.entry.companyId) || { companyName: item.companyName, items: [], subtotalConverted: 0, subtotalHours: 0 };
       group.items.push({
         key: item.entry.id,
         ref: item.entry.description || formatDate(item.entry.date),
         hours: item.entry.hours,
         amount: formatCurrency(item.amount, item.currency),
-        usdAmount: item.usdAmount,
+        convertedAmount: item.convertedAmount,
         daysOutstanding: item.daysOutstanding,
         isUninvoiced: item.invoiceRequired,
       });
       group.subtotalHours += item.entry.hours;
-      if (item.usdAmount != null) group.subtotalUSD += item.usdAmount;
+      if (item.convertedAmount != null) group.subtotalConverted += item.convertedAmount;
       groups.set(item.entry.companyId, group);
     }
 
     return Array.from(groups.entries())
       .map(([companyId, group]) => ({ companyId, ...group }))
-      .sort((a, b) => b.subtotalUSD - a.subtotalUSD);
+      .sort((a, b) => b.subtotalConverted - a.subtotalConverted);
   }, [arData]);
 
   function markPaid(entryIds: string[]) {
     const todayStr = today();
-    for (const entry of timeEntries) {
-      if (entryIds.includes(entry.id)) {
-        saveTimeEntry({ ...entry, paidDate: todayStr, updatedAt: new Date().toISOString() });
+    batch(entryIds.length === 1 ? 'Mark entry paid' : `Mark ${entryIds.length} entries paid`, () => {
+      for (const entry of timeEntries) {
+        if (entryIds.includes(entry.id)) {
+          saveTimeEntry({ ...entry, paidDate: todayStr, updatedAt: new Date().toISOString() });
+        }
       }
-    }
+    });
   }
 
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <h2 className="text-2xl font-bold">Dashboard</h2>
-        <button onClick={() => setShowChangelog(true)} className="text-xs text-gray-400 hover:text-blue-600 transition-colors">v1.5.5</button>
+        <button onClick={() => setShowChangelog(true)} className="text-xs text-gray-400 hover:text-blue-600 transition-colors">v1.24</button>
       </div>
       <p className="text-sm text-gray-500 -mt-4">
         New here? Check out the <Link to="/getting-started" className="text-blue-600 hover:text-blue-800 font-medium">Getting Started</Link> guide.
@@ -538,8 +771,8 @@ export default function DashboardPage() {
           <div className="mt-2 space-y-0.5">
             {convertedMonthTotal != null ? (
               <>
-                <p className="text-sm text-indigo-100 font-semibold">{formatCurrency(convertedMonthTotal, 'USD')}</p>
-                {monthTotals.filter((t) => t.currency !== 'USD').map((t) => (
+                <p className="text-sm text-indigo-100 font-semibold">{formatCurrency(convertedMonthTotal, reporting)}</p>
+                {monthTotals.filter((t) => t.currency !== reporting).map((t) => (
                   <p key={t.currency} className="text-xs text-indigo-200">{formatCurrency(t.amount, t.currency)}</p>
                 ))}
               </>
@@ -564,8 +797,8 @@ export default function DashboardPage() {
           <div className="mt-2 space-y-0.5">
             {convertedYearTotal != null ? (
               <>
-                <p className="text-sm text-blue-100 font-semibold">{formatCurrency(convertedYearTotal, 'USD')}</p>
-                {yearTotals.filter((t) => t.currency !== 'USD').map((t) => (
+                <p className="text-sm text-blue-100 font-semibold">{formatCurrency(convertedYearTotal, reporting)}</p>
+                {yearTotals.filter((t) => t.currency !== reporting).map((t) => (
                   <p key={t.currency} className="text-xs text-blue-200">{formatCurrency(t.amount, t.currency)}</p>
                 ))}
               </>
@@ -583,12 +816,12 @@ export default function DashboardPage() {
           </div>
         </div>
 
-        {/* Total Revenue (USD) card */}
+        {/* Total Revenue card */}
         <div className="bg-gradient-to-br from-emerald-500 to-emerald-600 rounded-xl p-5 text-white shadow-lg shadow-emerald-200">
-          <p className="text-xs font-medium text-emerald-200 uppercase tracking-wide mb-2">Total Revenue (USD)</p>
+          <p className="text-xs font-medium text-emerald-200 uppercase tracking-wide mb-2">Total Revenue ({reporting})</p>
           {convertedYearTotal != null ? (
             <>
-              <p className="text-2xl font-bold">{formatCurrency(convertedYearTotal, 'USD')}</p>
+              <p className="text-2xl font-bold">{formatCurrency(convertedYearTotal, reporting)}</p>
               <p className="text-sm text-emerald-100 mt-1">{formatHours(yearHours)} hours</p>
             </>
           ) : ratesLoaded ? (
@@ -611,12 +844,12 @@ export default function DashboardPage() {
           <p className="text-xs font-medium text-amber-200 uppercase tracking-wide mb-2">Accounts Receivable</p>
           {arData.totalItems === 0 ? (
             <>
-              <p className="text-2xl font-bold">{formatCurrency(0, 'USD')}</p>
+              <p className="text-2xl font-bold">{formatCurrency(0, reporting)}</p>
               <p className="text-sm text-amber-100 mt-1">Nothing outstanding</p>
             </>
           ) : (
             <>
-              <p className="text-2xl font-bold">{formatCurrency(arData.totalUSD, 'USD')}</p>
+              <p className="text-2xl font-bold">{formatCurrency(arData.totalConverted, reporting)}</p>
               {arData.hasUnconverted && (
                 <p className="text-xs text-amber-200 mt-0.5">+ unconverted amounts</p>
               )}
@@ -642,7 +875,7 @@ export default function DashboardPage() {
           onClick={() => setChartOpen((o) => !o)}
           className="w-full flex items-center justify-between px-4 py-3 text-sm font-medium text-gray-700 hover:bg-gray-50"
         >
-          <span>Revenue Chart ({year}){chartDataUSD ? ' — USD' : ''}</span>
+          <span>Revenue Chart ({year}){chartDataConverted ? ` — ${reporting}` : ''}</span>
           <span className="text-gray-400">{chartOpen ? '\u25B2' : '\u25BC'}</span>
         </button>
 
@@ -664,11 +897,11 @@ export default function DashboardPage() {
                   Weekly
                 </button>
               </div>
-              {!chartDataUSD && allCurrencies.length > 1 && (
+              {!chartDataConverted && allCurrencies.length > 1 && (
                 <div className="flex items-center gap-3 ml-4 text-xs">
                   {allCurrencies.map((c) => (
                     <span key={c} className="flex items-center gap-1">
-                      <span className={`inline-block w-3 h-3 rounded ${barColors[c]}`} />
+                      <span className={`inline-block w-3 h-3 rounded ${barColor(c)}`} />
                       {c}
                     </span>
                   ))}
@@ -679,29 +912,29 @@ export default function DashboardPage() {
             {/* Bar chart */}
             {chartData.length === 0 ? (
               <p className="text-sm text-gray-400 text-center py-8">No data for {year}</p>
-            ) : chartDataUSD ? (
-              /* USD-converted single-color chart */
+            ) : chartDataConverted ? (
+              /* Converted single-color chart */
               <div>
                 <div className="flex items-end gap-1" style={{ height: '220px' }}>
-                  {chartDataUSD.map((bucket, i) => {
-                    const barHeight = Math.round((bucket.usdTotal / maxVal) * 184);
+                  {chartDataConverted.map((bucket, i) => {
+                    const barHeight = Math.round((bucket.convertedTotal / maxVal) * 184);
                     return (
                       <div key={i} className="flex-1 flex flex-col items-end justify-end group relative min-w-0" style={{ height: '220px' }}>
                         {/* Tooltip */}
                         <div className="absolute bottom-full mb-1 hidden group-hover:block bg-gray-800 text-white text-xs rounded px-2 py-1 whitespace-nowrap z-10 left-1/2 -translate-x-1/2">
                           <p className="font-medium">{bucket.label}</p>
-                          <p>{formatCurrency(bucket.usdTotal, 'USD')}</p>
+                          <p>{formatCurrency(bucket.convertedTotal, reporting)}</p>
                         </div>
                         {/* Dollar label above bar */}
-                        {bucket.usdTotal > 0 && (
+                        {bucket.convertedTotal > 0 && (
                           <p className="text-[10px] font-medium text-gray-500 mb-0.5 truncate w-full text-center">
-                            {formatCurrencyShort(bucket.usdTotal, 'USD')}
+                            {formatCurrencyShort(bucket.convertedTotal, reporting)}
                           </p>
                         )}
                         {/* Single bar */}
                         <div
                           className="w-full bg-blue-500 rounded-t"
-                          style={{ height: `${Math.max(barHeight, bucket.usdTotal > 0 ? 4 : 0)}px` }}
+                          style={{ height: `${Math.max(barHeight, bucket.convertedTotal > 0 ? 4 : 0)}px` }}
                         />
                         {/* Label */}
                         <p className="text-[10px] text-gray-400 mt-1 truncate w-full text-center">{bucket.label}</p>
@@ -750,7 +983,7 @@ export default function DashboardPage() {
                             return (
                               <div
                                 key={c}
-                                className={`${barColors[c]} w-full`}
+                                className={`${barColor(c)} w-full`}
                                 style={{ height: `${segPct}%` }}
                               />
                             );
@@ -778,6 +1011,15 @@ export default function DashboardPage() {
       {arData.totalItems > 0 && (
         <div className="bg-white border rounded-xl p-4 shadow-sm">
           <h3 className="text-sm font-semibold text-gray-700 mb-3">Accounts Receivable</h3>
+          {arData.invoiceItems.length > 0 && (
+            <div className="mb-4">
+              <p className="text-xs text-gray-400 uppercase tracking-wide mb-2">Invoice Aging</p>
+              <AgingSummary
+                items={arData.invoiceItems.map((item) => ({ invoice: item.inv, converted: item.convertedAmount }))}
+                reporting={reporting}
+              />
+            </div>
+          )}
           <div className="overflow-x-auto">
             <table className="w-full text-sm">
               <thead>
@@ -785,7 +1027,7 @@ export default function DashboardPage() {
                   <th className="pb-2 font-medium">Reference</th>
                   <th className="pb-2 font-medium text-right">Hours</th>
                   <th className="pb-2 font-medium text-right">Amount</th>
-                  <th className="pb-2 font-medium text-right">USD Equiv.</th>
+                  <th className="pb-2 font-medium text-right">{reporting} Equiv.</th>
                   <th className="pb-2 font-medium text-right">Days Out</th>
                 </tr>
               </thead>
@@ -799,6 +1041,7 @@ export default function DashboardPage() {
                       <tr key={item.key} className="border-t border-gray-50">
                         <td className="py-1.5 pl-4 text-gray-500 truncate max-w-64">
                           {item.isUninvoiced && <span className="text-xs text-orange-500 mr-1">Uninvoiced</span>}
+                          {item.isOverdue && <span className="text-xs text-red-600 mr-1">Overdue</span>}
                           {item.ref}
                         </td>
                         <td className="py-1.5 text-right tabular-nums text-gray-500">
@@ -806,7 +1049,7 @@ export default function DashboardPage() {
                         </td>
                         <td className="py-1.5 text-right tabular-nums">{item.amount}</td>
                         <td className="py-1.5 text-right tabular-nums">
-                          {item.usdAmount != null ? formatCurrency(item.usdAmount, 'USD') : <span className="text-gray-400">--</span>}
+                          {item.convertedAmount != null ? formatCurrency(item.convertedAmount, reporting) : <span className="text-gray-400">--</span>}
                         </td>
                         <td className="py-1.5 text-right tabular-nums">
                           <span className={item.daysOutstanding > 30 ? 'text-red-600 font-medium' : item.daysOutstanding > 14 ? 'text-amber-600' : 'text-gray-600'}>
@@ -823,7 +1066,7 @@ export default function DashboardPage() {
                         </td>
                         <td></td>
                         <td className="py-1.5 text-right tabular-nums font-medium text-gray-700">
-                          {formatCurrency(group.subtotalUSD, 'USD')}
+                          {formatCurrency(group.subtotalConverted, reporting)}
                         </td>
                         <td></td>
                       </tr>
@@ -836,7 +1079,7 @@ export default function DashboardPage() {
                   <td className="pt-2">Total</td>
                   <td></td>
                   <td></td>
-                  <td className="pt-2 text-right tabular-nums">{formatCurrency(arData.totalUSD, 'USD')}</td>
+                  <td className="pt-2 text-right tabular-nums">{formatCurrency(arData.totalConverted, reporting)}</td>
                   <td></td>
                 </tr>
               </tfoot>
@@ -877,18 +1120,21 @@ export default function DashboardPage() {
             <p className="text-sm text-gray-400">No outstanding payments</p>
           ) : (
             <div className="space-y-2">
-              {awaitingPayment.map((inv) => {
+              {awaitingPayment.map(({ inv, balance, isPartial }) => {
                 const co = companyMap.get(inv.companyId);
-                const usdEquiv = inv.currency !== 'USD' && inv.exchangeRateToUSD
-                  ? convertToUSD(inv.totalAmount, inv.currency, inv.exchangeRateToUSD)
+                const convertedEquiv = inv.currency !== reporting
+                  ? convertAmount(balance, recordedRate(inv, reporting))
                   : null;
                 return (
                   <div key={inv.id} className="flex items-center justify-between text-sm">
-                    <span>{co?.name} <span className="text-gray-400">#{inv.invoiceNumber}</span></span>
+                    <span>
+                      {co?.name} <span className="text-gray-400">#{inv.invoiceNumber}</span>
+                      {isPartial && <span className="text-xs text-orange-600 ml-1">partially paid</span>}
+                    </span>
                     <span className="font-medium tabular-nums">
-                      {formatCurrency(inv.totalAmount, inv.currency)}
-                      {usdEquiv != null && (
-                        <span className="text-xs text-gray-400 ml-1">({formatCurrency(usdEquiv, 'USD')})</span>
+                      {formatCurrency(balance, inv.currency)}
+                      {convertedEquiv != null && (
+                        <span className="text-xs text-gray-400 ml-1">({formatCurrency(convertedEquiv, reporting)})</span>
                       )}
                     </span>
                   </div>
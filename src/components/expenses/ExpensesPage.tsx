@@ -1,13 +1,22 @@
 import { useState, useMemo } from 'react';
-import { useCompanies, useExpenses as useExpensesCtx } from '../../contexts/StorageContext';
-import type { Expense, ExpenseCategory, Currency } from '../../types';
-import { EXPENSE_CATEGORY_LABELS } from '../../types';
+import { useCompanies, useExpenses as useExpensesCtx, useInvoices, useProfile } from '../../contexts/StorageContext';
+import { useHistory } from '../../hooks/useHistory';
+import type { Expense, ExpenseCategory, ExpenseRecurrence, RecurrenceFrequency } from '../../types';
+import { EXPENSE_CATEGORY_LABELS, RECURRENCE_FREQUENCY_LABELS } from '../../types';
 import { formatDate, today, startOfYear, endOfYear, isInRange } from '../../utils/dateUtils';
 import { formatCurrency } from '../../utils/formatCurrency';
+import { currencyOptions, currencyName, getReportingCurrency } from '../../utils/currencies';
+import { convertAmount } from '../../utils/exchangeRate';
+import { useExchangeRates } from '../../hooks/useExchangeRates';
+import { deleteReceipts } from '../../utils/receiptStore';
+import { copyExpense, defaultRecurrence, dueExpenseOccurrences, editedRecurrence, nextOccurrence } from '../../utils/recurringExpenses';
 import Modal from '../shared/Modal';
+import ReceiptAttachments from './ReceiptAttachments';
+import ReceiptThumbnail from './ReceiptThumbnail';
 
 const PAYMENT_METHODS = ['Credit Card', 'Debit', 'Cash', 'Check', 'PayPal', 'Wire', 'Other'];
 const CATEGORIES = Object.keys(EXPENSE_CATEGORY_LABELS) as ExpenseCategory[];
+const FREQUENCIES = Object.keys(RECURRENCE_FREQUENCY_LABELS) as RecurrenceFrequency[];
 
 const emptyExpense = (): Omit<Expense, 'id' | 'createdAt' | 'updatedAt'> => ({
   date: today(),
@@ -26,13 +35,33 @@ const emptyExpense = (): Omit<Expense, 'id' | 'createdAt' | 'updatedAt'> => ({
 export default function ExpensesPage() {
   const { companies } = useCompanies();
   const { expenses, saveExpense, deleteExpense } = useExpensesCtx();
+  const { invoices } = useInvoices();
+  const { profile } = useProfile();
+  const { batch } = useHistory();
   const [editing, setEditing] = useState<Expense | null>(null);
   const [isNew, setIsNew] = useState(false);
+  // Receipts on the expense when the editor opened, to tell which were added since
+  const [openedReceiptIds, setOpenedReceiptIds] = useState<string[]>([]);
   const [filterCategory, setFilterCategory] = useState('');
   const [filterYear, setFilterYear] = useState(String(new Date().getFullYear()));
 
   const companyMap = useMemo(() => new Map(companies.map((c) => [c.id, c])), [companies]);
 
+  // Generated recurring expenses waiting to be confirmed, from any year
+  const pendingReview = useMemo(
+    () => expenses.filter((e) => e.pendingReview).sort((a, b) => a.date.localeCompare(b.date)),
+    [expenses],
+  );
+
+  // Invoice each billable expense was passed through on
+  const billedOn = useMemo(() => {
+    const map = new Map<string, string>();
+    for (const inv of invoices) {
+      for (const id of inv.expenseIds || []) map.set(id, inv.invoiceNumber || 'draft');
+    }
+    return map;
+  }, [invoices]);
+
   const years = useMemo(() => {
     const set = new Set<string>();
     set.add(String(new Date().getFullYear()));
@@ -56,23 +85,32 @@ export default function ExpensesPage() {
       .sort((a, b) => b.date.localeCompare(a.date));
   }, [expenses, yearStart, yearEnd, filterCategory]);
 
-  const ytdByCategory = useMemo(() => {
+  // Totals in the reporting currency; expenses in other currencies convert at today's rate
+  const reporting = getReportingCurrency(profile);
+  const { rates } = useExchangeRates(filteredExpenses.map((e) => e.currency), reporting);
+  const { ytdByCategory, hasUnconverted } = useMemo(() => {
     const map = new Map<ExpenseCategory, number>();
+    let hasUnconverted = false;
     for (const e of filteredExpenses) {
-      map.set(e.category, (map.get(e.category) || 0) + e.amount);
+      const amount = convertAmount(e.amount, rates[e.currency]);
+      if (amount == null) { hasUnconverted = true; continue; }
+      map.set(e.category, (map.get(e.category) || 0) + amount);
     }
-    return Array.from(map.entries())
+    const ytdByCategory = Array.from(map.entries())
       .map(([category, total]) => ({ category, total }))
       .sort((a, b) => b.total - a.total);
-  }, [filteredExpenses]);
+    return { ytdByCategory, hasUnconverted };
+  }, [filteredExpenses, rates]);
 
   const grandTotal = ytdByCategory.reduce((sum, row) => sum + row.total, 0);
 
   function openNew() {
     setIsNew(true);
+    setOpenedReceiptIds([]);
     const now = new Date().toISOString();
     setEditing({
       ...emptyExpense(),
+      currency: reporting,
       id: crypto.randomUUID(),
       createdAt: now,
       updatedAt: now,
@@ -81,33 +119,71 @@ export default function ExpensesPage() {
 
   function openEdit(exp: Expense) {
     setIsNew(false);
+    setOpenedReceiptIds((exp.receipts || []).map((r) => r.id));
     setEditing({ ...exp });
   }
 
+  // Files attached in a cancelled edit are never referenced, so drop them now.
+  // Ones removed from a saved expense stay until Settings clears unattached
+  // receipts, so undo can bring them back.
+  function cancelEdit() {
+    const added = (editing?.receipts || []).filter((r) => !openedReceiptIds.includes(r.id));
+    deleteReceipts(added.map((r) => r.id)).catch(() => {});
+    setEditing(null);
+  }
+
+  function setRecurrence(patch: Partial<ExpenseRecurrence>) {
+    setEditing((prev) => prev && { ...prev, recurrence: { ...(prev.recurrence ?? defaultRecurrence(prev.date)), ...patch } });
+  }
+
   function handleSave() {
     if (!editing || !editing.description.trim() || editing.amount <= 0) return;
-    saveExpense({
+    const saved: Expense = {
       ...editing,
       companyId: editing.companyId || undefined,
+      // Only an expense with a client to bill can be billable
+      billable: editing.companyId && editing.billable ? true : undefined,
+      markupPercent: editing.companyId && editing.billable && editing.markupPercent ? editing.markupPercent : undefined,
+      receipts: editing.receipts?.length ? editing.receipts : undefined,
       vendor: editing.vendor || undefined,
       paymentMethod: editing.paymentMethod || undefined,
       notes: editing.notes || undefined,
+      recurrence: editedRecurrence(editing, expenses.find((e) => e.id === editing.id)),
+      // Saving a generated expense confirms it
+      pendingReview: undefined,
       updatedAt: new Date().toISOString(),
-    });
+    };
+    // A recurring expense dated in the past catches up straight away
+    const due = dueExpenseOccurrences(saved, expenses);
+    if (due) {
+      batch('Save recurring expense', () => {
+        saveExpense(due.source);
+        due.occurrences.forEach(saveExpense);
+      });
+    } else {
+      saveExpense(saved);
+    }
     setEditing(null);
   }
 
-  function duplicate(exp: Expense) {
+  function confirmGenerated(list: Expense[]) {
     const now = new Date().toISOString();
-    saveExpense({
-      ...exp,
-      id: crypto.randomUUID(),
-      date: today(),
-      createdAt: now,
-      updatedAt: now,
+    batch(`Confirm ${list.length} expense${list.length !== 1 ? 's' : ''}`, () => {
+      for (const exp of list) saveExpense({ ...exp, pendingReview: undefined, updatedAt: now });
     });
   }
 
+  function handleDelete(exp: Expense) {
+    const message = exp.recurrence
+      ? 'Delete this expense? This ends its recurring series; expenses already generated from it are kept.'
+      : 'Delete this expense?';
+    if (confirm(message)) deleteExpense(exp.id);
+  }
+
+  function duplicate(exp: Expense) {
+    saveExpense(copyExpense(exp));
+  }
+
   return (
     <div>
       <div className="flex items-center justify-between mb-4">
@@ -126,6 +202,36 @@ export default function ExpensesPage() {
         </div>
       </div>
 
+      {/* Generated recurring expenses to review */}
+      {pendingReview.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 mb-6">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-semibold text-amber-800">
+              {pendingReview.length} recurring expense{pendingReview.length !== 1 ? 's' : ''} to review
+            </h3>
+            <button onClick={() => confirmGenerated(pendingReview)} className="text-xs text-amber-800 hover:text-amber-900 font-medium">
+              Confirm all
+            </button>
+          </div>
+          <p className="text-xs text-amber-700 mb-3">Check the amount against the statement and attach the receipt, then confirm.</p>
+          <div className="space-y-1">
+            {pendingReview.map((exp) => (
+              <div key={exp.id} className="flex items-center gap-2 px-3 py-1.5 bg-white rounded border text-sm">
+                <span className="text-gray-400 shrink-0 w-24">{formatDate(exp.date)}</span>
+                <span className="font-medium shrink-0 w-28 truncate">{exp.vendor || ''}</span>
+                <span className="text-gray-600 flex-1 min-w-0 truncate">{exp.description}</span>
+                <span className="text-right shrink-0 w-24 font-medium tabular-nums">{formatCurrency(exp.amount, exp.currency)}</span>
+                <div className="flex gap-1 shrink-0 w-32 justify-end">
+                  <button onClick={() => confirmGenerated([exp])} className="text-xs text-green-600 hover:text-green-800 px-1">Confirm</button>
+                  <button onClick={() => openEdit(exp)} className="text-xs text-blue-600 hover:text-blue-800 px-1">Edit</button>
+                  <button onClick={() => handleDelete(exp)} className="text-xs text-red-500 hover:text-red-700 px-1">Del</button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* YTD Summary by Category */}
       {ytdByCategory.length > 0 && (
         <div className="bg-white border rounded-xl p-4 shadow-sm mb-6">
@@ -134,12 +240,15 @@ export default function ExpensesPage() {
             {ytdByCategory.map(({ category, total }) => (
               <div key={category} className="flex items-center justify-between text-sm">
                 <span className="text-gray-600">{EXPENSE_CATEGORY_LABELS[category]}</span>
-                <span className="font-medium tabular-nums">{formatCurrency(total, 'USD')}</span>
+                <span className="font-medium tabular-nums">{formatCurrency(total, reporting)}</span>
               </div>
             ))}
             <div className="flex items-center justify-between text-sm pt-2 border-t font-semibold bg-emerald-50 -mx-4 px-4 py-2 rounded-b-xl -mb-4">
               <span>Total Deductions</span>
-              <span className="tabular-nums">{formatCurrency(grandTotal, 'USD')}</span>
+              <span className="tabular-nums">
+                {formatCurrency(grandTotal, reporting)}
+                {hasUnconverted && <span className="text-xs font-normal text-gray-500 ml-1">+ unconverted amounts</span>}
+              </span>
             </div>
           </div>
         </div>
@@ -160,8 +269,16 @@ export default function ExpensesPage() {
                 <span className="text-gray-600 flex-1 min-w-0 truncate">
                   {exp.description}
                   {co && <span className="text-xs text-gray-400 ml-2">({co.name})</span>}
+                  {exp.billable && (
+                    <span className="text-xs text-purple-600 ml-2">
+                      {billedOn.has(exp.id) ? `billed on #${billedOn.get(exp.id)}` : 'billable'}
+                    </span>
+                  )}
                 </span>
-                {exp.hasReceipt && <span className="text-xs text-green-600 shrink-0" title="Receipt on file">R</span>}
+                {exp.receipts?.length
+                  ? <ReceiptThumbnail receipt={exp.receipts[0]} />
+                  : exp.hasReceipt && <span className="text-xs text-green-600 shrink-0" title="Receipt on file">R</span>}
+                {exp.pendingReview && <span className="text-xs text-amber-600 shrink-0">to review</span>}
                 {exp.recurring && <span className="text-xs text-blue-500 shrink-0" title="Recurring">&#x21bb;</span>}
                 <span className="text-right shrink-0 w-24 font-medium tabular-nums">
                   {formatCurrency(exp.amount, exp.currency)}
@@ -169,7 +286,7 @@ export default function ExpensesPage() {
                 <div className="flex gap-1 shrink-0 w-24 justify-end">
                   <button onClick={() => openEdit(exp)} className="text-xs text-blue-600 hover:text-blue-800 px-1">Edit</button>
                   <button onClick={() => duplicate(exp)} className="text-xs text-gray-500 hover:text-gray-700 px-1">Dup</button>
-                  <button onClick={() => { if (confirm('Delete this expense?')) deleteExpense(exp.id); }} className="text-xs text-red-500 hover:text-red-700 px-1">Del</button>
+                  <button onClick={() => handleDelete(exp)} className="text-xs text-red-500 hover:text-red-700 px-1">Del</button>
                 </div>
               </div>
             );
@@ -178,7 +295,7 @@ export default function ExpensesPage() {
       </div>
 
       {/* Add/Edit Modal */}
-      <Modal open={!!editing} onClose={() => setEditing(null)} title={isNew ? 'Add Expense' : 'Edit Expense'}>
+      <Modal open={!!editing} onClose={cancelEdit} title={isNew ? 'Add Expense' : 'Edit Expense'}>
         {editing && (
           <div className="space-y-4">
             <div className="grid grid-cols-2 gap-4">
@@ -229,12 +346,12 @@ export default function ExpensesPage() {
                 <label className="block text-sm font-medium text-gray-700 mb-1">Currency</label>
                 <select
                   value={editing.currency}
-                  onChange={(e) => setEditing({ ...editing, currency: e.target.value as Currency })}
+                  onChange={(e) => setEditing({ ...editing, currency: e.target.value })}
                   className="w-full border rounded-md px-3 py-2 text-sm"
                 >
-                  <option value="USD">USD</option>
-                  <option value="EUR">EUR</option>
-                  <option value="GBP">GBP</option>
+                  {currencyOptions(profile, editing.currency).map((c) => (
+                    <option key={c} value={c}>{c} — {currencyName(c)}</option>
+                  ))}
                 </select>
               </div>
             </div>
@@ -272,6 +389,34 @@ export default function ExpensesPage() {
                 {companies.filter((c) => c.isActive).map((c) => <option key={c.id} value={c.id}>{c.name}</option>)}
               </select>
             </div>
+            {editing.companyId && (
+              <div className="flex items-center gap-6">
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={!!editing.billable}
+                    onChange={(e) => setEditing({ ...editing, billable: e.target.checked })}
+                    className="rounded"
+                  />
+                  Billable to client
+                </label>
+                {editing.billable && (
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    Markup
+                    <input
+                      type="number"
+                      min={0}
+                      step={1}
+                      value={editing.markupPercent ?? ''}
+                      onChange={(e) => setEditing({ ...editing, markupPercent: parseFloat(e.target.value) || undefined })}
+                      className="w-20 border rounded-md px-2 py-1 text-sm text-right"
+                      placeholder="0"
+                    />
+                    %
+                  </label>
+                )}
+              </div>
+            )}
             <div className="flex items-center gap-6">
               <label className="flex items-center gap-2 text-sm text-gray-700">
                 <input
@@ -282,16 +427,116 @@ export default function ExpensesPage() {
                 />
                 Receipt on file
               </label>
-              <label className="flex items-center gap-2 text-sm text-gray-700">
-                <input
-                  type="checkbox"
-                  checked={editing.recurring}
-                  onChange={(e) => setEditing({ ...editing, recurring: e.target.checked })}
-                  className="rounded"
-                />
-                Recurring expense
-              </label>
+              {!editing.recurringSourceId && (
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={editing.recurring}
+                    onChange={(e) => setEditing({
+                      ...editing,
+                      recurring: e.target.checked,
+                      recurrence: e.target.checked ? editing.recurrence ?? defaultRecurrence(editing.date) : undefined,
+                    })}
+                    className="rounded"
+                  />
+                  Recurring expense
+                </label>
+              )}
             </div>
+            {editing.recurringSourceId && (
+              <p className="text-xs text-gray-500 -mt-2">
+                Generated from a recurring expense{editing.pendingReview ? '; saving confirms it' : ''}.
+              </p>
+            )}
+            {editing.recurring && !editing.recurringSourceId && (() => {
+              const recurrence = editing.recurrence ?? defaultRecurrence(editing.date);
+              const changes = recurrence.amountChanges || [];
+              const next = nextOccurrence({ ...editing, recurrence });
+              return (
+                <div className="bg-gray-50 border rounded-lg p-3 space-y-3">
+                  <div className="grid grid-cols-3 gap-3">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-600 mb-1">Repeats</label>
+                      <select
+                        value={recurrence.frequency}
+                        onChange={(e) => setRecurrence({ frequency: e.target.value as RecurrenceFrequency })}
+                        className="w-full border rounded-md px-2 py-1.5 text-sm bg-white"
+                      >
+                        {FREQUENCIES.map((f) => <option key={f} value={f}>{RECURRENCE_FREQUENCY_LABELS[f]}</option>)}
+                      </select>
+                    </div>
+                    {recurrence.frequency !== 'weekly' && (
+                      <div>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">On day</label>
+                        <input
+                          type="number"
+                          min={1}
+                          max={31}
+                          value={recurrence.day}
+                          onChange={(e) => setRecurrence({ day: Math.min(Math.max(parseInt(e.target.value, 10) || 1, 1), 31) })}
+                          className="w-full border rounded-md px-2 py-1.5 text-sm"
+                        />
+                      </div>
+                    )}
+                    <div>
+                      <label className="block text-xs font-medium text-gray-600 mb-1">Ends (optional)</label>
+                      <input
+                        type="date"
+                        value={recurrence.endDate || ''}
+                        min={editing.date}
+                        onChange={(e) => setRecurrence({ endDate: e.target.value || undefined })}
+                        className="w-full border rounded-md px-2 py-1.5 text-sm"
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <div className="flex items-center justify-between mb-1">
+                      <label className="text-xs font-medium text-gray-600">Price changes</label>
+                      <button
+                        onClick={() => setRecurrence({ amountChanges: [...changes, { from: today(), amount: editing.amount }] })}
+                        className="text-xs text-blue-600 hover:text-blue-800 font-medium"
+                      >
+                        + Add
+                      </button>
+                    </div>
+                    {changes.map((c, i) => (
+                      <div key={i} className="flex items-center gap-2 mb-1 text-sm">
+                        <span className="text-xs text-gray-500">From</span>
+                        <input
+                          type="date"
+                          value={c.from}
+                          onChange={(e) => setRecurrence({ amountChanges: changes.map((x, j) => (j === i ? { ...x, from: e.target.value } : x)) })}
+                          className="border rounded-md px-2 py-1 text-sm"
+                        />
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.01}
+                          value={c.amount || ''}
+                          onChange={(e) => setRecurrence({ amountChanges: changes.map((x, j) => (j === i ? { ...x, amount: parseFloat(e.target.value) || 0 } : x)) })}
+                          className="w-28 border rounded-md px-2 py-1 text-sm text-right"
+                        />
+                        <span className="text-xs text-gray-500">{editing.currency}</span>
+                        <button
+                          onClick={() => setRecurrence({ amountChanges: changes.filter((_, j) => j !== i) })}
+                          className="text-red-400 hover:text-red-600 text-sm px-1"
+                        >
+                          ✕
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {next ? `Next one on ${formatDate(next)}, added for review when it's due.` : 'The series has ended.'}
+                  </p>
+                </div>
+              );
+            })()}
+            <ReceiptAttachments
+              receipts={editing.receipts || []}
+              onChange={(receipts) => setEditing((prev) => prev && { ...prev, receipts, hasReceipt: prev.hasReceipt || receipts.length > 0 })}
+              driveLabel={`${editing.date} ${editing.vendor || editing.description}`.trim()}
+            />
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
               <textarea
@@ -302,7 +547,7 @@ export default function ExpensesPage() {
               />
             </div>
             <div className="flex justify-end gap-2 pt-2 border-t">
-              <button onClick={() => setEditing(null)} className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800">Cancel</button>
+              <button onClick={cancelEdit} className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800">Cancel</button>
               <button onClick={handleSave} className="bg-blue-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-700">
                 {isNew ? 'Add Expense' : 'Save'}
               </button>
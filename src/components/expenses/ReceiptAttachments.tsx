@@ -0,0 +1,81 @@
+import { useRef, useState } from 'react';
+import type { ExpenseReceipt } from '../../types';
+import { addReceipt, RECEIPT_ACCEPT } from '../../utils/receiptStore';
+import { canUploadReceipts, isReceiptUploadEnabled, uploadReceipt } from '../../services/driveReceipts';
+import ReceiptThumbnail from './ReceiptThumbnail';
+
+interface Props {
+  receipts: ExpenseReceipt[];
+  onChange: (receipts: ExpenseReceipt[]) => void;
+  driveLabel: string; // prefixed to the file name on Drive
+}
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export default function ReceiptAttachments({ receipts, onChange, driveLabel }: Props) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  async function handleFiles(e: React.ChangeEvent<HTMLInputElement>) {
+    const files = Array.from(e.target.files || []);
+    if (fileRef.current) fileRef.current.value = '';
+    if (files.length === 0) return;
+    setBusy(true);
+    setError('');
+    const added: ExpenseReceipt[] = [];
+    const errors: string[] = [];
+    const upload = isReceiptUploadEnabled() && canUploadReceipts();
+    for (const file of files) {
+      try {
+        const receipt = await addReceipt(file);
+        if (upload) {
+          // A failed upload leaves the receipt local; Settings can retry it
+          receipt.driveFileId = await uploadReceipt(receipt, file, driveLabel).catch(() => undefined);
+        }
+        added.push(receipt);
+      } catch (err) {
+        errors.push(err instanceof Error ? err.message : `Could not attach ${file.name}.`);
+      }
+    }
+    if (added.length > 0) onChange([...receipts, ...added]);
+    setError(errors.join(' '));
+    setBusy(false);
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <label className="block text-sm font-medium text-gray-700">Receipts</label>
+        <label className={`text-sm text-blue-600 hover:text-blue-800 font-medium cursor-pointer ${busy ? 'opacity-50 pointer-events-none' : ''}`}>
+          {busy ? 'Attaching…' : '+ Attach'}
+          <input ref={fileRef} type="file" accept={RECEIPT_ACCEPT} multiple onChange={handleFiles} className="hidden" />
+        </label>
+      </div>
+      {receipts.length > 0 ? (
+        <div className="space-y-1.5">
+          {receipts.map((r) => (
+            <div key={r.id} className="flex items-center gap-3 text-sm">
+              <ReceiptThumbnail receipt={r} />
+              <span className="flex-1 min-w-0 truncate">{r.name}</span>
+              <span className="text-xs text-gray-400 shrink-0">
+                {formatSize(r.size)}{r.driveFileId ? ' · on Drive' : ''}
+              </span>
+              <button
+                onClick={() => onChange(receipts.filter((x) => x.id !== r.id))}
+                className="text-red-400 hover:text-red-600 text-sm px-1"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-gray-400">Images or PDFs up to 10 MB, kept in this browser.</p>
+      )}
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react';
+import type { ExpenseReceipt } from '../../types';
+import { getReceiptBlob, getReceiptThumbnail } from '../../utils/receiptStore';
+import { driveFileUrl } from '../../services/driveReceipts';
+
+interface Props {
+  receipt: ExpenseReceipt;
+  size?: 'sm' | 'md';
+}
+
+// Thumbnail of an attached receipt that opens the file. A receipt attached on
+// another device opens from Drive, if it was uploaded there.
+export default function ReceiptThumbnail({ receipt, size = 'sm' }: Props) {
+  const [thumbnail, setThumbnail] = useState<string | null>(null);
+  const [missing, setMissing] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    getReceiptThumbnail(receipt.id)
+      .then((t) => { if (!cancelled) setThumbnail(t); })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [receipt.id]);
+
+  async function open(e: React.MouseEvent) {
+    e.stopPropagation();
+    const blob = await getReceiptBlob(receipt.id).catch(() => null);
+    if (blob) {
+      const url = URL.createObjectURL(blob);
+      window.open(url, '_blank');
+      // Give the new tab time to load it before letting go
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } else if (receipt.driveFileId) {
+      window.open(driveFileUrl(receipt.driveFileId), '_blank', 'noopener');
+    } else {
+      setMissing(true);
+    }
+  }
+
+  const box = size === 'sm' ? 'w-7 h-7 text-[9px]' : 'w-16 h-16 text-xs';
+  const title = missing ? `${receipt.name} — not on this device` : receipt.name;
+
+  return (
+    <button
+      onClick={open}
+      title={title}
+      className={`${box} shrink-0 border rounded overflow-hidden bg-gray-50 flex items-center justify-center text-gray-500 hover:border-blue-400 ${missing ? 'opacity-50' : ''}`}
+    >
+      {thumbnail
+        ? <img src={thumbnail} alt={receipt.name} className="w-full h-full object-cover" />
+        : <span className="font-medium">{receipt.type === 'application/pdf' ? 'PDF' : 'IMG'}</span>}
+    </button>
+  );
+}
@@ -19,7 +19,7 @@ export default function GettingStartedPage() {
             Go to the <Link to="/companies" className="text-blue-600 hover:text-blue-800 font-medium">Companies</Link> page and add your clients. For each company you can set:
           </p>
           <ul className="mt-2 text-sm text-gray-600 list-disc list-inside space-y-1">
-            <li>Hourly rate and currency (USD, EUR, or GBP)</li>
+            <li>Hourly rate and currency (add the currencies you bill in under Settings)</li>
             <li>Whether they require invoices or pay per-entry</li>
             <li>Payment terms, payment method, and contact info</li>
             <li>Projects within each company to categorize your work</li>
@@ -57,7 +57,7 @@ export default function GettingStartedPage() {
             Payment tracking depends on how the company is set up:
           </p>
           <ul className="mt-2 text-sm text-gray-600 list-disc list-inside space-y-1">
-            <li><strong>Invoice-required companies</strong> — mark invoices as paid on the Invoices page</li>
+            <li><strong>Invoice-required companies</strong> — record payments against an invoice (partial payments are fine) or use Mark Paid on the Invoices page</li>
             <li><strong>Non-invoice companies</strong> — mark individual entries as paid directly on the Time page or Dashboard</li>
           </ul>
           <p className="text-sm text-gray-600 mt-2">
@@ -116,7 +116,7 @@ export default function GettingStartedPage() {
         <div className="bg-white border rounded-xl p-5 shadow-sm">
           <h3 className="text-sm font-semibold text-gray-700 mb-1">Local-First SPA</h3>
           <p className="text-sm text-gray-600">
-            Consulting Tracker is a local-first single-page application. All data is stored in your browser's <code className="text-xs bg-gray-100 px-1 py-0.5 rounded">localStorage</code> — there is no backend server. The app works offline and loads instantly because it never waits on a network request for core functionality.
+            Consulting Tracker is a local-first single-page application. All data is stored in your browser's <code className="text-xs bg-gray-100 px-1 py-0.5 rounded">IndexedDB</code> (falling back to <code className="text-xs bg-gray-100 px-1 py-0.5 rounded">localStorage</code> where IndexedDB is unavailable) — there is no backend server. The app works offline and loads instantly because it never waits on a network request for core functionality.
           </p>
         </div>
 
@@ -138,7 +138,7 @@ export default function GettingStartedPage() {
           </p>
           <ol className="text-sm text-gray-600 list-decimal list-inside space-y-1">
             <li>User action updates React state via the StorageContext</li>
-            <li>State change is immediately persisted to localStorage</li>
+            <li>State change is immediately persisted to IndexedDB — only the changed record is written</li>
             <li>If Google Sheets is connected, the sync manager pushes changes to the cloud (debounced)</li>
           </ol>
           <p className="text-sm text-gray-600 mt-2">
@@ -158,7 +158,10 @@ export default function GettingStartedPage() {
           <pre className="mt-2 text-xs text-gray-600 bg-gray-50 rounded-lg p-3 overflow-x-auto">{`src/
   types/              TypeScript interfaces
   utils/              Pure utility functions
-    storage.ts          localStorage CRUD layer
+    storage.ts          CRUD layer (in-memory, write-behind)
+    storageAdapter.ts   Pluggable backend interface
+    indexedDbAdapter.ts IndexedDB backend
+    storageMigrations.ts Numbered data migrations
     calculations.ts     Amount & totals logic
     dateUtils.ts        Date helpers (ISO strings)
     formatCurrency.ts   Number formatting
@@ -167,11 +170,12 @@ export default function GettingStartedPage() {
     googleAuth.ts       OAuth2 token flow
     sheetsDataMapper.ts Data-to-rows mapping
     syncManager.ts      Cloud sync management
+    syncConflicts.ts    Field-level conflict diff
   contexts/
     StorageContext.tsx   Global state provider
     SyncContext.tsx      Google Sheets sync state
   components/
-    layout/             App shell & navigation
+    layout/             App shell, navigation, conflict review
     dashboard/          Summary cards, charts, quick entry
     time/               Time entry list & forms
     invoices/           Invoice CRUD & print
@@ -193,7 +197,7 @@ export default function GettingStartedPage() {
             <li><strong>No backend needed</strong> — OAuth and API calls happen client-side</li>
           </ul>
           <p className="text-sm text-gray-600 mt-2">
-            A data mapper layer (<code className="text-xs bg-gray-100 px-1 py-0.5 rounded">sheetsDataMapper.ts</code>) translates between app models and spreadsheet rows. On each sync, all sheets are cleared and rewritten with current data.
+            A data mapper layer (<code className="text-xs bg-gray-100 px-1 py-0.5 rounded">sheetsDataMapper.ts</code>) translates between app models and spreadsheet rows. Local writes are journaled, and each sync updates, appends or deletes only the rows that changed since the last sync. Sheets are cleared and rewritten only on first connect or when their column layout isn't recognized.
           </p>
         </div>
       </div>
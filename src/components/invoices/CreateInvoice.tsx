@@ -1,9 +1,21 @@
-import { useState, useMemo } from 'react';
-import { useCompanies, useProjects, useTimeEntries, useInvoices } from '../../contexts/StorageContext';
+import { useState, useMemo, useEffect } from 'react';
+import { useCompanies, useProjects, useTimeEntries, useInvoices, useExpenses, useProfile } from '../../contexts/StorageContext';
+import { useHistory } from '../../hooks/useHistory';
 import type { Invoice, LineItem, InvoiceDetailLevel } from '../../types';
-import { totalHours, totalAmount, isFixedMonthly } from '../../utils/calculations';
+import { NO_TAX_RATE_ID } from '../../types';
+import { totalHours, totalAmount, isFixedMonthly, invoiceRates } from '../../utils/calculations';
 import { formatDate, today, getMonthLabel } from '../../utils/dateUtils';
 import { formatCurrency, formatHours } from '../../utils/formatCurrency';
+import { withInvoiceTax, computeInvoiceTax, taxRateLabel } from '../../utils/tax';
+import { dueDateFor } from '../../utils/paymentTerms';
+import { buildRetainerInvoice, recurringLineItems, retainerMonthExists as hasRetainerInvoice } from '../../utils/retainers';
+import { unbilledExpenses, expenseLineItem } from '../../utils/billableExpenses';
+import { getExchangeRate } from '../../utils/exchangeRate';
+
+interface ExpenseRates {
+  key: string;
+  rates: Record<string, number | null>; // by expense id, into the company currency
+}
 
 interface Props {
   onDone: () => void;
@@ -14,20 +26,26 @@ export default function CreateInvoice({ onDone }: Props) {
   const { projects } = useProjects();
   const { timeEntries } = useTimeEntries();
   const { invoices, saveInvoice } = useInvoices();
+  const { expenses } = useExpenses();
+  const { profile } = useProfile();
+  const taxRates = profile.taxRates || [];
+  const { batch } = useHistory();
   const projectMap = useMemo(() => new Map(projects.map((p) => [p.id, p])), [projects]);
   const activeCompanies = companies.filter((c) => c.isActive && c.invoiceRequired);
 
   const [companyId, setCompanyId] = useState(activeCompanies[0]?.id || '');
   const [selected, setSelected] = useState<Set<string>>(new Set());
   const [retainerMonth, setRetainerMonth] = useState(() => today().substring(0, 7));
-  const [lineItems, setLineItems] = useState<LineItem[]>([]);
+  const [lineItems, setLineItems] = useState<LineItem[]>(() => recurringLineItems(activeCompanies[0]));
   const [detailLevel, setDetailLevel] = useState<InvoiceDetailLevel>('weekly');
+  const [selectedExpenses, setSelectedExpenses] = useState<Set<string>>(new Set());
+  const [expenseRates, setExpenseRates] = useState<ExpenseRates | null>(null);
 
   function addLineItem() {
     setLineItems((prev) => [...prev, { id: crypto.randomUUID(), description: '', amount: 0 }]);
   }
 
-  function updateLineItem(id: string, field: keyof LineItem, value: string | number) {
+  function updateLineItem(id: string, field: keyof LineItem, value: string | number | undefined) {
     setLineItems((prev) => prev.map((li) => li.id === id ? { ...li, [field]: value } : li));
   }
 
@@ -52,13 +70,49 @@ export default function CreateInvoice({ onDone }: Props) {
       .sort((a, b) => a.date.localeCompare(b.date));
   }, [timeEntries, companyId, invoicedEntryIds]);
 
+  const billableExpenses = useMemo(
+    () => unbilledExpenses(expenses, invoices, companyId),
+    [expenses, invoices, companyId],
+  );
+
+  // Expenses in another currency convert at the rate on the expense date
+  const ratesKey = company ? [company.currency, ...billableExpenses.map((e) => `${e.id}:${e.currency}:${e.date}`)].join(',') : '';
+  useEffect(() => {
+    if (!ratesKey) return;
+    let cancelled = false;
+    const [target, ...items] = ratesKey.split(',');
+    Promise.all(items.map(async (item) => {
+      const [id, currency, date] = item.split(':');
+      return [id, await getExchangeRate(currency, target, date)] as const;
+    })).then((pairs) => {
+      if (!cancelled) setExpenseRates({ key: ratesKey, rates: Object.fromEntries(pairs) });
+    });
+    return () => { cancelled = true; };
+  }, [ratesKey]);
+
+  const ratesLoaded = expenseRates?.key === ratesKey;
+  const expenseRate = (id: string) => (ratesLoaded ? expenseRates.rates[id] ?? null : null);
+
+  const expenseLines = company
+    ? billableExpenses
+      .filter((e) => selectedExpenses.has(e.id) && expenseRate(e.id) != null)
+      .map((e) => expenseLineItem(e, expenseRate(e.id)!, company.currency))
+    : [];
+  const expensesTotal = expenseLines.reduce((sum, li) => sum + li.amount, 0);
+
+  function toggleExpense(id: string) {
+    setSelectedExpenses((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  }
+
   // Check for duplicate retainer month
-  const retainerMonthExists = useMemo(() => {
-    if (!isRetainer) return false;
-    return invoices.some(
-      (i) => i.companyId === companyId && i.billingType === 'fixed_monthly' && i.retainerMonth === retainerMonth
-    );
-  }, [invoices, companyId, isRetainer, retainerMonth]);
+  const retainerMonthExists = useMemo(
+    () => isRetainer && hasRetainerInvoice(invoices, companyId, retainerMonth),
+    [invoices, companyId, isRetainer, retainerMonth],
+  );
 
   function toggle(id: string) {
     setSelected((prev) => {
@@ -81,7 +135,7 @@ export default function CreateInvoice({ onDone }: Props) {
 
     // Validate before allocating invoice number
     if (isRetainer && (retainerMonthExists || !company.monthlyRate)) return;
-    const hasValidLineItems = lineItems.some((li) => li.description.trim() && li.amount);
+    const hasValidLineItems = lineItems.some((li) => li.description.trim() && li.amount) || expenseLines.length > 0;
     if (!isRetainer && selected.size === 0 && !hasValidLineItems) return;
 
     const now = new Date().toISOString();
@@ -89,59 +143,68 @@ export default function CreateInvoice({ onDone }: Props) {
     // Per-company invoice numbering
     const nextNum = company.nextInvoiceNumber || 1;
     const invoiceNumber = String(nextNum).padStart(3, '0');
-    // Increment company's next invoice number
-    saveCompany({ ...company, nextInvoiceNumber: nextNum + 1, updatedAt: now });
-
-    const validLineItems = lineItems.filter((li) => li.description.trim() && li.amount);
-
-    if (isRetainer) {
-      const invoice: Invoice = {
-        id: crypto.randomUUID(),
-        companyId,
-        invoiceNumber,
-        invoiceDate: today(),
-        timeEntryIds: [],
-        totalHours: 0,
-        totalAmount: company.monthlyRate! + lineItemsTotal,
-        currency: company.currency,
-        rateUsed: company.monthlyRate!,
-        status: 'draft',
-        billingType: 'fixed_monthly',
-        retainerMonth,
-        lineItems: validLineItems.length > 0 ? validLineItems : undefined,
-        createdAt: now,
-        updatedAt: now,
-      };
-      saveInvoice(invoice);
-    } else {
-      if (selected.size === 0 && validLineItems.length === 0) return;
-      const entries = uninvoicedEntries.filter((e) => selected.has(e.id));
-      const hours = totalHours(entries);
-      const amount = totalAmount(entries, company.hourlyRate);
-      const invoice: Invoice = {
-        id: crypto.randomUUID(),
-        companyId,
-        invoiceNumber,
-        invoiceDate: today(),
-        timeEntryIds: entries.map((e) => e.id),
-        totalHours: hours,
-        totalAmount: amount + lineItemsTotal,
-        currency: company.currency,
-        rateUsed: company.hourlyRate,
-        status: 'draft',
-        lineItems: validLineItems.length > 0 ? validLineItems : undefined,
-        detailLevel: detailLevel !== 'weekly' ? detailLevel : undefined,
-        createdAt: now,
-        updatedAt: now,
-      };
-      saveInvoice(invoice);
-    }
+    // One undo step covers both the number allocation and the invoice
+    batch('Create invoice', () => {
+      // Increment company's next invoice number
+      saveCompany({ ...company, nextInvoiceNumber: nextNum + 1, updatedAt: now });
+
+      const validLineItems = [...lineItems.filter((li) => li.description.trim() && li.amount), ...expenseLines];
+      const expenseIds = expenseLines.length > 0 ? expenseLines.map((li) => li.expenseId!) : undefined;
+
+      if (isRetainer) {
+        saveInvoice({ ...buildRetainerInvoice(company, retainerMonth, invoiceNumber, validLineItems, taxRates), expenseIds });
+      } else {
+        if (selected.size === 0 && validLineItems.length === 0) return;
+        const entries = uninvoicedEntries.filter((e) => selected.has(e.id));
+        const hours = totalHours(entries);
+        const amount = totalAmount(entries, company, projectMap);
+        const invoice: Invoice = {
+          id: crypto.randomUUID(),
+          companyId,
+          invoiceNumber,
+          invoiceDate: today(),
+          dueDate: dueDateFor(company, today()),
+          timeEntryIds: entries.map((e) => e.id),
+          totalHours: hours,
+          totalAmount: amount + lineItemsTotal + expensesTotal,
+          currency: company.currency,
+          ...invoiceRates(entries, company, projectMap, today()),
+          status: 'draft',
+          lineItems: validLineItems.length > 0 ? validLineItems : undefined,
+          expenseIds,
+          detailLevel: detailLevel !== 'weekly' ? detailLevel : undefined,
+          createdAt: now,
+          updatedAt: now,
+        };
+        saveInvoice(withInvoiceTax(invoice, amount, company, taxRates));
+      }
+    });
     onDone();
   }
 
   const selectedEntries = uninvoicedEntries.filter((e) => selected.has(e.id));
   const selHours = totalHours(selectedEntries);
-  const selAmount = company ? totalAmount(selectedEntries, company.hourlyRate) : 0;
+  const selAmount = company ? totalAmount(selectedEntries, company, projectMap) : 0;
+  const selRates = company ? invoiceRates(selectedEntries, company, projectMap, today()) : null;
+  const previewTax = company
+    ? computeInvoiceTax(isRetainer ? company.monthlyRate || 0 : selAmount, [...lineItems.filter((li) => li.description.trim() && li.amount), ...expenseLines], company, taxRates, company.currency)
+    : null;
+
+  // Tax lines and gross total under a summary, once any tax applies
+  const taxSummary = company && previewTax && previewTax.taxLines.length > 0 && (
+    <>
+      {previewTax.taxLines.map((line) => (
+        <div key={line.taxRateId} className="flex justify-between text-gray-600">
+          <span>{taxRateLabel(line)}:</span>
+          <span>{formatCurrency(line.tax, company.currency)}</span>
+        </div>
+      ))}
+      <div className="flex justify-between font-semibold">
+        <span>Total incl. tax:</span>
+        <span>{formatCurrency(previewTax.netAmount + previewTax.taxAmount, company.currency)}</span>
+      </div>
+    </>
+  );
 
   return (
     <div className="space-y-4">
@@ -149,7 +212,12 @@ export default function CreateInvoice({ onDone }: Props) {
         <label className="block text-sm font-medium text-gray-700 mb-1">Company</label>
         <select
           value={companyId}
-          onChange={(e) => { setCompanyId(e.target.value); setSelected(new Set()); }}
+          onChange={(e) => {
+            setCompanyId(e.target.value);
+            setSelected(new Set());
+            setSelectedExpenses(new Set());
+            setLineItems(recurringLineItems(companies.find((c) => c.id === e.target.value)));
+          }}
           className="w-full border rounded-md px-3 py-2 text-sm"
         >
           {activeCompanies.map((c) => <option key={c.id} value={c.id}>{c.name}</option>)}
@@ -180,6 +248,7 @@ export default function CreateInvoice({ onDone }: Props) {
                 <span>Amount:</span>
                 <span>{formatCurrency(company.monthlyRate, company.currency)}</span>
               </div>
+              {taxSummary}
             </div>
           )}
         </>
@@ -230,18 +299,29 @@ export default function CreateInvoice({ onDone }: Props) {
                   </div>
                   <div className="flex justify-between">
                     <span>Rate:</span>
-                    <span>{formatCurrency(company.hourlyRate, company.currency)}/hr</span>
+                    <span>{selRates?.entryRates ? 'Varies by project/date' : `${formatCurrency(selRates?.rateUsed ?? 0, company.currency)}/hr`}</span>
                   </div>
-                  {lineItemsTotal > 0 && (
-                    <div className="flex justify-between border-t mt-2 pt-2">
-                      <span>Line items:</span>
-                      <span className="font-medium">{formatCurrency(lineItemsTotal, company.currency)}</span>
+                  {(lineItemsTotal > 0 || expensesTotal > 0) && (
+                    <div className="border-t mt-2 pt-2">
+                      {lineItemsTotal > 0 && (
+                        <div className="flex justify-between">
+                          <span>Line items:</span>
+                          <span className="font-medium">{formatCurrency(lineItemsTotal, company.currency)}</span>
+                        </div>
+                      )}
+                      {expensesTotal > 0 && (
+                        <div className="flex justify-between">
+                          <span>Expenses:</span>
+                          <span className="font-medium">{formatCurrency(expensesTotal, company.currency)}</span>
+                        </div>
+                      )}
                     </div>
                   )}
-                  <div className={`flex justify-between font-semibold ${lineItemsTotal > 0 ? 'mt-1' : 'border-t mt-2 pt-2'}`}>
+                  <div className={`flex justify-between font-semibold ${lineItemsTotal > 0 || expensesTotal > 0 ? 'mt-1' : 'border-t mt-2 pt-2'}`}>
                     <span>Total amount:</span>
-                    <span>{formatCurrency(selAmount + lineItemsTotal, company.currency)}</span>
+                    <span>{formatCurrency(selAmount + lineItemsTotal + expensesTotal, company.currency)}</span>
                   </div>
+                  {taxSummary}
                 </div>
               )}
             </>
@@ -249,6 +329,48 @@ export default function CreateInvoice({ onDone }: Props) {
         </>
       )}
 
+      {/* Billable expenses */}
+      {billableExpenses.length > 0 && company && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Billable Expenses</label>
+          <div className="max-h-48 overflow-y-auto border rounded-md divide-y">
+            {billableExpenses.map((e) => {
+              const rate = expenseRate(e.id);
+              return (
+                <label key={e.id} className="flex items-center gap-3 p-3 hover:bg-gray-50 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={selectedExpenses.has(e.id)}
+                    disabled={rate == null}
+                    onChange={() => toggleExpense(e.id)}
+                    className="rounded"
+                  />
+                  <span className="text-sm text-gray-500 w-24 shrink-0">{formatDate(e.date)}</span>
+                  <span className="text-sm flex-1 truncate">
+                    {e.description}
+                    {e.vendor && <span className="text-gray-400 ml-1">— {e.vendor}</span>}
+                  </span>
+                  <span className="text-xs text-gray-400 shrink-0">
+                    {formatCurrency(e.amount, e.currency)}
+                    {e.markupPercent ? ` + ${e.markupPercent}%` : ''}
+                  </span>
+                  <span className="text-sm font-medium w-24 text-right">
+                    {rate != null
+                      ? formatCurrency(expenseLineItem(e, rate, company.currency).amount, company.currency)
+                      : <span className="text-xs font-normal text-amber-600">{ratesLoaded ? 'No rate' : '…'}</span>}
+                  </span>
+                </label>
+              );
+            })}
+          </div>
+          {expensesTotal > 0 && (
+            <div className="text-sm text-right text-gray-600 mt-1">
+              Expenses subtotal: {formatCurrency(expensesTotal, company.currency)}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Additional Line Items */}
       <div>
         <div className="flex items-center justify-between mb-2">
@@ -295,6 +417,18 @@ export default function CreateInvoice({ onDone }: Props) {
                   className="w-24 border rounded-md px-2 py-1.5 text-sm text-right"
                   step="0.01"
                 />
+                {taxRates.length > 0 && (
+                  <select
+                    value={li.taxRateId || ''}
+                    onChange={(e) => updateLineItem(li.id, 'taxRateId', e.target.value || undefined)}
+                    title="Tax rate"
+                    className="w-32 border rounded-md px-2 py-1.5 text-sm"
+                  >
+                    <option value="">Company rate</option>
+                    <option value={NO_TAX_RATE_ID}>No tax</option>
+                    {taxRates.map((r) => <option key={r.id} value={r.id}>{taxRateLabel(r)}</option>)}
+                  </select>
+                )}
                 <button onClick={() => removeLineItem(li.id)} className="text-red-400 hover:text-red-600 text-sm px-1">✕</button>
               </div>
             ))}
@@ -311,7 +445,7 @@ export default function CreateInvoice({ onDone }: Props) {
         <button onClick={onDone} className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800">Cancel</button>
         <button
           onClick={handleCreate}
-          disabled={isRetainer ? (retainerMonthExists || !company?.monthlyRate) : (selected.size === 0 && !lineItems.some((li) => li.description.trim() && li.amount))}
+          disabled={isRetainer ? (retainerMonthExists || !company?.monthlyRate) : (selected.size === 0 && expenseLines.length === 0 && !lineItems.some((li) => li.description.trim() && li.amount))}
           className="bg-blue-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
         >
           Create Invoice
@@ -1,333 +1,96 @@
 import { useMemo, useState } from 'react';
 import { useCompanies, useProjects, useTimeEntries, useInvoices, useProfile } from '../../contexts/StorageContext';
-import type { Invoice, TimeEntry, Currency, LineItem } from '../../types';
-import type { Project } from '../../types';
-import type { BusinessProfile } from '../../utils/storage';
-import { formatDate, today, getMonthLabel, getMondayDate } from '../../utils/dateUtils';
+import { usePayments } from '../../hooks/usePayments';
+import { useHistory } from '../../hooks/useHistory';
+import type { Invoice, LineItem, Payment } from '../../types';
+import { NO_TAX_RATE_ID } from '../../types';
+import { formatDate, today, getMonthLabel } from '../../utils/dateUtils';
 import { formatCurrency, formatHours } from '../../utils/formatCurrency';
-import { getExchangeRate } from '../../utils/exchangeRate';
+import { getExchangeRate, recordedRate, realizedFx } from '../../utils/exchangeRate';
+import { groupEntriesByProjectAndWeek, buildDetailedLines, buildInvoiceDocument } from '../../utils/invoiceDocument';
+import { renderInvoiceHtml } from '../../utils/invoiceHtml';
+import { invoicePayments, invoiceBalance, amountPaid, invoiceDisplayStatus, withPaymentStatus, invoiceEntryRate, daysPastDue } from '../../utils/calculations';
+import { dueDateFor } from '../../utils/paymentTerms';
+import { isCreditNote, canVoid, billedEntryIds, voidInvoice } from '../../utils/creditNotes';
+import { withInvoiceTax, invoiceNetAmount, taxRateLabel } from '../../utils/tax';
+import { roundMoney, getReportingCurrency } from '../../utils/currencies';
 import Badge from '../shared/Badge';
+import ReminderPanel from './ReminderPanel';
 
 interface Props {
   invoice: Invoice;
   onClose: () => void;
 }
 
-const statusColor: Record<string, string> = { draft: 'gray', sent: 'yellow', paid: 'green' };
-
-function esc(str: string): string {
-  return str
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&#39;');
-}
-
-interface WeekLine {
-  mondayDate: string;
-  hours: number;
-  amount: number;
-}
-
-interface ProjectGroup {
-  projectName: string | null;
-  weeks: WeekLine[];
-  totalHours: number;
-  totalAmount: number;
-}
-
-function groupEntriesByProjectAndWeek(
-  entries: TimeEntry[],
-  projectMap: Map<string, Project>,
-  rate: number,
-): ProjectGroup[] {
-  // Group by projectId ('' for no project)
-  const byProject = new Map<string, TimeEntry[]>();
-  for (const e of entries) {
-    const key = e.projectId || '';
-    const arr = byProject.get(key) || [];
-    arr.push(e);
-    byProject.set(key, arr);
-  }
-
-  const groups: ProjectGroup[] = [];
-
-  // Named projects first (sorted), then no-project group
-  const projectIds = Array.from(byProject.keys()).sort((a, b) => {
-    if (a === '') return 1;
-    if (b === '') return -1;
-    const nameA = projectMap.get(a)?.name || '';
-    const nameB = projectMap.get(b)?.name || '';
-    return nameA.localeCompare(nameB);
-  });
-
-  for (const pid of projectIds) {
-    const projectEntries = byProject.get(pid)!;
-    const projectName = pid ? (projectMap.get(pid)?.name || 'Unknown Project') : null;
-
-    // Group by week (Monday date)
-    const byWeek = new Map<string, { hours: number; amount: number }>();
-    for (const e of projectEntries) {
-      const monday = getMondayDate(e.date);
-      const existing = byWeek.get(monday) || { hours: 0, amount: 0 };
-      existing.hours += e.hours;
-      existing.amount += e.fixedAmount != null ? e.fixedAmount : e.hours * rate;
-      byWeek.set(monday, existing);
-    }
-
-    const weeks = Array.from(byWeek.entries())
-      .sort(([a], [b]) => a.localeCompare(b))
-      .map(([mondayDate, data]) => ({ mondayDate, ...data }));
-
-    const totalHours = weeks.reduce((s, w) => s + w.hours, 0);
-    const totalAmount = weeks.reduce((s, w) => s + w.amount, 0);
-
-    groups.push({ projectName, weeks, totalHours, totalAmount });
-  }
-
-  return groups;
-}
-
-export interface DetailedLine {
-  date: string;
-  projectName: string | null;
-  description: string;
-  hours: number;
-  amount: number;
-}
-
-function buildDetailedLines(
-  entries: TimeEntry[],
-  projectMap: Map<string, Project>,
-  rate: number,
-): DetailedLine[] {
-  return entries.map((e) => ({
-    date: e.date,
-    projectName: e.projectId ? (projectMap.get(e.projectId)?.name || null) : null,
-    description: e.description,
-    hours: e.hours,
-    amount: e.fixedAmount != null ? e.fixedAmount : e.hours * rate,
-  }));
-}
-
-function buildPrintHtml(
-  invoice: Invoice,
-  companyName: string,
-  billingAddress: string | undefined,
-  groups: ProjectGroup[],
-  totalHoursStr: string,
-  totalAmountStr: string,
-  rate: string,
-  currency: Currency,
-  profile: BusinessProfile,
-  isRetainer: boolean,
-  vatReverseCharge: boolean,
-  vatNoticeText: string | undefined,
-  retainerLine?: { description: string; amount: string },
-  notes?: string,
-  lineItems?: LineItem[],
-  detailedLines?: DetailedLine[],
-) {
-  const rateLabel = isRetainer ? 'Monthly Retainer' : `${rate}/hr`;
-
-  const lineItemRows = (lineItems || []).map((li) => {
-    const qtyStr = li.quantity ? `${li.quantity}` : '';
-    const upStr = li.unitPrice ? formatCurrency(li.unitPrice, currency) : '';
-    const detail = qtyStr && upStr ? ` (${qtyStr} × ${upStr})` : '';
-    return `<tr>
-      <td style="padding:6px 8px;border-bottom:1px solid #eee">${esc(li.description)}${detail}</td>
-      <td style="padding:6px 8px;border-bottom:1px solid #eee;text-align:right">${formatCurrency(li.amount, currency)}</td>
-    </tr>`;
-  }).join('');
-
-  let bodyHtml: string;
-  if (isRetainer && retainerLine) {
-    bodyHtml = `
-<table>
-  <thead><tr><th>Description</th><th style="text-align:right">Amount</th></tr></thead>
-  <tbody>
-    <tr>
-      <td style="padding:6px 8px;border-bottom:1px solid #eee">${esc(retainerLine.description)}</td>
-      <td style="padding:6px 8px;border-bottom:1px solid #eee;text-align:right">${esc(retainerLine.amount)}</td>
-    </tr>
-    ${lineItemRows}
-  </tbody>
-  <tfoot><tr>
-    <td style="font-weight:600;border-top:2px solid #ddd;padding:8px">Total</td>
-    <td style="font-weight:600;border-top:2px solid #ddd;padding:8px;text-align:right">${esc(totalAmountStr)}</td>
-  </tr></tfoot>
-</table>`;
-  } else {
-    const rows: string[] = [];
-    if (detailedLines) {
-      for (const line of detailedLines) {
-        const desc = line.projectName
-          ? `${esc(line.projectName)}: ${esc(line.description)}`
-          : esc(line.description);
-        rows.push(`<tr>
-          <td style="padding:6px 8px;border-bottom:1px solid #eee;color:#555">${formatDate(line.date)}</td>
-          <td style="padding:6px 8px;border-bottom:1px solid #eee">${desc}</td>
-          <td style="padding:6px 8px;border-bottom:1px solid #eee;text-align:right">${formatHours(line.hours)}</td>
-          <td style="padding:6px 8px;border-bottom:1px solid #eee;text-align:right">${formatCurrency(line.amount, currency)}</td>
-        </tr>`);
-      }
-    } else {
-      for (const group of groups) {
-        if (group.projectName) {
-          rows.push(`<tr><td colspan="3" style="padding:10px 8px 4px;font-weight:600;border-bottom:1px solid #eee">${esc(group.projectName)}</td></tr>`);
-        }
-        for (const week of group.weeks) {
-          const weekLabel = `Week of ${formatDate(week.mondayDate)}`;
-          rows.push(`<tr>
-            <td style="padding:6px 8px 6px ${group.projectName ? '24px' : '8px'};border-bottom:1px solid #eee;color:#555">${esc(weekLabel)}</td>
-            <td style="padding:6px 8px;border-bottom:1px solid #eee;text-align:right">${formatHours(week.hours)}</td>
-            <td style="padding:6px 8px;border-bottom:1px solid #eee;text-align:right">${formatCurrency(week.amount, currency)}</td>
-          </tr>`);
-        }
-      }
-    }
-    // Add line items as separate rows
-    const liRows = (lineItems || []).map((li) => {
-      const qtyStr = li.quantity ? `${li.quantity}` : '';
-      const upStr = li.unitPrice ? formatCurrency(li.unitPrice, currency) : '';
-      const detail = qtyStr && upStr ? ` (${qtyStr} × ${upStr})` : '';
-      if (detailedLines) {
-        return `<tr>
-          <td colspan="2" style="padding:6px 8px;border-bottom:1px solid #eee">${esc(li.description)}${detail}</td>
-          <td style="padding:6px 8px;border-bottom:1px solid #eee;text-align:right"></td>
-          <td style="padding:6px 8px;border-bottom:1px solid #eee;text-align:right">${formatCurrency(li.amount, currency)}</td>
-        </tr>`;
-      }
-      return `<tr>
-        <td style="padding:6px 8px;border-bottom:1px solid #eee">${esc(li.description)}${detail}</td>
-        <td style="padding:6px 8px;border-bottom:1px solid #eee;text-align:right"></td>
-        <td style="padding:6px 8px;border-bottom:1px solid #eee;text-align:right">${formatCurrency(li.amount, currency)}</td>
-      </tr>`;
-    }).join('');
-    const headerCols = detailedLines
-      ? '<th>Date</th><th>Description</th><th style="text-align:right">Hours</th><th style="text-align:right">Amount</th>'
-      : '<th>Description</th><th style="text-align:right">Hours</th><th style="text-align:right">Amount</th>';
-    const footerCols = detailedLines
-      ? `<td colspan="2" style="font-weight:600;border-top:2px solid #ddd;padding:8px">Total</td>
-         <td style="font-weight:600;border-top:2px solid #ddd;padding:8px;text-align:right">${esc(totalHoursStr)}</td>
-         <td style="font-weight:600;border-top:2px solid #ddd;padding:8px;text-align:right">${esc(totalAmountStr)}</td>`
-      : `<td style="font-weight:600;border-top:2px solid #ddd;padding:8px">Total</td>
-         <td style="font-weight:600;border-top:2px solid #ddd;padding:8px;text-align:right">${esc(totalHoursStr)}</td>
-         <td style="font-weight:600;border-top:2px solid #ddd;padding:8px;text-align:right">${esc(totalAmountStr)}</td>`;
-    bodyHtml = `
-<table>
-  <thead><tr>${headerCols}</tr></thead>
-  <tbody>${rows.join('')}${liRows}</tbody>
-  <tfoot><tr>${footerCols}</tr></tfoot>
-</table>`;
-  }
-
-  const hasProfile = profile.name || profile.address || profile.email || profile.phone || profile.ein;
-
-  const profileHtml = hasProfile ? `
-    <div class="from">
-      ${profile.name ? `<div style="font-weight:600;font-size:16px">${esc(profile.name)}</div>` : ''}
-      ${profile.address ? `<div>${esc(profile.address).replace(/\n/g, '<br>')}</div>` : ''}
-      ${profile.email ? `<div>${esc(profile.email)}</div>` : ''}
-      ${profile.phone ? `<div>${esc(profile.phone)}</div>` : ''}
-    </div>` : '';
-
-  const bankFields: string[] = [];
-  if (profile.ein) bankFields.push(`<div>EIN: ${esc(profile.ein)}</div>`);
-  if (profile.bankName) bankFields.push(`<div>Bank: ${esc(profile.bankName)}</div>`);
-  if (profile.accountName) bankFields.push(`<div>Account Name: ${esc(profile.accountName)}</div>`);
-  if (profile.routingNumber) bankFields.push(`<div>Routing #: ${esc(profile.routingNumber)}</div>`);
-  if (profile.accountNumber) bankFields.push(`<div>Account #: ${esc(profile.accountNumber)}</div>`);
-  if (profile.swiftCode) bankFields.push(`<div>SWIFT: ${esc(profile.swiftCode)}</div>`);
-  const bankHtml = bankFields.length > 0
-    ? `<div style="margin-top:20px;padding-top:16px;border-top:1px solid #ddd;font-size:13px;color:#555"><strong>Payment Information</strong><div style="margin-top:6px;line-height:1.6">${bankFields.join('')}</div></div>`
-    : '';
-
-  return `<!DOCTYPE html>
-<html><head>
-<title>Invoice ${esc(invoice.invoiceNumber || '')} - ${esc(companyName)}</title>
-<style>
-  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; color: #222; max-width: 800px; margin: 0 auto; padding: 40px; }
-  .header { display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 30px; }
-  .header h1 { font-size: 28px; margin: 0; }
-  .from { font-size: 13px; color: #555; text-align: right; line-height: 1.5; }
-  .parties { display: flex; justify-content: space-between; margin-bottom: 24px; }
-  .party { font-size: 14px; }
-  .party .label { color: #888; font-size: 12px; text-transform: uppercase; letter-spacing: 0.5px; margin-bottom: 4px; }
-  table { width: 100%; border-collapse: collapse; font-size: 14px; margin: 20px 0; }
-  th { text-align: left; padding: 8px; border-bottom: 2px solid #ddd; font-weight: 600; }
-  .notes { font-size: 13px; color: #666; margin-top: 16px; }
-  @media print { body { padding: 0; } }
-</style>
-</head><body>
-<div class="header">
-  <h1>INVOICE</h1>
-  ${profileHtml}
-</div>
-<div class="parties">
-  <div class="party">
-    <div class="label">Bill To</div>
-    <div style="font-weight:600">${esc(companyName)}</div>
-    ${billingAddress && billingAddress.trim() ? `<div style="font-size:13px;color:#555;line-height:1.5;margin-top:2px">${esc(billingAddress).replace(/\n/g, '<br>')}</div>` : ''}
-  </div>
-  <div class="party" style="text-align:right">
-    <div class="label">Invoice Details</div>
-    <div><span style="color:#888">Invoice #:</span> ${esc(invoice.invoiceNumber || '\u2014')}</div>
-    <div><span style="color:#888">Date:</span> ${formatDate(invoice.invoiceDate)}</div>
-    <div><span style="color:#888">Rate:</span> ${rateLabel}</div>
-  </div>
-</div>
-${bodyHtml}
-${notes ? `<div class="notes"><strong>Notes:</strong> ${esc(notes)}</div>` : ''}
-${vatReverseCharge ? `<div style="margin-top:16px;padding:12px 16px;background:#f0f9ff;border:1px solid #bae6fd;border-radius:6px;font-size:13px;color:#0369a1"><strong>VAT Notice:</strong> ${esc((vatNoticeText && vatNoticeText.trim()) || 'Reverse charge applies — recipient is liable for VAT under Articles 44 and 196 of EU VAT Directive 2006/112/EC.')}${profile.ein ? ` Supplier Tax ID (EIN): ${esc(profile.ein)}` : ''}</div>` : ''}
-${bankHtml}
-<script>window.onload=function(){window.print()}</script>
-</body></html>`;
-}
+const statusColor: Record<string, string> = { draft: 'gray', sent: 'yellow', partial: 'orange', overdue: 'red', paid: 'green', void: 'gray', credit: 'purple' };
+const statusLabel: Record<string, string> = { draft: 'DRAFT', sent: 'SENT', partial: 'PARTIALLY PAID', overdue: 'OVERDUE', paid: 'PAID', void: 'VOID', credit: 'CREDIT NOTE' };
 
 export default function InvoiceDetail({ invoice, onClose }: Props) {
-  const { companies } = useCompanies();
+  const { companies, saveCompany } = useCompanies();
   const { projects } = useProjects();
   const { timeEntries } = useTimeEntries();
-  const { saveInvoice } = useInvoices();
+  const { invoices, saveInvoice } = useInvoices();
+  const { payments, savePayment, deletePayment } = usePayments();
   const { profile } = useProfile();
+  const { batch } = useHistory();
   const company = companies.find((c) => c.id === invoice.companyId);
+  const reporting = getReportingCurrency(profile);
   const projectMap = useMemo(() => new Map(projects.map((p) => [p.id, p])), [projects]);
 
+  const taxRates = profile.taxRates || [];
+
   const isRetainer = invoice.billingType === 'fixed_monthly';
+  const isCredit = isCreditNote(invoice);
+  // The invoice a credit note cancels, or the credit note cancelling this one
+  const linked = invoices.find((i) => i.id === (invoice.creditNoteFor ?? invoice.creditNoteId));
 
   const entries = useMemo(
-    () => timeEntries.filter((e) => invoice.timeEntryIds.includes(e.id)).sort((a, b) => a.date.localeCompare(b.date)),
-    [timeEntries, invoice.timeEntryIds]
+    () => {
+      const ids = billedEntryIds(invoice);
+      return timeEntries.filter((e) => ids.includes(e.id)).sort((a, b) => a.date.localeCompare(b.date));
+    },
+    [timeEntries, invoice]
   );
 
   const isDetailed = invoice.detailLevel === 'detailed';
 
   const grouped = useMemo(
-    () => (isRetainer || isDetailed) ? [] : groupEntriesByProjectAndWeek(entries, projectMap, invoice.rateUsed),
-    [entries, projectMap, invoice.rateUsed, isRetainer, isDetailed]
+    () => (isRetainer || isDetailed) ? [] : groupEntriesByProjectAndWeek(entries, projectMap, (e) => invoiceEntryRate(invoice, e)),
+    [entries, projectMap, invoice, isRetainer, isDetailed]
   );
 
   const detailedLines = useMemo(
-    () => isDetailed ? buildDetailedLines(entries, projectMap, invoice.rateUsed) : undefined,
-    [entries, projectMap, invoice.rateUsed, isDetailed]
+    () => isDetailed ? buildDetailedLines(entries, projectMap, (e) => invoiceEntryRate(invoice, e)) : undefined,
+    [entries, projectMap, invoice, isDetailed]
   );
 
   const [sendingRate, setSendingRate] = useState(false);
   const [rateWarning, setRateWarning] = useState('');
-  const [showPaidPicker, setShowPaidPicker] = useState(false);
-  const [paidDateInput, setPaidDateInput] = useState(today());
+  const ownPayments = useMemo(() => invoicePayments(invoice, payments), [invoice, payments]);
+  const paidSoFar = amountPaid(invoice, ownPayments);
+  const balance = invoiceBalance(invoice, ownPayments);
+  const displayStatus = invoiceDisplayStatus(invoice, ownPayments);
+  const fx = realizedFx(invoice, ownPayments, reporting);
+
+  const [showPaymentForm, setShowPaymentForm] = useState(false);
+  const [paymentDateInput, setPaymentDateInput] = useState(today());
+  const [paymentAmountInput, setPaymentAmountInput] = useState('');
+  const [feesInput, setFeesInput] = useState('');
+  const [methodInput, setMethodInput] = useState('');
+  const [rateInput, setRateInput] = useState('');
   const [paymentNoteInput, setPaymentNoteInput] = useState('');
   const [editingLineItems, setEditingLineItems] = useState(false);
   const [draftLineItems, setDraftLineItems] = useState<LineItem[]>(invoice.lineItems || []);
+  const [showVoidForm, setShowVoidForm] = useState(false);
+  const [issueCreditNote, setIssueCreditNote] = useState(true);
+  const [releaseEntries, setReleaseEntries] = useState(true);
 
   function addLineItem() {
     setDraftLineItems((prev) => [...prev, { id: crypto.randomUUID(), description: '', amount: 0 }]);
     if (!editingLineItems) setEditingLineItems(true);
   }
 
-  function updateLineItem(id: string, field: keyof LineItem, value: string | number) {
+  function updateLineItem(id: string, field: keyof LineItem, value: string | number | undefined) {
     setDraftLineItems((prev) => prev.map((li) => li.id === id ? { ...li, [field]: value } : li));
   }
 
@@ -335,85 +98,126 @@ export default function InvoiceDetail({ invoice, onClose }: Props) {
     setDraftLineItems((prev) => prev.filter((li) => li.id !== id));
   }
 
+  // Billed hours or retainer, without line items or tax
+  const workAmount = invoiceNetAmount(invoice) - (invoice.lineItems || []).reduce((s, li) => s + li.amount, 0);
+
+  // Tax as the company's and line items' current rates would give it
+  const currentTax = withInvoiceTax(invoice, workAmount, company, taxRates);
+  const taxOutdated = invoice.status === 'draft'
+    && (Math.abs(currentTax.totalAmount - invoice.totalAmount) >= 0.005 || JSON.stringify(currentTax.taxLines) !== JSON.stringify(invoice.taxLines));
+
   function saveLineItems() {
     const valid = draftLineItems.filter((li) => li.description.trim() && li.amount);
-    const oldLineItemsTotal = (invoice.lineItems || []).reduce((s, li) => s + li.amount, 0);
-    const newLineItemsTotal = valid.reduce((s, li) => s + li.amount, 0);
-    const newTotal = invoice.totalAmount - oldLineItemsTotal + newLineItemsTotal;
-    saveInvoice({
+    // Removing an expense's line takes the expense off the invoice
+    const expenseIds = valid.flatMap((li) => (li.expenseId ? [li.expenseId] : []));
+    saveInvoice(withInvoiceTax({
       ...invoice,
       lineItems: valid.length > 0 ? valid : undefined,
-      totalAmount: newTotal,
+      expenseIds: expenseIds.length > 0 ? expenseIds : undefined,
       updatedAt: new Date().toISOString(),
-    });
+    }, workAmount, company, taxRates));
     setEditingLineItems(false);
   }
 
+  function recalculateTax() {
+    saveInvoice({ ...currentTax, updatedAt: new Date().toISOString() });
+  }
+
   function cancelLineItemEdit() {
     setDraftLineItems(invoice.lineItems || []);
     setEditingLineItems(false);
   }
 
-  async function updateStatus(status: Invoice['status'], paidDate?: string, paymentNote?: string) {
-    let exchangeRateToUSD = invoice.exchangeRateToUSD;
+  function openPaymentForm() {
+    setPaymentDateInput(today());
+    setPaymentAmountInput(String(roundMoney(balance, invoice.currency)));
+    setFeesInput('');
+    setMethodInput(company?.paymentMethod || '');
+    setRateInput('');
+    setPaymentNoteInput('');
+    setShowPaymentForm(true);
+  }
 
-    if (status === 'sent' && exchangeRateToUSD == null) {
-      if (invoice.currency === 'USD') {
-        exchangeRateToUSD = 1.0;
+  async function recordPayment() {
+    const amount = parseFloat(paymentAmountInput);
+    const fees = parseFloat(feesInput);
+    let rate: number | null = parseFloat(rateInput);
+    if (isNaN(amount) || amount <= 0) return;
+    // Without the rate the bank actually applied, use the market rate on the payment date
+    if (invoice.currency !== reporting && !(rate > 0)) {
+      setSendingRate(true);
+      rate = await getExchangeRate(invoice.currency, reporting, paymentDateInput);
+      setSendingRate(false);
+    }
+    const now = new Date().toISOString();
+    const payment: Payment = {
+      id: crypto.randomUUID(),
+      invoiceId: invoice.id,
+      date: paymentDateInput,
+      amount,
+      currency: invoice.currency,
+      method: methodInput.trim() || undefined,
+      feesWithheld: fees > 0 ? fees : undefined,
+      exchangeRates: invoice.currency !== reporting && rate != null && rate > 0 ? { [reporting]: rate } : undefined,
+      notes: paymentNoteInput.trim() || undefined,
+      createdAt: now,
+      updatedAt: now,
+    };
+    batch('Record payment', () => {
+      savePayment(payment);
+      const updated = withPaymentStatus(invoice, [...ownPayments, payment]);
+      if (updated !== invoice) saveInvoice(updated);
+    });
+    setShowPaymentForm(false);
+  }
+
+  function removePayment(payment: Payment) {
+    if (!confirm('Delete this payment?')) return;
+    batch('Delete payment', () => {
+      deletePayment(payment.id);
+      const updated = withPaymentStatus(invoice, ownPayments.filter((p) => p.id !== payment.id));
+      if (updated !== invoice) saveInvoice(updated);
+    });
+  }
+
+  async function updateStatus(status: 'draft' | 'sent') {
+    let exchangeRates = invoice.exchangeRates;
+
+    if (status === 'sent' && recordedRate(invoice, reporting) == null) {
+      setSendingRate(true);
+      setRateWarning('');
+      const rate = await getExchangeRate(invoice.currency, reporting);
+      setSendingRate(false);
+      if (rate != null) {
+        exchangeRates = { ...exchangeRates, [reporting]: rate };
       } else {
-        setSendingRate(true);
-        setRateWarning('');
-        const rate = await getExchangeRate(invoice.currency);
-        setSendingRate(false);
-        if (rate != null) {
-          exchangeRateToUSD = rate;
-        } else {
-          setRateWarning(`Could not fetch ${invoice.currency}/USD rate. Invoice marked as sent without exchange rate.`);
-        }
+        setRateWarning(`Could not fetch ${invoice.currency}/${reporting} rate. Invoice marked as sent without exchange rate.`);
       }
     }
 
-    saveInvoice({ ...invoice, status, paidDate, paymentNote: paymentNote || undefined, exchangeRateToUSD, updatedAt: new Date().toISOString() });
+    // Invoices drafted before the company had terms pick up a due date when sent
+    const dueDate = invoice.dueDate ?? (status === 'sent' ? dueDateFor(company, invoice.invoiceDate) : undefined);
+    saveInvoice({ ...invoice, status, dueDate, paidDate: undefined, paymentNote: undefined, exchangeRates, updatedAt: new Date().toISOString() });
   }
 
-  function getInvoiceData() {
-    const ml = invoice.retainerMonth ? getMonthLabel(invoice.retainerMonth + '-01') : '';
-    const retainerLine = isRetainer ? {
-      description: `Monthly advisory retainer \u2014 ${ml}`,
-      amount: formatCurrency(invoice.totalAmount, invoice.currency),
-    } : undefined;
-
-    return {
-      companyName: company?.name || 'Unknown',
-      totalHoursStr: formatHours(invoice.totalHours),
-      totalAmountStr: formatCurrency(invoice.totalAmount, invoice.currency),
-      rateStr: formatCurrency(invoice.rateUsed, invoice.currency),
-      retainerLine,
-    };
+  // The voided invoice keeps its number; the credit note, if issued, takes the
+  // next number in the company's credit note series
+  function handleVoid() {
+    const result = voidInvoice(invoice, company, { creditNote: issueCreditNote, releaseEntries });
+    batch('Void invoice', () => {
+      saveInvoice(result.invoice);
+      if (result.creditNote) saveInvoice(result.creditNote);
+      if (result.company) saveCompany(result.company);
+    });
+    setShowVoidForm(false);
   }
 
-  function handlePrint() {
-    const { companyName, totalHoursStr, totalAmountStr, rateStr, retainerLine } = getInvoiceData();
-
-    const html = buildPrintHtml(
-      invoice,
-      companyName,
-      company?.billingAddress,
-      grouped,
-      totalHoursStr,
-      totalAmountStr,
-      rateStr,
-      invoice.currency,
-      profile,
-      isRetainer,
-      !!company?.vatReverseCharge,
-      company?.vatNoticeText,
-      retainerLine,
-      invoice.notes,
-      invoice.lineItems,
-      detailedLines,
-    );
+  function getInvoiceDocument() {
+    return buildInvoiceDocument(invoice, company, timeEntries, projects, profile);
+  }
 
+  function handlePrint() {
+    const html = renderInvoiceHtml(getInvoiceDocument());
     const win = window.open('', '_blank');
     if (win) {
       win.document.write(html);
@@ -422,47 +226,60 @@ export default function InvoiceDetail({ invoice, onClose }: Props) {
   }
 
   async function handleSaveDocx() {
-    const { companyName, totalHoursStr, totalAmountStr, rateStr, retainerLine } = getInvoiceData();
     const { generateInvoiceDocx } = await import('../../utils/invoiceDocx');
-    await generateInvoiceDocx(
-      invoice,
-      companyName,
-      company?.billingAddress,
-      grouped,
-      totalHoursStr,
-      totalAmountStr,
-      rateStr,
-      invoice.currency,
-      profile,
-      isRetainer,
-      !!company?.vatReverseCharge,
-      company?.vatNoticeText,
-      retainerLine,
-      invoice.notes,
-      invoice.lineItems,
-      detailedLines,
-    );
+    await generateInvoiceDocx(getInvoiceDocument());
+  }
+
+  async function handleSavePdf() {
+    const { generateInvoicePdf } = await import('../../utils/invoicePdf');
+    generateInvoicePdf(getInvoiceDocument());
   }
 
   const monthLabel = invoice.retainerMonth ? getMonthLabel(invoice.retainerMonth + '-01') : '';
 
+  const taxRows = invoice.taxLines ? [
+    { label: 'Subtotal', amount: formatCurrency(invoiceNetAmount(invoice), invoice.currency) },
+    ...invoice.taxLines.map((line) => ({ label: taxRateLabel(line), amount: formatCurrency(line.tax, invoice.currency) })),
+  ] : [];
+
   return (
     <div className="space-y-4">
       <div className="flex items-center justify-between">
         <div>
-          <p className="text-sm text-gray-500">Invoice #{invoice.invoiceNumber}</p>
+          <p className="text-sm text-gray-500">{isCredit ? 'Credit Note' : 'Invoice'} #{invoice.invoiceNumber}</p>
           <p className="font-semibold text-lg">{company?.name}</p>
         </div>
-        <Badge color={statusColor[invoice.status]}>{invoice.status.toUpperCase()}</Badge>
+        <Badge color={statusColor[displayStatus]}>{statusLabel[displayStatus]}</Badge>
       </div>
 
       <div className="grid grid-cols-2 gap-4 text-sm">
         <div><span className="text-gray-500">Date:</span> {formatDate(invoice.invoiceDate)}</div>
-        <div><span className="text-gray-500">Rate:</span> {isRetainer ? 'Monthly Retainer' : `${formatCurrency(invoice.rateUsed, invoice.currency)}/hr`}</div>
-        {!isRetainer && <div><span className="text-gray-500">Total Hours:</span> {formatHours(invoice.totalHours)}</div>}
+        {invoice.dueDate && (
+          <div>
+            <span className="text-gray-500">Due:</span> {formatDate(invoice.dueDate)}
+            {displayStatus === 'overdue' && <span className="text-red-600 ml-1">({daysPastDue(invoice)} days overdue)</span>}
+          </div>
+        )}
+        {isCredit && <div><span className="text-gray-500">Credits Invoice:</span> #{linked?.invoiceNumber ?? '—'}</div>}
+        {invoice.voidedAt && <div><span className="text-gray-500">Voided:</span> {formatDate(invoice.voidedAt)}</div>}
+        {invoice.creditNoteId && <div><span className="text-gray-500">Credit Note:</span> #{linked?.invoiceNumber ?? '—'}</div>}
+        {!isCredit && <div><span className="text-gray-500">Rate:</span> {isRetainer ? 'Monthly Retainer' : invoice.entryRates ? 'Varies by project/date' : `${formatCurrency(invoice.rateUsed, invoice.currency)}/hr`}</div>}
+        {!isRetainer && !isCredit && <div><span className="text-gray-500">Total Hours:</span> {formatHours(invoice.totalHours)}</div>}
+        {invoice.taxLines && (
+          <>
+            <div><span className="text-gray-500">Net:</span> {formatCurrency(invoiceNetAmount(invoice), invoice.currency)}</div>
+            <div><span className="text-gray-500">Tax:</span> {formatCurrency(invoice.taxAmount ?? 0, invoice.currency)}</div>
+          </>
+        )}
         <div><span className="text-gray-500">Total Amount:</span> <span className="font-semibold">{formatCurrency(invoice.totalAmount, invoice.currency)}</span></div>
         {isRetainer && invoice.retainerMonth && <div><span className="text-gray-500">Retainer Month:</span> {monthLabel}</div>}
         {invoice.paidDate && <div><span className="text-gray-500">Paid:</span> {formatDate(invoice.paidDate)}</div>}
+        {paidSoFar > 0 && balance > 0 && (
+          <>
+            <div><span className="text-gray-500">Paid so far:</span> {formatCurrency(paidSoFar, invoice.currency)}</div>
+            <div><span className="text-gray-500">Balance due:</span> <span className="font-semibold">{formatCurrency(balance, invoice.currency)}</span></div>
+          </>
+        )}
         {invoice.paymentNote && <div className="col-span-2"><span className="text-gray-500">Payment Note:</span> {invoice.paymentNote}</div>}
       </div>
 
@@ -495,6 +312,12 @@ export default function InvoiceDetail({ invoice, onClose }: Props) {
               ))}
             </tbody>
             <tfoot className="bg-gray-50 font-semibold">
+              {taxRows.map((row) => (
+                <tr key={row.label} className="font-normal text-gray-600">
+                  <td className="px-3 py-1.5">{row.label}</td>
+                  <td className="px-3 py-1.5 text-right">{row.amount}</td>
+                </tr>
+              ))}
               <tr>
                 <td className="px-3 py-2">Total</td>
                 <td className="px-3 py-2 text-right">{formatCurrency(invoice.totalAmount, invoice.currency)}</td>
@@ -535,6 +358,12 @@ export default function InvoiceDetail({ invoice, onClose }: Props) {
               ))}
             </tbody>
             <tfoot className="bg-gray-50 font-semibold">
+              {taxRows.map((row) => (
+                <tr key={row.label} className="font-normal text-gray-600">
+                  <td colSpan={3} className="px-3 py-1.5">{row.label}</td>
+                  <td className="px-3 py-1.5 text-right">{row.amount}</td>
+                </tr>
+              ))}
               <tr>
                 <td colSpan={2} className="px-3 py-2">Total</td>
                 <td className="px-3 py-2 text-right">{formatHours(invoice.totalHours)}</td>
@@ -596,6 +425,12 @@ export default function InvoiceDetail({ invoice, onClose }: Props) {
               ))}
             </tbody>
             <tfoot className="bg-gray-50 font-semibold">
+              {taxRows.map((row) => (
+                <tr key={row.label} className="font-normal text-gray-600">
+                  <td colSpan={2} className="px-3 py-1.5">{row.label}</td>
+                  <td className="px-3 py-1.5 text-right">{row.amount}</td>
+                </tr>
+              ))}
               <tr>
                 <td className="px-3 py-2">Total</td>
                 <td className="px-3 py-2 text-right">{formatHours(invoice.totalHours)}</td>
@@ -650,6 +485,18 @@ export default function InvoiceDetail({ invoice, onClose }: Props) {
                     className="w-24 border rounded-md px-2 py-1.5 text-sm text-right"
                     step="0.01"
                   />
+                  {taxRates.length > 0 && (
+                    <select
+                      value={li.taxRateId || ''}
+                      onChange={(e) => updateLineItem(li.id, 'taxRateId', e.target.value || undefined)}
+                      title="Tax rate"
+                      className="w-32 border rounded-md px-2 py-1.5 text-sm"
+                    >
+                      <option value="">Company rate</option>
+                      <option value={NO_TAX_RATE_ID}>No tax</option>
+                      {taxRates.map((r) => <option key={r.id} value={r.id}>{taxRateLabel(r)}</option>)}
+                    </select>
+                  )}
                   <button onClick={() => removeLineItem(li.id)} className="text-red-400 hover:text-red-600 text-sm px-1">✕</button>
                 </div>
               ))}
@@ -664,62 +511,204 @@ export default function InvoiceDetail({ invoice, onClose }: Props) {
         </div>
       )}
 
+      {taxOutdated && (
+        <div className="flex items-center justify-between text-xs text-amber-700 bg-amber-50 px-3 py-2 rounded-md">
+          <span>Tax rates have changed since this draft was created.</span>
+          <button onClick={recalculateTax} className="font-medium hover:text-amber-900">Recalculate tax</button>
+        </div>
+      )}
+
       {rateWarning && (
         <p className="text-xs text-amber-600 bg-amber-50 px-3 py-2 rounded-md">{rateWarning}</p>
       )}
 
-      {invoice.status === 'sent' && (
-        <div className="bg-green-50 border border-green-200 rounded-lg p-4">
-          {showPaidPicker ? (
+      {(invoice.status === 'sent' || invoice.status === 'paid') && !isCredit && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4 space-y-3">
+          {ownPayments.length > 0 && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-green-800">
+                  <th className="py-1 font-medium">Payment date</th>
+                  <th className="py-1 font-medium text-right">Received</th>
+                  <th className="py-1 font-medium text-right">Fees withheld</th>
+                  <th className="py-1 font-medium pl-4">Method</th>
+                  {invoice.currency !== reporting && <th className="py-1 font-medium text-right">Rate to {reporting}</th>}
+                  <th className="py-1"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-green-100">
+                {ownPayments.map((p) => (
+                  <tr key={p.id}>
+                    <td className="py-1.5">
+                      {formatDate(p.date)}
+                      {p.notes && <span className="block text-xs text-gray-500">{p.notes}</span>}
+                    </td>
+                    <td className="py-1.5 text-right tabular-nums">{formatCurrency(p.amount, p.currency)}</td>
+                    <td className="py-1.5 text-right tabular-nums text-gray-500">{p.feesWithheld ? formatCurrency(p.feesWithheld, p.currency) : ''}</td>
+                    <td className="py-1.5 pl-4 text-gray-600">{p.method || ''}</td>
+                    {invoice.currency !== reporting && <td className="py-1.5 text-right tabular-nums text-gray-500">{recordedRate(p, reporting) ?? ''}</td>}
+                    <td className="py-1.5 text-right">
+                      <button onClick={() => removePayment(p)} className="text-xs text-red-500 hover:text-red-700">Delete</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {showPaymentForm ? (
             <div className="space-y-2">
-              <div className="flex items-center gap-3">
-                <label className="text-sm font-medium text-green-800">Payment date:</label>
-                <input
-                  type="date"
-                  value={paidDateInput}
-                  onChange={(e) => setPaidDateInput(e.target.value)}
-                  className="border border-green-300 rounded-md px-3 py-1.5 text-sm"
-                />
-              </div>
-              <div className="flex items-center gap-3">
-                <label className="text-sm font-medium text-green-800">Note (optional):</label>
-                <input
-                  type="text"
-                  value={paymentNoteInput}
-                  onChange={(e) => setPaymentNoteInput(e.target.value)}
-                  placeholder="e.g. Check #1234, Wire transfer"
-                  className="border border-green-300 rounded-md px-3 py-1.5 text-sm flex-1"
-                />
+              <div className="grid grid-cols-2 gap-2">
+                <label className="text-sm text-green-800">
+                  Payment date
+                  <input
+                    type="date"
+                    value={paymentDateInput}
+                    onChange={(e) => setPaymentDateInput(e.target.value)}
+                    className="block w-full border border-green-300 rounded-md px-3 py-1.5 text-sm mt-0.5"
+                  />
+                </label>
+                <label className="text-sm text-green-800">
+                  Amount received ({invoice.currency})
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={paymentAmountInput}
+                    onChange={(e) => setPaymentAmountInput(e.target.value)}
+                    className="block w-full border border-green-300 rounded-md px-3 py-1.5 text-sm mt-0.5 text-right"
+                  />
+                </label>
+                <label className="text-sm text-green-800">
+                  Fees withheld (optional)
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={feesInput}
+                    onChange={(e) => setFeesInput(e.target.value)}
+                    placeholder="Bank or platform fees"
+                    className="block w-full border border-green-300 rounded-md px-3 py-1.5 text-sm mt-0.5 text-right"
+                  />
+                </label>
+                <label className="text-sm text-green-800">
+                  Method (optional)
+                  <input
+                    type="text"
+                    value={methodInput}
+                    onChange={(e) => setMethodInput(e.target.value)}
+                    placeholder="e.g. Wire transfer"
+                    className="block w-full border border-green-300 rounded-md px-3 py-1.5 text-sm mt-0.5"
+                  />
+                </label>
+                {invoice.currency !== reporting && (
+                  <label className="text-sm text-green-800">
+                    Rate received ({invoice.currency} → {reporting})
+                    <input
+                      type="number"
+                      step="0.0001"
+                      value={rateInput}
+                      onChange={(e) => setRateInput(e.target.value)}
+                      placeholder="Rate on payment date"
+                      className="block w-full border border-green-300 rounded-md px-3 py-1.5 text-sm mt-0.5 text-right"
+                    />
+                  </label>
+                )}
+                <label className="text-sm text-green-800">
+                  Note (optional)
+                  <input
+                    type="text"
+                    value={paymentNoteInput}
+                    onChange={(e) => setPaymentNoteInput(e.target.value)}
+                    placeholder="e.g. Check #1234"
+                    className="block w-full border border-green-300 rounded-md px-3 py-1.5 text-sm mt-0.5"
+                  />
+                </label>
               </div>
               <div className="flex items-center gap-2">
                 <button
-                  onClick={() => { updateStatus('paid', paidDateInput, paymentNoteInput); setShowPaidPicker(false); setPaymentNoteInput(''); }}
-                  className="bg-green-600 text-white px-4 py-1.5 rounded-md text-sm font-medium hover:bg-green-700"
+                  onClick={recordPayment}
+                  disabled={sendingRate}
+                  className="bg-green-600 text-white px-4 py-1.5 rounded-md text-sm font-medium hover:bg-green-700 disabled:opacity-50"
                 >
-                  Confirm Paid
+                  {sendingRate ? 'Fetching rate\u2026' : 'Save Payment'}
                 </button>
                 <button
-                  onClick={() => { setShowPaidPicker(false); setPaymentNoteInput(''); }}
+                  onClick={() => setShowPaymentForm(false)}
                   className="text-sm text-gray-500 hover:text-gray-700"
                 >
                   Cancel
                 </button>
               </div>
             </div>
-          ) : (
+          ) : balance > 0 ? (
             <div className="flex items-center justify-between">
-              <span className="text-sm text-green-800">Received payment for this invoice?</span>
+              <span className="text-sm text-green-800">
+                {ownPayments.length > 0
+                  ? `${formatCurrency(balance, invoice.currency)} still outstanding.`
+                  : 'Received payment for this invoice?'}
+              </span>
               <button
-                onClick={() => { setPaidDateInput(today()); setPaymentNoteInput(''); setShowPaidPicker(true); }}
+                onClick={openPaymentForm}
                 className="bg-green-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-green-700"
               >
-                Mark as Paid
+                Record Payment
               </button>
             </div>
+          ) : (
+            <p className="text-sm text-green-800">Paid in full.</p>
+          )}
+
+          {fx && fx.settled > 0 && (
+            <p className="text-sm text-green-800">
+              Realized FX {fx.gain >= 0 ? 'gain' : 'loss'}:{' '}
+              <span className={`font-semibold ${fx.gain < 0 ? 'text-red-600' : ''}`}>{formatCurrency(fx.gain, reporting)}</span>
+              <span className="text-xs text-gray-500 ml-1">
+                (booked {formatCurrency(fx.booked, reporting)}, received {formatCurrency(fx.received, reporting)})
+              </span>
+              {fx.missingRates > 0 && <span className="text-xs text-amber-600 ml-1">— {fx.missingRates} payment{fx.missingRates !== 1 ? 's' : ''} without a rate</span>}
+            </p>
           )}
         </div>
       )}
 
+      {(invoice.status === 'sent' || invoice.status === 'paid') && !isCredit && (
+        <ReminderPanel
+          invoice={invoice}
+          company={company}
+          balance={balance}
+          overdue={displayStatus === 'overdue'}
+          getDocument={getInvoiceDocument}
+        />
+      )}
+
+      {showVoidForm && (
+        <div className="border border-red-200 bg-red-50 rounded-lg p-4 space-y-2 text-sm">
+          <p className="text-red-800">
+            Voiding keeps invoice #{invoice.invoiceNumber} on record, marked void, and takes it out of accounts receivable.
+          </p>
+          <label className="flex items-center gap-2 text-gray-700">
+            <input type="checkbox" checked={issueCreditNote} onChange={(e) => setIssueCreditNote(e.target.checked)} />
+            Issue a credit note for {formatCurrency(-invoice.totalAmount, invoice.currency)}
+          </label>
+          {(invoice.timeEntryIds.length > 0 || !!invoice.expenseIds?.length) && (
+            <label className="flex items-center gap-2 text-gray-700">
+              <input type="checkbox" checked={releaseEntries} onChange={(e) => setReleaseEntries(e.target.checked)} />
+              Release its {[
+                invoice.timeEntryIds.length > 0 && `${invoice.timeEntryIds.length} time entr${invoice.timeEntryIds.length !== 1 ? 'ies' : 'y'}`,
+                invoice.expenseIds?.length && `${invoice.expenseIds.length} expense${invoice.expenseIds.length !== 1 ? 's' : ''}`,
+              ].filter(Boolean).join(' and ')} so they can be invoiced again
+            </label>
+          )}
+          <div className="flex items-center gap-2 pt-1">
+            <button onClick={handleVoid} className="bg-red-600 text-white px-4 py-1.5 rounded-md text-sm font-medium hover:bg-red-700">
+              Void Invoice
+            </button>
+            <button onClick={() => setShowVoidForm(false)} className="text-sm text-gray-500 hover:text-gray-700">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
       <div className="flex items-center justify-between pt-2 border-t">
         <div className="flex gap-2">
           {invoice.status === 'draft' && (
@@ -727,18 +716,26 @@ export default function InvoiceDetail({ invoice, onClose }: Props) {
               {sendingRate ? 'Fetching rate\u2026' : 'Mark Sent'}
             </button>
           )}
-          {invoice.status !== 'draft' && (
-            <button onClick={() => updateStatus('draft', undefined)} className="text-sm text-gray-500 hover:text-gray-700 px-3 py-1.5">
+          {(invoice.status === 'sent' || invoice.status === 'paid') && !isCredit && (
+            <button onClick={() => updateStatus('draft')} className="text-sm text-gray-500 hover:text-gray-700 px-3 py-1.5">
               Revert to Draft
             </button>
           )}
+          {canVoid(invoice, ownPayments.length) && !showVoidForm && (
+            <button onClick={() => setShowVoidForm(true)} className="text-sm text-red-500 hover:text-red-700 px-3 py-1.5">
+              Void…
+            </button>
+          )}
         </div>
         <div className="flex gap-2">
           <button onClick={handleSaveDocx} className="text-sm bg-indigo-50 text-indigo-700 px-3 py-1.5 rounded-md hover:bg-indigo-100">
             Save as Word
           </button>
+          <button onClick={handleSavePdf} className="text-sm bg-red-50 text-red-700 px-3 py-1.5 rounded-md hover:bg-red-100">
+            Save as PDF
+          </button>
           <button onClick={handlePrint} className="text-sm bg-gray-100 text-gray-700 px-3 py-1.5 rounded-md hover:bg-gray-200">
-            Print / Save PDF
+            Print
           </button>
           <button onClick={onClose} className="text-sm text-gray-600 hover:text-gray-800 px-3 py-1.5">
             Close
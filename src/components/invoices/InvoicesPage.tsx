@@ -1,18 +1,30 @@
 import { useState, useMemo } from 'react';
-import { useCompanies, useInvoices } from '../../contexts/StorageContext';
-import type { Invoice } from '../../types';
-import { formatDate, daysSince, today } from '../../utils/dateUtils';
+import { useCompanies, useInvoices, useProfile } from '../../contexts/StorageContext';
+import { usePayments } from '../../hooks/usePayments';
+import { useHistory } from '../../hooks/useHistory';
+import type { Invoice, Payment } from '../../types';
+import { formatDate, today } from '../../utils/dateUtils';
 import { formatCurrency, formatHours } from '../../utils/formatCurrency';
+import { invoicePayments, invoiceBalance, invoiceDisplayStatus, withPaymentStatus, daysPastDue } from '../../utils/calculations';
+import { getExchangeRate } from '../../utils/exchangeRate';
+import { getReportingCurrency } from '../../utils/currencies';
+import { dueLabel } from '../../utils/paymentTerms';
+import { isCreditNote } from '../../utils/creditNotes';
 import Modal from '../shared/Modal';
 import Badge from '../shared/Badge';
 import CreateInvoice from './CreateInvoice';
 import InvoiceDetail from './InvoiceDetail';
 
-const statusColor: Record<string, string> = { draft: 'gray', sent: 'yellow', paid: 'green' };
+const statusColor: Record<string, string> = { draft: 'gray', sent: 'yellow', partial: 'orange', overdue: 'red', paid: 'green', void: 'gray', credit: 'purple' };
+const statusLabel: Record<string, string> = { draft: 'draft', sent: 'sent', partial: 'partially paid', overdue: 'overdue', paid: 'paid', void: 'void', credit: 'credit note' };
 
 export default function InvoicesPage() {
   const { companies } = useCompanies();
   const { invoices, deleteInvoice, saveInvoice } = useInvoices();
+  const { payments, savePayment } = usePayments();
+  const { batch } = useHistory();
+  const { profile } = useProfile();
+  const reporting = getReportingCurrency(profile);
   const [creating, setCreating] = useState(false);
   const [viewing, setViewing] = useState<Invoice | null>(null);
   const [statusFilter, setStatusFilter] = useState<string>('');
@@ -22,12 +34,43 @@ export default function InvoicesPage() {
 
   const companyMap = useMemo(() => new Map(companies.map((c) => [c.id, c])), [companies]);
 
+  const paymentsByInvoice = useMemo(() => {
+    const map = new Map<string, Payment[]>();
+    for (const inv of invoices) map.set(inv.id, invoicePayments(inv, payments));
+    return map;
+  }, [invoices, payments]);
+
   const filtered = useMemo(() => {
     let list = [...invoices];
-    if (statusFilter) list = list.filter((i) => i.status === statusFilter);
+    if (statusFilter) list = list.filter((i) => invoiceDisplayStatus(i, paymentsByInvoice.get(i.id) || []) === statusFilter);
     if (companyFilter) list = list.filter((i) => i.companyId === companyFilter);
     return list.sort((a, b) => b.invoiceDate.localeCompare(a.invoiceDate));
-  }, [invoices, statusFilter, companyFilter]);
+  }, [invoices, paymentsByInvoice, statusFilter, companyFilter]);
+
+  // Quick Mark Paid records a single payment for whatever is still outstanding,
+  // converted at today's rate
+  async function markPaid(inv: Invoice) {
+    const own = paymentsByInvoice.get(inv.id) || [];
+    const date = today();
+    const rate = inv.currency !== reporting ? await getExchangeRate(inv.currency, reporting, date) : null;
+    const now = new Date().toISOString();
+    const payment: Payment = {
+      id: crypto.randomUUID(),
+      invoiceId: inv.id,
+      date,
+      amount: invoiceBalance(inv, own),
+      currency: inv.currency,
+      exchangeRates: rate != null ? { [reporting]: rate } : undefined,
+      notes: paymentNoteInput || undefined,
+      createdAt: now,
+      updatedAt: now,
+    };
+    batch('Mark invoice paid', () => {
+      savePayment(payment);
+      saveInvoice(withPaymentStatus(inv, [...own, payment]));
+    });
+    setPayingInvoiceId(null);
+  }
 
   // Refresh viewing invoice from latest state
   const currentViewing = viewing ? invoices.find((i) => i.id === viewing.id) || null : null;
@@ -45,7 +88,11 @@ export default function InvoicesPage() {
             <option value="">All statuses</option>
             <option value="draft">Draft</option>
             <option value="sent">Sent</option>
+            <option value="partial">Partially paid</option>
+            <option value="overdue">Overdue</option>
             <option value="paid">Paid</option>
+            <option value="void">Void</option>
+            <option value="credit">Credit notes</option>
           </select>
           <button onClick={() => setCreating(true)} className="bg-blue-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-700">
             Create Invoice
@@ -66,32 +113,57 @@ export default function InvoicesPage() {
                 <th className="text-right px-4 py-3 font-medium">Hours</th>
                 <th className="text-right px-4 py-3 font-medium">Amount</th>
                 <th className="text-left px-4 py-3 font-medium">Status</th>
-                <th className="text-right px-4 py-3 font-medium">Aging</th>
+                <th className="text-right px-4 py-3 font-medium">Due</th>
                 <th className="px-4 py-3"></th>
               </tr>
             </thead>
             <tbody className="divide-y">
               {filtered.map((inv) => {
                 const company = companyMap.get(inv.companyId);
-                const aging = inv.status === 'sent' ? `${daysSince(inv.invoiceDate)}d` : '';
+                const isCredit = isCreditNote(inv);
+                // Days past due (negative until due) for unpaid invoices
+                const pastDue = inv.status === 'sent' && !isCredit ? daysPastDue(inv) : null;
                 const isPaying = payingInvoiceId === inv.id;
+                const own = paymentsByInvoice.get(inv.id) || [];
+                const displayStatus = invoiceDisplayStatus(inv, own);
+                const paymentNote = inv.paymentNote || own[own.length - 1]?.notes;
                 return (
                   <tr key={inv.id} className="hover:bg-gray-50 cursor-pointer" onClick={() => { if (!isPaying) setViewing(inv); }}>
                     <td className="px-4 py-3 font-medium">{inv.invoiceNumber || '—'}</td>
                     <td className="px-4 py-3">{company?.name || 'Unknown'}</td>
                     <td className="px-4 py-3 text-gray-500">{formatDate(inv.invoiceDate)}</td>
-                    <td className="px-4 py-3 text-right">{inv.billingType === 'fixed_monthly' ? '—' : formatHours(inv.totalHours)}</td>
-                    <td className="px-4 py-3 text-right font-medium">{formatCurrency(inv.totalAmount, inv.currency)}</td>
+                    <td className="px-4 py-3 text-right">{inv.billingType === 'fixed_monthly' || isCredit ? '—' : formatHours(inv.totalHours)}</td>
+                    <td className={`px-4 py-3 text-right font-medium ${inv.status === 'void' ? 'line-through text-gray-400' : ''}`}>
+                      {formatCurrency(inv.totalAmount, inv.currency)}
+                      {inv.status === 'sent' && own.length > 0 && (
+                        <span className="block text-xs font-normal text-orange-600">{formatCurrency(invoiceBalance(inv, own), inv.currency)} due</span>
+                      )}
+                    </td>
                     <td className="px-4 py-3">
-                      <Badge color={statusColor[inv.status]}>{inv.status}</Badge>
-                      {inv.paymentNote && inv.status === 'paid' && (
-                        <span className="block text-xs text-gray-400 mt-0.5 truncate max-w-32" title={inv.paymentNote}>{inv.paymentNote}</span>
+                      <Badge color={statusColor[displayStatus]}>{statusLabel[displayStatus]}</Badge>
+                      {inv.status === 'sent' && inv.reminders && inv.reminders.length > 0 && (
+                        <span className="block text-xs text-red-500 mt-0.5">
+                          {inv.reminders.length} reminder{inv.reminders.length !== 1 ? 's' : ''} sent
+                        </span>
                       )}
+                      {paymentNote && inv.status === 'paid' && (
+                        <span className="block text-xs text-gray-400 mt-0.5 truncate max-w-32" title={paymentNote}>{paymentNote}</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {inv.dueDate && <span className="text-gray-500">{formatDate(inv.dueDate)}</span>}
+                      {pastDue != null && (inv.dueDate ? (
+                        <span className={`block text-xs ${pastDue > 0 ? 'text-red-600 font-medium' : 'text-gray-400'}`}>
+                          {dueLabel(pastDue)}
+                        </span>
+                      ) : (
+                        // No terms: age from the invoice date
+                        <span className="text-gray-500">{pastDue}d</span>
+                      ))}
                     </td>
-                    <td className="px-4 py-3 text-right text-gray-500">{aging}</td>
                     <td className="px-4 py-3 text-right">
                       <div className="flex items-center justify-end gap-2">
-                        {inv.status === 'sent' && !isPaying && (
+                        {inv.status === 'sent' && !isCredit && !isPaying && (
                           <button
                             onClick={(e) => { e.stopPropagation(); setPayingInvoiceId(inv.id); setPaymentNoteInput(''); }}
                             className="text-xs bg-green-100 text-green-800 px-2 py-1 rounded hover:bg-green-200 font-medium"
@@ -109,14 +181,11 @@ export default function InvoicesPage() {
                               className="border rounded px-2 py-0.5 text-xs w-32"
                               autoFocus
                               onKeyDown={(e) => {
-                                if (e.key === 'Enter') {
-                                  saveInvoice({ ...inv, status: 'paid', paidDate: today(), paymentNote: paymentNoteInput || undefined, updatedAt: new Date().toISOString() });
-                                  setPayingInvoiceId(null);
-                                }
+                                if (e.key === 'Enter') markPaid(inv);
                               }}
                             />
                             <button
-                              onClick={() => { saveInvoice({ ...inv, status: 'paid', paidDate: today(), paymentNote: paymentNoteInput || undefined, updatedAt: new Date().toISOString() }); setPayingInvoiceId(null); }}
+                              onClick={() => markPaid(inv)}
                               className="text-xs bg-green-600 text-white px-2 py-0.5 rounded hover:bg-green-700"
                             >
                               OK
@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { useInvoices, useProfile } from '../../contexts/StorageContext';
+import type { Company, Invoice, InvoiceReminder, ReminderStage } from '../../types';
+import { REMINDER_STAGES, REMINDER_STAGE_LABELS } from '../../types';
+import type { InvoiceDocument } from '../../utils/invoiceDocument';
+import { downloadBlob } from '../../utils/invoiceDocument';
+import { buildEml, composeReminder, mailtoUrl, nextReminderStage, reminderTemplate } from '../../utils/reminders';
+import { formatDateTime } from '../../utils/dateUtils';
+
+interface Props {
+  invoice: Invoice;
+  company: Company | undefined;
+  balance: number;
+  overdue: boolean;
+  getDocument: () => InvoiceDocument;
+}
+
+// Compose a payment reminder for an overdue invoice from the profile's
+// templates, and list the reminders already sent
+export default function ReminderPanel({ invoice, company, balance, overdue, getDocument }: Props) {
+  const { saveInvoice } = useInvoices();
+  const { profile } = useProfile();
+  const [stage, setStage] = useState<ReminderStage | null>(null);
+  const [email, setEmail] = useState({ to: '', subject: '', body: '' });
+  const [saving, setSaving] = useState(false);
+  const reminders = invoice.reminders || [];
+
+  function compose(s: ReminderStage) {
+    setStage(s);
+    setEmail(composeReminder(reminderTemplate(profile, s), invoice, company, profile, balance));
+  }
+
+  function logReminder(method: InvoiceReminder['method']) {
+    if (!stage) return;
+    const reminder: InvoiceReminder = { stage, sentAt: new Date().toISOString(), to: email.to, method };
+    saveInvoice({ ...invoice, reminders: [...reminders, reminder], updatedAt: reminder.sentAt });
+    setStage(null);
+  }
+
+  function handleMailto() {
+    window.location.href = mailtoUrl(email);
+    logReminder('mailto');
+  }
+
+  async function handleEml() {
+    setSaving(true);
+    const { renderInvoicePdf } = await import('../../utils/invoicePdf');
+    const doc = getDocument();
+    const eml = buildEml(email, profile.email, {
+      filename: `${doc.filename}.pdf`,
+      contentType: 'application/pdf',
+      content: renderInvoicePdf(doc),
+    });
+    downloadBlob(new Blob([eml], { type: 'message/rfc822' }), `Reminder-${doc.filename}.eml`);
+    setSaving(false);
+    logReminder('eml');
+  }
+
+  if (!overdue && reminders.length === 0) return null;
+
+  return (
+    <div className="border border-red-200 bg-red-50 rounded-md p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-red-800">Payment Reminders</span>
+        {overdue && !stage && (
+          <button
+            onClick={() => compose(nextReminderStage(invoice))}
+            className="bg-red-600 text-white px-3 py-1.5 rounded-md text-sm font-medium hover:bg-red-700"
+          >
+            Compose Reminder
+          </button>
+        )}
+      </div>
+
+      {reminders.length > 0 && (
+        <ul className="text-sm text-red-900 space-y-0.5">
+          {reminders.map((r) => (
+            <li key={r.sentAt}>
+              {REMINDER_STAGE_LABELS[r.stage]} · {formatDateTime(r.sentAt)}
+              <span className="text-xs text-gray-500 ml-1">
+                {r.to ? `to ${r.to}` : ''} ({r.method === 'eml' ? 'saved as .eml' : 'opened in mail app'})
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {stage && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-sm text-red-800">
+              Template
+              <select
+                value={stage}
+                onChange={(e) => compose(e.target.value as ReminderStage)}
+                className="block w-full border border-red-200 rounded-md px-3 py-1.5 text-sm mt-0.5 bg-white"
+              >
+                {REMINDER_STAGES.map((s) => <option key={s} value={s}>{REMINDER_STAGE_LABELS[s]}</option>)}
+              </select>
+            </label>
+            <label className="text-sm text-red-800">
+              To
+              <input
+                type="email"
+                value={email.to}
+                onChange={(e) => setEmail({ ...email, to: e.target.value })}
+                placeholder="Client email"
+                className="block w-full border border-red-200 rounded-md px-3 py-1.5 text-sm mt-0.5"
+              />
+            </label>
+          </div>
+          <input
+            type="text"
+            value={email.subject}
+            onChange={(e) => setEmail({ ...email, subject: e.target.value })}
+            className="w-full border border-red-200 rounded-md px-3 py-1.5 text-sm"
+          />
+          <textarea
+            value={email.body}
+            onChange={(e) => setEmail({ ...email, body: e.target.value })}
+            rows={8}
+            className="w-full border border-red-200 rounded-md px-3 py-1.5 text-sm font-mono"
+          />
+          {!company?.contactEmail && (
+            <p className="text-xs text-gray-500">Add a contact email to the company to fill this in automatically.</p>
+          )}
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleMailto}
+              className="bg-red-600 text-white px-3 py-1.5 rounded-md text-sm font-medium hover:bg-red-700"
+            >
+              Open in Mail App
+            </button>
+            <button
+              onClick={handleEml}
+              disabled={saving}
+              title="Email file with the invoice PDF attached"
+              className="bg-white border border-red-200 text-red-700 px-3 py-1.5 rounded-md text-sm hover:bg-red-100 disabled:opacity-50"
+            >
+              {saving ? 'Preparing…' : 'Save .eml with PDF'}
+            </button>
+            <button onClick={() => setStage(null)} className="text-sm text-gray-500 hover:text-gray-700">
+              Cancel
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">
+            Mail apps don't accept attachments from a link; save the .eml to send it with the invoice attached. Either way the
+            reminder is logged here.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
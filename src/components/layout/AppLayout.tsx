@@ -1,5 +1,9 @@
 import { NavLink, Outlet } from 'react-router-dom';
 import { useSync } from '../../contexts/SyncContext';
+import SyncConflictModal from './SyncConflictModal';
+import UndoToast from './UndoToast';
+import { useRetainerDrafts } from '../../hooks/useRetainerDrafts';
+import { useRecurringExpenses } from '../../hooks/useRecurringExpenses';
 
 const tabs = [
   { to: '/', label: 'Dashboard' },
@@ -16,15 +20,17 @@ function SyncIndicator() {
   if (!syncStatus.isConnected && syncStatus.state === 'idle') return null;
 
   const isSpinning = syncStatus.state === 'pushing' || syncStatus.state === 'pulling';
-  const isError = syncStatus.state === 'error';
+  const isError = syncStatus.state === 'error' || syncStatus.state === 'conflict';
 
   const title = isSpinning
     ? syncStatus.state === 'pushing' ? 'Syncing to Sheets...' : 'Pulling from Sheets...'
-    : isError
-      ? `Sync error: ${syncStatus.lastError}`
-      : syncStatus.lastPushAt
-        ? `Synced at ${syncStatus.lastPushAt.toLocaleTimeString()}`
-        : 'Connected to Google Sheets';
+    : syncStatus.state === 'conflict'
+      ? 'Sync conflict — review needed'
+      : isError
+        ? `Sync error: ${syncStatus.lastError}`
+        : syncStatus.lastPushAt
+          ? `Synced at ${syncStatus.lastPushAt.toLocaleTimeString()}`
+          : 'Connected to Google Sheets';
 
   return (
     <span className="p-1.5" title={title}>
@@ -49,6 +55,9 @@ function SyncIndicator() {
 }
 
 export default function AppLayout() {
+  useRetainerDrafts();
+  useRecurringExpenses();
+
   return (
     <div className="min-h-screen flex flex-col">
       <header className="bg-gradient-to-r from-indigo-600 to-blue-600 sticky top-0 z-10 shadow-md">
@@ -95,6 +104,8 @@ export default function AppLayout() {
       <main className="flex-1 max-w-7xl mx-auto w-full px-4 sm:px-6 py-6">
         <Outlet />
       </main>
+      <SyncConflictModal />
+      <UndoToast />
     </div>
   );
 }
@@ -0,0 +1,184 @@
+import { useState } from 'react';
+import { useSync } from '../../contexts/SyncContext';
+import Modal from '../shared/Modal';
+import Badge from '../shared/Badge';
+import { CONFLICT_COLLECTION_LABELS } from '../../services/syncConflicts';
+import type { RecordConflict, RecordResolution, ConflictResolutions, ConflictSide } from '../../services/syncConflicts';
+
+const SIDE_LABELS: Record<ConflictSide, string> = { local: 'This device', remote: 'Google Sheets' };
+
+// camelCase field name -> "Camel case"
+function fieldLabel(field: string): string {
+  const words = field.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function formatValue(value: unknown): string {
+  if (value == null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '—';
+    return value.every((v) => typeof v === 'string') && value.length <= 3
+      ? value.join(', ')
+      : `${value.length} item${value.length === 1 ? '' : 's'}`;
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function fieldSide(resolution: RecordResolution, field: string): ConflictSide {
+  return resolution.choice === 'merged' ? resolution.fields[field] : resolution.choice;
+}
+
+function ConflictCard({ conflict, resolution, onChange }: {
+  conflict: RecordConflict;
+  resolution: RecordResolution;
+  onChange: (resolution: RecordResolution) => void;
+}) {
+  const pickFields = () => {
+    const fields: Record<string, ConflictSide> = {};
+    for (const f of conflict.fields) fields[f.field] = fieldSide(resolution, f.field);
+    onChange({ choice: 'merged', fields });
+  };
+
+  const pickField = (field: string, side: ConflictSide) => {
+    if (resolution.choice !== 'merged') return;
+    onChange({ choice: 'merged', fields: { ...resolution.fields, [field]: side } });
+  };
+
+  const choiceButton = (label: string, active: boolean, onClick: () => void) => (
+    <button
+      onClick={onClick}
+      className={`px-2.5 py-1 text-xs font-medium rounded-md border transition-colors ${
+        active ? 'bg-blue-600 border-blue-600 text-white' : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  const cellClass = (field: string, side: ConflictSide) => {
+    const chosen = fieldSide(resolution, field) === side;
+    const clickable = resolution.choice === 'merged' ? 'cursor-pointer hover:bg-blue-50' : '';
+    return `px-3 py-1.5 align-top break-words ${clickable} ${chosen ? 'bg-green-50 text-gray-900 font-medium' : 'text-gray-400 line-through'}`;
+  };
+
+  return (
+    <div className="border rounded-lg">
+      <div className="flex items-center justify-between gap-3 px-3 py-2 border-b bg-gray-50 rounded-t-lg">
+        <div className="min-w-0">
+          <span className="text-xs text-gray-500">{CONFLICT_COLLECTION_LABELS[conflict.collection]}</span>
+          <p className="text-sm font-medium text-gray-800 truncate">{conflict.label}</p>
+        </div>
+        <div className="flex items-center gap-1.5 shrink-0">
+          {choiceButton(SIDE_LABELS.local, resolution.choice === 'local', () => onChange({ choice: 'local' }))}
+          {choiceButton(SIDE_LABELS.remote, resolution.choice === 'remote', () => onChange({ choice: 'remote' }))}
+          {choiceButton('Pick fields', resolution.choice === 'merged', pickFields)}
+        </div>
+      </div>
+      <table className="w-full text-sm table-fixed">
+        <thead>
+          <tr className="text-xs text-gray-500 text-left">
+            <th className="px-3 py-1.5 font-medium w-1/4">Field</th>
+            {(['local', 'remote'] as const).map((side) => (
+              <th key={side} className="px-3 py-1.5 font-medium">
+                {SIDE_LABELS[side]} {conflict.newer === side && <Badge color="blue">newer</Badge>}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {conflict.fields.map((f) => (
+            <tr key={f.field} className="border-t">
+              <td className="px-3 py-1.5 text-gray-600 align-top">{fieldLabel(f.field)}</td>
+              <td className={cellClass(f.field, 'local')} onClick={() => pickField(f.field, 'local')}>{formatValue(f.local)}</td>
+              <td className={cellClass(f.field, 'remote')} onClick={() => pickField(f.field, 'remote')}>{formatValue(f.remote)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function ConflictReview({ conflicts }: { conflicts: RecordConflict[] }) {
+  const { resolveConflicts, dismissConflicts } = useSync();
+  // Default every record to its newer version — what the automatic merge would do
+  const [resolutions, setResolutions] = useState<ConflictResolutions>(() =>
+    Object.fromEntries(conflicts.map((c) => [c.key, { choice: c.newer }]))
+  );
+  // Set while "Keep all ..." is in effect, so remembering can cover future conflicts too
+  const [allSide, setAllSide] = useState<ConflictSide | undefined>();
+  const [remember, setRemember] = useState(false);
+
+  const keepAll = (side: ConflictSide) => {
+    setResolutions(Object.fromEntries(conflicts.map((c) => [c.key, { choice: side }])));
+    setAllSide(side);
+  };
+
+  const setResolution = (key: string, resolution: RecordResolution) => {
+    setResolutions((prev) => ({ ...prev, [key]: resolution }));
+    setAllSide(undefined);
+  };
+
+  return (
+    <Modal open onClose={dismissConflicts} title="Resolve sync conflicts" wide>
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          {conflicts.length} record{conflicts.length === 1 ? ' was' : 's were'} changed both on this device and in Google Sheets
+          since the last sync. Choose which version to keep, or pick fields to combine them. Nothing is pushed until you apply.
+        </p>
+
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-gray-500">Keep all:</span>
+          <button onClick={() => keepAll('local')} className="text-xs font-medium text-blue-600 hover:text-blue-800">{SIDE_LABELS.local}</button>
+          <span className="text-gray-300">|</span>
+          <button onClick={() => keepAll('remote')} className="text-xs font-medium text-blue-600 hover:text-blue-800">{SIDE_LABELS.remote}</button>
+        </div>
+
+        <div className="space-y-3">
+          {conflicts.map((c) => (
+            <ConflictCard
+              key={c.key}
+              conflict={c}
+              resolution={resolutions[c.key]}
+              onChange={(r) => setResolution(c.key, r)}
+            />
+          ))}
+        </div>
+
+        <div className="flex items-center gap-3 pt-2 border-t">
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={remember}
+              onChange={(e) => setRemember(e.target.checked)}
+              className="rounded"
+            />
+            {allSide
+              ? `Always keep ${SIDE_LABELS[allSide]} for the rest of this session`
+              : 'Remember these choices for this session'}
+          </label>
+          <div className="flex gap-2 ml-auto">
+            <button onClick={dismissConflicts} className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800">
+              Cancel
+            </button>
+            <button
+              onClick={() => resolveConflicts(resolutions, remember, allSide)}
+              className="bg-green-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-green-700"
+            >
+              Apply &amp; Sync
+            </button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+// Shown whenever a push finds records that changed on both sides
+export default function SyncConflictModal() {
+  const { pendingConflicts } = useSync();
+  if (!pendingConflicts) return null;
+  return <ConflictReview conflicts={pendingConflicts} />;
+}
@@ -0,0 +1,90 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useHistory } from '../../hooks/useHistory';
+
+const TOAST_MS = 6000;
+
+interface Notice {
+  id: number;
+  message: string;
+  action: 'undo' | 'redo';
+}
+
+// Text fields keep their own native undo
+function isEditable(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+// Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) for undo/redo, and a toast offering
+// Undo right after a delete.
+export default function UndoToast() {
+  const { history, undo, redo } = useHistory();
+  const [notice, setNotice] = useState<Notice | null>(null);
+  // History entry ids only grow, so anything at or below this has been seen
+  const [dismissedUpTo, setDismissedUpTo] = useState(0);
+
+  const last = history.last;
+  const lastId = last?.id ?? 0;
+  const deleteNotice: Notice | null = last && last.isDelete && last.id > dismissedUpTo
+    ? { id: last.id, message: last.label, action: 'undo' }
+    : null;
+  const toast = notice ?? deleteNotice;
+
+  const runUndo = useCallback(() => {
+    setDismissedUpTo((d) => Math.max(d, lastId));
+    const label = undo();
+    if (label) setNotice({ id: Date.now(), message: `Undid: ${label}`, action: 'redo' });
+  }, [undo, lastId]);
+
+  const runRedo = useCallback(() => {
+    const label = redo();
+    if (label) setNotice({ id: Date.now(), message: `Redid: ${label}`, action: 'undo' });
+  }, [redo]);
+
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z' || isEditable(e.target)) return;
+      e.preventDefault();
+      if (e.shiftKey) runRedo();
+      else runUndo();
+    };
+    document.addEventListener('keydown', handler);
+    return () => document.removeEventListener('keydown', handler);
+  }, [runUndo, runRedo]);
+
+  // Auto-hide
+  const toastId = toast?.id ?? null;
+  const isNotice = notice != null;
+  useEffect(() => {
+    if (toastId == null) return;
+    const timer = setTimeout(() => {
+      if (isNotice) setNotice(null);
+      else setDismissedUpTo((d) => Math.max(d, toastId));
+    }, TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [toastId, isNotice]);
+
+  if (!toast) return null;
+
+  const close = () => {
+    setNotice(null);
+    setDismissedUpTo((d) => Math.max(d, lastId));
+  };
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 bg-gray-900 text-white text-sm rounded-lg shadow-lg px-4 py-2.5">
+      <span>{toast.message}</span>
+      <button
+        onClick={() => {
+          close();
+          if (toast.action === 'undo') runUndo();
+          else runRedo();
+        }}
+        className="font-semibold text-blue-300 hover:text-blue-200"
+      >
+        {toast.action === 'undo' ? 'Undo' : 'Redo'}
+      </button>
+      <button onClick={close} className="text-gray-400 hover:text-gray-200 text-lg leading-none">&times;</button>
+    </div>
+  );
+}
@@ -0,0 +1,309 @@
+import { useMemo, useState } from 'react';
+import { useCompanies, useProjects, useTimeEntries, useInvoices, useExpenses, useProfile } from '../../contexts/StorageContext';
+import { usePayments } from '../../hooks/usePayments';
+import { useEstimatedTaxPayments } from '../../hooks/useEstimatedTaxPayments';
+import type { Currency, EstimatedTaxPayment, EstimatedTaxSettings, TaxJurisdiction } from '../../types';
+import { TAX_JURISDICTION_LABELS } from '../../types';
+import { getRateTable } from '../../utils/storage';
+import { getExchangeRate } from '../../utils/exchangeRate';
+import { formatCurrency } from '../../utils/formatCurrency';
+import { formatDate, today } from '../../utils/dateUtils';
+import { grossIncome, profitAndLoss } from '../../utils/profitAndLoss';
+import { estimatedTaxSettings, nextDeadline, quarterPlans, taxQuarters } from '../../utils/estimatedTax';
+
+interface Props {
+  reporting: Currency;
+}
+
+const JURISDICTIONS = Object.keys(TAX_JURISDICTION_LABELS) as TaxJurisdiction[];
+
+const RATE_FIELDS: { field: keyof EstimatedTaxSettings; label: string }[] = [
+  { field: 'federalRate', label: 'Federal income tax' },
+  { field: 'stateRate', label: 'State income tax' },
+  { field: 'selfEmploymentRate', label: 'Self-employment tax' },
+];
+
+function emptyPayment(): EstimatedTaxPayment {
+  const date = today();
+  const { year, quarter } = nextDeadline(date);
+  const now = new Date().toISOString();
+  return { id: crypto.randomUUID(), taxYear: year, quarter, jurisdiction: 'federal', date, amount: 0, createdAt: now, updatedAt: now };
+}
+
+export default function EstimatedTaxReport({ reporting }: Props) {
+  const { companies } = useCompanies();
+  const { projects } = useProjects();
+  const { timeEntries } = useTimeEntries();
+  const { invoices } = useInvoices();
+  const { payments } = usePayments();
+  const { expenses } = useExpenses();
+  const { profile, saveProfile } = useProfile();
+  const { estimatedTaxPayments: taxPayments, saveEstimatedTaxPayment, deleteEstimatedTaxPayment } = useEstimatedTaxPayments();
+  const next = nextDeadline();
+  const [year, setYear] = useState(next.year);
+  const settings = useMemo(() => estimatedTaxSettings(profile), [profile]);
+  const [rates, setRates] = useState<EstimatedTaxSettings | null>(null);
+  const [draft, setDraft] = useState<EstimatedTaxPayment | null>(null);
+  const [rateTable, setRateTable] = useState(getRateTable);
+  const [filling, setFilling] = useState(false);
+
+  const years = useMemo(() => {
+    const set = new Set<number>([new Date().getFullYear(), next.year]);
+    for (const i of invoices) set.add(parseInt(i.invoiceDate.substring(0, 4), 10));
+    for (const p of taxPayments) set.add(p.taxYear);
+    return Array.from(set).filter((y) => y > 0).sort((a, b) => b - a);
+  }, [invoices, taxPayments, next.year]);
+
+  // Realized net profit per window: cash-basis income less deductible
+  // expenses, as on the Profit & Loss report
+  const { profits, missingRates } = useMemo(() => {
+    const windows = taxQuarters(year).map((q) =>
+      profitAndLoss({ year, start: q.start, end: q.end, reporting, companies, projects, timeEntries, invoices, payments, expenses, rateTable }),
+    );
+    return {
+      profits: windows.map((pl) => grossIncome(pl.cash) - pl.totalExpenses),
+      missingRates: windows.flatMap((pl) => pl.missingRates),
+    };
+  }, [year, reporting, companies, projects, timeEntries, invoices, payments, expenses, rateTable]);
+
+  const plans = useMemo(() => quarterPlans(year, profits, settings, taxPayments), [year, profits, settings, taxPayments]);
+  const upcoming = plans.find((q) => q.due >= today());
+  const money = (n: number) => formatCurrency(n, reporting);
+
+  // Look up a rate for each currency and date left out, then recompute
+  async function fillRates() {
+    setFilling(true);
+    const pairs = new Map(missingRates.map((m) => [`${m.currency}/${m.date}`, m]));
+    for (const m of pairs.values()) await getExchangeRate(m.currency, reporting, m.date);
+    setRateTable(getRateTable());
+    setFilling(false);
+  }
+
+  function saveRates() {
+    if (!rates) return;
+    saveProfile({ ...profile, estimatedTax: rates });
+    setRates(null);
+  }
+
+  function handleSavePayment() {
+    if (!draft || draft.amount <= 0 || !draft.date) return;
+    saveEstimatedTaxPayment({ ...draft, note: draft.note?.trim() || undefined, updatedAt: new Date().toISOString() });
+    setDraft(null);
+  }
+
+  function handleDeletePayment(payment: EstimatedTaxPayment) {
+    if (!confirm(`Delete the ${formatDate(payment.date)} payment of ${money(payment.amount)}?`)) return;
+    deleteEstimatedTaxPayment(payment.id);
+  }
+
+  const yearPayments = taxPayments
+    .filter((p) => p.taxYear === year)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start gap-3">
+        <select value={year} onChange={(e) => setYear(parseInt(e.target.value, 10))} className="border rounded-md px-2 py-1.5 text-sm">
+          {years.map((y) => <option key={y} value={y}>{y}</option>)}
+        </select>
+        <p className="text-sm text-gray-500">
+          Estimated tax on net profit realized so far in the year: payments received less deductible expenses, in {reporting}.
+          Each deadline asks for the tax on profit to date, less what has already been paid.
+        </p>
+      </div>
+
+      {/* Next deadline */}
+      {upcoming ? (
+        <div className="bg-white border rounded-xl p-5 shadow-sm">
+          <p className="text-sm text-gray-500">
+            Q{upcoming.quarter} {year} · due {formatDate(upcoming.due)}
+          </p>
+          <div className="flex items-baseline gap-6 mt-1">
+            <p className="text-2xl font-bold">{money(upcoming.unpaid.federal + upcoming.unpaid.state)}</p>
+            <p className="text-sm text-gray-500">
+              Federal {money(upcoming.unpaid.federal)} · State {money(upcoming.unpaid.state)}
+            </p>
+          </div>
+          <p className="text-xs text-gray-400 mt-1">
+            On {money(upcoming.profitToDate)} profit realized {upcoming.end > today() ? 'so far; the window runs' : ''} through {formatDate(upcoming.end)}.
+          </p>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">All {year} deadlines have passed.</p>
+      )}
+
+      {/* Quarters */}
+      <div className="bg-white border rounded-lg overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-gray-500 text-xs">
+            <tr>
+              <th className="text-left px-4 py-2 font-medium">Quarter</th>
+              <th className="text-left px-4 py-2 font-medium">Income earned</th>
+              <th className="text-left px-4 py-2 font-medium">Due</th>
+              <th className="text-right px-4 py-2 font-medium">Net Profit</th>
+              <th className="text-right px-4 py-2 font-medium">Tax to Date</th>
+              <th className="text-right px-4 py-2 font-medium">Paid</th>
+              <th className="text-right px-4 py-2 font-medium">Still Due</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {plans.map((q) => {
+              const owed = q.unpaid.federal + q.unpaid.state;
+              return (
+                <tr key={q.quarter} className={q === upcoming ? 'bg-blue-50' : ''}>
+                  <td className="px-4 py-2 font-medium">Q{q.quarter}</td>
+                  <td className="px-4 py-2 text-gray-500">{formatDate(q.start)} – {formatDate(q.end)}</td>
+                  <td className="px-4 py-2 text-gray-500">{formatDate(q.due)}</td>
+                  <td className={`px-4 py-2 text-right tabular-nums ${q.netProfit < 0 ? 'text-red-600' : ''}`}>{money(q.netProfit)}</td>
+                  <td className="px-4 py-2 text-right tabular-nums">{money(q.estimate.total)}</td>
+                  <td className="px-4 py-2 text-right tabular-nums">{money(q.paid.federal + q.paid.state)}</td>
+                  <td className={`px-4 py-2 text-right tabular-nums font-medium ${owed > 0 && q.due < today() ? 'text-red-600' : ''}`}>{money(owed)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      {missingRates.length > 0 && (
+        <div className="flex items-center gap-3 text-xs text-amber-600 -mt-4">
+          <span>
+            {missingRates.length} item{missingRates.length !== 1 ? 's are' : ' is'} left out because there's no {reporting} rate for its date.
+          </span>
+          <button onClick={fillRates} disabled={filling} className="text-amber-700 hover:text-amber-900 font-medium disabled:opacity-50">
+            {filling ? 'Fetching rates…' : 'Fill In Missing Rates'}
+          </button>
+        </div>
+      )}
+
+      <div className="grid md:grid-cols-2 gap-6">
+        {/* Rates */}
+        <div className="bg-white border rounded-xl p-5 shadow-sm">
+          <h3 className="text-sm font-semibold text-gray-700 mb-1">Tax Rates</h3>
+          <p className="text-sm text-gray-500 mb-4">
+            Your expected marginal income tax rates. Self-employment tax applies to 92.35% of net profit.
+          </p>
+          <div className="space-y-2">
+            {RATE_FIELDS.map(({ field, label }) => (
+              <label key={field} className="flex items-center justify-between text-sm text-gray-700">
+                {label}
+                <span className="flex items-center gap-1">
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={0.1}
+                    value={(rates ?? settings)[field]}
+                    onChange={(e) => setRates({ ...(rates ?? settings), [field]: parseFloat(e.target.value) || 0 })}
+                    className="w-20 border rounded-md px-2 py-1 text-sm text-right"
+                  />
+                  %
+                </span>
+              </label>
+            ))}
+          </div>
+          {rates && (
+            <div className="flex justify-end gap-2 mt-3">
+              <button onClick={() => setRates(null)} className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800">Cancel</button>
+              <button onClick={saveRates} className="bg-blue-600 text-white px-3 py-1.5 rounded-md text-sm font-medium hover:bg-blue-700">
+                Save Rates
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Payments made */}
+        <div className="bg-white border rounded-xl p-5 shadow-sm">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-sm font-semibold text-gray-700">Payments Made for {year}</h3>
+            {!draft && (
+              <button onClick={() => setDraft(emptyPayment())} className="text-sm text-blue-600 hover:text-blue-800 font-medium">
+                + Record Payment
+              </button>
+            )}
+          </div>
+          {yearPayments.length === 0 && !draft && <p className="text-sm text-gray-400">No estimated payments recorded.</p>}
+          {yearPayments.length > 0 && (
+            <div className="divide-y border rounded-md mb-3">
+              {yearPayments.map((p) => (
+                <div key={p.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                  <span className="text-gray-500 w-24 shrink-0">{formatDate(p.date)}</span>
+                  <span className="flex-1 min-w-0 truncate">
+                    {TAX_JURISDICTION_LABELS[p.jurisdiction]} · Q{p.quarter}
+                    {p.note && <span className="text-gray-400 ml-2">{p.note}</span>}
+                  </span>
+                  <span className="tabular-nums font-medium">{money(p.amount)}</span>
+                  <button onClick={() => setDraft({ ...p })} className="text-xs text-blue-600 hover:text-blue-800">Edit</button>
+                  <button onClick={() => handleDeletePayment(p)} className="text-xs text-red-500 hover:text-red-700">Del</button>
+                </div>
+              ))}
+            </div>
+          )}
+          {draft && (
+            <div className="border rounded-md p-3 space-y-3 bg-gray-50">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Date paid</label>
+                  <input
+                    type="date"
+                    value={draft.date}
+                    onChange={(e) => setDraft({ ...draft, date: e.target.value })}
+                    className="w-full border rounded-md px-2 py-1.5 text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Amount ({reporting})</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={draft.amount || ''}
+                    onChange={(e) => setDraft({ ...draft, amount: parseFloat(e.target.value) || 0 })}
+                    className="w-full border rounded-md px-2 py-1.5 text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Paid to</label>
+                  <select
+                    value={draft.jurisdiction}
+                    onChange={(e) => setDraft({ ...draft, jurisdiction: e.target.value as TaxJurisdiction })}
+                    className="w-full border rounded-md px-2 py-1.5 text-sm"
+                  >
+                    {JURISDICTIONS.map((j) => <option key={j} value={j}>{TAX_JURISDICTION_LABELS[j]}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">For</label>
+                  <select
+                    value={`${draft.taxYear}-${draft.quarter}`}
+                    onChange={(e) => {
+                      const [taxYear, quarter] = e.target.value.split('-').map(Number);
+                      setDraft({ ...draft, taxYear, quarter: quarter as EstimatedTaxPayment['quarter'] });
+                    }}
+                    className="w-full border rounded-md px-2 py-1.5 text-sm"
+                  >
+                    {[draft.taxYear - 1, draft.taxYear, draft.taxYear + 1].flatMap((y) => taxQuarters(y)).map((q) => (
+                      <option key={`${q.year}-${q.quarter}`} value={`${q.year}-${q.quarter}`}>Q{q.quarter} {q.year}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <input
+                type="text"
+                value={draft.note || ''}
+                onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+                className="w-full border rounded-md px-2 py-1.5 text-sm"
+                placeholder="Note, e.g. confirmation number"
+              />
+              <div className="flex justify-end gap-2">
+                <button onClick={() => setDraft(null)} className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800">Cancel</button>
+                <button onClick={handleSavePayment} className="bg-blue-600 text-white px-3 py-1.5 rounded-md text-sm font-medium hover:bg-blue-700">
+                  Save Payment
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { Fragment, useMemo, useState } from 'react';
+import { useInvoices } from '../../contexts/StorageContext';
+import { usePayments } from '../../hooks/usePayments';
+import { useHistory } from '../../hooks/useHistory';
+import type { Currency, Invoice, Payment } from '../../types';
+import { getExchangeRate, recordedRate, realizedFxByYear } from '../../utils/exchangeRate';
+import { formatCurrency } from '../../utils/formatCurrency';
+
+interface Props {
+  reporting: Currency;
+  companyFilter: string;
+}
+
+export default function FxGainsReport({ reporting, companyFilter }: Props) {
+  const { invoices, saveInvoice } = useInvoices();
+  const { payments, savePayment } = usePayments();
+  const { batch } = useHistory();
+  const [filling, setFilling] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const foreignInvoices = useMemo(
+    () => invoices.filter((i) => i.currency !== reporting && i.status !== 'draft' && (!companyFilter || i.companyId === companyFilter)),
+    [invoices, reporting, companyFilter],
+  );
+
+  const rows = useMemo(() => realizedFxByYear(foreignInvoices, payments, reporting), [foreignInvoices, payments, reporting]);
+
+  const yearTotals = useMemo(() => {
+    const totals = new Map<string, number>();
+    for (const r of rows) totals.set(r.year, (totals.get(r.year) || 0) + r.gain);
+    return totals;
+  }, [rows]);
+
+  const missing = rows.reduce((sum, r) => sum + r.missingRates, 0);
+
+  // Look up the rate on the invoice date for invoices sent without one, and on
+  // the payment date for payments without one. Payments recorded before
+  // payment-date rates were captured copied the invoice's rate; those are
+  // refreshed too.
+  async function fillRates() {
+    setFilling(true);
+    setMessage('');
+    const now = new Date().toISOString();
+    const updatedInvoices: Invoice[] = [];
+    const updatedPayments: Payment[] = [];
+    for (const inv of foreignInvoices) {
+      const invoiceRate = recordedRate(inv, reporting);
+      if (invoiceRate == null) {
+        const rate = await getExchangeRate(inv.currency, reporting, inv.invoiceDate);
+        if (rate != null) {
+          updatedInvoices.push({ ...inv, exchangeRates: { ...inv.exchangeRates, [reporting]: rate }, updatedAt: now });
+        }
+      }
+      for (const p of payments.filter((pay) => pay.invoiceId === inv.id)) {
+        const paymentRate = recordedRate(p, reporting);
+        if (paymentRate != null && paymentRate !== invoiceRate) continue;
+        const rate = await getExchangeRate(inv.currency, reporting, p.date);
+        if (rate != null && rate !== paymentRate) {
+          updatedPayments.push({ ...p, exchangeRates: { ...p.exchangeRates, [reporting]: rate }, updatedAt: now });
+        }
+      }
+    }
+    if (updatedInvoices.length + updatedPayments.length > 0) {
+      batch('Fill in exchange rates', () => {
+        updatedInvoices.forEach(saveInvoice);
+        updatedPayments.forEach(savePayment);
+      });
+    }
+    setFilling(false);
+    setMessage(`Updated ${updatedInvoices.length} invoice${updatedInvoices.length !== 1 ? 's' : ''} and ${updatedPayments.length} payment${updatedPayments.length !== 1 ? 's' : ''}.`);
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <p className="text-sm text-gray-500">
+          Realized exchange gains and losses on foreign-currency invoices, in {reporting}: each payment at the rate on its
+          payment date, compared with the same amount at the rate recorded when the invoice was sent. Grouped by payment year.
+        </p>
+        <button
+          onClick={fillRates}
+          disabled={filling}
+          className="shrink-0 text-sm bg-gray-100 text-gray-700 px-3 py-1.5 rounded-md hover:bg-gray-200 disabled:opacity-50"
+        >
+          {filling ? 'Fetching rates…' : 'Fill In Missing Rates'}
+        </button>
+      </div>
+      {message && <p className="text-sm text-green-600">{message}</p>}
+
+      {rows.length === 0 ? (
+        <p className="text-gray-500 text-center py-8">No payments on foreign-currency invoices.</p>
+      ) : (
+        <div className="bg-white border rounded-lg overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-gray-500 text-xs">
+              <tr>
+                <th className="text-left px-4 py-2 font-medium">Year</th>
+                <th className="text-left px-4 py-2 font-medium">Currency</th>
+                <th className="text-right px-4 py-2 font-medium">Settled</th>
+                <th className="text-right px-4 py-2 font-medium">Booked ({reporting})</th>
+                <th className="text-right px-4 py-2 font-medium">Received ({reporting})</th>
+                <th className="text-right px-4 py-2 font-medium">Gain / Loss</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {rows.map((r, i) => (
+                <Fragment key={`${r.year}/${r.currency}`}>
+                  <tr>
+                    <td className="px-4 py-2">{r.year}</td>
+                    <td className="px-4 py-2">
+                      {r.currency}
+                      {r.missingRates > 0 && <span className="text-xs text-amber-600 ml-2">{r.missingRates} without a rate</span>}
+                    </td>
+                    <td className="px-4 py-2 text-right tabular-nums">{formatCurrency(r.settled, r.currency)}</td>
+                    <td className="px-4 py-2 text-right tabular-nums">{formatCurrency(r.booked, reporting)}</td>
+                    <td className="px-4 py-2 text-right tabular-nums">{formatCurrency(r.received, reporting)}</td>
+                    <td className={`px-4 py-2 text-right tabular-nums font-medium ${r.gain < 0 ? 'text-red-600' : 'text-green-700'}`}>
+                      {formatCurrency(r.gain, reporting)}
+                    </td>
+                  </tr>
+                  {rows[i + 1]?.year !== r.year && (
+                    <tr className="bg-gray-50 font-semibold">
+                      <td className="px-4 py-2" colSpan={5}>{r.year} net FX {yearTotals.get(r.year)! < 0 ? 'loss' : 'gain'}</td>
+                      <td className={`px-4 py-2 text-right tabular-nums ${yearTotals.get(r.year)! < 0 ? 'text-red-600' : 'text-green-700'}`}>
+                        {formatCurrency(yearTotals.get(r.year)!, reporting)}
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {missing > 0 && (
+        <p className="text-xs text-amber-600">
+          {missing} payment{missing !== 1 ? 's are' : ' is'} left out because the invoice or payment has no {reporting} rate.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { useMemo, useState } from 'react';
+import { useCompanies, useExpenses } from '../../contexts/StorageContext';
+import type { Currency } from '../../types';
+import { EXPENSE_CATEGORY_LABELS } from '../../types';
+import { formatDate } from '../../utils/dateUtils';
+import { formatCurrency } from '../../utils/formatCurrency';
+import { exportExpensesCsv, downloadCsv } from '../../utils/csv';
+import { hasReceipt } from '../../utils/receiptStore';
+
+// Expenses in a tax year with neither an attached file nor the "receipt on
+// file" flag, to chase up before filing
+export default function MissingReceiptsReport() {
+  const { companies } = useCompanies();
+  const { expenses } = useExpenses();
+  const [year, setYear] = useState(String(new Date().getFullYear()));
+
+  const years = useMemo(() => {
+    const set = new Set<string>([String(new Date().getFullYear())]);
+    for (const e of expenses) set.add(e.date.substring(0, 4));
+    return Array.from(set).sort().reverse();
+  }, [expenses]);
+
+  const yearExpenses = useMemo(() => expenses.filter((e) => e.date.startsWith(year)), [expenses, year]);
+
+  const missing = useMemo(
+    () => yearExpenses.filter((e) => !hasReceipt(e)).sort((a, b) => a.date.localeCompare(b.date)),
+    [yearExpenses],
+  );
+
+  const totals = useMemo(() => {
+    const map = new Map<Currency, number>();
+    for (const e of missing) map.set(e.currency, (map.get(e.currency) || 0) + e.amount);
+    return Array.from(map, ([currency, amount]) => ({ currency, amount }));
+  }, [missing]);
+
+  const companyMap = useMemo(() => new Map(companies.map((c) => [c.id, c])), [companies]);
+
+  function handleExport() {
+    downloadCsv(exportExpensesCsv([...missing], companies), `missing-receipts-${year}.csv`);
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <select value={year} onChange={(e) => setYear(e.target.value)} className="border rounded-md px-2 py-1.5 text-sm">
+            {years.map((y) => <option key={y} value={y}>{y}</option>)}
+          </select>
+          <p className="text-sm text-gray-500">
+            {missing.length} of {yearExpenses.length} expense{yearExpenses.length !== 1 ? 's' : ''} without a receipt
+          </p>
+        </div>
+        {missing.length > 0 && (
+          <button
+            onClick={handleExport}
+            className="shrink-0 text-sm bg-gray-100 text-gray-700 px-3 py-1.5 rounded-md hover:bg-gray-200"
+          >
+            Export CSV
+          </button>
+        )}
+      </div>
+
+      {missing.length === 0 ? (
+        <p className="text-gray-500 text-center py-8">
+          {yearExpenses.length === 0 ? `No expenses recorded in ${year}.` : `Every ${year} expense has a receipt.`}
+        </p>
+      ) : (
+        <div className="bg-white border rounded-lg overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-gray-500 text-xs">
+              <tr>
+                <th className="text-left px-4 py-2 font-medium">Date</th>
+                <th className="text-left px-4 py-2 font-medium">Category</th>
+                <th className="text-left px-4 py-2 font-medium">Vendor</th>
+                <th className="text-left px-4 py-2 font-medium">Description</th>
+                <th className="text-right px-4 py-2 font-medium">Amount</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {missing.map((e) => (
+                <tr key={e.id}>
+                  <td className="px-4 py-2 whitespace-nowrap">{formatDate(e.date)}</td>
+                  <td className="px-4 py-2 text-gray-500">{EXPENSE_CATEGORY_LABELS[e.category]}</td>
+                  <td className="px-4 py-2">{e.vendor || ''}</td>
+                  <td className="px-4 py-2 text-gray-600">
+                    {e.description}
+                    {e.companyId && companyMap.has(e.companyId) && (
+                      <span className="text-xs text-gray-400 ml-2">({companyMap.get(e.companyId)!.name})</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-right tabular-nums">{formatCurrency(e.amount, e.currency)}</td>
+                </tr>
+              ))}
+              {totals.map((t) => (
+                <tr key={t.currency} className="bg-gray-50 font-semibold">
+                  <td className="px-4 py-2" colSpan={4}>Total without receipts{totals.length > 1 ? ` (${t.currency})` : ''}</td>
+                  <td className="px-4 py-2 text-right tabular-nums">{formatCurrency(t.amount, t.currency)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { useMemo, useState } from 'react';
+import { useCompanies, useProjects, useTimeEntries, useInvoices, useExpenses, useProfile } from '../../contexts/StorageContext';
+import { usePayments } from '../../hooks/usePayments';
+import type { Currency } from '../../types';
+import { getRateTable } from '../../utils/storage';
+import { getExchangeRate } from '../../utils/exchangeRate';
+import { formatCurrency } from '../../utils/formatCurrency';
+import { formatDate } from '../../utils/dateUtils';
+import { profitAndLoss, profitAndLossRows } from '../../utils/profitAndLoss';
+import { renderProfitAndLossHtml } from '../../utils/profitAndLossHtml';
+import { exportProfitAndLossCsv, downloadCsv } from '../../utils/csv';
+
+interface Props {
+  reporting: Currency;
+}
+
+export default function ProfitAndLossReport({ reporting }: Props) {
+  const { companies } = useCompanies();
+  const { projects } = useProjects();
+  const { timeEntries } = useTimeEntries();
+  const { invoices } = useInvoices();
+  const { payments } = usePayments();
+  const { expenses } = useExpenses();
+  const { profile } = useProfile();
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [rateTable, setRateTable] = useState(getRateTable);
+  const [filling, setFilling] = useState(false);
+  const [showMissing, setShowMissing] = useState(false);
+
+  const years = useMemo(() => {
+    const set = new Set<number>([new Date().getFullYear()]);
+    for (const i of invoices) set.add(parseInt(i.invoiceDate.substring(0, 4), 10));
+    for (const e of expenses) set.add(parseInt(e.date.substring(0, 4), 10));
+    return Array.from(set).filter((y) => y > 0).sort((a, b) => b - a);
+  }, [invoices, expenses]);
+
+  const pl = useMemo(
+    () => profitAndLoss({ year, reporting, companies, projects, timeEntries, invoices, payments, expenses, rateTable }),
+    [year, reporting, companies, projects, timeEntries, invoices, payments, expenses, rateTable],
+  );
+  const rows = useMemo(() => profitAndLossRows(pl), [pl]);
+
+  const clients = useMemo(() => {
+    const ids = new Set([...pl.cash.byCompany.keys(), ...pl.accrual.byCompany.keys()]);
+    return [...ids]
+      .map((id) => ({
+        id,
+        name: companies.find((c) => c.id === id)?.name ?? 'Unknown client',
+        cash: pl.cash.byCompany.get(id) || 0,
+        accrual: pl.accrual.byCompany.get(id) || 0,
+      }))
+      .sort((a, b) => b.accrual - a.accrual);
+  }, [pl, companies]);
+
+  // Look up a rate for each currency and date left out, then recompute
+  async function fillRates() {
+    setFilling(true);
+    const pairs = new Map(pl.missingRates.map((m) => [`${m.currency}/${m.date}`, m]));
+    for (const m of pairs.values()) await getExchangeRate(m.currency, reporting, m.date);
+    setRateTable(getRateTable());
+    setFilling(false);
+  }
+
+  function handlePrint() {
+    const win = window.open('', '_blank');
+    if (win) {
+      win.document.write(renderProfitAndLossHtml(pl, profile, companies));
+      win.document.close();
+    }
+  }
+
+  function handleExportCsv() {
+    downloadCsv(exportProfitAndLossCsv(pl), `profit-and-loss-${year}.csv`);
+  }
+
+  const money = (n: number) => formatCurrency(n, reporting);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <select value={year} onChange={(e) => setYear(parseInt(e.target.value, 10))} className="border rounded-md px-2 py-1.5 text-sm">
+            {years.map((y) => <option key={y} value={y}>{y}</option>)}
+          </select>
+          <p className="text-sm text-gray-500">
+            Schedule C summary in {reporting}. Cash basis counts payments received in the year, accrual basis invoices
+            dated in it; both exclude tax collected.
+          </p>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <button onClick={handlePrint} className="text-sm bg-gray-100 text-gray-700 px-3 py-1.5 rounded-md hover:bg-gray-200">
+            Print
+          </button>
+          <button onClick={handleExportCsv} className="text-sm bg-gray-100 text-gray-700 px-3 py-1.5 rounded-md hover:bg-gray-200">
+            Export CSV
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white border rounded-lg overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-gray-500 text-xs">
+            <tr>
+              <th className="text-left px-4 py-2 font-medium w-16">Line</th>
+              <th className="text-left px-4 py-2 font-medium">Description</th>
+              <th className="text-right px-4 py-2 font-medium">Spent</th>
+              <th className="text-right px-4 py-2 font-medium">Cash Basis</th>
+              <th className="text-right px-4 py-2 font-medium">Accrual Basis</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {rows.map((r) => (
+              <tr key={`${r.kind}/${r.line}`} className={r.kind === 'total' ? 'bg-gray-50 font-semibold' : ''}>
+                <td className="px-4 py-2 text-gray-500">{r.line}</td>
+                <td className="px-4 py-2">{r.label}</td>
+                <td className="px-4 py-2 text-right tabular-nums text-gray-500">{r.spent != null ? money(r.spent) : ''}</td>
+                <td className={`px-4 py-2 text-right tabular-nums ${r.line === '31' && r.cash < 0 ? 'text-red-600' : ''}`}>{money(r.cash)}</td>
+                <td className={`px-4 py-2 text-right tabular-nums ${r.line === '31' && r.accrual < 0 ? 'text-red-600' : ''}`}>{money(r.accrual)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {clients.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">Income by Client</h3>
+          <div className="bg-white border rounded-lg overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-gray-500 text-xs">
+                <tr>
+                  <th className="text-left px-4 py-2 font-medium">Client</th>
+                  <th className="text-right px-4 py-2 font-medium">Cash Basis</th>
+                  <th className="text-right px-4 py-2 font-medium">Accrual Basis</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {clients.map((c) => (
+                  <tr key={c.id}>
+                    <td className="px-4 py-2">{c.name}</td>
+                    <td className="px-4 py-2 text-right tabular-nums w-40">{money(c.cash)}</td>
+                    <td className="px-4 py-2 text-right tabular-nums w-40">{money(c.accrual)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {pl.unconfirmedExpenses > 0 && (
+        <p className="text-xs text-amber-600">
+          Includes {pl.unconfirmedExpenses} generated recurring expense{pl.unconfirmedExpenses !== 1 ? 's' : ''} not yet reviewed on the Expenses page.
+        </p>
+      )}
+      {pl.missingRates.length > 0 && (
+        <div className="text-xs text-amber-600">
+          <div className="flex items-center gap-3">
+            <span>
+              {pl.missingRates.length} item{pl.missingRates.length !== 1 ? 's are' : ' is'} left out because there's no {reporting} rate for its date.
+            </span>
+            <button onClick={() => setShowMissing(!showMissing)} className="text-amber-700 hover:text-amber-900 font-medium">
+              {showMissing ? 'Hide' : 'Show'}
+            </button>
+            <button onClick={fillRates} disabled={filling} className="text-amber-700 hover:text-amber-900 font-medium disabled:opacity-50">
+              {filling ? 'Fetching rates…' : 'Fill In Missing Rates'}
+            </button>
+          </div>
+          {showMissing && (
+            <ul className="mt-1 space-y-0.5 text-gray-600">
+              {pl.missingRates.map((m, i) => (
+                <li key={i}>{formatDate(m.date)} · {m.currency} · {m.description}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,36 @@
 import { useState, useMemo } from 'react';
-import { useCompanies, useProjects, useTimeEntries, useInvoices } from '../../contexts/StorageContext';
-import { totalsByCurrency, entryAmount, getEntryPaymentStatus, isFixedMonthly } from '../../utils/calculations';
-import { startOfMonth, endOfMonth, startOfYear, endOfYear, isInRange, formatDate, daysSince } from '../../utils/dateUtils';
+import { useCompanies, useProjects, useTimeEntries, useInvoices, useProfile } from '../../contexts/StorageContext';
+import { usePayments } from '../../hooks/usePayments';
+import { totalsByCurrency, billableAmount, getEntryPaymentStatus, isFixedMonthly, invoicePayments, invoiceBalance, daysPastDue } from '../../utils/calculations';
+import { startOfMonth, endOfMonth, startOfYear, endOfYear, isInRange, formatDate } from '../../utils/dateUtils';
 import { formatCurrency, formatHours } from '../../utils/formatCurrency';
 import { exportTimeEntriesCsv, exportInvoicesCsv, downloadCsv } from '../../utils/csv';
+import { invoiceNetAmount } from '../../utils/tax';
+import { convertAmount, recordedRate } from '../../utils/exchangeRate';
+import { getReportingCurrency } from '../../utils/currencies';
+import { dueLabel } from '../../utils/paymentTerms';
+import { isCreditNote } from '../../utils/creditNotes';
+import { useExchangeRates } from '../../hooks/useExchangeRates';
 import type { Currency } from '../../types';
 import Badge from '../shared/Badge';
+import FxGainsReport from './FxGainsReport';
+import MissingReceiptsReport from './MissingReceiptsReport';
+import ProfitAndLossReport from './ProfitAndLossReport';
+import EstimatedTaxReport from './EstimatedTaxReport';
+import AgingSummary from '../shared/AgingSummary';
 
 type Period = 'month' | 'year' | 'custom';
-type Tab = 'summary' | 'invoicing' | 'revenue';
+type Tab = 'summary' | 'invoicing' | 'revenue' | 'pnl' | 'estimatedTax' | 'fx' | 'receipts';
+
+const TAB_LABELS: Record<Tab, string> = {
+  summary: 'Work Summary',
+  invoicing: 'Invoicing Status',
+  revenue: 'Revenue',
+  pnl: 'Profit & Loss',
+  estimatedTax: 'Estimated Tax',
+  fx: 'FX Gains/Losses',
+  receipts: 'Missing Receipts',
+};
 
 const statusColors: Record<string, string> = {
   'Paid': 'green',
@@ -17,6 +39,7 @@ const statusColors: Record<string, string> = {
   'Uninvoiced': 'orange',
   'Unpaid': 'orange',
   'Tracking only': 'gray',
+  'Invoice voided': 'gray',
 };
 
 export default function ReportsPage() {
@@ -24,6 +47,9 @@ export default function ReportsPage() {
   const { projects } = useProjects();
   const { timeEntries } = useTimeEntries();
   const { invoices } = useInvoices();
+  const { payments } = usePayments();
+  const { profile } = useProfile();
+  const reporting = getReportingCurrency(profile);
   const [tab, setTab] = useState<Tab>('summary');
   const [period, setPeriod] = useState<Period>('year');
   const [companyFilter, setCompanyFilter] = useState('');
@@ -67,7 +93,7 @@ export default function ReportsPage() {
     const startMonth = dateRange.start.substring(0, 7);
     const endMonth = dateRange.end.substring(0, 7);
     return invoices.filter((i) => {
-      if (i.billingType !== 'fixed_monthly' || !i.retainerMonth) return false;
+      if (i.billingType !== 'fixed_monthly' || !i.retainerMonth || i.status === 'void') return false;
       if (companyFilter && i.companyId !== companyFilter) return false;
       return i.retainerMonth >= startMonth && i.retainerMonth <= endMonth;
     });
@@ -85,20 +111,20 @@ export default function ReportsPage() {
         existing.hours += e.hours;
       } else {
         existing.hours += e.hours;
-        existing.amount += entryAmount(e, co.hourlyRate);
+        existing.amount += billableAmount(e, co, projectMap);
       }
       byCompany.set(e.companyId, existing);
     }
     // Add retainer invoice amounts for fixed-monthly companies
     for (const inv of periodRetainerInvoices) {
       const existing = byCompany.get(inv.companyId) || { hours: 0, amount: 0 };
-      existing.amount += inv.totalAmount;
+      existing.amount += invoiceNetAmount(inv);
       byCompany.set(inv.companyId, existing);
     }
     // Include fixed-monthly companies that have retainer invoices but no entries
     for (const inv of periodRetainerInvoices) {
       if (!byCompany.has(inv.companyId)) {
-        byCompany.set(inv.companyId, { hours: 0, amount: inv.totalAmount });
+        byCompany.set(inv.companyId, { hours: 0, amount: invoiceNetAmount(inv) });
       }
     }
     return Array.from(byCompany.entries())
@@ -107,7 +133,7 @@ export default function ReportsPage() {
         ...data,
       }))
       .filter((x) => x.company);
-  }, [filteredEntries, companyMap, periodRetainerInvoices]);
+  }, [filteredEntries, companyMap, projectMap, periodRetainerInvoices]);
 
   // Currency totals — only hourly companies contribute hours
   const currencyTotals = useMemo(() => {
@@ -115,18 +141,18 @@ export default function ReportsPage() {
       const co = companyMap.get(e.companyId);
       return co && !isFixedMonthly(co);
     });
-    const hourlyTotals = totalsByCurrency(hourlyEntries, companies);
+    const hourlyTotals = totalsByCurrency(hourlyEntries, companies, projects);
     const totalsMap = new Map<Currency, { hours: number; amount: number }>();
     for (const t of hourlyTotals) {
       totalsMap.set(t.currency, { hours: t.hours, amount: t.amount });
     }
     for (const inv of periodRetainerInvoices) {
       const existing = totalsMap.get(inv.currency) || { hours: 0, amount: 0 };
-      existing.amount += inv.totalAmount;
+      existing.amount += invoiceNetAmount(inv);
       totalsMap.set(inv.currency, existing);
     }
     return Array.from(totalsMap.entries()).map(([currency, t]) => ({ currency, ...t }));
-  }, [filteredEntries, companies, companyMap, periodRetainerInvoices]);
+  }, [filteredEntries, companies, projects, companyMap, periodRetainerInvoices]);
 
   // Invoicing status — skip fixed-monthly entries
   const invoicedEntryIds = useMemo(() => new Set(invoices.flatMap((i) => i.timeEntryIds)), [invoices]);
@@ -138,7 +164,7 @@ export default function ReportsPage() {
     });
   }, [filteredEntries, companyMap, invoicedEntryIds]);
 
-  const openInvoices = useMemo(() => filteredInvoices.filter((i) => i.status === 'sent'), [filteredInvoices]);
+  const openInvoices = useMemo(() => filteredInvoices.filter((i) => i.status === 'sent' && !isCreditNote(i)), [filteredInvoices]);
   const paidInvoices = useMemo(() => filteredInvoices.filter((i) => i.status === 'paid'), [filteredInvoices]);
 
   // YTD totals
@@ -156,24 +182,49 @@ export default function ReportsPage() {
     const startMonth = `${year}-01`;
     const endMonth = `${year}-12`;
     return invoices.filter((i) => {
-      if (i.billingType !== 'fixed_monthly' || !i.retainerMonth) return false;
+      if (i.billingType !== 'fixed_monthly' || !i.retainerMonth || i.status === 'void') return false;
       return i.retainerMonth >= startMonth && i.retainerMonth <= endMonth;
     });
   }, [invoices, year]);
 
   const ytdTotals = useMemo(() => {
-    const hourlyTotals = totalsByCurrency(ytdEntries, companies);
+    const hourlyTotals = totalsByCurrency(ytdEntries, companies, projects);
     const totalsMap = new Map<Currency, { hours: number; amount: number }>();
     for (const t of hourlyTotals) {
       totalsMap.set(t.currency, { hours: t.hours, amount: t.amount });
     }
     for (const inv of ytdRetainerInvoices) {
       const existing = totalsMap.get(inv.currency) || { hours: 0, amount: 0 };
-      existing.amount += inv.totalAmount;
+      existing.amount += invoiceNetAmount(inv);
       totalsMap.set(inv.currency, existing);
     }
     return Array.from(totalsMap.entries()).map(([currency, t]) => ({ currency, ...t }));
-  }, [ytdEntries, companies, ytdRetainerInvoices]);
+  }, [ytdEntries, companies, projects, ytdRetainerInvoices]);
+
+  // Per-currency totals summed into the reporting currency at today's rates;
+  // null while any rate is missing
+  const { rates } = useExchangeRates(
+    [...currencyTotals, ...ytdTotals].map((t) => t.currency).concat(openInvoices.map((i) => i.currency)),
+    reporting,
+  );
+  // Open invoices' outstanding balances in the reporting currency, for aging
+  const openAging = useMemo(() => openInvoices.map((inv) => ({
+    invoice: inv,
+    converted: convertAmount(invoiceBalance(inv, invoicePayments(inv, payments)), recordedRate(inv, reporting) ?? rates[inv.currency]),
+  })), [openInvoices, payments, rates, reporting]);
+
+  function convertedTotal(totals: { currency: Currency; amount: number }[]): number | null {
+    let total = 0;
+    for (const t of totals) {
+      const converted = convertAmount(t.amount, rates[t.currency]);
+      if (converted == null) return null;
+      total += converted;
+    }
+    return total;
+  }
+  const showConverted = (totals: { currency: Currency }[]) => totals.some((t) => t.currency !== reporting);
+  const periodConverted = convertedTotal(currencyTotals);
+  const ytdConverted = convertedTotal(ytdTotals);
 
   function handleExportEntries() {
     const csv = exportTimeEntriesCsv(filteredEntries, companies, invoices, projects);
@@ -181,7 +232,7 @@ export default function ReportsPage() {
   }
 
   function handleExportInvoices() {
-    const csv = exportInvoicesCsv(filteredInvoices, companies);
+    const csv = exportInvoicesCsv(filteredInvoices, companies, reporting);
     downloadCsv(csv, `invoices-${dateRange.start}-${dateRange.end}.csv`);
   }
 
@@ -221,13 +272,13 @@ export default function ReportsPage() {
 
       {/* Tabs */}
       <div className="flex border-b mb-6">
-        {(['summary', 'invoicing', 'revenue'] as const).map((t) => (
+        {(Object.keys(TAB_LABELS) as Tab[]).map((t) => (
           <button
             key={t}
             onClick={() => setTab(t)}
             className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${tab === t ? 'border-blue-600 text-blue-700' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
           >
-            {t === 'summary' ? 'Work Summary' : t === 'invoicing' ? 'Invoicing Status' : 'Revenue'}
+            {TAB_LABELS[t]}
           </button>
         ))}
       </div>
@@ -281,7 +332,7 @@ export default function ReportsPage() {
                                   <td className="px-4 py-2 truncate max-w-xs">{e.description}</td>
                                   <td className="px-4 py-2"><Badge color={statusColors[status] || 'gray'}>{status}</Badge></td>
                                   <td className="px-4 py-2 text-right">{e.hours > 0 ? formatHours(e.hours) : '—'}</td>
-                                  {!isRetainer && <td className="px-4 py-2 text-right">{formatCurrency(entryAmount(e, company.hourlyRate), company.currency)}</td>}
+                                  {!isRetainer && <td className="px-4 py-2 text-right">{formatCurrency(billableAmount(e, company, projectMap), company.currency)}</td>}
                                 </tr>
                               );
                             })}
@@ -300,6 +351,14 @@ export default function ReportsPage() {
                     <span className="px-4 py-3 text-right w-36">{formatCurrency(t.amount, t.currency)}</span>
                   </div>
                 ))}
+                {showConverted(currencyTotals) && (
+                  <div className="flex items-center text-sm font-semibold border-t bg-gray-50">
+                    <span className="px-4 py-3 flex-1">Total in {reporting}</span>
+                    <span className="px-4 py-3 text-right w-36">
+                      {periodConverted != null ? formatCurrency(periodConverted, reporting) : <span className="text-xs font-normal text-gray-400">rate unavailable</span>}
+                    </span>
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -337,7 +396,7 @@ export default function ReportsPage() {
                           <td className="px-4 py-2 text-gray-500">{proj?.name ?? ''}</td>
                           <td className="px-4 py-2 truncate max-w-xs">{e.description}</td>
                           <td className="px-4 py-2 text-right">{formatHours(e.hours)}</td>
-                          <td className="px-4 py-2 text-right">{co ? formatCurrency(entryAmount(e, co.hourlyRate), co.currency) : ''}</td>
+                          <td className="px-4 py-2 text-right">{co ? formatCurrency(billableAmount(e, co, projectMap), co.currency) : ''}</td>
                         </tr>
                       );
                     })}
@@ -353,27 +412,32 @@ export default function ReportsPage() {
             {openInvoices.length === 0 ? (
               <p className="text-sm text-gray-400">No open invoices.</p>
             ) : (
-              <div className="bg-white border rounded-lg overflow-hidden">
-                <table className="w-full text-sm">
-                  <thead className="bg-gray-50 border-b">
-                    <tr>
-                      <th className="text-left px-4 py-2 font-medium">Invoice #</th>
-                      <th className="text-left px-4 py-2 font-medium">Company</th>
-                      <th className="text-right px-4 py-2 font-medium">Amount</th>
-                      <th className="text-right px-4 py-2 font-medium">Aging</th>
-                    </tr>
-                  </thead>
-                  <tbody className="divide-y">
-                    {openInvoices.map((inv) => (
-                      <tr key={inv.id}>
-                        <td className="px-4 py-2">{inv.invoiceNumber}</td>
-                        <td className="px-4 py-2">{companyMap.get(inv.companyId)?.name}</td>
-                        <td className="px-4 py-2 text-right font-medium">{formatCurrency(inv.totalAmount, inv.currency)}</td>
-                        <td className="px-4 py-2 text-right text-gray-500">{daysSince(inv.invoiceDate)} days</td>
+              <div className="space-y-3">
+                <AgingSummary items={openAging} reporting={reporting} />
+                <div className="bg-white border rounded-lg overflow-hidden">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50 border-b">
+                      <tr>
+                        <th className="text-left px-4 py-2 font-medium">Invoice #</th>
+                        <th className="text-left px-4 py-2 font-medium">Company</th>
+                        <th className="text-right px-4 py-2 font-medium">Amount</th>
+                        <th className="text-right px-4 py-2 font-medium">Due</th>
                       </tr>
-                    ))}
-                  </tbody>
-                </table>
+                    </thead>
+                    <tbody className="divide-y">
+                      {openInvoices.map((inv) => (
+                        <tr key={inv.id}>
+                          <td className="px-4 py-2">{inv.invoiceNumber}</td>
+                          <td className="px-4 py-2">{companyMap.get(inv.companyId)?.name}</td>
+                          <td className="px-4 py-2 text-right font-medium">{formatCurrency(inv.totalAmount, inv.currency)}</td>
+                          <td className={`px-4 py-2 text-right ${inv.dueDate && daysPastDue(inv) > 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                            {inv.dueDate ? `${formatDate(inv.dueDate)} (${dueLabel(daysPastDue(inv))})` : `${daysPastDue(inv)} days`}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
               </div>
             )}
           </div>
@@ -462,7 +526,7 @@ export default function ReportsPage() {
                                     <td className="px-4 py-2 truncate max-w-xs">{e.description}</td>
                                     <td className="px-4 py-2"><Badge color={statusColors[status] || 'gray'}>{status}</Badge></td>
                                     <td className="px-4 py-2 text-right">{e.hours > 0 ? formatHours(e.hours) : '—'}</td>
-                                    {!isRetainer && <td className="px-4 py-2 text-right">{formatCurrency(entryAmount(e, company.hourlyRate), company.currency)}</td>}
+                                    {!isRetainer && <td className="px-4 py-2 text-right">{formatCurrency(billableAmount(e, company, projectMap), company.currency)}</td>}
                                   </tr>
                                 );
                               })}
@@ -490,6 +554,14 @@ export default function ReportsPage() {
                   </div>
                 </div>
               ))}
+              {showConverted(ytdTotals) && (
+                <div className="bg-gray-50 border rounded-lg p-4 flex items-center justify-between">
+                  <p className="text-sm text-gray-500">Total Revenue ({reporting}, at today's rates)</p>
+                  <p className="text-xl font-bold">
+                    {ytdConverted != null ? formatCurrency(ytdConverted, reporting) : <span className="text-sm font-normal text-gray-400">rate unavailable</span>}
+                  </p>
+                </div>
+              )}
               {ytdTotals.length === 0 && (
                 <p className="text-sm text-gray-400">No revenue this year.</p>
               )}
@@ -497,6 +569,14 @@ export default function ReportsPage() {
           </div>
         </div>
       )}
+
+      {tab === 'pnl' && <ProfitAndLossReport reporting={reporting} />}
+
+      {tab === 'estimatedTax' && <EstimatedTaxReport reporting={reporting} />}
+
+      {tab === 'fx' && <FxGainsReport reporting={reporting} companyFilter={companyFilter} />}
+
+      {tab === 'receipts' && <MissingReceiptsReport />}
     </div>
   );
 }
@@ -0,0 +1,106 @@
+import { useMemo, useState } from 'react';
+import { useCompanies, useExpenses, useInvoices, useProfile } from '../../contexts/StorageContext';
+import type { Currency } from '../../types';
+import { DEFAULT_CURRENCIES, supportedCurrencies, currencyName, minorUnits, getReportingCurrency, currencyOptions } from '../../utils/currencies';
+import { currencySymbol } from '../../utils/formatCurrency';
+import Badge from '../shared/Badge';
+
+export default function CurrenciesSection() {
+  const { profile, saveProfile } = useProfile();
+  const { companies } = useCompanies();
+  const { invoices } = useInvoices();
+  const { expenses } = useExpenses();
+  const currencies = profile.currencies?.length ? profile.currencies : DEFAULT_CURRENCIES;
+  const reporting = getReportingCurrency(profile);
+  const [adding, setAdding] = useState('');
+
+  const inUse = useMemo(() => {
+    const set = new Set<Currency>();
+    for (const c of companies) set.add(c.currency);
+    for (const i of invoices) set.add(i.currency);
+    for (const e of expenses) set.add(e.currency);
+    return set;
+  }, [companies, invoices, expenses]);
+
+  const available = useMemo(() => supportedCurrencies().filter((c) => !currencies.includes(c)), [currencies]);
+
+  function saveCurrencies(updated: Currency[]) {
+    saveProfile({ ...profile, currencies: updated });
+  }
+
+  function handleAdd() {
+    if (!adding) return;
+    saveCurrencies([...currencies, adding]);
+    setAdding('');
+  }
+
+  function handleRemove(code: Currency) {
+    if (currencies.length <= 1 || code === reporting) return;
+    if (inUse.has(code) && !confirm(`${code} is used by existing records. Remove it from the list anyway? Those records keep ${code}.`)) return;
+    saveCurrencies(currencies.filter((c) => c !== code));
+  }
+
+  return (
+    <div className="bg-white border rounded-xl p-5 shadow-sm">
+      <h3 className="text-sm font-semibold text-gray-700 mb-1">Currencies</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Currencies offered when setting up companies and expenses. Exchange rates are fetched for the ones in use.
+      </p>
+
+      <div className="divide-y border rounded-md mb-4">
+        {currencies.map((c) => (
+          <div key={c} className="flex items-center justify-between px-3 py-2 text-sm">
+            <div className="flex items-center gap-2">
+              <span className="font-medium font-mono">{c}</span>
+              <span className="text-gray-600">{currencyName(c)}</span>
+              <span className="text-xs text-gray-400">
+                {currencySymbol(c)} · {minorUnits(c)} decimal{minorUnits(c) === 1 ? '' : 's'}
+              </span>
+              {inUse.has(c) && <Badge color="blue">in use</Badge>}
+            </div>
+            {currencies.length > 1 && c !== reporting && (
+              <button onClick={() => handleRemove(c)} className="text-xs text-red-500 hover:text-red-700">
+                Remove
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-3 mb-5">
+        <select
+          value={adding}
+          onChange={(e) => setAdding(e.target.value)}
+          className="flex-1 border rounded-md px-3 py-2 text-sm"
+        >
+          <option value="">Add a currency...</option>
+          {available.map((c) => (
+            <option key={c} value={c}>{c} — {currencyName(c)}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleAdd}
+          disabled={!adding}
+          className="bg-blue-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+        >
+          Add
+        </button>
+      </div>
+
+      <label className="block text-sm font-medium text-gray-700 mb-1">Reporting Currency</label>
+      <select
+        value={reporting}
+        onChange={(e) => saveProfile({ ...profile, reportingCurrency: e.target.value })}
+        className="w-full border rounded-md px-3 py-2 text-sm"
+      >
+        {currencyOptions(profile, reporting).map((c) => (
+          <option key={c} value={c}>{c} — {currencyName(c)}</option>
+        ))}
+      </select>
+      <p className="text-xs text-gray-500 mt-1">
+        Dashboard, report and expense totals are shown in this currency. Invoices record their rate into it when sent; earlier
+        invoices without one are converted at today's rate.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import { useMemo, useRef, useState } from 'react';
+import { useProfile } from '../../contexts/StorageContext';
+import type { Currency, RateProviderId, RateRecord, RateSource } from '../../types';
+import { RATE_PROVIDER_LABELS } from '../../types';
+import { getRateTable } from '../../utils/storage';
+import { recordRates, deleteRate, parseEcbXml } from '../../utils/exchangeRate';
+import { currencyOptions, getReportingCurrency } from '../../utils/currencies';
+import { formatDate, today } from '../../utils/dateUtils';
+import Badge from '../shared/Badge';
+
+const ROWS_SHOWN = 25;
+
+const SOURCE_COLORS: Record<RateSource, string> = {
+  manual: 'blue',
+  imported: 'purple',
+  fetched: 'gray',
+};
+
+export default function ExchangeRatesSection() {
+  const { profile, saveProfile } = useProfile();
+  const reporting = getReportingCurrency(profile);
+  const currencies = currencyOptions(profile, reporting);
+  const provider = profile.rateProvider ?? 'frankfurter';
+  // ECB imports are EUR-based, so EUR can be in the table even when not billed in
+  const filterOptions: Currency[] = currencies.includes('EUR') ? currencies : [...currencies, 'EUR'];
+  const [table, setTable] = useState(getRateTable);
+  const [filter, setFilter] = useState('');
+  const [draft, setDraft] = useState(() => ({ date: today(), from: currencies.find((c) => c !== reporting) ?? reporting, to: reporting, rate: '' }));
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const shown = useMemo(() => {
+    const matching = filter ? table.filter((r) => r.from === filter || r.to === filter) : table;
+    return {
+      total: matching.length,
+      rows: [...matching].sort((a, b) => b.date.localeCompare(a.date) || a.from.localeCompare(b.from)).slice(0, ROWS_SHOWN),
+    };
+  }, [table, filter]);
+
+  function save(records: RateRecord[]) {
+    recordRates(records);
+    setTable(getRateTable());
+  }
+
+  function handleAdd() {
+    const rate = parseFloat(draft.rate);
+    if (!draft.date || draft.from === draft.to || !(rate > 0)) return;
+    save([{ from: draft.from, to: draft.to, date: draft.date, rate, source: 'manual' }]);
+    setDraft({ ...draft, rate: '' });
+  }
+
+  function handleDelete(record: RateRecord) {
+    deleteRate(record);
+    setTable(getRateTable());
+  }
+
+  async function handleImport(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (fileRef.current) fileRef.current.value = '';
+    if (!file) return;
+    setMessage(null);
+    try {
+      // Only the currencies in use here; the full history covers 40 or so
+      const records = parseEcbXml(await file.text(), [...currencies, 'EUR']);
+      save(records);
+      const dates = records.map((r) => r.date).sort();
+      setMessage({
+        type: 'success',
+        text: records.length > 0
+          ? `Imported ${records.length} rates from ${formatDate(dates[0])} to ${formatDate(dates[dates.length - 1])}.`
+          : 'The file has no rates for your currencies.',
+      });
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Could not read that file.' });
+    }
+  }
+
+  const selectClass = 'w-full border rounded-md px-3 py-2 text-sm';
+
+  return (
+    <div className="bg-white border rounded-xl p-5 shadow-sm">
+      <h3 className="text-sm font-semibold text-gray-700 mb-1">Exchange Rates</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Rates used to convert into {reporting}. Every rate fetched, imported or entered is kept in the table below (on this
+        device), and a date without a rate uses the nearest earlier one.
+      </p>
+
+      <label className="block text-sm font-medium text-gray-700 mb-1">Rate Source</label>
+      <select
+        value={provider}
+        onChange={(e) => saveProfile({ ...profile, rateProvider: e.target.value as RateProviderId })}
+        className={`${selectClass} mb-4`}
+      >
+        {(Object.keys(RATE_PROVIDER_LABELS) as RateProviderId[]).map((p) => (
+          <option key={p} value={p}>{RATE_PROVIDER_LABELS[p]}</option>
+        ))}
+      </select>
+
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-gray-700 mb-1">Import ECB File</label>
+        <input ref={fileRef} type="file" accept=".xml,text/xml,application/xml" onChange={handleImport} className="text-sm" />
+        <p className="text-xs text-gray-500 mt-1">
+          The daily, 90-day or full-history eurofxref XML from the European Central Bank website.
+        </p>
+        {message && (
+          <p className={`text-xs mt-1 ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>{message.text}</p>
+        )}
+      </div>
+
+      <p className="text-sm font-medium text-gray-700 mb-1">Add Rate</p>
+      <div className="grid grid-cols-4 gap-2 mb-4">
+        <input
+          type="date"
+          value={draft.date}
+          onChange={(e) => setDraft({ ...draft, date: e.target.value })}
+          className={selectClass}
+        />
+        <select value={draft.from} onChange={(e) => setDraft({ ...draft, from: e.target.value })} className={selectClass}>
+          {currencies.map((c) => <option key={c} value={c}>1 {c}</option>)}
+        </select>
+        <input
+          type="number"
+          min={0}
+          step="0.0001"
+          value={draft.rate}
+          onChange={(e) => setDraft({ ...draft, rate: e.target.value })}
+          placeholder="Rate"
+          className={`${selectClass} text-right`}
+        />
+        <div className="flex items-center gap-2">
+          <select value={draft.to} onChange={(e) => setDraft({ ...draft, to: e.target.value })} className={selectClass}>
+            {currencies.map((c) => <option key={c} value={c}>{c}</option>)}
+          </select>
+          <button
+            onClick={handleAdd}
+            disabled={draft.from === draft.to || !(parseFloat(draft.rate) > 0)}
+            className="bg-blue-600 text-white px-3 py-2 rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+          >
+            Add
+          </button>
+        </div>
+      </div>
+
+      {table.length > 0 && (
+        <>
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-sm font-medium text-gray-700">Rate Table</p>
+            <select value={filter} onChange={(e) => setFilter(e.target.value)} className="border rounded-md px-2 py-1 text-xs">
+              <option value="">All currencies</option>
+              {filterOptions.map((c) => (
+                <option key={c} value={c}>{c}</option>
+              ))}
+            </select>
+          </div>
+          <div className="divide-y border rounded-md">
+            {shown.rows.map((r) => (
+              <div key={`${r.from}/${r.to}/${r.date}`} className="flex items-center justify-between px-3 py-1.5 text-sm">
+                <div className="flex items-center gap-3">
+                  <span className="text-gray-500 w-24">{formatDate(r.date)}</span>
+                  <span className="tabular-nums">1 {r.from} = {r.rate} {r.to}</span>
+                  <Badge color={SOURCE_COLORS[r.source]}>{r.source}</Badge>
+                </div>
+                <button onClick={() => handleDelete(r)} className="text-xs text-red-500 hover:text-red-700">
+                  Delete
+                </button>
+              </div>
+            ))}
+          </div>
+          {shown.total > shown.rows.length && (
+            <p className="text-xs text-gray-400 mt-1">Showing the latest {shown.rows.length} of {shown.total} rates.</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,298 @@
+import { useMemo, useRef, useState } from 'react';
+import { useProfile } from '../../contexts/StorageContext';
+import type { Company, Invoice, InvoiceTemplate, TemplateFont, TimeEntry } from '../../types';
+import { DEFAULT_INVOICE_TEMPLATE, TEMPLATE_FONT_LABELS } from '../../types';
+import { buildInvoiceDocument } from '../../utils/invoiceDocument';
+import { renderInvoiceHtml } from '../../utils/invoiceHtml';
+import { today, getWeekDates } from '../../utils/dateUtils';
+import Badge from '../shared/Badge';
+
+// Logos are stored inline (and synced as a single Sheets cell), so keep them small
+const LOGO_MAX_WIDTH = 600;
+const LOGO_MAX_HEIGHT = 200;
+const LOGO_MAX_CHARS = 45000;
+
+// Re-encode an uploaded image as a downscaled JPEG data URL on white, which
+// every renderer (HTML, Word, PDF) can embed as-is
+async function loadLogo(file: File): Promise<string> {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    const scale = Math.min(LOGO_MAX_WIDTH / img.naturalWidth, LOGO_MAX_HEIGHT / img.naturalHeight, 1);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    for (const quality of [0.9, 0.75, 0.6, 0.45]) {
+      const dataUrl = canvas.toDataURL('image/jpeg', quality);
+      if (dataUrl.length <= LOGO_MAX_CHARS) return dataUrl;
+    }
+    throw new Error('Logo is too detailed to store — try a simpler or smaller image.');
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+// A short made-up invoice so the preview shows every section
+function sampleInvoice(): { invoice: Invoice; company: Company; entries: TimeEntry[] } {
+  const now = new Date().toISOString();
+  const date = today();
+  const monday = getWeekDates(date)[0];
+  const entries: TimeEntry[] = [0, 1, 2].map((i) => ({
+    id: `sample-${i}`,
+    companyId: 'sample',
+    date: monday,
+    hours: [6, 4.5, 3][i],
+    description: ['Architecture review', 'Roadmap workshop', 'Follow-up notes'][i],
+    createdAt: now,
+    updatedAt: now,
+  }));
+  const invoice: Invoice = {
+    id: 'sample',
+    companyId: 'sample',
+    invoiceNumber: '001',
+    invoiceDate: date,
+    timeEntryIds: entries.map((e) => e.id),
+    totalHours: 13.5,
+    totalAmount: 2175,
+    currency: 'USD',
+    rateUsed: 150,
+    status: 'draft',
+    lineItems: [{ id: 'sample-item', description: 'Travel', amount: 150 }],
+    notes: 'Thank you for your business.',
+    createdAt: now,
+    updatedAt: now,
+  };
+  const company: Company = {
+    id: 'sample',
+    name: 'Example Client Ltd',
+    currency: 'USD',
+    billingType: 'hourly',
+    hourlyRate: 150,
+    invoiceRequired: true,
+    billingAddress: '1 Sample Street\nLondon',
+    isActive: true,
+    createdAt: now,
+    updatedAt: now,
+  };
+  return { invoice, company, entries };
+}
+
+export default function InvoiceTemplatesSection() {
+  const { profile, saveProfile } = useProfile();
+  const templates = profile.invoiceTemplates || [];
+  const [draft, setDraft] = useState<InvoiceTemplate | null>(null);
+  const [logoError, setLogoError] = useState('');
+  const logoRef = useRef<HTMLInputElement>(null);
+  const [sample] = useState(sampleInvoice);
+
+  const previewHtml = useMemo(() => {
+    if (!draft) return '';
+    const doc = buildInvoiceDocument(sample.invoice, sample.company, sample.entries, [], profile, draft);
+    return renderInvoiceHtml(doc, { print: false });
+  }, [draft, sample, profile]);
+
+  const defaultId = profile.defaultInvoiceTemplateId;
+
+  function saveTemplates(invoiceTemplates: InvoiceTemplate[], defaultInvoiceTemplateId = defaultId) {
+    saveProfile({
+      ...profile,
+      invoiceTemplates: invoiceTemplates.length > 0 ? invoiceTemplates : undefined,
+      defaultInvoiceTemplateId: invoiceTemplates.some((t) => t.id === defaultInvoiceTemplateId) ? defaultInvoiceTemplateId : undefined,
+    });
+  }
+
+  function startNew() {
+    setLogoError('');
+    setDraft({ ...DEFAULT_INVOICE_TEMPLATE, id: crypto.randomUUID(), name: templates.length === 0 ? 'My template' : `Template ${templates.length + 1}` });
+  }
+
+  function handleSave() {
+    if (!draft || !draft.name.trim()) return;
+    const exists = templates.some((t) => t.id === draft.id);
+    const updated = exists ? templates.map((t) => (t.id === draft.id ? draft : t)) : [...templates, draft];
+    // The first template becomes the default so it takes effect right away
+    saveTemplates(updated, defaultId ?? (templates.length === 0 ? draft.id : undefined));
+    setDraft(null);
+  }
+
+  function handleDelete(template: InvoiceTemplate) {
+    if (!confirm(`Delete the "${template.name}" template? Companies using it fall back to the default.`)) return;
+    saveTemplates(templates.filter((t) => t.id !== template.id));
+    if (draft?.id === template.id) setDraft(null);
+  }
+
+  async function handleLogo(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (logoRef.current) logoRef.current.value = '';
+    if (!file || !draft) return;
+    setLogoError('');
+    try {
+      const logoDataUrl = await loadLogo(file);
+      setDraft((d) => (d ? { ...d, logoDataUrl } : d));
+    } catch (err) {
+      setLogoError(err instanceof Error ? err.message : 'Could not read that image.');
+    }
+  }
+
+  return (
+    <div className="bg-white border rounded-xl p-5 shadow-sm">
+      <h3 className="text-sm font-semibold text-gray-700 mb-1">Invoice Templates</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Branding and layout for printed, Word and PDF invoices. Companies use the default template unless one is picked on the company.
+      </p>
+
+      {templates.length > 0 && (
+        <div className="divide-y border rounded-md mb-4">
+          {templates.map((t) => (
+            <div key={t.id} className="flex items-center justify-between px-3 py-2 text-sm">
+              <div className="flex items-center gap-2">
+                <span className="w-3 h-3 rounded-full border" style={{ backgroundColor: t.accentColor }} />
+                <span className="font-medium">{t.name}</span>
+                {t.id === defaultId && <Badge color="blue">default</Badge>}
+              </div>
+              <div className="flex items-center gap-3">
+                {t.id !== defaultId && (
+                  <button onClick={() => saveTemplates(templates, t.id)} className="text-xs text-gray-500 hover:text-gray-700">
+                    Make default
+                  </button>
+                )}
+                <button onClick={() => { setLogoError(''); setDraft({ ...t }); }} className="text-xs text-blue-600 hover:text-blue-800">
+                  Edit
+                </button>
+                <button onClick={() => handleDelete(t)} className="text-xs text-red-500 hover:text-red-700">
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!draft ? (
+        <button onClick={startNew} className="bg-blue-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-700">
+          New Template
+        </button>
+      ) : (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Template Name</label>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                className="w-full border rounded-md px-3 py-2 text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Heading</label>
+              <input
+                type="text"
+                value={draft.headingText}
+                onChange={(e) => setDraft({ ...draft, headingText: e.target.value })}
+                placeholder="INVOICE"
+                className="w-full border rounded-md px-3 py-2 text-sm"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Font</label>
+              <select
+                value={draft.font}
+                onChange={(e) => setDraft({ ...draft, font: e.target.value as TemplateFont })}
+                className="w-full border rounded-md px-3 py-2 text-sm"
+              >
+                {(Object.keys(TEMPLATE_FONT_LABELS) as TemplateFont[]).map((f) => (
+                  <option key={f} value={f}>{TEMPLATE_FONT_LABELS[f]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Accent Color</label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="color"
+                  value={draft.accentColor}
+                  onChange={(e) => setDraft({ ...draft, accentColor: e.target.value })}
+                  className="h-9 w-12 border rounded-md"
+                />
+                <span className="text-sm text-gray-500 font-mono">{draft.accentColor.toUpperCase()}</span>
+              </div>
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Logo</label>
+            <div className="flex items-center gap-3">
+              {draft.logoDataUrl && <img src={draft.logoDataUrl} alt="" className="max-h-10 max-w-40 border rounded" />}
+              <input ref={logoRef} type="file" accept="image/*" onChange={handleLogo} className="text-sm" />
+              {draft.logoDataUrl && (
+                <button onClick={() => setDraft({ ...draft, logoDataUrl: undefined })} className="text-xs text-red-500 hover:text-red-700">
+                  Remove
+                </button>
+              )}
+            </div>
+            {logoError && <p className="text-xs text-red-600 mt-1">{logoError}</p>}
+          </div>
+          <div className="space-y-2">
+            {([
+              ['showBankDetails', 'Show payment (bank) details'],
+              ['showHoursColumn', 'Show hours column'],
+              ['showRateLine', 'Show hourly rate in invoice details'],
+            ] as const).map(([field, label]) => (
+              <label key={field} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={draft[field]}
+                  onChange={(e) => setDraft({ ...draft, [field]: e.target.checked })}
+                  className="rounded"
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Footer Text</label>
+            <textarea
+              value={draft.footerText || ''}
+              onChange={(e) => setDraft({ ...draft, footerText: e.target.value || undefined })}
+              rows={2}
+              placeholder="e.g. Thank you for your business · Payment due within 30 days"
+              className="w-full border rounded-md px-3 py-2 text-sm"
+            />
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-1">Preview</p>
+            <div className="border rounded-md overflow-hidden h-[560px] bg-white">
+              <iframe
+                title="Invoice template preview"
+                srcDoc={previewHtml}
+                sandbox=""
+                className="w-[800px] h-[850px] origin-top-left scale-[0.66] border-0"
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleSave}
+              className="bg-blue-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-700"
+            >
+              Save Template
+            </button>
+            <button onClick={() => setDraft(null)} className="text-sm text-gray-500 hover:text-gray-700">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
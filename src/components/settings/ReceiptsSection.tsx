@@ -0,0 +1,135 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useExpenses } from '../../contexts/StorageContext';
+import { useHistory } from '../../hooks/useHistory';
+import { useSync } from '../../contexts/SyncContext';
+import type { Expense } from '../../types';
+import { getAllRecords } from '../../utils/storage';
+import { deleteReceipts, getReceiptBlob, orphanedReceiptIds, storedReceiptIds } from '../../utils/receiptStore';
+import { canUploadReceipts, isReceiptUploadEnabled, setReceiptUploadEnabled, uploadReceipt } from '../../services/driveReceipts';
+
+export default function ReceiptsSection() {
+  const { expenses, saveExpense } = useExpenses();
+  const { batch } = useHistory();
+  const { syncStatus } = useSync();
+  const [stored, setStored] = useState<Set<string> | null>(null);
+  const [orphaned, setOrphaned] = useState<string[]>([]);
+  const [uploadEnabled, setUploadEnabled] = useState(isReceiptUploadEnabled);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    // Tombstoned expenses count as attached, so undoing a delete finds its receipts
+    Promise.all([storedReceiptIds(), orphanedReceiptIds(getAllRecords().expenses)])
+      .then(([ids, orphans]) => {
+        if (!cancelled) {
+          setStored(new Set(ids));
+          setOrphaned(orphans);
+        }
+      })
+      .catch(() => { if (!cancelled) setStored(new Set()); });
+    return () => { cancelled = true; };
+  }, [expenses]);
+
+  const attached = useMemo(() => expenses.flatMap((e) => e.receipts || []), [expenses]);
+
+  // Attached here but not yet on Drive
+  const pending = useMemo(
+    () => (stored ? expenses.filter((e) => e.receipts?.some((r) => !r.driveFileId && stored.has(r.id))) : []),
+    [expenses, stored],
+  );
+  const pendingCount = pending.reduce((n, e) => n + e.receipts!.filter((r) => !r.driveFileId && stored?.has(r.id)).length, 0);
+
+  function toggleUpload(enabled: boolean) {
+    setReceiptUploadEnabled(enabled);
+    setUploadEnabled(enabled);
+  }
+
+  async function handleUploadPending() {
+    if (!canUploadReceipts()) {
+      setMessage({ type: 'error', text: 'Reconnect Google Sheets first.' });
+      return;
+    }
+    setBusy(true);
+    setMessage(null);
+    const updated: Expense[] = [];
+    let failed = 0;
+    for (const exp of pending) {
+      const receipts = [];
+      for (const r of exp.receipts!) {
+        const blob = !r.driveFileId ? await getReceiptBlob(r.id) : null;
+        if (!blob) { receipts.push(r); continue; }
+        try {
+          receipts.push({ ...r, driveFileId: await uploadReceipt(r, blob, `${exp.date} ${exp.vendor || exp.description}`.trim()) });
+        } catch {
+          failed++;
+          receipts.push(r);
+        }
+      }
+      if (receipts.some((r, i) => r !== exp.receipts![i])) {
+        updated.push({ ...exp, receipts, updatedAt: new Date().toISOString() });
+      }
+    }
+    if (updated.length > 0) batch('Upload receipts to Drive', () => updated.forEach(saveExpense));
+    setBusy(false);
+    setMessage(failed > 0
+      ? { type: 'error', text: `${failed} receipt${failed !== 1 ? 's' : ''} could not be uploaded.` }
+      : { type: 'success', text: 'Receipts uploaded to Drive.' });
+  }
+
+  async function handleRemoveOrphaned() {
+    if (!confirm(`Delete ${orphaned.length} receipt file${orphaned.length !== 1 ? 's' : ''} no expense refers to? This can't be undone.`)) return;
+    await deleteReceipts(orphaned);
+    setOrphaned([]);
+    setStored(new Set(await storedReceiptIds()));
+  }
+
+  const missingHere = stored ? attached.filter((r) => !stored.has(r.id)).length : 0;
+
+  return (
+    <div className="bg-white border rounded-xl p-5 shadow-sm">
+      <h3 className="text-sm font-semibold text-gray-700 mb-1">Receipts</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Receipt files attached to expenses are kept in this browser. They're included in the JSON export, and can also be
+        uploaded to a folder next to the backup spreadsheet in Google Drive.
+      </p>
+
+      <p className="text-sm text-gray-700 mb-3">
+        {attached.length} receipt{attached.length !== 1 ? 's' : ''} attached
+        {missingHere > 0 && <span className="text-gray-500">, {missingHere} of them stored on another device</span>}
+      </p>
+
+      <label className={`flex items-center gap-2 text-sm mb-3 ${syncStatus.isConnected ? 'text-gray-700' : 'text-gray-400'}`}>
+        <input
+          type="checkbox"
+          checked={uploadEnabled}
+          disabled={!syncStatus.isConnected && !uploadEnabled}
+          onChange={(e) => toggleUpload(e.target.checked)}
+          className="rounded"
+        />
+        Upload new receipts to Google Drive
+        {!syncStatus.isConnected && <span className="text-xs">(connect Google Sheets below)</span>}
+      </label>
+
+      <div className="flex items-center gap-3">
+        {pendingCount > 0 && syncStatus.isConnected && (
+          <button
+            onClick={handleUploadPending}
+            disabled={busy}
+            className="bg-green-600 text-white px-3 py-1.5 rounded-md text-sm font-medium hover:bg-green-700 disabled:opacity-50"
+          >
+            {busy ? 'Uploading…' : `Upload ${pendingCount} to Drive`}
+          </button>
+        )}
+        {orphaned.length > 0 && (
+          <button onClick={handleRemoveOrphaned} className="text-sm text-red-500 hover:text-red-700">
+            Remove {orphaned.length} unattached file{orphaned.length !== 1 ? 's' : ''}
+          </button>
+        )}
+      </div>
+      {message && (
+        <p className={`text-xs mt-2 ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+}
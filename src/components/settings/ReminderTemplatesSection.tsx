@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { useProfile } from '../../contexts/StorageContext';
+import type { ReminderTemplate } from '../../types';
+import { REMINDER_STAGES, REMINDER_STAGE_LABELS } from '../../types';
+import { REMINDER_PLACEHOLDERS, reminderTemplate } from '../../utils/reminders';
+import Badge from '../shared/Badge';
+
+export default function ReminderTemplatesSection() {
+  const { profile, saveProfile } = useProfile();
+  const customized = profile.reminderTemplates || [];
+  const [draft, setDraft] = useState<ReminderTemplate | null>(null);
+
+  function saveTemplates(updated: ReminderTemplate[]) {
+    saveProfile({ ...profile, reminderTemplates: updated.length > 0 ? updated : undefined });
+  }
+
+  function handleSave() {
+    if (!draft || !draft.subject.trim() || !draft.body.trim()) return;
+    saveTemplates([...customized.filter((t) => t.stage !== draft.stage), draft]);
+    setDraft(null);
+  }
+
+  function handleReset(template: ReminderTemplate) {
+    if (!confirm(`Reset the ${REMINDER_STAGE_LABELS[template.stage].toLowerCase()} to the built-in wording?`)) return;
+    saveTemplates(customized.filter((t) => t.stage !== template.stage));
+    if (draft?.stage === template.stage) setDraft(null);
+  }
+
+  return (
+    <div className="bg-white border rounded-xl p-5 shadow-sm">
+      <h3 className="text-sm font-semibold text-gray-700 mb-1">Payment Reminders</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Emails offered for overdue invoices: the first reminder, then the second, then a final notice for any after that.
+      </p>
+
+      <div className="divide-y border rounded-md mb-4">
+        {REMINDER_STAGES.map((stage) => {
+          const template = reminderTemplate(profile, stage);
+          const isCustom = customized.some((t) => t.stage === stage);
+          return (
+            <div key={stage} className="flex items-center justify-between px-3 py-2 text-sm">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{REMINDER_STAGE_LABELS[stage]}</span>
+                  {isCustom && <Badge color="blue">customized</Badge>}
+                </div>
+                <p className="text-xs text-gray-500 truncate">{template.subject}</p>
+              </div>
+              <div className="flex items-center gap-3 shrink-0">
+                <button onClick={() => setDraft({ ...template })} className="text-xs text-blue-600 hover:text-blue-800">
+                  Edit
+                </button>
+                {isCustom && (
+                  <button onClick={() => handleReset(template)} className="text-xs text-red-500 hover:text-red-700">
+                    Reset
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {draft && (
+        <div className="space-y-3">
+          <p className="text-sm font-medium text-gray-700">{REMINDER_STAGE_LABELS[draft.stage]}</p>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Subject</label>
+            <input
+              type="text"
+              value={draft.subject}
+              onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+              className="w-full border rounded-md px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Body</label>
+            <textarea
+              value={draft.body}
+              onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+              rows={10}
+              className="w-full border rounded-md px-3 py-2 text-sm font-mono"
+            />
+          </div>
+          <p className="text-xs text-gray-500">
+            Placeholders:{' '}
+            {REMINDER_PLACEHOLDERS.map((p, i) => (
+              <span key={p.key}>
+                {i > 0 && ', '}
+                <code className="text-gray-700">{`{${p.key}}`}</code> {p.description.toLowerCase()}
+              </span>
+            ))}
+          </p>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleSave}
+              disabled={!draft.subject.trim() || !draft.body.trim()}
+              className="bg-blue-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+            >
+              Save Template
+            </button>
+            <button onClick={() => setDraft(null)} className="text-sm text-gray-500 hover:text-gray-700">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
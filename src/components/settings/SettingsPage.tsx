@@ -2,21 +2,21 @@ import { useRef, useState } from 'react';
 import { useStorage } from '../../contexts/StorageContext';
 import { useSync } from '../../contexts/SyncContext';
 import { getSpreadsheetId } from '../../services/syncManager';
+import { writeAll } from '../../utils/storage';
 import type { BusinessProfile } from '../../utils/storage';
-
-const STORAGE_KEYS = {
-  companies: 'ct_companies',
-  projects: 'ct_projects',
-  timeEntries: 'ct_timeEntries',
-  invoices: 'ct_invoices',
-  expenses: 'ct_expenses',
-  profile: 'ct_profile',
-} as const;
+import { LATEST_SCHEMA_VERSION } from '../../utils/storageMigrations';
+import InvoiceTemplatesSection from './InvoiceTemplatesSection';
+import TaxRatesSection from './TaxRatesSection';
+import CurrenciesSection from './CurrenciesSection';
+import ExchangeRatesSection from './ExchangeRatesSection';
+import ReminderTemplatesSection from './ReminderTemplatesSection';
+import ReceiptsSection from './ReceiptsSection';
+import { exportReceipts, importReceipts } from '../../utils/receiptStore';
 
 const EXPECTED_KEYS = ['companies', 'projects', 'timeEntries', 'invoices'] as const;
 
 export default function SettingsPage() {
-  const { companies, projects, timeEntries, invoices, expenses, profile, saveProfile, refresh } = useStorage();
+  const { companies, projects, timeEntries, invoices, expenses, payments, estimatedTaxPayments, profile, saveProfile, refresh } = useStorage();
   const { syncStatus, forcePush, forcePull, connect, disconnect, spreadsheetUrl, triggerPush } = useSync();
   const fileRef = useRef<HTMLInputElement>(null);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
@@ -24,13 +24,18 @@ export default function SettingsPage() {
   const [profileSaved, setProfileSaved] = useState(false);
 
   function handleSaveProfile() {
-    saveProfile(editProfile);
+    // Templates, tax rates, currencies, rates and reminders are edited in their own sections, estimated
+    // tax on the Reports page; keep whatever is saved there
+    const { invoiceTemplates, defaultInvoiceTemplateId, taxRates, currencies, reportingCurrency, rateProvider, reminderTemplates, estimatedTax } = profile;
+    saveProfile({ ...editProfile, invoiceTemplates, defaultInvoiceTemplateId, taxRates, currencies, reportingCurrency, rateProvider, reminderTemplates, estimatedTax });
     setProfileSaved(true);
     setTimeout(() => setProfileSaved(false), 2000);
   }
 
-  function handleExport() {
-    const data = { companies, projects, timeEntries, invoices, expenses, profile };
+  async function handleExport() {
+    // Receipt files travel in the backup too; without IndexedDB they're left out
+    const receipts = await exportReceipts(expenses).catch(() => []);
+    const data = { schemaVersion: LATEST_SCHEMA_VERSION, companies, projects, timeEntries, invoices, expenses, payments, estimatedTaxPayments, profile, receipts };
     const json = JSON.stringify(data, null, 2);
     const blob = new Blob([json], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
@@ -47,7 +52,7 @@ export default function SettingsPage() {
     if (!file) return;
 
     const reader = new FileReader();
-    reader.onload = (ev) => {
+    reader.onload = async (ev) => {
       try {
         const data = JSON.parse(ev.target?.result as string);
 
@@ -63,21 +68,24 @@ export default function SettingsPage() {
           return;
         }
 
-        // Write to localStorage
-        localStorage.setItem(STORAGE_KEYS.companies, JSON.stringify(data.companies));
-        localStorage.setItem(STORAGE_KEYS.projects, JSON.stringify(data.projects));
-        localStorage.setItem(STORAGE_KEYS.timeEntries, JSON.stringify(data.timeEntries));
-        localStorage.setItem(STORAGE_KEYS.invoices, JSON.stringify(data.invoices));
-        if (Array.isArray(data.expenses)) {
-          localStorage.setItem(STORAGE_KEYS.expenses, JSON.stringify(data.expenses));
-        }
-        if (data.profile) {
-          localStorage.setItem(STORAGE_KEYS.profile, JSON.stringify(data.profile));
-        }
+        // Older backups may lack expenses or profile — keep the current ones in that case
+        writeAll({
+          companies: data.companies,
+          projects: data.projects,
+          timeEntries: data.timeEntries,
+          invoices: data.invoices,
+          expenses: Array.isArray(data.expenses) ? data.expenses : expenses,
+          // Backups from before payments existed get them backfilled from paid invoices
+          payments: Array.isArray(data.payments) ? data.payments : [],
+          // Older backups keep them on the profile, where migration 7 picks them up
+          estimatedTaxPayments: Array.isArray(data.estimatedTaxPayments) ? data.estimatedTaxPayments : [],
+          profile: data.profile || profile,
+        }, typeof data.schemaVersion === 'number' ? data.schemaVersion : 0);
 
         refresh();
         setEditProfile(data.profile || profile);
-        setMessage({ type: 'success', text: `Imported ${data.companies.length} companies, ${data.projects.length} projects, ${data.timeEntries.length} time entries, ${data.invoices.length} invoices${Array.isArray(data.expenses) ? `, ${data.expenses.length} expenses` : ''}.` });
+        const receiptCount = Array.isArray(data.receipts) ? await importReceipts(data.receipts).catch(() => 0) : 0;
+        setMessage({ type: 'success', text: `Imported ${data.companies.length} companies, ${data.projects.length} projects, ${data.timeEntries.length} time entries, ${data.invoices.length} invoices${Array.isArray(data.expenses) ? `, ${data.expenses.length} expenses` : ''}${receiptCount > 0 ? `, ${receiptCount} receipts` : ''}.` });
 
         // Push imported data to Sheets if connected
         triggerPush();
@@ -139,7 +147,7 @@ export default function SettingsPage() {
   const isSessionExpired = hasSheet && !syncStatus.isConnected && syncStatus.state === 'error';
 
   const statusLabel = syncStatus.state === 'conflict'
-    ? 'Merging changes...'
+    ? 'Conflicting changes — review them to continue syncing'
     : syncStatus.lastError
       ? syncStatus.lastError
       : syncStatus.isConnected
@@ -281,6 +289,18 @@ export default function SettingsPage() {
           </div>
         </div>
 
+        <InvoiceTemplatesSection />
+
+        <TaxRatesSection />
+
+        <CurrenciesSection />
+
+        <ExchangeRatesSection />
+
+        <ReminderTemplatesSection />
+
+        <ReceiptsSection />
+
         {/* Google Sheets Sync */}
         <div className="bg-white border rounded-xl p-5 shadow-sm">
           <h3 className="text-sm font-semibold text-gray-700 mb-1">Google Sheets Backup</h3>
@@ -299,7 +319,7 @@ export default function SettingsPage() {
                     disabled={isBusy}
                     className="bg-green-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
-                    {syncStatus.state === 'conflict' ? 'Merging...' : syncStatus.state === 'pushing' ? 'Pushing...' : isSessionExpired ? 'Reconnect & Sync' : 'Sync Now'}
+                    {syncStatus.state === 'conflict' ? 'Reviewing...' : syncStatus.state === 'pushing' ? 'Pushing...' : isSessionExpired ? 'Reconnect & Sync' : 'Sync Now'}
                   </button>
                   <button
                     onClick={handlePull}
@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { useProfile } from '../../contexts/StorageContext';
+import type { TaxRate, TaxKind } from '../../types';
+import { TAX_KIND_LABELS } from '../../types';
+import { taxRateLabel } from '../../utils/tax';
+import Badge from '../shared/Badge';
+
+const emptyRate = (): TaxRate => ({ id: crypto.randomUUID(), name: '', kind: 'vat', rate: 20 });
+
+export default function TaxRatesSection() {
+  const { profile, saveProfile } = useProfile();
+  const taxRates = profile.taxRates || [];
+  const [draft, setDraft] = useState<TaxRate | null>(null);
+
+  function saveRates(updated: TaxRate[]) {
+    saveProfile({ ...profile, taxRates: updated.length > 0 ? updated : undefined });
+  }
+
+  function handleSave() {
+    if (!draft || !draft.name.trim()) return;
+    // Reverse charge is always a 0% VAT rate; the customer accounts for the VAT
+    const reverseCharge = draft.kind === 'vat' && draft.reverseCharge;
+    const rate: TaxRate = {
+      ...draft,
+      name: draft.name.trim(),
+      rate: reverseCharge ? 0 : draft.rate,
+      reverseCharge: reverseCharge || undefined,
+    };
+    const exists = taxRates.some((r) => r.id === rate.id);
+    saveRates(exists ? taxRates.map((r) => (r.id === rate.id ? rate : r)) : [...taxRates, rate]);
+    setDraft(null);
+  }
+
+  function handleDelete(rate: TaxRate) {
+    if (!confirm(`Delete "${rate.name}"? Companies and line items using it will no longer be taxed. Existing invoices keep their tax.`)) return;
+    saveRates(taxRates.filter((r) => r.id !== rate.id));
+    if (draft?.id === rate.id) setDraft(null);
+  }
+
+  return (
+    <div className="bg-white border rounded-xl p-5 shadow-sm">
+      <h3 className="text-sm font-semibold text-gray-700 mb-1">Tax Rates</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        VAT and sales tax rates to charge on invoices. Assign a rate to a company, or override it on individual line items.
+      </p>
+
+      {taxRates.length > 0 && (
+        <div className="divide-y border rounded-md mb-4">
+          {taxRates.map((r) => (
+            <div key={r.id} className="flex items-center justify-between px-3 py-2 text-sm">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{taxRateLabel(r)}</span>
+                <Badge color="gray">{TAX_KIND_LABELS[r.kind]}</Badge>
+                {r.reverseCharge && <Badge color="blue">reverse charge</Badge>}
+              </div>
+              <div className="flex items-center gap-3">
+                <button onClick={() => setDraft({ ...r })} className="text-xs text-blue-600 hover:text-blue-800">
+                  Edit
+                </button>
+                <button onClick={() => handleDelete(r)} className="text-xs text-red-500 hover:text-red-700">
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!draft ? (
+        <button onClick={() => setDraft(emptyRate())} className="bg-blue-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-700">
+          New Tax Rate
+        </button>
+      ) : (
+        <div className="space-y-3">
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g. UK VAT"
+                className="w-full border rounded-md px-3 py-2 text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+              <select
+                value={draft.kind}
+                onChange={(e) => setDraft({ ...draft, kind: e.target.value as TaxKind })}
+                className="w-full border rounded-md px-3 py-2 text-sm"
+              >
+                {(Object.keys(TAX_KIND_LABELS) as TaxKind[]).map((k) => (
+                  <option key={k} value={k}>{TAX_KIND_LABELS[k]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Rate (%)</label>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={draft.reverseCharge ? 0 : draft.rate}
+                disabled={draft.reverseCharge}
+                onChange={(e) => setDraft({ ...draft, rate: parseFloat(e.target.value) || 0 })}
+                className="w-full border rounded-md px-3 py-2 text-sm disabled:bg-gray-50"
+              />
+            </div>
+          </div>
+          {draft.kind === 'vat' && (
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={draft.reverseCharge || false}
+                onChange={(e) => setDraft({ ...draft, reverseCharge: e.target.checked })}
+                className="rounded"
+              />
+              Reverse charge — 0%, adds the VAT notice to invoices
+            </label>
+          )}
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleSave}
+              className="bg-blue-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-700"
+            >
+              Save Tax Rate
+            </button>
+            <button onClick={() => setDraft(null)} className="text-sm text-gray-500 hover:text-gray-700">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { useMemo } from 'react';
+import type { Currency, Invoice } from '../../types';
+import type { AgingBucket } from '../../utils/calculations';
+import { AGING_BUCKETS, agingBucket, daysPastDue } from '../../utils/calculations';
+import { formatCurrency } from '../../utils/formatCurrency';
+
+interface Props {
+  // Open invoices with their outstanding balance in the reporting currency
+  // (null when no rate is available)
+  items: { invoice: Invoice; converted: number | null }[];
+  reporting: Currency;
+}
+
+const BUCKET_COLORS: Record<AgingBucket, string> = {
+  'current': 'text-gray-900',
+  '1-30': 'text-amber-600',
+  '31-60': 'text-orange-600',
+  '61-90': 'text-red-600',
+  '90+': 'text-red-700',
+};
+
+// Outstanding balances by days past due: current, 1–30, 31–60, 61–90, 90+
+export default function AgingSummary({ items, reporting }: Props) {
+  const buckets = useMemo(() => {
+    const totals = new Map<AgingBucket, { amount: number; count: number; unconverted: number }>(
+      AGING_BUCKETS.map((b) => [b.id, { amount: 0, count: 0, unconverted: 0 }])
+    );
+    for (const { invoice, converted } of items) {
+      const bucket = totals.get(agingBucket(daysPastDue(invoice)))!;
+      bucket.count++;
+      if (converted != null) bucket.amount += converted; else bucket.unconverted++;
+    }
+    return totals;
+  }, [items]);
+
+  return (
+    <div className="grid grid-cols-5 gap-2">
+      {AGING_BUCKETS.map(({ id, label }) => {
+        const b = buckets.get(id)!;
+        return (
+          <div key={id} className="border rounded-lg px-3 py-2">
+            <p className="text-xs text-gray-500">{label}</p>
+            <p className={`font-semibold tabular-nums ${b.count > 0 ? BUCKET_COLORS[id] : 'text-gray-300'}`}>
+              {formatCurrency(b.amount, reporting)}
+            </p>
+            <p className="text-xs text-gray-400">
+              {b.count} invoice{b.count !== 1 ? 's' : ''}
+              {b.unconverted > 0 && <span title="No exchange rate available"> · {b.unconverted} not converted</span>}
+            </p>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 import { useState, useMemo, useEffect } from 'react';
 import { useCompanies, useProjects, useTimeEntries, useInvoices } from '../../contexts/StorageContext';
 import type { TimeEntry } from '../../types';
-import { getEntryPaymentStatus, isFixedMonthly } from '../../utils/calculations';
+import { getEntryPaymentStatus, isFixedMonthly, entryRate } from '../../utils/calculations';
 import { formatDate, today, getWeekDates } from '../../utils/dateUtils';
 import { formatCurrency, formatHours } from '../../utils/formatCurrency';
 import TimeEntryForm from './TimeEntryForm';
@@ -15,6 +15,7 @@ const statusColors: Record<string, string> = {
   'Uninvoiced': 'orange',
   'Unpaid': 'orange',
   'Tracking only': 'gray',
+  'Invoice voided': 'gray',
 };
 
 export default function TimePage() {
@@ -107,7 +108,7 @@ export default function TimePage() {
               ? '—'
               : entry.fixedAmount != null
                 ? (company ? formatCurrency(entry.fixedAmount, company.currency) : `$${entry.fixedAmount}`)
-                : (company ? formatCurrency(entry.hours * company.hourlyRate, company.currency) : '')}
+                : (company ? formatCurrency(entry.hours * entryRate(entry, company, projectMap), company.currency) : '')}
           </span>
           <div className="flex gap-1 shrink-0 w-36 justify-end">
             {canTogglePaid && !entry.paidDate && (
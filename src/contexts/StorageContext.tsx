@@ -1,8 +1,11 @@
 import { createContext, useContext, useState, useCallback, useMemo } from 'react';
 import type { ReactNode } from 'react';
-import type { Company, Project, TimeEntry, Invoice, Expense } from '../types';
+import type { Company, Project, TimeEntry, Invoice, Expense, Payment, EstimatedTaxPayment } from '../types';
 import type { BusinessProfile } from '../utils/storage';
 import * as storage from '../utils/storage';
+import { HistoryCtx } from '../hooks/useHistory';
+import { PaymentsCtx, usePayments } from '../hooks/usePayments';
+import { EstimatedTaxPaymentsCtx, useEstimatedTaxPayments } from '../hooks/useEstimatedTaxPayments';
 
 // --- Individual context types ---
 
@@ -64,9 +67,13 @@ export function StorageProvider({ children }: { children: ReactNode }) {
   const [timeEntries, setTimeEntries] = useState(() => storage.getTimeEntries());
   const [invoices, setInvoices] = useState(() => storage.getInvoices());
   const [expenses, setExpenses] = useState(() => storage.getExpenses());
+  const [payments, setPayments] = useState(() => storage.getPayments());
+  const [estimatedTaxPayments, setEstimatedTaxPayments] = useState(() => storage.getEstimatedTaxPayments());
   const [profile, setProfile] = useState(() => storage.getProfile());
+  const [history, setHistory] = useState(() => storage.getHistoryState());
 
   const notifyDataChange = useCallback(() => {
+    setHistory(storage.getHistoryState());
     window.dispatchEvent(new CustomEvent('ct:data-changed'));
   }, []);
 
@@ -125,6 +132,26 @@ export function StorageProvider({ children }: { children: ReactNode }) {
     notifyDataChange();
   }, [notifyDataChange]);
 
+  const savePaymentFn = useCallback((payment: Payment) => {
+    setPayments(storage.savePayment(payment));
+    notifyDataChange();
+  }, [notifyDataChange]);
+
+  const deletePaymentFn = useCallback((id: string) => {
+    setPayments(storage.deletePayment(id));
+    notifyDataChange();
+  }, [notifyDataChange]);
+
+  const saveEstimatedTaxPaymentFn = useCallback((payment: EstimatedTaxPayment) => {
+    setEstimatedTaxPayments(storage.saveEstimatedTaxPayment(payment));
+    notifyDataChange();
+  }, [notifyDataChange]);
+
+  const deleteEstimatedTaxPaymentFn = useCallback((id: string) => {
+    setEstimatedTaxPayments(storage.deleteEstimatedTaxPayment(id));
+    notifyDataChange();
+  }, [notifyDataChange]);
+
   const saveProfileFn = useCallback((profile: BusinessProfile) => {
     setProfile(storage.saveProfile(profile));
     notifyDataChange();
@@ -136,7 +163,33 @@ export function StorageProvider({ children }: { children: ReactNode }) {
     setTimeEntries(storage.getTimeEntries());
     setInvoices(storage.getInvoices());
     setExpenses(storage.getExpenses());
+    setPayments(storage.getPayments());
+    setEstimatedTaxPayments(storage.getEstimatedTaxPayments());
     setProfile(storage.getProfile());
+    setHistory(storage.getHistoryState());
+  }, []);
+
+  const undo = useCallback(() => {
+    const label = storage.undo();
+    if (label) {
+      refresh();
+      notifyDataChange();
+    }
+    return label;
+  }, [refresh, notifyDataChange]);
+
+  const redo = useCallback(() => {
+    const label = storage.redo();
+    if (label) {
+      refresh();
+      notifyDataChange();
+    }
+    return label;
+  }, [refresh, notifyDataChange]);
+
+  const batch = useCallback((label: string, fn: () => void) => {
+    storage.runBatch(label, fn);
+    setHistory(storage.getHistoryState());
   }, []);
 
   const companiesValue = useMemo(() => ({
@@ -159,27 +212,45 @@ export function StorageProvider({ children }: { children: ReactNode }) {
     expenses, saveExpense: saveExpenseFn, deleteExpense: deleteExpenseFn,
   }), [expenses, saveExpenseFn, deleteExpenseFn]);
 
+  const paymentsValue = useMemo(() => ({
+    payments, savePayment: savePaymentFn, deletePayment: deletePaymentFn,
+  }), [payments, savePaymentFn, deletePaymentFn]);
+
+  const estimatedTaxPaymentsValue = useMemo(() => ({
+    estimatedTaxPayments, saveEstimatedTaxPayment: saveEstimatedTaxPaymentFn, deleteEstimatedTaxPayment: deleteEstimatedTaxPaymentFn,
+  }), [estimatedTaxPayments, saveEstimatedTaxPaymentFn, deleteEstimatedTaxPaymentFn]);
+
   const profileValue = useMemo(() => ({
     profile, saveProfile: saveProfileFn,
   }), [profile, saveProfileFn]);
 
   const refreshValue = useMemo(() => ({ refresh }), [refresh]);
 
+  const historyValue = useMemo(() => ({
+    history, undo, redo, batch,
+  }), [history, undo, redo, batch]);
+
   return (
     <RefreshCtx.Provider value={refreshValue}>
-      <CompaniesCtx.Provider value={companiesValue}>
-        <ProjectsCtx.Provider value={projectsValue}>
-          <TimeEntriesCtx.Provider value={timeEntriesValue}>
-            <InvoicesCtx.Provider value={invoicesValue}>
-              <ExpensesCtx.Provider value={expensesValue}>
-                <ProfileCtx.Provider value={profileValue}>
-                  {children}
-                </ProfileCtx.Provider>
-              </ExpensesCtx.Provider>
-            </InvoicesCtx.Provider>
-          </TimeEntriesCtx.Provider>
-        </ProjectsCtx.Provider>
-      </CompaniesCtx.Provider>
+      <HistoryCtx.Provider value={historyValue}>
+        <CompaniesCtx.Provider value={companiesValue}>
+          <ProjectsCtx.Provider value={projectsValue}>
+            <TimeEntriesCtx.Provider value={timeEntriesValue}>
+              <InvoicesCtx.Provider value={invoicesValue}>
+                <ExpensesCtx.Provider value={expensesValue}>
+                  <PaymentsCtx.Provider value={paymentsValue}>
+                    <EstimatedTaxPaymentsCtx.Provider value={estimatedTaxPaymentsValue}>
+                      <ProfileCtx.Provider value={profileValue}>
+                        {children}
+                      </ProfileCtx.Provider>
+                    </EstimatedTaxPaymentsCtx.Provider>
+                  </PaymentsCtx.Provider>
+                </ExpensesCtx.Provider>
+              </InvoicesCtx.Provider>
+            </TimeEntriesCtx.Provider>
+          </ProjectsCtx.Provider>
+        </CompaniesCtx.Provider>
+      </HistoryCtx.Provider>
     </RefreshCtx.Provider>
   );
 }
@@ -236,6 +307,8 @@ export function useStorage() {
   const { timeEntries, saveTimeEntry, deleteTimeEntry, saveTimeEntries } = useTimeEntries();
   const { invoices, saveInvoice, deleteInvoice } = useInvoices();
   const { expenses, saveExpense, deleteExpense } = useExpenses();
+  const { payments, savePayment, deletePayment } = usePayments();
+  const { estimatedTaxPayments, saveEstimatedTaxPayment, deleteEstimatedTaxPayment } = useEstimatedTaxPayments();
   const { profile, saveProfile } = useProfile();
   const { refresh } = useRefresh();
   return {
@@ -244,6 +317,8 @@ export function useStorage() {
     timeEntries, saveTimeEntry, deleteTimeEntry, saveTimeEntries,
     invoices, saveInvoice, deleteInvoice,
     expenses, saveExpense, deleteExpense,
+    payments, savePayment, deletePayment,
+    estimatedTaxPayments, saveEstimatedTaxPayment, deleteEstimatedTaxPayment,
     profile, saveProfile,
     refresh,
   };
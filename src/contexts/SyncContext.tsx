@@ -1,13 +1,16 @@
 import { createContext, useContext, useState, useCallback, useEffect, useRef } from 'react';
 import type { ReactNode } from 'react';
 import { useStorage } from './StorageContext';
-import { writeAll } from '../utils/storage';
+import { writeAll, getAllRecords, getPendingChanges, clearPendingChanges } from '../utils/storage';
 import { initGapi, initGis, requestAccessToken, revokeToken, hasValidToken } from '../services/googleAuth';
 import {
   syncToSheets, pullFromSheets, findSpreadsheet,
   getSpreadsheetId, clearSpreadsheetId, getSpreadsheetUrl,
-  checkForConflict, mergeData, clearLastSyncTime,
+  checkForConflict, mergeData, changesBetween, getLastSyncTime, clearLastSyncTime,
 } from '../services/syncManager';
+import type { SyncData } from '../services/syncManager';
+import { findConflicts, rememberedResolution } from '../services/syncConflicts';
+import type { RecordConflict, ConflictResolutions, ConflictSide, RememberedChoices } from '../services/syncConflicts';
 
 export interface SyncStatus {
   state: 'idle' | 'pushing' | 'pulling' | 'conflict' | 'error';
@@ -18,6 +21,11 @@ export interface SyncStatus {
 
 interface SyncContextValue {
   syncStatus: SyncStatus;
+  // Conflicts awaiting review; the push is on hold until they are resolved
+  pendingConflicts: RecordConflict[] | null;
+  // `all` is set when the user kept one side for every record
+  resolveConflicts: (resolutions: ConflictResolutions, remember: boolean, all?: ConflictSide) => Promise<void>;
+  dismissConflicts: () => void;
   triggerPush: () => void;
   forcePush: () => Promise<void>;
   forcePull: () => Promise<void>;
@@ -30,6 +38,7 @@ const SyncContext = createContext<SyncContextValue | null>(null);
 
 const DEBOUNCE_MS = 2000;
 const TOKEN_CHECK_MS = 30000; // Check token expiration every 30 seconds
+const CONFLICT_PAUSED_MESSAGE = 'Sync paused — conflicting changes need review. Click Sync Now to resolve.';
 
 // Helper to detect auth errors from GAPI responses
 function isAuthError(err: unknown): boolean {
@@ -62,11 +71,19 @@ export function SyncProvider({ children }: { children: ReactNode }) {
     lastError: null,
   });
   const [spreadsheetUrl, setSpreadsheetUrl] = useState<string | null>(getSpreadsheetUrl());
+  const [pendingConflicts, setPendingConflicts] = useState<RecordConflict[] | null>(null);
 
   const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const mountedRef = useRef(true);
   // Track whether a push is currently in flight to avoid overlapping pushes
   const pushingRef = useRef(false);
+  // Remote data the pending conflicts were found against, plus any conflicts
+  // already settled by remembered choices
+  const conflictRemoteRef = useRef<{ remote: SyncData; resolutions: ConflictResolutions } | null>(null);
+  // Set when the user closes the review without resolving; auto-push waits for Sync Now
+  const conflictPausedRef = useRef(false);
+  // "Remember this choice" decisions, kept for the session only
+  const rememberedRef = useRef<RememberedChoices>({ records: {} });
 
   // Use a ref for storage so the push function always reads latest data
   const storageRef = useRef(storage);
@@ -76,7 +93,7 @@ export function SyncProvider({ children }: { children: ReactNode }) {
   // Only pushes if we already have a valid token. Never triggers auth popup
   // (popups must come from user gestures like clicking Connect/Sync Now).
   const doPush = useCallback(async () => {
-    if (pushingRef.current) return;
+    if (pushingRef.current || conflictRemoteRef.current) return;
     if (!getSpreadsheetId()) return;
 
     if (!hasValidToken()) {
@@ -99,7 +116,7 @@ export function SyncProvider({ children }: { children: ReactNode }) {
       const spreadsheetId = getSpreadsheetId();
       if (!spreadsheetId) return;
 
-      const { companies, projects, timeEntries, invoices, expenses, profile } = storageRef.current;
+      const { companies, timeEntries } = storageRef.current;
 
       // Safety: never push empty data over an existing spreadsheet
       if (companies.length === 0 && timeEntries.length === 0) {
@@ -110,24 +127,45 @@ export function SyncProvider({ children }: { children: ReactNode }) {
         return;
       }
 
-      const localData = { companies, projects, timeEntries, invoices, expenses, profile };
+      // Push tombstones too, so deletes reach other devices
+      const localData = getAllRecords();
+      const pending = getPendingChanges(getLastSyncTime());
 
       // Check for conflict before pushing
       const { hasConflict, remoteData } = await checkForConflict(spreadsheetId);
 
       if (hasConflict && remoteData) {
-        console.log('[Sync] Conflict detected — merging...');
-        if (mountedRef.current) {
-          setSyncStatus((s) => ({ ...s, state: 'conflict' }));
+        console.log('[Sync] Conflict detected — comparing records...');
+        const conflicts = findConflicts(localData, remoteData);
+        const resolutions: ConflictResolutions = {};
+        const unresolved = conflicts.filter((c) => {
+          const remembered = rememberedResolution(c, rememberedRef.current);
+          if (remembered) resolutions[c.key] = remembered;
+          return !remembered;
+        });
+
+        if (unresolved.length > 0) {
+          // Hold the push until the user reviews the differences
+          console.log('[Sync] %d conflicting record(s) need review', unresolved.length);
+          conflictRemoteRef.current = { remote: remoteData, resolutions };
+          if (mountedRef.current) {
+            setPendingConflicts(unresolved);
+            setSyncStatus((s) => ({ ...s, state: 'conflict' }));
+          }
+          return;
         }
-        const merged = mergeData(localData, remoteData);
+
+        const merged = mergeData(localData, remoteData, resolutions);
         // Save merged data locally first (safe even if push fails)
         writeAll(merged);
         storageRef.current.refresh();
-        // Push merged data to remote
-        await syncToSheets(merged);
+        const mergedSeq = getPendingChanges(null).seq;
+        // Push whatever now differs from the remote
+        await syncToSheets(merged, changesBetween(merged, remoteData));
+        clearPendingChanges(mergedSeq);
       } else {
-        await syncToSheets(localData);
+        await syncToSheets(localData, pending);
+        clearPendingChanges(pending.seq);
       }
 
       if (mountedRef.current) {
@@ -151,7 +189,7 @@ export function SyncProvider({ children }: { children: ReactNode }) {
 
   // --- Debounced push ---
   const triggerPush = useCallback(() => {
-    if (!getSpreadsheetId()) return;
+    if (!getSpreadsheetId() || conflictPausedRef.current) return;
     if (debounceRef.current) clearTimeout(debounceRef.current);
     debounceRef.current = setTimeout(() => {
       doPush();
@@ -161,6 +199,7 @@ export function SyncProvider({ children }: { children: ReactNode }) {
   // --- Force push (immediate, re-authenticates if needed) ---
   const forcePush = useCallback(async () => {
     if (debounceRef.current) clearTimeout(debounceRef.current);
+    conflictPausedRef.current = false;
 
     // Re-authenticate if token is expired (user clicked Sync Now)
     if (!hasValidToken() && getSpreadsheetId()) {
@@ -177,6 +216,55 @@ export function SyncProvider({ children }: { children: ReactNode }) {
     await doPush();
   }, [doPush]);
 
+  // --- Conflict review ---
+  const resolveConflicts = useCallback(async (resolutions: ConflictResolutions, remember: boolean, all?: ConflictSide) => {
+    const pending = conflictRemoteRef.current;
+    if (!pending) return;
+
+    if (remember) {
+      rememberedRef.current = all
+        ? { ...rememberedRef.current, all }
+        : { ...rememberedRef.current, records: { ...rememberedRef.current.records, ...resolutions } };
+    }
+
+    pushingRef.current = true;
+    setPendingConflicts(null);
+    setSyncStatus((s) => ({ ...s, state: 'pushing', lastError: null }));
+    try {
+      // Re-read local data: edits made while the review was open still count
+      const merged = mergeData(getAllRecords(), pending.remote, { ...pending.resolutions, ...resolutions });
+      writeAll(merged);
+      storageRef.current.refresh();
+      const mergedSeq = getPendingChanges(null).seq;
+      await syncToSheets(merged, changesBetween(merged, pending.remote));
+      clearPendingChanges(mergedSeq);
+      if (mountedRef.current) {
+        setSyncStatus((s) => ({ ...s, state: 'idle', lastPushAt: new Date(), isConnected: true, lastError: null }));
+      }
+    } catch (err) {
+      if (mountedRef.current) {
+        if (isAuthError(err)) {
+          setSyncStatus((s) => ({ ...s, state: 'error', lastError: 'Session expired. Reconnect to resume syncing.', isConnected: false }));
+        } else {
+          const msg = getErrorMessage(err);
+          setSyncStatus((s) => ({ ...s, state: 'error', lastError: msg }));
+        }
+      }
+    } finally {
+      conflictRemoteRef.current = null;
+      pushingRef.current = false;
+    }
+  }, []);
+
+  // Close the review without pushing. Local data is untouched; auto-sync stays
+  // paused until the user clicks Sync Now, which re-checks the remote.
+  const dismissConflicts = useCallback(() => {
+    conflictRemoteRef.current = null;
+    conflictPausedRef.current = true;
+    setPendingConflicts(null);
+    setSyncStatus((s) => ({ ...s, state: 'idle', lastError: CONFLICT_PAUSED_MESSAGE }));
+  }, []);
+
   // --- Force pull ---
   const forcePull = useCallback(async () => {
     if (!getSpreadsheetId()) return;
@@ -190,6 +278,7 @@ export function SyncProvider({ children }: { children: ReactNode }) {
       const data = await pullFromSheets();
       if (data && mountedRef.current) {
         writeAll(data);
+        clearPendingChanges(); // local now matches the sheet
         storageRef.current.refresh();
         setSyncStatus((s) => ({ ...s, state: 'idle', isConnected: true, lastError: null }));
       }
@@ -236,13 +325,15 @@ export function SyncProvider({ children }: { children: ReactNode }) {
           data?.companies.length ?? 0, data?.timeEntries.length ?? 0);
         if (data && mountedRef.current) {
           writeAll(data);
+          clearPendingChanges(); // local now matches the sheet
           storageRef.current.refresh();
         }
       } else {
         // Push current local data to Sheets
         console.log('[Sync] Pushing local data to Sheets...');
-        const { companies: c, projects, timeEntries: te, invoices, expenses, profile } = storageRef.current;
-        await syncToSheets({ companies: c, projects, timeEntries: te, invoices, expenses, profile });
+        const { seq } = getPendingChanges(null);
+        await syncToSheets(getAllRecords());
+        clearPendingChanges(seq);
         console.log('[Sync] Push complete');
       }
 
@@ -266,6 +357,9 @@ export function SyncProvider({ children }: { children: ReactNode }) {
     revokeToken();
     clearSpreadsheetId();
     clearLastSyncTime();
+    conflictRemoteRef.current = null;
+    conflictPausedRef.current = false;
+    setPendingConflicts(null);
     setSyncStatus({ state: 'idle', isConnected: false, lastPushAt: null, lastError: null });
     setSpreadsheetUrl(null);
   }, []);
@@ -326,7 +420,7 @@ export function SyncProvider({ children }: { children: ReactNode }) {
   }, []);
 
   return (
-    <SyncContext.Provider value={{ syncStatus, triggerPush, forcePush, forcePull, connect, disconnect, spreadsheetUrl }}>
+    <SyncContext.Provider value={{ syncStatus, pendingConflicts, resolveConflicts, dismissConflicts, triggerPush, forcePush, forcePull, connect, disconnect, spreadsheetUrl }}>
       {children}
     </SyncContext.Provider>
   );
@@ -0,0 +1,19 @@
+import { createContext, useContext } from 'react';
+import type { EstimatedTaxPayment } from '../types';
+
+// Estimated tax payments made to the IRS or the state. Kept apart from
+// StorageContext.tsx, which provides them, so that file only exports components.
+
+export interface EstimatedTaxPaymentsContextValue {
+  estimatedTaxPayments: EstimatedTaxPayment[];
+  saveEstimatedTaxPayment: (payment: EstimatedTaxPayment) => void;
+  deleteEstimatedTaxPayment: (id: string) => void;
+}
+
+export const EstimatedTaxPaymentsCtx = createContext<EstimatedTaxPaymentsContextValue | null>(null);
+
+export function useEstimatedTaxPayments() {
+  const ctx = useContext(EstimatedTaxPaymentsCtx);
+  if (!ctx) throw new Error('useEstimatedTaxPayments must be inside StorageProvider');
+  return ctx;
+}
@@ -0,0 +1,31 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { Currency } from '../types';
+import { preloadRates } from '../utils/exchangeRate';
+
+interface LoadedRates {
+  key: string;
+  rates: Record<Currency, number | null>;
+}
+
+// Latest rates from each of `currencies` into `to`, refetched when the set of
+// currencies or the target changes. Until they load, only `to` itself has a rate.
+export function useExchangeRates(currencies: Iterable<Currency>, to: Currency) {
+  const key = [to, ...[...new Set(currencies)].sort()].join(',');
+  const [loaded, setLoaded] = useState<LoadedRates | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const [target, ...codes] = key.split(',');
+    preloadRates(codes, target).then((rates) => {
+      if (!cancelled) setLoaded({ key, rates });
+    });
+    return () => { cancelled = true; };
+  }, [key]);
+
+  const isLoaded = loaded?.key === key;
+  const rates = useMemo(
+    () => (isLoaded ? loaded.rates : { [to]: 1 }),
+    [isLoaded, loaded, to],
+  );
+  return { rates, loaded: isLoaded };
+}
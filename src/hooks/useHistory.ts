@@ -0,0 +1,22 @@
+import { createContext, useContext } from 'react';
+import type { HistoryState } from '../utils/storage';
+
+// Undo/redo over storage writes. Kept apart from StorageContext.tsx, which
+// provides it, so that file only exports components.
+
+export interface HistoryContextValue {
+  history: HistoryState;
+  // Both return the label of the step applied, or null if there was none
+  undo: () => string | null;
+  redo: () => string | null;
+  // Run several saves/deletes as one undoable step
+  batch: (label: string, fn: () => void) => void;
+}
+
+export const HistoryCtx = createContext<HistoryContextValue | null>(null);
+
+export function useHistory() {
+  const ctx = useContext(HistoryCtx);
+  if (!ctx) throw new Error('useHistory must be inside StorageProvider');
+  return ctx;
+}
@@ -0,0 +1,19 @@
+import { createContext, useContext } from 'react';
+import type { Payment } from '../types';
+
+// Payments recorded against invoices. Kept apart from StorageContext.tsx,
+// which provides them, so that file only exports components.
+
+export interface PaymentsContextValue {
+  payments: Payment[];
+  savePayment: (payment: Payment) => void;
+  deletePayment: (id: string) => void;
+}
+
+export const PaymentsCtx = createContext<PaymentsContextValue | null>(null);
+
+export function usePayments() {
+  const ctx = useContext(PaymentsCtx);
+  if (!ctx) throw new Error('usePayments must be inside StorageProvider');
+  return ctx;
+}
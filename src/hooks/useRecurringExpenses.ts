@@ -0,0 +1,29 @@
+import { useEffect, useRef } from 'react';
+import { useExpenses } from '../contexts/StorageContext';
+import { useHistory } from './useHistory';
+import { dueExpenseOccurrences } from '../utils/recurringExpenses';
+
+// Once per app load, generate the occurrences recurring expenses owe since
+// the last run. They're left for review on the Expenses page. All of them
+// are one undo step.
+export function useRecurringExpenses() {
+  const { expenses, saveExpense } = useExpenses();
+  const { batch } = useHistory();
+  const ran = useRef(false);
+
+  useEffect(() => {
+    if (ran.current) return;
+    ran.current = true;
+    const due = expenses
+      .map((e) => dueExpenseOccurrences(e, expenses))
+      .filter((d) => d !== null);
+    if (due.length === 0) return;
+    const count = due.reduce((sum, d) => sum + d.occurrences.length, 0);
+    batch(`Add ${count} recurring expense${count !== 1 ? 's' : ''}`, () => {
+      for (const d of due) {
+        saveExpense(d.source);
+        d.occurrences.forEach(saveExpense);
+      }
+    });
+  }, [expenses, batch, saveExpense]);
+}
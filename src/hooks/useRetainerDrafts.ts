@@ -0,0 +1,30 @@
+import { useEffect, useRef } from 'react';
+import { useCompanies, useInvoices, useProfile } from '../contexts/StorageContext';
+import { useHistory } from './useHistory';
+import { dueRetainerDrafts } from '../utils/retainers';
+
+// Once per app load, create the draft retainer invoices owed by companies set
+// to auto-draft. All drafts are one undo step.
+export function useRetainerDrafts() {
+  const { companies, saveCompany } = useCompanies();
+  const { invoices, saveInvoice } = useInvoices();
+  const { profile } = useProfile();
+  const { batch } = useHistory();
+  const ran = useRef(false);
+
+  useEffect(() => {
+    if (ran.current) return;
+    ran.current = true;
+    const due = companies
+      .map((c) => dueRetainerDrafts(c, invoices, profile.taxRates || []))
+      .filter((d) => d !== null);
+    if (due.length === 0) return;
+    const count = due.reduce((sum, d) => sum + d.invoices.length, 0);
+    batch(`Create ${count} retainer draft${count !== 1 ? 's' : ''}`, () => {
+      for (const d of due) {
+        saveCompany(d.company);
+        d.invoices.forEach(saveInvoice);
+      }
+    });
+  }, [companies, invoices, profile, batch, saveCompany, saveInvoice]);
+}
@@ -2,9 +2,46 @@ import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import './index.css';
 import App from './App';
+import { initStorage } from './utils/storage';
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>
-);
+const root = createRoot(document.getElementById('root')!);
+
+// Shown instead of the app while storage can't be opened
+function renderMessage(title: string, detail: string, reload = false) {
+  root.render(
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-6">
+      <div className="max-w-md bg-white border rounded-xl p-6 shadow-sm">
+        <h1 className="text-lg font-semibold text-gray-900">{title}</h1>
+        <p className="text-sm text-gray-600 mt-2">{detail}</p>
+        {reload && (
+          <button
+            onClick={() => window.location.reload()}
+            className="mt-4 bg-blue-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-700"
+          >
+            Reload
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+initStorage(() => renderMessage(
+  'Close your other Consulting Tracker tabs',
+  'Another tab is still running the previous version and holds your data open. Close it (or reload it) and this page will continue on its own.',
+))
+  .then(() => {
+    root.render(
+      <StrictMode>
+        <App />
+      </StrictMode>
+    );
+  })
+  .catch((err) => {
+    console.error('[Storage] Could not load data:', err);
+    renderMessage(
+      'Your data could not be loaded',
+      `${err instanceof Error ? err.message : String(err)}. Reload to try again; the browser console has the details.`,
+      true,
+    );
+  });
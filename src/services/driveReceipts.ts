@@ -0,0 +1,98 @@
+import type { ExpenseReceipt } from '../types';
+import { getSpreadsheetId } from './syncManager';
+import { hasValidToken } from './googleAuth';
+
+const FOLDER_ID_KEY = 'ct_drive_receiptsFolderId';
+const UPLOAD_KEY = 'ct_drive_uploadReceipts';
+const FOLDER_NAME = 'Consulting Tracker Receipts';
+const FOLDER_MIME = 'application/vnd.google-apps.folder';
+
+// Per device, like the Sheets connection itself
+export function isReceiptUploadEnabled(): boolean {
+  return localStorage.getItem(UPLOAD_KEY) === '1';
+}
+
+export function setReceiptUploadEnabled(enabled: boolean): void {
+  if (enabled) localStorage.setItem(UPLOAD_KEY, '1');
+  else localStorage.removeItem(UPLOAD_KEY);
+}
+
+// Uploads need the Sheets connection: its token, and the spreadsheet whose
+// folder the receipts go next to
+export function canUploadReceipts(): boolean {
+  return !!getSpreadsheetId() && hasValidToken();
+}
+
+export function driveFileUrl(fileId: string): string {
+  return `https://drive.google.com/file/d/${fileId}/view`;
+}
+
+async function folderExists(id: string): Promise<boolean> {
+  try {
+    const resp = await gapi.client.request({
+      path: `https://www.googleapis.com/drive/v3/files/${id}?fields=${encodeURIComponent('id,trashed')}`,
+      method: 'GET',
+    });
+    return !resp.result.trashed;
+  } catch {
+    return false;
+  }
+}
+
+// The receipts folder beside the backup spreadsheet, created on first upload.
+// With the drive.file scope only folders this app created are visible.
+async function receiptsFolder(): Promise<string> {
+  const cached = localStorage.getItem(FOLDER_ID_KEY);
+  if (cached && await folderExists(cached)) return cached;
+
+  const spreadsheetId = getSpreadsheetId();
+  if (!spreadsheetId) throw new Error('Connect Google Sheets to upload receipts.');
+  const sheet = await gapi.client.request({
+    path: `https://www.googleapis.com/drive/v3/files/${spreadsheetId}?fields=parents`,
+    method: 'GET',
+  });
+  const parent: string | undefined = sheet.result.parents?.[0];
+
+  const q = encodeURIComponent(
+    `name='${FOLDER_NAME}' and mimeType='${FOLDER_MIME}' and trashed=false${parent ? ` and '${parent}' in parents` : ''}`,
+  );
+  const found = await gapi.client.request({
+    path: `https://www.googleapis.com/drive/v3/files?q=${q}&fields=${encodeURIComponent('files(id)')}&spaces=drive`,
+    method: 'GET',
+  });
+  let id: string | undefined = found.result.files?.[0]?.id;
+  if (!id) {
+    const created = await gapi.client.request({
+      path: 'https://www.googleapis.com/drive/v3/files?fields=id',
+      method: 'POST',
+      body: { name: FOLDER_NAME, mimeType: FOLDER_MIME, parents: parent ? [parent] : undefined },
+    });
+    id = created.result.id as string;
+  }
+  localStorage.setItem(FOLDER_ID_KEY, id);
+  return id;
+}
+
+// Upload one receipt file and return its Drive file id. gapi.client.request
+// can't send binary bodies, so this is a plain multipart fetch with the token.
+export async function uploadReceipt(receipt: ExpenseReceipt, blob: Blob, expenseLabel: string): Promise<string> {
+  const token = gapi.client.getToken()?.access_token;
+  if (!token) throw new Error('Not signed in to Google.');
+  const folder = await receiptsFolder();
+
+  const boundary = `receipt-${crypto.randomUUID()}`;
+  const metadata = { name: `${expenseLabel} - ${receipt.name}`, parents: [folder], mimeType: receipt.type };
+  const body = new Blob([
+    `--${boundary}\r\nContent-Type: application/json; charset=UTF-8\r\n\r\n${JSON.stringify(metadata)}\r\n`,
+    `--${boundary}\r\nContent-Type: ${receipt.type}\r\n\r\n`,
+    blob,
+    `\r\n--${boundary}--`,
+  ]);
+  const resp = await fetch('https://www.googleapis.com/upload/drive/v3/files?uploadType=multipart&fields=id', {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': `multipart/related; boundary=${boundary}` },
+    body,
+  });
+  if (!resp.ok) throw new Error(`Drive upload failed (${resp.status}).`);
+  return (await resp.json()).id as string;
+}
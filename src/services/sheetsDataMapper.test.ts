@@ -0,0 +1,294 @@
+import { describe, it, expect } from 'vitest';
+import type { Company, Project, TimeEntry, Invoice, Expense, Payment, EstimatedTaxPayment } from '../types';
+import type { BusinessProfile } from '../utils/storage';
+import {
+  companiesToRows, rowsToCompanies,
+  projectsToRows, rowsToProjects,
+  timeEntriesToRows, rowsToTimeEntries,
+  invoicesToRows, rowsToInvoices,
+  expensesToRows, rowsToExpenses,
+  paymentsToRows, rowsToPayments,
+  estimatedTaxPaymentsToRows, rowsToEstimatedTaxPayments,
+  profileToRows, rowsToProfile,
+} from './sheetsDataMapper';
+import { findConflicts } from './syncConflicts';
+
+// Every field of every type set, so a column missing from a table shows up
+// as a dropped field
+
+const company: Company = {
+  id: 'c1',
+  name: 'Acme GmbH',
+  currency: 'EUR',
+  billingType: 'fixed_monthly',
+  hourlyRate: 120,
+  rateHistory: [{ effectiveFrom: '2025-01-01', hourlyRate: 130 }],
+  monthlyRate: 5000,
+  invoiceRequired: true,
+  paymentTerms: 'Net 30',
+  paymentMethod: 'SEPA',
+  contactName: 'Jane Doe',
+  contactEmail: 'jane@acme.example',
+  billingAddress: 'Hauptstr. 1\n10115 Berlin',
+  notes: 'Semicolons; commas, and "quotes"',
+  nextInvoiceNumber: 42,
+  nextCreditNoteNumber: 3,
+  vatReverseCharge: true,
+  vatNoticeText: 'Reverse charge: VAT to be accounted for by the recipient',
+  taxRateId: 'de-vat',
+  invoiceTemplateId: 'tpl-1',
+  retainerAutoDraft: true,
+  retainerIssueDay: 31,
+  retainerStartMonth: '2025-01',
+  retainerDraftedThrough: '2025-06',
+  recurringLineItems: [{ id: 'li-1', description: 'Hosting', quantity: 1, unitPrice: 50, amount: 50, taxRateId: 'none' }],
+  isActive: false,
+  createdAt: '2025-01-01T09:00:00.000Z',
+  updatedAt: '2025-06-01T09:00:00.000Z',
+  deletedAt: '2025-07-01T09:00:00.000Z',
+};
+
+const project: Project = {
+  id: 'p1',
+  companyId: 'c1',
+  name: 'Website',
+  hourlyRate: 150,
+  isActive: false,
+  createdAt: '2025-01-01T09:00:00.000Z',
+  updatedAt: '2025-02-01T09:00:00.000Z',
+  deletedAt: '2025-03-01T09:00:00.000Z',
+};
+
+const timeEntry: TimeEntry = {
+  id: 't1',
+  companyId: 'c1',
+  projectId: 'p1',
+  date: '2025-03-14',
+  hours: 2.5,
+  fixedAmount: 300,
+  description: 'Design review',
+  paidDate: '2025-04-01',
+  paymentNote: 'Paid in cash',
+  createdAt: '2025-03-14T09:00:00.000Z',
+  updatedAt: '2025-03-14T10:00:00.000Z',
+  deletedAt: '2025-05-01T09:00:00.000Z',
+};
+
+const invoice: Invoice = {
+  id: 'i1',
+  companyId: 'c1',
+  invoiceNumber: 'INV-0042',
+  invoiceDate: '2025-03-31',
+  dueDate: '2025-04-30',
+  timeEntryIds: ['t1', 't2'],
+  releasedTimeEntryIds: ['t3'],
+  expenseIds: ['e1'],
+  totalHours: 2.5,
+  totalAmount: 357,
+  netAmount: 300,
+  taxAmount: 57,
+  taxLines: [{ taxRateId: 'de-vat', name: 'DE VAT', rate: 19, net: 300, tax: 57 }],
+  currency: 'EUR',
+  rateUsed: 120,
+  entryRates: { t1: 120, t2: 130 },
+  status: 'void',
+  paidDate: '2025-04-15',
+  paymentNote: 'Wire',
+  notes: 'Thanks!',
+  billingType: 'fixed_monthly',
+  retainerMonth: '2025-03',
+  lineItems: [{ id: 'li-2', description: 'Flights', amount: 250, expenseId: 'e1' }],
+  detailLevel: 'detailed',
+  exchangeRates: { USD: 1.08 },
+  exchangeRateToUSD: 1.08,
+  reminders: [{ stage: 'first', sentAt: '2025-05-07T09:00:00.000Z', to: 'jane@acme.example', method: 'eml' }],
+  voidedAt: '2025-05-10T09:00:00.000Z',
+  creditNoteId: 'i2',
+  creditNoteFor: 'i0',
+  createdAt: '2025-03-31T09:00:00.000Z',
+  updatedAt: '2025-05-10T09:00:00.000Z',
+  deletedAt: '2025-06-01T09:00:00.000Z',
+};
+
+const expense: Expense = {
+  id: 'e1',
+  date: '2025-03-01',
+  category: 'travel',
+  description: 'Flights to Berlin',
+  amount: 250,
+  currency: 'EUR',
+  vendor: 'Lufthansa',
+  paymentMethod: 'Card',
+  hasReceipt: true,
+  receipts: [{ id: 'r1', name: 'ticket.pdf', type: 'application/pdf', size: 1024, driveFileId: 'drive-1', addedAt: '2025-03-01T09:00:00.000Z' }],
+  companyId: 'c1',
+  billable: true,
+  markupPercent: 10,
+  recurring: true,
+  recurrence: { frequency: 'monthly', day: 31, endDate: '2025-12-31', amountChanges: [{ from: '2025-07-01', amount: 275 }], generatedThrough: '2025-05-31' },
+  recurringSourceId: 'e0',
+  pendingReview: true,
+  notes: 'Client trip',
+  createdAt: '2025-03-01T09:00:00.000Z',
+  updatedAt: '2025-03-02T09:00:00.000Z',
+  deletedAt: '2025-04-01T09:00:00.000Z',
+};
+
+const payment: Payment = {
+  id: 'pay1',
+  invoiceId: 'i1',
+  date: '2025-04-15',
+  amount: 350,
+  currency: 'EUR',
+  method: 'Wire',
+  feesWithheld: 7,
+  exchangeRates: { USD: 1.09 },
+  exchangeRateToUSD: 1.09,
+  notes: 'Partial',
+  createdAt: '2025-04-15T09:00:00.000Z',
+  updatedAt: '2025-04-15T10:00:00.000Z',
+  deletedAt: '2025-04-16T09:00:00.000Z',
+};
+
+const estimatedTaxPayment: EstimatedTaxPayment = {
+  id: 'et1',
+  taxYear: 2025,
+  quarter: 1,
+  jurisdiction: 'state',
+  date: '2025-04-15',
+  amount: 1200,
+  note: 'Online',
+  createdAt: '2025-04-15T09:00:00.000Z',
+  updatedAt: '2025-04-15T10:00:00.000Z',
+  deletedAt: '2025-04-16T09:00:00.000Z',
+};
+
+const profile: BusinessProfile = {
+  name: 'Jo Consulting LLC',
+  address: '1 Main St\nSpringfield',
+  email: 'jo@example.com',
+  phone: '+1 555 0100',
+  ein: '12-3456789',
+  routingNumber: '021000021',
+  swiftCode: 'CHASUS33',
+  accountNumber: '123456789',
+  bankName: 'Chase',
+  accountName: 'Jo Consulting LLC',
+  invoiceTemplates: [{
+    id: 'tpl-1', name: 'Branded', logoDataUrl: 'data:image/jpeg;base64,AAAA', accentColor: '#336699', font: 'serif',
+    headingText: 'TAX INVOICE', showBankDetails: false, showHoursColumn: true, showRateLine: false, footerText: 'Thank you',
+  }],
+  defaultInvoiceTemplateId: 'tpl-1',
+  taxRates: [{ id: 'de-vat', name: 'DE VAT', kind: 'vat', rate: 19, reverseCharge: false }],
+  currencies: ['USD', 'EUR', 'JPY'],
+  reportingCurrency: 'EUR',
+  rateProvider: 'ecb',
+  reminderTemplates: [{ stage: 'second', subject: 'Still due: {invoiceNumber}', body: 'Hi {contactName}' }],
+  estimatedTax: { federalRate: 24, stateRate: 6.5, selfEmploymentRate: 15.3 },
+};
+
+const emptyProfile: BusinessProfile = { name: '', address: '', email: '', phone: '', ein: '' };
+
+describe('sheetsDataMapper round trip', () => {
+  it('keeps every company field', () => {
+    expect(rowsToCompanies(companiesToRows([company]))).toEqual([company]);
+  });
+
+  it('keeps every project field', () => {
+    expect(rowsToProjects(projectsToRows([project]))).toEqual([project]);
+  });
+
+  it('keeps every time entry field', () => {
+    expect(rowsToTimeEntries(timeEntriesToRows([timeEntry]))).toEqual([timeEntry]);
+  });
+
+  it('keeps every invoice field', () => {
+    expect(rowsToInvoices(invoicesToRows([invoice]))).toEqual([invoice]);
+  });
+
+  it('keeps every expense field', () => {
+    expect(rowsToExpenses(expensesToRows([expense]))).toEqual([expense]);
+  });
+
+  it('keeps every payment field', () => {
+    expect(rowsToPayments(paymentsToRows([payment]))).toEqual([payment]);
+  });
+
+  it('keeps every estimated tax payment field', () => {
+    expect(rowsToEstimatedTaxPayments(estimatedTaxPaymentsToRows([estimatedTaxPayment]))).toEqual([estimatedTaxPayment]);
+  });
+
+  it('keeps every profile field', () => {
+    expect(rowsToProfile(profileToRows(profile))).toEqual(profile);
+  });
+
+  it('keeps an empty profile empty', () => {
+    expect(rowsToProfile(profileToRows(emptyProfile))).toEqual(emptyProfile);
+  });
+
+  it('still reads estimated tax payments from a Profile sheet written before they had their own', () => {
+    const legacy = { id: 'et0', taxYear: 2025, quarter: 1, jurisdiction: 'federal', date: '2025-04-15', amount: 900 };
+    const rows = [...profileToRows(emptyProfile), ['Estimated Tax Payment 1', JSON.stringify(legacy)]];
+    expect(rowsToProfile(rows)).toEqual({ ...emptyProfile, estimatedTaxPayments: [legacy] });
+  });
+
+  it('reads columns by header, whatever their order', () => {
+    const [header, row] = companiesToRows([company]);
+    const order = header.map((_, i) => i).reverse();
+    const reordered = [order.map((i) => header[i]), order.map((i) => row[i])];
+    expect(rowsToCompanies(reordered)).toEqual([company]);
+  });
+
+  it('falls back to column defaults for a sheet written before a column existed', () => {
+    const [header, row] = companiesToRows([company]);
+    const keep = header.map((_, i) => i).filter((i) => header[i] !== 'Active' && header[i] !== 'Billing Type');
+    const [read] = rowsToCompanies([keep.map((i) => header[i]), keep.map((i) => row[i])]);
+    expect(read.isActive).toBe(true);
+    expect(read.billingType).toBe('hourly');
+  });
+});
+
+describe('pull then diff', () => {
+  const local = {
+    companies: [company],
+    projects: [project],
+    timeEntries: [timeEntry],
+    invoices: [invoice],
+    expenses: [expense],
+    payments: [payment],
+    estimatedTaxPayments: [estimatedTaxPayment],
+    profile,
+  };
+
+  // What a pull of the sheets this data was pushed to reads back
+  function pull(data: typeof local): typeof local {
+    return {
+      companies: rowsToCompanies(companiesToRows(data.companies)),
+      projects: rowsToProjects(projectsToRows(data.projects)),
+      timeEntries: rowsToTimeEntries(timeEntriesToRows(data.timeEntries)),
+      invoices: rowsToInvoices(invoicesToRows(data.invoices)),
+      expenses: rowsToExpenses(expensesToRows(data.expenses)),
+      payments: rowsToPayments(paymentsToRows(data.payments)),
+      estimatedTaxPayments: rowsToEstimatedTaxPayments(estimatedTaxPaymentsToRows(data.estimatedTaxPayments)),
+      profile: rowsToProfile(profileToRows(data.profile)),
+    };
+  }
+
+  it('finds no conflicts after a clean round trip', () => {
+    expect(findConflicts(local, pull(local))).toEqual([]);
+  });
+
+  it('reads an invoice that never released entries back without released ids', () => {
+    const unreleased: Invoice = { ...invoice, releasedTimeEntryIds: undefined };
+    const data = { ...local, invoices: [unreleased] };
+    expect(pull(data).invoices).toEqual([unreleased]);
+    expect(findConflicts(data, pull(data))).toEqual([]);
+  });
+
+  it('reads an invoice without released or expense ids back the same', () => {
+    const bare: Invoice = { ...invoice, releasedTimeEntryIds: undefined, expenseIds: undefined, lineItems: [] };
+    const data = { ...local, invoices: [bare] };
+    expect(pull(data).invoices).toEqual([bare]);
+    expect(findConflicts(data, pull(data))).toEqual([]);
+  });
+});
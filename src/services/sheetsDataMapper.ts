@@ -1,210 +1,437 @@
-import type { Company, Currency, BillingType, Project, TimeEntry, Invoice, InvoiceStatus, Expense, ExpenseCategory } from '../types';
+import type { Company, Project, TimeEntry, Invoice, Expense, Payment, InvoiceTemplate, TaxRate, ReminderTemplate, EstimatedTaxPayment, RateProviderId } from '../types';
+import { RATE_PROVIDER_LABELS, REMINDER_STAGES } from '../types';
 import type { BusinessProfile } from '../utils/storage';
+import { normalizeCurrency } from '../utils/currencies';
 
-// Map app data to Google Sheets rows (header + data rows)
+// Map app data to Google Sheets rows (header + data rows) and back.
+//
+// Each sheet is described by a column table. Rows are written in table order,
+// but read by looking columns up by header name, so sheets written by older
+// versions (fewer or reordered columns) still load — missing columns fall back
+// to the column default. New fields must be appended to the end of a table so
+// existing spreadsheets keep their layout.
 
-export function companiesToRows(companies: Company[]): string[][] {
-  const header = ['ID', 'Name', 'Currency', 'Hourly Rate', 'Invoice Required', 'Payment Terms', 'Payment Method', 'Contact Name', 'Contact Email', 'Notes', 'Active', 'Created', 'Updated', 'Billing Type', 'Monthly Rate', 'Next Invoice Number'];
-  const rows = companies.map((c) => [
-    c.id, c.name, c.currency, String(c.hourlyRate),
-    c.invoiceRequired ? 'Yes' : 'No',
-    c.paymentTerms || '', c.paymentMethod || '',
-    c.contactName || '', c.contactEmail || '',
-    c.notes || '', c.isActive ? 'Yes' : 'No',
-    c.createdAt, c.updatedAt,
-    c.billingType || 'hourly',
-    c.monthlyRate != null ? String(c.monthlyRate) : '',
-    c.nextInvoiceNumber != null ? String(c.nextInvoiceNumber) : '',
-  ]);
+// Bump when a column is added, renamed or changes encoding.
+export const SHEET_SCHEMA_VERSION = 19;
+
+type CellType =
+  | 'text'            // required string; '' when empty
+  | 'currency'        // ISO 4217 code; fallback when empty or not a known code
+  | 'optionalText'    // '' <-> undefined
+  | 'number'          // required number; fallback (or 0) when unparseable
+  | 'optionalNumber'  // '' <-> undefined
+  | 'boolean'         // Yes/No; fallback when the cell is empty
+  | 'optionalBoolean' // Yes/No, '' <-> undefined
+  | 'list'            // string[] joined with ';'
+  | 'optionalList'    // string[] joined with ';', '' <-> undefined
+  | 'json';           // arbitrary JSON value, '' <-> undefined
+
+interface Column<T> {
+  header: string;
+  field: keyof T & string;
+  type: CellType;
+  fallback?: string | number | boolean;
+}
+
+function encodeCell(type: CellType, value: unknown): string {
+  switch (type) {
+    case 'text':
+    case 'currency':
+    case 'optionalText':
+      return value != null ? String(value) : '';
+    case 'number':
+      return String(value ?? 0);
+    case 'optionalNumber':
+      return value != null ? String(value) : '';
+    case 'boolean':
+      return value ? 'Yes' : 'No';
+    case 'optionalBoolean':
+      return value == null ? '' : value ? 'Yes' : 'No';
+    case 'list':
+    case 'optionalList':
+      return Array.isArray(value) ? value.join(';') : '';
+    case 'json':
+      return value != null ? JSON.stringify(value) : '';
+  }
+}
+
+function decodeCell<T>(col: Column<T>, cell: string): unknown {
+  switch (col.type) {
+    case 'text':
+      return cell || (col.fallback as string | undefined) || '';
+    case 'currency': {
+      if (!cell) return col.fallback;
+      const code = normalizeCurrency(cell);
+      if (!code) console.warn(`[Sync] Unknown currency "${cell}" in ${col.header} column, using ${col.fallback}`);
+      return code ?? col.fallback;
+    }
+    case 'optionalText':
+      return cell || undefined;
+    case 'number': {
+      const n = parseFloat(cell);
+      return isNaN(n) ? ((col.fallback as number | undefined) ?? 0) : n;
+    }
+    case 'optionalNumber': {
+      if (!cell) return undefined;
+      const n = parseFloat(cell);
+      return isNaN(n) ? undefined : n;
+    }
+    case 'boolean':
+      return cell ? cell === 'Yes' : Boolean(col.fallback);
+    case 'optionalBoolean':
+      return cell ? cell === 'Yes' : undefined;
+    case 'list':
+      return cell ? cell.split(';') : [];
+    case 'optionalList':
+      return cell ? cell.split(';') : undefined;
+    case 'json':
+      if (!cell) return undefined;
+      try {
+        return JSON.parse(cell);
+      } catch {
+        return undefined;
+      }
+  }
+}
+
+function toRows<T>(columns: Column<T>[], items: T[]): string[][] {
+  const header = columns.map((c) => c.header);
+  const rows = items.map((item) => columns.map((c) => encodeCell(c.type, item[c.field])));
   return [header, ...rows];
 }
 
+function fromRows<T>(columns: Column<T>[], rows: string[][]): T[] {
+  if (rows.length <= 1) return []; // header only or empty
+  const index = new Map(rows[0].map((h, i) => [h.trim(), i]));
+  return rows.slice(1)
+    // The Sheets API omits trailing empty cells, and a fully blank row is just noise
+    .filter((r) => r.some((cell) => cell !== ''))
+    .map((r) => {
+      const item: Record<string, unknown> = {};
+      for (const col of columns) {
+        const i = index.get(col.header);
+        const value = decodeCell(col, i != null ? (r[i] ?? '') : '');
+        if (value !== undefined) item[col.field] = value;
+      }
+      return item as T;
+    });
+}
+
+// --- Column tables ---
+
+const COMPANY_COLUMNS: Column<Company>[] = [
+  { header: 'ID', field: 'id', type: 'text' },
+  { header: 'Name', field: 'name', type: 'text' },
+  { header: 'Currency', field: 'currency', type: 'currency', fallback: 'USD' },
+  { header: 'Hourly Rate', field: 'hourlyRate', type: 'number' },
+  { header: 'Invoice Required', field: 'invoiceRequired', type: 'boolean', fallback: false },
+  { header: 'Payment Terms', field: 'paymentTerms', type: 'optionalText' },
+  { header: 'Payment Method', field: 'paymentMethod', type: 'optionalText' },
+  { header: 'Contact Name', field: 'contactName', type: 'optionalText' },
+  { header: 'Contact Email', field: 'contactEmail', type: 'optionalText' },
+  { header: 'Notes', field: 'notes', type: 'optionalText' },
+  { header: 'Active', field: 'isActive', type: 'boolean', fallback: true },
+  { header: 'Created', field: 'createdAt', type: 'text' },
+  { header: 'Updated', field: 'updatedAt', type: 'text' },
+  { header: 'Billing Type', field: 'billingType', type: 'text', fallback: 'hourly' },
+  { header: 'Monthly Rate', field: 'monthlyRate', type: 'optionalNumber' },
+  { header: 'Next Invoice Number', field: 'nextInvoiceNumber', type: 'optionalNumber' },
+  { header: 'Billing Address', field: 'billingAddress', type: 'optionalText' },
+  { header: 'VAT Reverse Charge', field: 'vatReverseCharge', type: 'optionalBoolean' },
+  { header: 'VAT Notice Text', field: 'vatNoticeText', type: 'optionalText' },
+  { header: 'Deleted At', field: 'deletedAt', type: 'optionalText' },
+  { header: 'Invoice Template ID', field: 'invoiceTemplateId', type: 'optionalText' },
+  { header: 'Tax Rate ID', field: 'taxRateId', type: 'optionalText' },
+  { header: 'Rate History', field: 'rateHistory', type: 'json' },
+  { header: 'Retainer Auto Draft', field: 'retainerAutoDraft', type: 'optionalBoolean' },
+  { header: 'Retainer Issue Day', field: 'retainerIssueDay', type: 'optionalNumber' },
+  { header: 'Retainer Start Month', field: 'retainerStartMonth', type: 'optionalText' },
+  { header: 'Retainer Drafted Through', field: 'retainerDraftedThrough', type: 'optionalText' },
+  { header: 'Recurring Line Items', field: 'recurringLineItems', type: 'json' },
+  { header: 'Next Credit Note Number', field: 'nextCreditNoteNumber', type: 'optionalNumber' },
+];
+
+const PROJECT_COLUMNS: Column<Project>[] = [
+  { header: 'ID', field: 'id', type: 'text' },
+  { header: 'Company ID', field: 'companyId', type: 'text' },
+  { header: 'Name', field: 'name', type: 'text' },
+  { header: 'Active', field: 'isActive', type: 'boolean', fallback: true },
+  { header: 'Created', field: 'createdAt', type: 'text' },
+  { header: 'Updated', field: 'updatedAt', type: 'text' },
+  { header: 'Deleted At', field: 'deletedAt', type: 'optionalText' },
+  { header: 'Hourly Rate', field: 'hourlyRate', type: 'optionalNumber' },
+];
+
+const TIME_ENTRY_COLUMNS: Column<TimeEntry>[] = [
+  { header: 'ID', field: 'id', type: 'text' },
+  { header: 'Company ID', field: 'companyId', type: 'text' },
+  { header: 'Project ID', field: 'projectId', type: 'optionalText' },
+  { header: 'Date', field: 'date', type: 'text' },
+  { header: 'Hours', field: 'hours', type: 'number' },
+  { header: 'Fixed Amount', field: 'fixedAmount', type: 'optionalNumber' },
+  { header: 'Description', field: 'description', type: 'text' },
+  { header: 'Paid Date', field: 'paidDate', type: 'optionalText' },
+  { header: 'Created', field: 'createdAt', type: 'text' },
+  { header: 'Updated', field: 'updatedAt', type: 'text' },
+  { header: 'Payment Note', field: 'paymentNote', type: 'optionalText' },
+  { header: 'Deleted At', field: 'deletedAt', type: 'optionalText' },
+];
+
+const INVOICE_COLUMNS: Column<Invoice>[] = [
+  { header: 'ID', field: 'id', type: 'text' },
+  { header: 'Company ID', field: 'companyId', type: 'text' },
+  { header: 'Invoice #', field: 'invoiceNumber', type: 'optionalText' },
+  { header: 'Date', field: 'invoiceDate', type: 'text' },
+  { header: 'Time Entry IDs', field: 'timeEntryIds', type: 'list' },
+  { header: 'Total Hours', field: 'totalHours', type: 'number' },
+  { header: 'Total Amount', field: 'totalAmount', type: 'number' },
+  { header: 'Currency', field: 'currency', type: 'currency', fallback: 'USD' },
+  { header: 'Rate Used', field: 'rateUsed', type: 'number' },
+  { header: 'Status', field: 'status', type: 'text', fallback: 'draft' },
+  { header: 'Paid Date', field: 'paidDate', type: 'optionalText' },
+  { header: 'Notes', field: 'notes', type: 'optionalText' },
+  { header: 'Created', field: 'createdAt', type: 'text' },
+  { header: 'Updated', field: 'updatedAt', type: 'text' },
+  { header: 'Billing Type', field: 'billingType', type: 'text', fallback: 'hourly' },
+  { header: 'Retainer Month', field: 'retainerMonth', type: 'optionalText' },
+  { header: 'Exchange Rate to USD', field: 'exchangeRateToUSD', type: 'optionalNumber' },
+  { header: 'Line Items', field: 'lineItems', type: 'json' },
+  { header: 'Detail Level', field: 'detailLevel', type: 'optionalText' },
+  { header: 'Payment Note', field: 'paymentNote', type: 'optionalText' },
+  { header: 'Deleted At', field: 'deletedAt', type: 'optionalText' },
+  { header: 'Net Amount', field: 'netAmount', type: 'optionalNumber' },
+  { header: 'Tax Amount', field: 'taxAmount', type: 'optionalNumber' },
+  { header: 'Tax Lines', field: 'taxLines', type: 'json' },
+  { header: 'Entry Rates', field: 'entryRates', type: 'json' },
+  { header: 'Exchange Rates', field: 'exchangeRates', type: 'json' },
+  { header: 'Due Date', field: 'dueDate', type: 'optionalText' },
+  { header: 'Reminders', field: 'reminders', type: 'json' },
+  { header: 'Released Time Entry IDs', field: 'releasedTimeEntryIds', type: 'optionalList' },
+  { header: 'Voided At', field: 'voidedAt', type: 'optionalText' },
+  { header: 'Credit Note ID', field: 'creditNoteId', type: 'optionalText' },
+  { header: 'Credit Note For', field: 'creditNoteFor', type: 'optionalText' },
+  { header: 'Expense IDs', field: 'expenseIds', type: 'optionalList' },
+];
+
+const EXPENSE_COLUMNS: Column<Expense>[] = [
+  { header: 'ID', field: 'id', type: 'text' },
+  { header: 'Date', field: 'date', type: 'text' },
+  { header: 'Category', field: 'category', type: 'text', fallback: 'other' },
+  { header: 'Description', field: 'description', type: 'text' },
+  { header: 'Amount', field: 'amount', type: 'number' },
+  { header: 'Currency', field: 'currency', type: 'currency', fallback: 'USD' },
+  { header: 'Vendor', field: 'vendor', type: 'optionalText' },
+  { header: 'Payment Method', field: 'paymentMethod', type: 'optionalText' },
+  { header: 'Has Receipt', field: 'hasReceipt', type: 'boolean', fallback: false },
+  { header: 'Company ID', field: 'companyId', type: 'optionalText' },
+  { header: 'Recurring', field: 'recurring', type: 'boolean', fallback: false },
+  { header: 'Notes', field: 'notes', type: 'optionalText' },
+  { header: 'Created', field: 'createdAt', type: 'text' },
+  { header: 'Updated', field: 'updatedAt', type: 'text' },
+  { header: 'Deleted At', field: 'deletedAt', type: 'optionalText' },
+  { header: 'Billable', field: 'billable', type: 'optionalBoolean' },
+  { header: 'Markup %', field: 'markupPercent', type: 'optionalNumber' },
+  { header: 'Receipts', field: 'receipts', type: 'json' },
+  { header: 'Recurrence', field: 'recurrence', type: 'json' },
+  { header: 'Recurring Source ID', field: 'recurringSourceId', type: 'optionalText' },
+  { header: 'Pending Review', field: 'pendingReview', type: 'optionalBoolean' },
+];
+
+const PAYMENT_COLUMNS: Column<Payment>[] = [
+  { header: 'ID', field: 'id', type: 'text' },
+  { header: 'Invoice ID', field: 'invoiceId', type: 'text' },
+  { header: 'Date', field: 'date', type: 'text' },
+  { header: 'Amount', field: 'amount', type: 'number' },
+  { header: 'Currency', field: 'currency', type: 'currency', fallback: 'USD' },
+  { header: 'Method', field: 'method', type: 'optionalText' },
+  { header: 'Fees Withheld', field: 'feesWithheld', type: 'optionalNumber' },
+  { header: 'Exchange Rate to USD', field: 'exchangeRateToUSD', type: 'optionalNumber' },
+  { header: 'Notes', field: 'notes', type: 'optionalText' },
+  { header: 'Created', field: 'createdAt', type: 'text' },
+  { header: 'Updated', field: 'updatedAt', type: 'text' },
+  { header: 'Deleted At', field: 'deletedAt', type: 'optionalText' },
+  { header: 'Exchange Rates', field: 'exchangeRates', type: 'json' },
+];
+
+const ESTIMATED_TAX_PAYMENT_COLUMNS: Column<EstimatedTaxPayment>[] = [
+  { header: 'ID', field: 'id', type: 'text' },
+  { header: 'Tax Year', field: 'taxYear', type: 'number' },
+  { header: 'Quarter', field: 'quarter', type: 'number' },
+  { header: 'Paid To', field: 'jurisdiction', type: 'text', fallback: 'federal' },
+  { header: 'Date', field: 'date', type: 'text' },
+  { header: 'Amount', field: 'amount', type: 'number' },
+  { header: 'Note', field: 'note', type: 'optionalText' },
+  { header: 'Created', field: 'createdAt', type: 'text' },
+  { header: 'Updated', field: 'updatedAt', type: 'text' },
+  { header: 'Deleted At', field: 'deletedAt', type: 'optionalText' },
+];
+
+// The Profile sheet is a Field/Value list rather than a table
+type ProfileTextField = Exclude<keyof BusinessProfile, 'invoiceTemplates' | 'taxRates' | 'currencies' | 'reminderTemplates' | 'estimatedTax' | 'estimatedTaxPayments'>;
+
+const PROFILE_LABELS: Record<ProfileTextField, string> = {
+  name: 'Name',
+  address: 'Address',
+  email: 'Email',
+  phone: 'Phone',
+  ein: 'EIN',
+  routingNumber: 'Routing Number',
+  swiftCode: 'SWIFT Code',
+  accountNumber: 'Account Number',
+  bankName: 'Bank Name',
+  accountName: 'Account Name',
+  defaultInvoiceTemplateId: 'Default Invoice Template',
+  reportingCurrency: 'Reporting Currency',
+  rateProvider: 'Exchange Rate Provider',
+};
+
+const PROFILE_FIELDS = Object.entries(PROFILE_LABELS) as [ProfileTextField, string][];
+
+function isRateProvider(value: string): value is RateProviderId {
+  return value in RATE_PROVIDER_LABELS;
+}
+
+// The currency list is a single ';'-joined row after the fields
+const CURRENCIES_LABEL = 'Currencies';
+
+// Invoice templates, tax rates and customized reminder templates follow, one
+// JSON row each so a logo only has to fit in its own cell
+const TEMPLATE_LABEL = 'Invoice Template';
+const TAX_RATE_LABEL = 'Tax Rate';
+const REMINDER_LABEL = 'Reminder Template';
+
+// Estimated tax rates are one JSON row. Sheets from before estimated payments
+// had their own sheet hold one JSON row per payment; those are still read so a
+// pull can move them over (see moveEstimatedTaxPayments).
+const ESTIMATED_TAX_LABEL = 'Estimated Tax Rates';
+const LEGACY_ESTIMATED_PAYMENT_LABEL = 'Estimated Tax Payment';
+
+// --- App data → Google Sheets rows ---
+
+export function companiesToRows(companies: Company[]): string[][] {
+  return toRows(COMPANY_COLUMNS, companies);
+}
+
 export function projectsToRows(projects: Project[]): string[][] {
-  const header = ['ID', 'Company ID', 'Name', 'Active', 'Created', 'Updated'];
-  const rows = projects.map((p) => [
-    p.id, p.companyId, p.name,
-    p.isActive ? 'Yes' : 'No',
-    p.createdAt, p.updatedAt,
-  ]);
-  return [header, ...rows];
+  return toRows(PROJECT_COLUMNS, projects);
 }
 
 export function timeEntriesToRows(entries: TimeEntry[]): string[][] {
-  const header = ['ID', 'Company ID', 'Project ID', 'Date', 'Hours', 'Fixed Amount', 'Description', 'Paid Date', 'Created', 'Updated'];
-  const rows = entries.map((e) => [
-    e.id, e.companyId, e.projectId || '', e.date,
-    String(e.hours),
-    e.fixedAmount != null ? String(e.fixedAmount) : '',
-    e.description, e.paidDate || '',
-    e.createdAt, e.updatedAt,
-  ]);
-  return [header, ...rows];
+  return toRows(TIME_ENTRY_COLUMNS, entries);
 }
 
 export function invoicesToRows(invoices: Invoice[]): string[][] {
-  const header = ['ID', 'Company ID', 'Invoice #', 'Date', 'Time Entry IDs', 'Total Hours', 'Total Amount', 'Currency', 'Rate Used', 'Status', 'Paid Date', 'Notes', 'Created', 'Updated', 'Billing Type', 'Retainer Month', 'Exchange Rate to USD'];
-  const rows = invoices.map((i) => [
-    i.id, i.companyId, i.invoiceNumber || '', i.invoiceDate,
-    i.timeEntryIds.join(';'),
-    String(i.totalHours), String(i.totalAmount),
-    i.currency, String(i.rateUsed),
-    i.status, i.paidDate || '',
-    i.notes || '', i.createdAt, i.updatedAt,
-    i.billingType || 'hourly',
-    i.retainerMonth || '',
-    i.exchangeRateToUSD != null ? String(i.exchangeRateToUSD) : '',
-  ]);
-  return [header, ...rows];
+  return toRows(INVOICE_COLUMNS, invoices);
+}
+
+export function expensesToRows(expenses: Expense[]): string[][] {
+  return toRows(EXPENSE_COLUMNS, expenses);
+}
+
+export function paymentsToRows(payments: Payment[]): string[][] {
+  return toRows(PAYMENT_COLUMNS, payments);
+}
+
+export function estimatedTaxPaymentsToRows(payments: EstimatedTaxPayment[]): string[][] {
+  return toRows(ESTIMATED_TAX_PAYMENT_COLUMNS, payments);
 }
 
 export function profileToRows(profile: BusinessProfile): string[][] {
   const header = ['Field', 'Value'];
   return [
     header,
-    ['Name', profile.name],
-    ['Address', profile.address],
-    ['Email', profile.email],
-    ['Phone', profile.phone],
-    ['EIN', profile.ein],
-    ['Routing Number', profile.routingNumber || ''],
-    ['SWIFT Code', profile.swiftCode || ''],
-    ['Account Number', profile.accountNumber || ''],
-    ['Bank Name', profile.bankName || ''],
-    ['Account Name', profile.accountName || ''],
+    ...PROFILE_FIELDS.map(([field, label]) => [label, profile[field] || '']),
+    [CURRENCIES_LABEL, (profile.currencies || []).join(';')],
+    ...(profile.invoiceTemplates || []).map((t, i) => [`${TEMPLATE_LABEL} ${i + 1}`, JSON.stringify(t)]),
+    ...(profile.taxRates || []).map((r, i) => [`${TAX_RATE_LABEL} ${i + 1}`, JSON.stringify(r)]),
+    ...(profile.reminderTemplates || []).map((t, i) => [`${REMINDER_LABEL} ${i + 1}`, JSON.stringify(t)]),
+    ...(profile.estimatedTax ? [[ESTIMATED_TAX_LABEL, JSON.stringify(profile.estimatedTax)]] : []),
   ];
 }
 
-// Reverse mappers: Google Sheets rows → app data
+// --- Google Sheets rows → app data ---
 
 export function rowsToCompanies(rows: string[][]): Company[] {
-  if (rows.length <= 1) return []; // header only or empty
-  const header = rows[0];
-  const hasBillingType = header.includes('Billing Type');
-  const hasNextInvoice = header.includes('Next Invoice Number');
-  return rows.slice(1).map((r) => ({
-    id: r[0],
-    name: r[1],
-    currency: (r[2] as Currency) || 'USD',
-    billingType: (hasBillingType && r[13] ? r[13] as BillingType : 'hourly'),
-    hourlyRate: parseFloat(r[3]) || 0,
-    monthlyRate: hasBillingType && r[14] ? parseFloat(r[14]) : undefined,
-    nextInvoiceNumber: hasNextInvoice && r[15] ? parseInt(r[15], 10) : undefined,
-    invoiceRequired: r[4] === 'Yes',
-    paymentTerms: r[5] || undefined,
-    paymentMethod: r[6] || undefined,
-    contactName: r[7] || undefined,
-    contactEmail: r[8] || undefined,
-    notes: r[9] || undefined,
-    isActive: r[10] !== 'No',
-    createdAt: r[11],
-    updatedAt: r[12],
-  }));
+  return fromRows(COMPANY_COLUMNS, rows);
 }
 
 export function rowsToProjects(rows: string[][]): Project[] {
-  if (rows.length <= 1) return [];
-  return rows.slice(1).map((r) => ({
-    id: r[0],
-    companyId: r[1],
-    name: r[2],
-    isActive: r[3] !== 'No',
-    createdAt: r[4],
-    updatedAt: r[5],
-  }));
+  return fromRows(PROJECT_COLUMNS, rows);
 }
 
 export function rowsToTimeEntries(rows: string[][]): TimeEntry[] {
-  if (rows.length <= 1) return [];
-  return rows.slice(1).map((r) => ({
-    id: r[0],
-    companyId: r[1],
-    projectId: r[2] || undefined,
-    date: r[3],
-    hours: parseFloat(r[4]) || 0,
-    fixedAmount: r[5] ? parseFloat(r[5]) : undefined,
-    description: r[6],
-    paidDate: r[7] || undefined,
-    createdAt: r[8],
-    updatedAt: r[9],
-  }));
+  return fromRows(TIME_ENTRY_COLUMNS, rows);
 }
 
 export function rowsToInvoices(rows: string[][]): Invoice[] {
-  if (rows.length <= 1) return [];
-  const header = rows[0];
-  const hasBillingType = header.includes('Billing Type');
-  const hasExchangeRate = header.includes('Exchange Rate to USD');
-  return rows.slice(1).map((r) => ({
-    id: r[0],
-    companyId: r[1],
-    invoiceNumber: r[2] || undefined,
-    invoiceDate: r[3],
-    timeEntryIds: r[4] ? r[4].split(';') : [],
-    totalHours: parseFloat(r[5]) || 0,
-    totalAmount: parseFloat(r[6]) || 0,
-    currency: (r[7] as Currency) || 'USD',
-    rateUsed: parseFloat(r[8]) || 0,
-    status: (r[9] as InvoiceStatus) || 'draft',
-    paidDate: r[10] || undefined,
-    notes: r[11] || undefined,
-    billingType: (hasBillingType && r[14] ? r[14] as BillingType : 'hourly'),
-    retainerMonth: hasBillingType && r[15] ? r[15] : undefined,
-    exchangeRateToUSD: hasExchangeRate && r[16] ? parseFloat(r[16]) : undefined,
-    createdAt: r[12],
-    updatedAt: r[13],
-  }));
+  return fromRows(INVOICE_COLUMNS, rows);
 }
 
-export function expensesToRows(expenses: Expense[]): string[][] {
-  const header = ['ID', 'Date', 'Category', 'Description', 'Amount', 'Currency', 'Vendor', 'Payment Method', 'Has Receipt', 'Company ID', 'Recurring', 'Notes', 'Created', 'Updated'];
-  const rows = expenses.map((e) => [
-    e.id, e.date, e.category, e.description,
-    String(e.amount), e.currency,
-    e.vendor || '', e.paymentMethod || '',
-    e.hasReceipt ? 'Yes' : 'No',
-    e.companyId || '',
-    e.recurring ? 'Yes' : 'No',
-    e.notes || '',
-    e.createdAt, e.updatedAt,
-  ]);
-  return [header, ...rows];
+export function rowsToExpenses(rows: string[][]): Expense[] {
+  return fromRows(EXPENSE_COLUMNS, rows);
 }
 
-export function rowsToExpenses(rows: string[][]): Expense[] {
-  if (rows.length <= 1) return [];
-  return rows.slice(1).map((r) => ({
-    id: r[0],
-    date: r[1],
-    category: (r[2] as ExpenseCategory) || 'other',
-    description: r[3],
-    amount: parseFloat(r[4]) || 0,
-    currency: (r[5] as Currency) || 'USD',
-    vendor: r[6] || undefined,
-    paymentMethod: r[7] || undefined,
-    hasReceipt: r[8] === 'Yes',
-    companyId: r[9] || undefined,
-    recurring: r[10] === 'Yes',
-    notes: r[11] || undefined,
-    createdAt: r[12],
-    updatedAt: r[13],
-  }));
+export function rowsToPayments(rows: string[][]): Payment[] {
+  return fromRows(PAYMENT_COLUMNS, rows);
+}
+
+export function rowsToEstimatedTaxPayments(rows: string[][]): EstimatedTaxPayment[] {
+  return fromRows(ESTIMATED_TAX_PAYMENT_COLUMNS, rows);
 }
 
 export function rowsToProfile(rows: string[][]): BusinessProfile {
   const map = new Map<string, string>();
+  const templates: InvoiceTemplate[] = [];
+  const taxRates: TaxRate[] = [];
+  const reminderTemplates: ReminderTemplate[] = [];
+  const estimatedTaxPayments: NonNullable<BusinessProfile['estimatedTaxPayments']> = [];
   for (const row of rows.slice(1)) {
-    if (row[0]) map.set(row[0], row[1] || '');
+    if (!row[0]) continue;
+    const list = row[0].startsWith(TEMPLATE_LABEL) ? templates
+      : row[0].startsWith(TAX_RATE_LABEL) ? taxRates
+      : row[0].startsWith(REMINDER_LABEL) ? reminderTemplates
+      : row[0].startsWith(LEGACY_ESTIMATED_PAYMENT_LABEL) ? estimatedTaxPayments
+      : null;
+    if (list) {
+      try {
+        list.push(JSON.parse(row[1]));
+      } catch {
+        // Skip a cell that was edited into invalid JSON
+      }
+    } else {
+      map.set(row[0], row[1] || '');
+    }
   }
-  return {
-    name: map.get('Name') || '',
-    address: map.get('Address') || '',
-    email: map.get('Email') || '',
-    phone: map.get('Phone') || '',
-    ein: map.get('EIN') || '',
-    routingNumber: map.get('Routing Number') || undefined,
-    swiftCode: map.get('SWIFT Code') || undefined,
-    accountNumber: map.get('Account Number') || undefined,
-    bankName: map.get('Bank Name') || undefined,
-    accountName: map.get('Account Name') || undefined,
+  const text = (field: ProfileTextField) => map.get(PROFILE_LABELS[field]) || '';
+  const optional = (field: ProfileTextField) => text(field) || undefined;
+  const rateProvider = text('rateProvider');
+  const profile: BusinessProfile = {
+    name: text('name'),
+    address: text('address'),
+    email: text('email'),
+    phone: text('phone'),
+    ein: text('ein'),
+    routingNumber: optional('routingNumber'),
+    swiftCode: optional('swiftCode'),
+    accountNumber: optional('accountNumber'),
+    bankName: optional('bankName'),
+    accountName: optional('accountName'),
+    defaultInvoiceTemplateId: optional('defaultInvoiceTemplateId'),
+    reportingCurrency: normalizeCurrency(text('reportingCurrency')) ?? undefined,
+    rateProvider: isRateProvider(rateProvider) ? rateProvider : undefined,
   };
+  const currencies = (map.get(CURRENCIES_LABEL) || '').split(';').map(normalizeCurrency).filter((c) => c != null);
+  if (currencies.length > 0) profile.currencies = [...new Set(currencies)];
+  if (templates.length > 0) profile.invoiceTemplates = templates;
+  if (taxRates.length > 0) profile.taxRates = taxRates;
+  const validReminders = reminderTemplates.filter((t) => REMINDER_STAGES.includes(t.stage));
+  if (validReminders.length > 0) profile.reminderTemplates = validReminders;
+  try {
+    const estimatedTax = map.get(ESTIMATED_TAX_LABEL);
+    if (estimatedTax) profile.estimatedTax = JSON.parse(estimatedTax);
+  } catch {
+    // Leave the defaults for a cell edited into invalid JSON
+  }
+  if (estimatedTaxPayments.length > 0) profile.estimatedTaxPayments = estimatedTaxPayments;
+  return profile;
 }
@@ -0,0 +1,176 @@
+import type { Company, Project, TimeEntry, Invoice, Expense, Payment, EstimatedTaxPayment } from '../types';
+import { TAX_JURISDICTION_LABELS } from '../types';
+import type { BusinessProfile } from '../utils/storage';
+import { formatCurrency } from '../utils/formatCurrency';
+
+// Field-level comparison of local and remote sync data, and the choices the
+// user makes to settle each difference. mergeData() applies the resolutions;
+// anything left unresolved falls back to last-writer-wins.
+
+export type ConflictCollection = 'companies' | 'projects' | 'timeEntries' | 'invoices' | 'expenses' | 'payments' | 'estimatedTaxPayments' | 'profile';
+export type ConflictSide = 'local' | 'remote';
+
+export const CONFLICT_COLLECTION_LABELS: Record<ConflictCollection, string> = {
+  companies: 'Company',
+  projects: 'Project',
+  timeEntries: 'Time entry',
+  invoices: 'Invoice',
+  expenses: 'Expense',
+  payments: 'Payment',
+  estimatedTaxPayments: 'Estimated tax payment',
+  profile: 'Business profile',
+};
+
+export interface FieldDiff {
+  field: string;
+  local: unknown;
+  remote: unknown;
+}
+
+export interface RecordConflict {
+  key: string; // `${collection}:${id}` — identifies the record across pushes
+  collection: ConflictCollection;
+  id: string;
+  label: string;
+  newer: ConflictSide;
+  fields: FieldDiff[];
+}
+
+export type RecordResolution =
+  | { choice: ConflictSide }
+  | { choice: 'merged'; fields: Record<string, ConflictSide> };
+
+export type ConflictResolutions = Record<string, RecordResolution>;
+
+interface ConflictData {
+  companies: Company[];
+  projects: Project[];
+  timeEntries: TimeEntry[];
+  invoices: Invoice[];
+  expenses: Expense[];
+  payments: Payment[];
+  estimatedTaxPayments: EstimatedTaxPayment[];
+  profile: BusinessProfile;
+}
+
+// Bookkeeping fields that differ on every edit and aren't worth a decision
+const IGNORED_FIELDS = new Set(['id', 'createdAt', 'updatedAt']);
+
+// Sheets store '' for an absent optional value, so treat missing, null and ''
+// alike and compare structured values by content.
+function normalize(value: unknown): string {
+  if (value == null || value === '') return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function diffFields(local: object, remote: object): FieldDiff[] {
+  const l = local as Record<string, unknown>;
+  const r = remote as Record<string, unknown>;
+  const fields = new Set([...Object.keys(l), ...Object.keys(r)]);
+  const diffs: FieldDiff[] = [];
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    if (normalize(l[field]) !== normalize(r[field])) {
+      diffs.push({ field, local: l[field], remote: r[field] });
+    }
+  }
+  return diffs;
+}
+
+function conflictKey(collection: ConflictCollection, id: string): string {
+  return `${collection}:${id}`;
+}
+
+function collectionConflicts<T extends { id: string; updatedAt: string }>(
+  collection: ConflictCollection,
+  local: T[],
+  remote: T[],
+  label: (record: T) => string,
+): RecordConflict[] {
+  const remoteById = new Map(remote.map((r) => [r.id, r]));
+  const conflicts: RecordConflict[] = [];
+  for (const l of local) {
+    const r = remoteById.get(l.id);
+    if (!r) continue;
+    const fields = diffFields(l, r);
+    if (fields.length === 0) continue;
+    conflicts.push({
+      key: conflictKey(collection, l.id),
+      collection,
+      id: l.id,
+      label: label(l),
+      newer: r.updatedAt > l.updatedAt ? 'remote' : 'local',
+      fields,
+    });
+  }
+  return conflicts;
+}
+
+// Records present on both sides whose contents differ. Records that exist on
+// only one side are not conflicts — the merge simply keeps them.
+export function findConflicts(local: ConflictData, remote: ConflictData): RecordConflict[] {
+  const companyName = new Map([...remote.companies, ...local.companies].map((c) => [c.id, c.name]));
+  const withCompany = (companyId: string | undefined, text: string) =>
+    companyId && companyName.has(companyId) ? `${companyName.get(companyId)} — ${text}` : text;
+
+  const conflicts = [
+    ...collectionConflicts('companies', local.companies, remote.companies, (c) => c.name),
+    ...collectionConflicts('projects', local.projects, remote.projects, (p) => withCompany(p.companyId, p.name)),
+    ...collectionConflicts('timeEntries', local.timeEntries, remote.timeEntries, (e) =>
+      withCompany(e.companyId, `${e.date}${e.description ? ` · ${e.description}` : ''}`)),
+    ...collectionConflicts('invoices', local.invoices, remote.invoices, (i) =>
+      withCompany(i.companyId, i.invoiceNumber ? `#${i.invoiceNumber}` : i.invoiceDate)),
+    ...collectionConflicts('expenses', local.expenses, remote.expenses, (e) => `${e.date} · ${e.description}`),
+    ...collectionConflicts('payments', local.payments, remote.payments, (p) => `${p.date} · ${formatCurrency(p.amount, p.currency)}`),
+    ...collectionConflicts('estimatedTaxPayments', local.estimatedTaxPayments, remote.estimatedTaxPayments, (p) =>
+      `${p.date} · ${TAX_JURISDICTION_LABELS[p.jurisdiction]} Q${p.quarter} ${p.taxYear}`),
+  ];
+
+  const profileFields = diffFields(local.profile, remote.profile);
+  if (profileFields.length > 0) {
+    conflicts.push({
+      key: conflictKey('profile', 'profile'),
+      collection: 'profile',
+      id: 'profile',
+      label: local.profile.name || remote.profile.name || 'Business profile',
+      newer: 'local', // the profile has no timestamp; local has always won
+      fields: profileFields,
+    });
+  }
+  return conflicts;
+}
+
+// Build the record a resolution asks for. Whatever is chosen is stamped as the
+// newest version so it also wins on devices that haven't synced yet.
+export function resolveRecord<T extends object>(local: T, remote: T, resolution: RecordResolution, now: string): T {
+  let resolved: T;
+  if (resolution.choice === 'merged') {
+    const merged: Record<string, unknown> = { ...(local as Record<string, unknown>) };
+    for (const [field, side] of Object.entries(resolution.fields)) {
+      const source = (side === 'local' ? local : remote) as Record<string, unknown>;
+      if (source[field] === undefined) delete merged[field];
+      else merged[field] = source[field];
+    }
+    resolved = merged as T;
+  } else {
+    resolved = resolution.choice === 'local' ? local : remote;
+  }
+  return 'updatedAt' in resolved ? { ...resolved, updatedAt: now } : resolved;
+}
+
+// --- Session memory ---
+// "Remember this choice" keeps decisions for the rest of the session: either a
+// blanket side for every conflict, or the per-record choices last made.
+
+export interface RememberedChoices {
+  all?: ConflictSide;
+  records: ConflictResolutions;
+}
+
+// The remembered resolution for a conflict, if it covers every differing field
+export function rememberedResolution(conflict: RecordConflict, memory: RememberedChoices): RecordResolution | undefined {
+  if (memory.all) return { choice: memory.all };
+  const saved = memory.records[conflict.key];
+  if (!saved || saved.choice !== 'merged') return saved;
+  return conflict.fields.every((f) => f.field in saved.fields) ? saved : undefined;
+}
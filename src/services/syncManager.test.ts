@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import type { EstimatedTaxPayment } from '../types';
+import type { SyncData } from './syncManager';
+import { mergeData } from './syncManager';
+
+const profile = { name: 'Jo', address: '', email: '', phone: '', ein: '' };
+
+function data(estimatedTaxPayments: EstimatedTaxPayment[]): SyncData {
+  return { companies: [], projects: [], timeEntries: [], invoices: [], expenses: [], payments: [], estimatedTaxPayments, profile };
+}
+
+function taxPayment(id: string, updatedAt: string, deletedAt?: string): EstimatedTaxPayment {
+  return { id, taxYear: 2025, quarter: 1, jurisdiction: 'federal', date: '2025-04-15', amount: 500, createdAt: '2025-04-15T09:00:00.000Z', updatedAt, deletedAt };
+}
+
+describe('mergeData', () => {
+  it('keeps estimated tax payments recorded on either device', () => {
+    const merged = mergeData(data([taxPayment('a', '2025-04-15T09:00:00.000Z')]), data([taxPayment('b', '2025-04-15T10:00:00.000Z')]));
+    expect(merged.estimatedTaxPayments.map((p) => p.id).sort()).toEqual(['a', 'b']);
+  });
+
+  it('lets a deleted estimated tax payment stay deleted', () => {
+    const deleted = taxPayment('a', '2025-04-16T09:00:00.000Z', '2025-04-16T09:00:00.000Z');
+    const merged = mergeData(data([deleted]), data([taxPayment('a', '2025-04-15T09:00:00.000Z')]));
+    expect(merged.estimatedTaxPayments).toEqual([deleted]);
+  });
+});
@@ -1,14 +1,38 @@
-import type { Company, Project, TimeEntry, Invoice, Expense } from '../types';
-import type { BusinessProfile } from '../utils/storage';
+import type { Company, Project, TimeEntry, Invoice, Expense, Payment, EstimatedTaxPayment } from '../types';
+import type { BusinessProfile, ChangeSet } from '../utils/storage';
+import type { Collections, CollectionName } from '../utils/storageAdapter';
 import {
-  companiesToRows, projectsToRows, timeEntriesToRows, invoicesToRows, expensesToRows, profileToRows,
-  rowsToCompanies, rowsToProjects, rowsToTimeEntries, rowsToInvoices, rowsToExpenses, rowsToProfile,
+  companiesToRows, projectsToRows, timeEntriesToRows, invoicesToRows, expensesToRows, paymentsToRows, estimatedTaxPaymentsToRows, profileToRows,
+  rowsToCompanies, rowsToProjects, rowsToTimeEntries, rowsToInvoices, rowsToExpenses, rowsToPayments, rowsToEstimatedTaxPayments, rowsToProfile,
+  SHEET_SCHEMA_VERSION,
 } from './sheetsDataMapper';
+import { moveEstimatedTaxPayments } from '../utils/storageMigrations';
+import { resolveRecord } from './syncConflicts';
+import type { ConflictCollection, ConflictResolutions } from './syncConflicts';
 
 const SPREADSHEET_ID_KEY = 'ct_sheets_spreadsheetId';
 const LAST_SYNC_KEY = 'ct_sheets_lastSyncTime';
-const DATA_SHEET_NAMES = ['Companies', 'Projects', 'TimeEntries', 'Invoices', 'Expenses', 'Profile'];
+const DATA_SHEET_NAMES = ['Companies', 'Projects', 'TimeEntries', 'Invoices', 'Expenses', 'Payments', 'EstimatedTaxPayments', 'Profile'];
 const SHEET_NAMES = [...DATA_SHEET_NAMES, '_Metadata'];
+// Wide enough for every column table in sheetsDataMapper (A:Z would truncate at 26)
+const DATA_COLUMNS = 'A:AZ';
+
+// One entry per record sheet; the ID is always column A
+interface RecordSheet {
+  collection: CollectionName;
+  sheet: string;
+  toRows(records: Collections[CollectionName]): string[][];
+}
+
+const RECORD_SHEETS: RecordSheet[] = [
+  { collection: 'companies', sheet: 'Companies', toRows: companiesToRows },
+  { collection: 'projects', sheet: 'Projects', toRows: projectsToRows },
+  { collection: 'timeEntries', sheet: 'TimeEntries', toRows: timeEntriesToRows },
+  { collection: 'invoices', sheet: 'Invoices', toRows: invoicesToRows },
+  { collection: 'expenses', sheet: 'Expenses', toRows: expensesToRows },
+  { collection: 'payments', sheet: 'Payments', toRows: paymentsToRows },
+  { collection: 'estimatedTaxPayments', sheet: 'EstimatedTaxPayments', toRows: estimatedTaxPaymentsToRows },
+];
 
 export function getSpreadsheetId(): string | null {
   return localStorage.getItem(SPREADSHEET_ID_KEY);
@@ -78,26 +102,40 @@ export interface SyncData {
   timeEntries: TimeEntry[];
   invoices: Invoice[];
   expenses: Expense[];
+  payments: Payment[];
+  estimatedTaxPayments: EstimatedTaxPayment[];
   profile: BusinessProfile;
 }
 
 // --- _Metadata sheet helpers ---
 
-async function readRemoteLastModified(spreadsheetId: string): Promise<string | null> {
+async function readRemoteMetadata(spreadsheetId: string): Promise<Map<string, string>> {
   try {
     const resp = await gapi.client.request({
-      path: `https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}/values/${encodeURIComponent('_Metadata!A1:B2')}`,
+      path: `https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}/values/${encodeURIComponent('_Metadata!A:B')}`,
       method: 'GET',
     });
     const rows: string[][] = resp.result.values || [];
-    // Expect [["Key","Value"],["lastModified","<iso>"]]
-    if (rows.length >= 2 && rows[1][0] === 'lastModified') {
-      return rows[1][1] || null;
-    }
-    return null;
+    // Expect [["Key","Value"],["lastModified","<iso>"],["schemaVersion","<n>"]]
+    return new Map(rows.slice(1).filter((r) => r[0]).map((r) => [r[0], r[1] || '']));
   } catch {
     // Legacy spreadsheet without _Metadata sheet
-    return null;
+    return new Map();
+  }
+}
+
+async function readRemoteLastModified(spreadsheetId: string): Promise<string | null> {
+  const meta = await readRemoteMetadata(spreadsheetId);
+  return meta.get('lastModified') || null;
+}
+
+// Refuse to read or overwrite a spreadsheet written with a newer column layout —
+// this version would silently drop the columns it doesn't know about.
+async function assertSchemaSupported(spreadsheetId: string): Promise<void> {
+  const meta = await readRemoteMetadata(spreadsheetId);
+  const remoteVersion = parseInt(meta.get('schemaVersion') || '', 10);
+  if (!isNaN(remoteVersion) && remoteVersion > SHEET_SCHEMA_VERSION) {
+    throw new Error('This spreadsheet was written by a newer version of Consulting Tracker. Reload the app to update before syncing.');
   }
 }
 
@@ -116,23 +154,37 @@ async function writeRemoteLastModified(spreadsheetId: string, iso: string): Prom
     path: `https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}/values/${encodeURIComponent('_Metadata!A1')}?valueInputOption=RAW`,
     method: 'PUT',
     body: {
-      values: [['Key', 'Value'], ['lastModified', iso]],
+      values: [['Key', 'Value'], ['lastModified', iso], ['schemaVersion', String(SHEET_SCHEMA_VERSION)]],
     },
   });
 }
 
 // --- Merge algorithm ---
 
-function mergeArray<T extends { id: string; updatedAt: string }>(local: T[], remote: T[]): T[] {
+function mergeArray<T extends { id: string; updatedAt: string; deletedAt?: string }>(
+  local: T[],
+  remote: T[],
+  collection: ConflictCollection,
+  resolutions: ConflictResolutions,
+  now: string,
+): T[] {
   const map = new Map<string, T>();
   // Start with remote records
   for (const r of remote) {
     map.set(r.id, r);
   }
-  // Overlay local — newer wins, ties go to local
+  // Overlay local — newer wins, ties go to local. A delete stamps updatedAt, so a
+  // tombstone beats any edit made before it; on an exact tie the tombstone wins.
   for (const l of local) {
     const existing = map.get(l.id);
-    if (!existing || l.updatedAt >= existing.updatedAt) {
+    const resolution = existing && resolutions[`${collection}:${l.id}`];
+    if (existing && resolution) {
+      map.set(l.id, resolveRecord(l, existing, resolution, now));
+    } else if (
+      !existing ||
+      l.updatedAt > existing.updatedAt ||
+      (l.updatedAt === existing.updatedAt && (!!l.deletedAt || !existing.deletedAt))
+    ) {
       map.set(l.id, l);
     }
   }
@@ -140,10 +192,19 @@ function mergeArray<T extends { id: string; updatedAt: string }>(local: T[], rem
 }
 
 // Deduplicate companies with the same name but different IDs (from multi-device creation).
-// Keeps the newer record (by updatedAt) and remaps all references from the duplicate ID.
+// Keeps the newer record (by updatedAt), tombstones the duplicate so other devices
+// drop it too, and remaps all references from the duplicate ID.
 function deduplicateCompanies(data: SyncData): SyncData {
+  const now = new Date().toISOString();
+  const tombstone = <T extends { deletedAt?: string; updatedAt: string }>(r: T): T => ({ ...r, deletedAt: now, updatedAt: now });
+
   const byName = new Map<string, Company[]>();
+  const deletedCompanies: Company[] = [];
   for (const c of data.companies) {
+    if (c.deletedAt) {
+      deletedCompanies.push(c);
+      continue;
+    }
     const key = c.name.trim().toLowerCase();
     const group = byName.get(key) || [];
     group.push(c);
@@ -168,6 +229,7 @@ function deduplicateCompanies(data: SyncData): SyncData {
     survivingCompanies.push(survivor);
     for (let i = 1; i < group.length; i++) {
       idRemap.set(group[i].id, survivor.id);
+      deletedCompanies.push(tombstone(group[i]));
     }
   }
 
@@ -179,7 +241,12 @@ function deduplicateCompanies(data: SyncData): SyncData {
   // Also deduplicate projects with the same name under the same (remapped) company
   const projectRemap = new Map<string, string>();
   const byCompanyAndName = new Map<string, Project[]>();
+  const deletedProjects: Project[] = [];
   for (const p of remappedProjects) {
+    if (p.deletedAt) {
+      deletedProjects.push(p);
+      continue;
+    }
     const key = `${p.companyId}::${p.name.trim().toLowerCase()}`;
     const group = byCompanyAndName.get(key) || [];
     group.push(p);
@@ -198,29 +265,39 @@ function deduplicateCompanies(data: SyncData): SyncData {
     survivingProjects.push(group[0]);
     for (let i = 1; i < group.length; i++) {
       projectRemap.set(group[i].id, group[0].id);
+      deletedProjects.push(tombstone(group[i]));
     }
   }
 
   const remapProject = (id: string | undefined) => id ? (projectRemap.get(id) || id) : id;
 
   return {
-    companies: survivingCompanies,
-    projects: survivingProjects,
+    companies: [...survivingCompanies, ...deletedCompanies],
+    projects: [...survivingProjects, ...deletedProjects],
     timeEntries: data.timeEntries.map((e) => ({ ...e, companyId: remap(e.companyId), projectId: remapProject(e.projectId) })),
     invoices: data.invoices.map((inv) => ({ ...inv, companyId: remap(inv.companyId) })),
     expenses: data.expenses.map((exp) => exp.companyId ? { ...exp, companyId: remap(exp.companyId) } : exp),
+    payments: data.payments,
+    estimatedTaxPayments: data.estimatedTaxPayments,
     profile: data.profile,
   };
 }
 
-export function mergeData(local: SyncData, remote: SyncData): SyncData {
+// Records the user resolved (see syncConflicts) take the chosen version; the
+// rest fall back to last-writer-wins.
+export function mergeData(local: SyncData, remote: SyncData, resolutions: ConflictResolutions = {}): SyncData {
+  const now = new Date().toISOString();
+  const profileResolution = resolutions['profile:profile'];
   const merged = {
-    companies: mergeArray(local.companies, remote.companies),
-    projects: mergeArray(local.projects, remote.projects),
-    timeEntries: mergeArray(local.timeEntries, remote.timeEntries),
-    invoices: mergeArray(local.invoices, remote.invoices),
-    expenses: mergeArray(local.expenses, remote.expenses),
-    profile: local.profile, // Local profile always wins
+    companies: mergeArray(local.companies, remote.companies, 'companies', resolutions, now),
+    projects: mergeArray(local.projects, remote.projects, 'projects', resolutions, now),
+    timeEntries: mergeArray(local.timeEntries, remote.timeEntries, 'timeEntries', resolutions, now),
+    invoices: mergeArray(local.invoices, remote.invoices, 'invoices', resolutions, now),
+    expenses: mergeArray(local.expenses, remote.expenses, 'expenses', resolutions, now),
+    payments: mergeArray(local.payments, remote.payments, 'payments', resolutions, now),
+    estimatedTaxPayments: mergeArray(local.estimatedTaxPayments, remote.estimatedTaxPayments, 'estimatedTaxPayments', resolutions, now),
+    // Local profile wins unless resolved otherwise
+    profile: profileResolution ? resolveRecord(local.profile, remote.profile, profileResolution, now) : local.profile,
   };
   return deduplicateCompanies(merged);
 }
@@ -252,22 +329,154 @@ export async function checkForConflict(spreadsheetId: string): Promise<{
   return { hasConflict: false, remoteData: null };
 }
 
-export async function syncToSheets(data: SyncData): Promise<string> {
-  let spreadsheetId = getSpreadsheetId();
+// Which records differ between two copies of the data, compared by their
+// encoded rows — used after a merge, where the remote copy is known.
+export function changesBetween(data: SyncData, remote: SyncData): ChangeSet {
+  const changes: ChangeSet = {
+    records: { companies: [], projects: [], timeEntries: [], invoices: [], expenses: [], payments: [], estimatedTaxPayments: [] },
+    profile: JSON.stringify(profileToRows(data.profile)) !== JSON.stringify(profileToRows(remote.profile)),
+  };
+  for (const { collection, toRows } of RECORD_SHEETS) {
+    const remoteRows = new Map(toRows(remote[collection]).slice(1).map((r) => [r[0], JSON.stringify(r)]));
+    const ids = new Set<string>();
+    for (const row of toRows(data[collection]).slice(1)) {
+      if (remoteRows.get(row[0]) !== JSON.stringify(row)) ids.add(row[0]);
+      remoteRows.delete(row[0]);
+    }
+    // Left over: rows on the remote that no longer exist locally
+    for (const id of remoteRows.keys()) ids.add(id);
+    changes.records[collection] = Array.from(ids);
+  }
+  return changes;
+}
 
-  if (!spreadsheetId) {
-    spreadsheetId = await createSpreadsheet();
-  } else {
-    // Ensure all sheets exist (in case user deleted one)
-    await ensureSheets(spreadsheetId);
+function hasChanges(changes: ChangeSet): boolean {
+  return changes.profile || RECORD_SHEETS.some(({ collection }) => changes.records[collection].length > 0);
+}
+
+interface SheetLayout {
+  sheetId: number;
+  rowById: Map<string, number>; // 1-based sheet row
+  rowCount: number;             // last used row
+}
+
+// Read each record sheet's header row and ID column. Returns null if any sheet
+// doesn't match the current column layout (hand-edited, older schema, duplicate
+// IDs), in which case row positions can't be trusted and a full rewrite is needed.
+async function readSheetLayouts(spreadsheetId: string): Promise<Map<string, SheetLayout> | null> {
+  const meta = await readRemoteMetadata(spreadsheetId);
+  if (meta.get('schemaVersion') !== String(SHEET_SCHEMA_VERSION)) return null;
+
+  const propsResp = await gapi.client.request({
+    path: `https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}?fields=${encodeURIComponent('sheets.properties(sheetId,title)')}`,
+    method: 'GET',
+  });
+  const sheetIds = new Map<string, number>(
+    propsResp.result.sheets.map((s: { properties: { sheetId: number; title: string } }) => [s.properties.title, s.properties.sheetId])
+  );
+
+  const rangeParams = RECORD_SHEETS
+    .flatMap(({ sheet }) => [`${sheet}!1:1`, `${sheet}!A:A`])
+    .map((range) => `ranges=${encodeURIComponent(range)}`)
+    .join('&');
+  const resp = await gapi.client.request({
+    path: `https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}/values:batchGet?${rangeParams}`,
+    method: 'GET',
+  });
+  const valueRanges: { values?: string[][] }[] = resp.result.valueRanges || [];
+
+  const layouts = new Map<string, SheetLayout>();
+  for (let i = 0; i < RECORD_SHEETS.length; i++) {
+    const { sheet, toRows } = RECORD_SHEETS[i];
+    const sheetId = sheetIds.get(sheet);
+    const header = valueRanges[i * 2]?.values?.[0] || [];
+    const idColumn = valueRanges[i * 2 + 1]?.values || [];
+    const expected = toRows([])[0];
+    if (sheetId == null || header.length !== expected.length || header.some((h, j) => h !== expected[j])) {
+      return null;
+    }
+
+    const rowById = new Map<string, number>();
+    for (let row = 1; row < idColumn.length; row++) {
+      const id = idColumn[row]?.[0];
+      if (!id) continue;
+      if (rowById.has(id)) return null;
+      rowById.set(id, row + 1);
+    }
+    layouts.set(sheet, { sheetId, rowById, rowCount: idColumn.length });
+  }
+  return layouts;
+}
+
+// Update changed rows in place, append new ones and delete rows whose record no
+// longer exists locally. Nothing is cleared, so an interrupted push leaves the
+// sheet intact.
+async function writeChangedRows(
+  spreadsheetId: string,
+  data: SyncData,
+  changes: ChangeSet,
+  layouts: Map<string, SheetLayout>,
+): Promise<void> {
+  const valueUpdates: { range: string; values: string[][] }[] = [];
+  const rowDeletes: { sheetId: number; row: number }[] = [];
+
+  for (const { collection, sheet, toRows } of RECORD_SHEETS) {
+    const ids = changes.records[collection];
+    if (ids.length === 0) continue;
+    const layout = layouts.get(sheet)!;
+    const byId = new Map((data[collection] as { id: string }[]).map((r) => [r.id, r]));
+    const changed = ids.map((id) => byId.get(id)).filter((r) => r != null);
+    const rows = new Map(toRows(changed as Collections[CollectionName]).slice(1).map((r) => [r[0], r]));
+
+    let nextRow = layout.rowCount + 1;
+    for (const id of ids) {
+      const row = layout.rowById.get(id);
+      const values = rows.get(id);
+      if (values && row) {
+        valueUpdates.push({ range: `${sheet}!A${row}`, values: [values] });
+      } else if (values) {
+        valueUpdates.push({ range: `${sheet}!A${nextRow++}`, values: [values] });
+      } else if (row) {
+        rowDeletes.push({ sheetId: layout.sheetId, row });
+      }
+    }
+  }
+
+  if (changes.profile) {
+    // The Profile list can shrink (a template removed), so start it from empty
+    await gapi.client.sheets.spreadsheets.values.clear({ spreadsheetId, range: `Profile!${DATA_COLUMNS}` });
+    valueUpdates.push({ range: 'Profile!A1', values: profileToRows(data.profile) });
   }
 
+  if (valueUpdates.length > 0) {
+    await gapi.client.sheets.spreadsheets.values.batchUpdate({
+      spreadsheetId,
+      resource: { valueInputOption: 'RAW', data: valueUpdates },
+    });
+  }
+
+  if (rowDeletes.length > 0) {
+    // Bottom-up so earlier deletes don't shift the rows of later ones
+    rowDeletes.sort((a, b) => b.row - a.row);
+    await gapi.client.request({
+      path: `https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}:batchUpdate`,
+      method: 'POST',
+      body: {
+        requests: rowDeletes.map(({ sheetId, row }) => ({
+          deleteDimension: { range: { sheetId, dimension: 'ROWS', startIndex: row - 1, endIndex: row } },
+        })),
+      },
+    });
+  }
+}
+
+async function rewriteAllSheets(spreadsheetId: string, data: SyncData): Promise<void> {
   // Clear data sheets (not _Metadata — we write that separately)
   for (const name of DATA_SHEET_NAMES) {
     try {
       await gapi.client.sheets.spreadsheets.values.clear({
         spreadsheetId,
-        range: `${name}!A:Z`,
+        range: `${name}!${DATA_COLUMNS}`,
       });
     } catch {
       // Sheet might not exist yet, ignore
@@ -276,11 +485,7 @@ export async function syncToSheets(data: SyncData): Promise<string> {
 
   // Write all data
   const allData = [
-    { range: 'Companies!A1', values: companiesToRows(data.companies) },
-    { range: 'Projects!A1', values: projectsToRows(data.projects) },
-    { range: 'TimeEntries!A1', values: timeEntriesToRows(data.timeEntries) },
-    { range: 'Invoices!A1', values: invoicesToRows(data.invoices) },
-    { range: 'Expenses!A1', values: expensesToRows(data.expenses) },
+    ...RECORD_SHEETS.map(({ collection, sheet, toRows }) => ({ range: `${sheet}!A1`, values: toRows(data[collection]) })),
     { range: 'Profile!A1', values: profileToRows(data.profile) },
   ];
 
@@ -291,6 +496,33 @@ export async function syncToSheets(data: SyncData): Promise<string> {
       data: allData,
     },
   });
+}
+
+// Push local data. With a change set (and a previous sync to build on) only the
+// listed rows are written; without one, or if the sheet layout isn't
+// recognized, every sheet is cleared and rewritten.
+export async function syncToSheets(data: SyncData, changes?: ChangeSet): Promise<string> {
+  let spreadsheetId = getSpreadsheetId();
+  let layouts: Map<string, SheetLayout> | null = null;
+
+  if (!spreadsheetId) {
+    spreadsheetId = await createSpreadsheet();
+  } else {
+    // Ensure all sheets exist (in case user deleted one)
+    await ensureSheets(spreadsheetId);
+    await assertSchemaSupported(spreadsheetId);
+    if (changes && getLastSyncTime()) {
+      if (!hasChanges(changes)) return spreadsheetId;
+      layouts = await readSheetLayouts(spreadsheetId);
+      if (!layouts) console.log('[Sync] Sheet layout not recognized — rewriting all sheets');
+    }
+  }
+
+  if (changes && layouts) {
+    await writeChangedRows(spreadsheetId, data, changes, layouts);
+  } else {
+    await rewriteAllSheets(spreadsheetId, data);
+  }
 
   // Write metadata timestamp and record locally
   const now = new Date().toISOString();
@@ -309,8 +541,10 @@ export async function pullFromSheets(): Promise<SyncData | null> {
   const spreadsheetId = getSpreadsheetId();
   if (!spreadsheetId) return null;
 
+  await assertSchemaSupported(spreadsheetId);
+
   // Encode ranges as repeated query params (batchGet requires this format)
-  const rangeParams = DATA_SHEET_NAMES.map((name) => `ranges=${encodeURIComponent(`${name}!A:Z`)}`).join('&');
+  const rangeParams = DATA_SHEET_NAMES.map((name) => `ranges=${encodeURIComponent(`${name}!${DATA_COLUMNS}`)}`).join('&');
   const resp = await gapi.client.request({
     path: `https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}/values:batchGet?${rangeParams}`,
     method: 'GET',
@@ -325,14 +559,18 @@ export async function pullFromSheets(): Promise<SyncData | null> {
     setLastSyncTime(remoteTs);
   }
 
-  return {
+  // A spreadsheet last written by an older version keeps estimated tax
+  // payments on the Profile sheet; move them over so they merge as records
+  return moveEstimatedTaxPayments({
     companies: rowsToCompanies(getRows(0)),
     projects: rowsToProjects(getRows(1)),
     timeEntries: rowsToTimeEntries(getRows(2)),
     invoices: rowsToInvoices(getRows(3)),
     expenses: rowsToExpenses(getRows(4)),
-    profile: rowsToProfile(getRows(5)),
-  };
+    payments: rowsToPayments(getRows(5)),
+    estimatedTaxPayments: rowsToEstimatedTaxPayments(getRows(6)),
+    profile: rowsToProfile(getRows(7)),
+  });
 }
 
 export async function findSpreadsheet(): Promise<string | null> {
@@ -1,24 +1,53 @@
-export type Currency = 'USD' | 'EUR' | 'GBP';
+import type { LineItem } from './invoice';
+
+// ISO 4217 code, e.g. 'USD', 'CHF', 'JPY' (see utils/currencies)
+export type Currency = string;
 export type BillingType = 'hourly' | 'fixed_monthly';
 
+// Terms as parsed from the company's free-text paymentTerms (see utils/paymentTerms)
+export type PaymentTermsKind = 'receipt' | 'net' | 'end_of_month';
+
+export interface PaymentTerms {
+  kind: PaymentTermsKind;
+  days: number; // after the invoice date ('net') or after the end of its month ('end_of_month')
+}
+
+export interface RateChange {
+  effectiveFrom: string; // YYYY-MM-DD
+  hourlyRate: number;
+}
+
 export interface Company {
   id: string;
   name: string;
   currency: Currency;
   billingType: BillingType;
-  hourlyRate: number;
+  hourlyRate: number;          // rate before the first dated change, if any
+  rateHistory?: RateChange[];
   monthlyRate?: number;
   invoiceRequired: boolean;
-  paymentTerms?: string;
+  paymentTerms?: string; // e.g. 'Net 30'; invoices get a due date when it parses
   paymentMethod?: string;
   contactName?: string;
   contactEmail?: string;
   billingAddress?: string;
   notes?: string;
   nextInvoiceNumber?: number;
+  nextCreditNoteNumber?: number;
+  // Legacy flag, moved onto a reverse-charge tax rate by migration; kept so
+  // older spreadsheets still load
   vatReverseCharge?: boolean;
   vatNoticeText?: string;
+  taxRateId?: string;
+  invoiceTemplateId?: string;
+  // Fixed-monthly retainers: draft each month's invoice automatically on load
+  retainerAutoDraft?: boolean;
+  retainerIssueDay?: number;       // day of the month drafts are dated, clamped in short months
+  retainerStartMonth?: string;     // YYYY-MM, first month to draft
+  retainerDraftedThrough?: string; // YYYY-MM, last month drafted, so a deleted draft isn't recreated
+  recurringLineItems?: LineItem[]; // added to every retainer invoice
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
+  deletedAt?: string;
 }
@@ -0,0 +1,36 @@
+export type TaxJurisdiction = 'federal' | 'state';
+
+export const TAX_JURISDICTION_LABELS: Record<TaxJurisdiction, string> = {
+  federal: 'Federal',
+  state: 'State',
+};
+
+export type TaxQuarterNumber = 1 | 2 | 3 | 4;
+
+// Flat rates for estimating quarterly payments, in percent. Income tax rates
+// are the marginal rates expected for the year.
+export interface EstimatedTaxSettings {
+  federalRate: number;
+  stateRate: number;
+  selfEmploymentRate: number;
+}
+
+export const DEFAULT_ESTIMATED_TAX: EstimatedTaxSettings = {
+  federalRate: 22,
+  stateRate: 5,
+  selfEmploymentRate: 15.3,
+};
+
+// An estimated tax payment made to the IRS or the state, in the reporting currency
+export interface EstimatedTaxPayment {
+  id: string;
+  taxYear: number;
+  quarter: TaxQuarterNumber;
+  jurisdiction: TaxJurisdiction;
+  date: string;
+  amount: number;
+  note?: string;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt?: string;
+}
@@ -0,0 +1,19 @@
+import type { Currency } from './company';
+
+export type RateProviderId = 'frankfurter' | 'ecb' | 'manual';
+export type RateSource = 'fetched' | 'imported' | 'manual';
+
+// One historical rate: 1 `from` = `rate` `to` on `date`
+export interface RateRecord {
+  from: Currency;
+  to: Currency;
+  date: string;            // YYYY-MM-DD
+  rate: number;
+  source: RateSource;      // manual entries are never overwritten by fetched or imported ones
+}
+
+export const RATE_PROVIDER_LABELS: Record<RateProviderId, string> = {
+  frankfurter: 'Frankfurter (online, daily ECB rates)',
+  ecb: 'ECB XML file import (offline)',
+  manual: 'Manual entry only (offline)',
+};
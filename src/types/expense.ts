@@ -33,6 +33,43 @@ export const EXPENSE_CATEGORY_LABELS: Record<ExpenseCategory, string> = {
   other: 'Other',
 };
 
+// A receipt file attached to an expense. The file itself stays in this
+// browser's IndexedDB (and on Drive, once uploaded); only this travels with
+// the expense.
+export interface ExpenseReceipt {
+  id: string;
+  name: string;
+  type: string; // MIME type: an image or application/pdf
+  size: number;
+  driveFileId?: string;
+  addedAt: string;
+}
+
+export type RecurrenceFrequency = 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+
+export const RECURRENCE_FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  yearly: 'Yearly',
+};
+
+// A new price from a date on, e.g. a subscription going up
+export interface RecurrenceAmountChange {
+  from: string; // YYYY-MM-DD
+  amount: number;
+}
+
+// How a recurring expense repeats. It lives on the first expense of the
+// series; each later occurrence is generated as its own expense.
+export interface ExpenseRecurrence {
+  frequency: RecurrenceFrequency;
+  day: number;              // day of the month, clamped in short months; unused for weekly
+  endDate?: string;         // no occurrences after this
+  amountChanges?: RecurrenceAmountChange[];
+  generatedThrough?: string; // date of the last occurrence generated, so a deleted one isn't recreated
+}
+
 export interface Expense {
   id: string;
   date: string;
@@ -42,10 +79,17 @@ export interface Expense {
   currency: Currency;
   vendor?: string;
   paymentMethod?: string;
-  hasReceipt: boolean;
+  hasReceipt: boolean; // a receipt is kept, attached or on paper
+  receipts?: ExpenseReceipt[];
   companyId?: string;
+  billable?: boolean;      // passed through to the client (companyId) on an invoice
+  markupPercent?: number;  // added on top when billed
   recurring: boolean;
+  recurrence?: ExpenseRecurrence;
+  recurringSourceId?: string; // the expense holding the recurrence this occurrence was generated from
+  pendingReview?: boolean;    // generated and not yet confirmed
   notes?: string;
   createdAt: string;
   updatedAt: string;
+  deletedAt?: string;
 }
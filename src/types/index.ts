@@ -1,5 +1,17 @@
-export { type Company, type Currency, type BillingType } from './company';
+export { type Company, type Currency, type BillingType, type RateChange, type PaymentTerms, type PaymentTermsKind } from './company';
 export { type Project } from './project';
 export { type TimeEntry } from './timeEntry';
-export { type Invoice, type InvoiceStatus, type LineItem, type InvoiceDetailLevel } from './invoice';
-export { type Expense, type ExpenseCategory, EXPENSE_CATEGORY_LABELS } from './expense';
+export { type Invoice, type InvoiceStatus, type InvoiceDisplayStatus, type LineItem, type InvoiceDetailLevel } from './invoice';
+export { type Payment } from './payment';
+export {
+  type Expense, type ExpenseCategory, type ExpenseReceipt, type ExpenseRecurrence, type RecurrenceFrequency, type RecurrenceAmountChange,
+  EXPENSE_CATEGORY_LABELS, RECURRENCE_FREQUENCY_LABELS,
+} from './expense';
+export { type TaxRate, type TaxKind, type InvoiceTaxLine, TAX_KIND_LABELS, NO_TAX_RATE_ID, REVERSE_CHARGE_RATE_ID } from './tax';
+export { type InvoiceTemplate, type TemplateFont, TEMPLATE_FONT_LABELS, DEFAULT_INVOICE_TEMPLATE } from './invoiceTemplate';
+export { type ReminderStage, type ReminderTemplate, type InvoiceReminder, REMINDER_STAGES, REMINDER_STAGE_LABELS, DEFAULT_REMINDER_TEMPLATES } from './reminder';
+export { type RateRecord, type RateProviderId, type RateSource, RATE_PROVIDER_LABELS } from './exchangeRate';
+export {
+  type TaxJurisdiction, type TaxQuarterNumber, type EstimatedTaxSettings, type EstimatedTaxPayment,
+  TAX_JURISDICTION_LABELS, DEFAULT_ESTIMATED_TAX,
+} from './estimatedTax';
@@ -1,6 +1,11 @@
 import type { Currency, BillingType } from './company';
+import type { InvoiceTaxLine } from './tax';
+import type { InvoiceReminder } from './reminder';
 
-export type InvoiceStatus = 'draft' | 'sent' | 'paid';
+export type InvoiceStatus = 'draft' | 'sent' | 'paid' | 'void';
+// Status as shown: a sent invoice with some payments recorded is partially paid,
+// one past its due date is overdue, and a credit note is shown as such
+export type InvoiceDisplayStatus = InvoiceStatus | 'partial' | 'overdue' | 'credit';
 export type InvoiceDetailLevel = 'weekly' | 'detailed';
 
 export interface LineItem {
@@ -9,6 +14,8 @@ export interface LineItem {
   quantity?: number;
   unitPrice?: number;
   amount: number;
+  taxRateId?: string; // overrides the company's rate; NO_TAX_RATE_ID for untaxed
+  expenseId?: string; // a billable expense passed through, converted and marked up
 }
 
 export interface Invoice {
@@ -16,11 +23,18 @@ export interface Invoice {
   companyId: string;
   invoiceNumber?: string;
   invoiceDate: string;
+  dueDate?: string; // from the company's payment terms when created
   timeEntryIds: string[];
+  releasedTimeEntryIds?: string[]; // billed here, freed for re-invoicing when voided
+  expenseIds?: string[]; // billable expenses on the invoice, one line item each
   totalHours: number;
-  totalAmount: number;
+  totalAmount: number;  // gross: net plus tax
+  netAmount?: number;   // unset on invoices created before tax support (net = total)
+  taxAmount?: number;
+  taxLines?: InvoiceTaxLine[];
   currency: Currency;
   rateUsed: number;
+  entryRates?: Record<string, number>; // per time entry, when entries were billed at different rates
   status: InvoiceStatus;
   paidDate?: string;
   paymentNote?: string;
@@ -29,7 +43,17 @@ export interface Invoice {
   retainerMonth?: string;
   lineItems?: LineItem[];
   detailLevel?: InvoiceDetailLevel;
-  exchangeRateToUSD?: number;
+  // Rates from the invoice currency into reporting currencies, recorded when
+  // sent, keyed by the target currency (e.g. { EUR: 0.92 })
+  exchangeRates?: Record<Currency, number>;
+  exchangeRateToUSD?: number; // legacy: moved into exchangeRates.USD by migration 5
+  reminders?: InvoiceReminder[]; // payment reminders sent, oldest first
+  // Voiding keeps the invoice and its number; a credit note is a record of its
+  // own, numbered in the company's credit note series, with negative amounts
+  voidedAt?: string;
+  creditNoteId?: string;  // on the voided invoice
+  creditNoteFor?: string; // on the credit note: the invoice it cancels
   createdAt: string;
   updatedAt: string;
+  deletedAt?: string;
 }
@@ -0,0 +1,32 @@
+export type TemplateFont = 'sans' | 'serif' | 'mono';
+
+export interface InvoiceTemplate {
+  id: string;
+  name: string;
+  logoDataUrl?: string;    // JPEG data URL, downscaled on upload
+  accentColor: string;     // '#RRGGBB'
+  font: TemplateFont;
+  headingText: string;
+  showBankDetails: boolean;
+  showHoursColumn: boolean;
+  showRateLine: boolean;
+  footerText?: string;
+}
+
+export const TEMPLATE_FONT_LABELS: Record<TemplateFont, string> = {
+  sans: 'Sans-serif',
+  serif: 'Serif',
+  mono: 'Monospace',
+};
+
+// The built-in layout, used when no template is set up or selected
+export const DEFAULT_INVOICE_TEMPLATE: InvoiceTemplate = {
+  id: 'default',
+  name: 'Standard',
+  accentColor: '#222222',
+  font: 'sans',
+  headingText: 'INVOICE',
+  showBankDetails: true,
+  showHoursColumn: true,
+  showRateLine: true,
+};
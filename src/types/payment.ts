@@ -0,0 +1,17 @@
+import type { Currency } from './company';
+
+export interface Payment {
+  id: string;
+  invoiceId: string;
+  date: string;
+  amount: number;          // received, in the invoice currency
+  currency: Currency;
+  method?: string;
+  feesWithheld?: number;   // bank/platform fees deducted by the payer; counts toward the invoice
+  exchangeRates?: Record<Currency, number>; // rates the payment was actually converted at, by target currency
+  exchangeRateToUSD?: number; // legacy: moved into exchangeRates.USD by migration 5
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt?: string;
+}
@@ -2,7 +2,9 @@ export interface Project {
   id: string;
   companyId: string;
   name: string;
+  hourlyRate?: number; // overrides the company rate for this project's entries
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
+  deletedAt?: string;
 }
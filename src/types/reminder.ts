@@ -0,0 +1,43 @@
+export type ReminderStage = 'first' | 'second' | 'final';
+
+// Subject and body with {placeholders}; see utils/reminders for the list
+export interface ReminderTemplate {
+  stage: ReminderStage;
+  subject: string;
+  body: string;
+}
+
+// A reminder logged on the invoice when it is opened in a mail app or saved
+export interface InvoiceReminder {
+  stage: ReminderStage;
+  sentAt: string; // ISO timestamp
+  to: string;
+  method: 'mailto' | 'eml';
+}
+
+export const REMINDER_STAGES: ReminderStage[] = ['first', 'second', 'final'];
+
+export const REMINDER_STAGE_LABELS: Record<ReminderStage, string> = {
+  first: 'First reminder',
+  second: 'Second reminder',
+  final: 'Final notice',
+};
+
+// Used for any stage the profile hasn't customized
+export const DEFAULT_REMINDER_TEMPLATES: Record<ReminderStage, ReminderTemplate> = {
+  first: {
+    stage: 'first',
+    subject: 'Reminder: invoice {invoiceNumber} is past due',
+    body: 'Hi {contactName},\n\nA quick reminder that invoice {invoiceNumber} for {amount} was due on {dueDate}. I\'ve attached a copy in case it got lost.\n\nIf payment is already on its way, please disregard this note.\n\nThanks,\n{senderName}',
+  },
+  second: {
+    stage: 'second',
+    subject: 'Second reminder: invoice {invoiceNumber} is {daysOverdue} days overdue',
+    body: 'Hi {contactName},\n\nI haven\'t yet received payment for invoice {invoiceNumber} ({amount}), which was due on {dueDate} and is now {daysOverdue} days overdue. A copy is attached.\n\nCould you let me know when I can expect payment?\n\nThanks,\n{senderName}',
+  },
+  final: {
+    stage: 'final',
+    subject: 'Final notice: invoice {invoiceNumber} is {daysOverdue} days overdue',
+    body: 'Hi {contactName},\n\nInvoice {invoiceNumber} for {amount} was due on {dueDate} and remains unpaid {daysOverdue} days later, despite earlier reminders. Please arrange payment within 7 days.\n\nA copy of the invoice is attached.\n\nRegards,\n{senderName}',
+  },
+};
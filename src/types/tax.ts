@@ -0,0 +1,31 @@
+export type TaxKind = 'vat' | 'sales_tax';
+
+export interface TaxRate {
+  id: string;
+  name: string;            // e.g. 'UK VAT', 'DE VAT', 'NY sales tax'
+  kind: TaxKind;
+  rate: number;            // percent; always 0 for reverse charge
+  reverseCharge?: boolean; // customer accounts for the VAT; adds the mandatory notice
+}
+
+// A tax rate as applied to one invoice, copied so later edits to the rate
+// don't change invoices already issued
+export interface InvoiceTaxLine {
+  taxRateId: string;
+  name: string;
+  rate: number;
+  reverseCharge?: boolean;
+  net: number;
+  tax: number;
+}
+
+export const TAX_KIND_LABELS: Record<TaxKind, string> = {
+  vat: 'VAT',
+  sales_tax: 'Sales tax',
+};
+
+// Line item taxRateId meaning "not taxed", as opposed to unset (company rate)
+export const NO_TAX_RATE_ID = 'none';
+
+// Id of the rate created for companies that used the old reverse-charge flag
+export const REVERSE_CHARGE_RATE_ID = 'reverse-charge';
@@ -10,4 +10,5 @@ export interface TimeEntry {
   paymentNote?: string;
   createdAt: string;
   updatedAt: string;
+  deletedAt?: string;
 }
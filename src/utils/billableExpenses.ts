@@ -0,0 +1,36 @@
+import type { Currency, Expense, Invoice, LineItem } from '../types';
+import { roundMoney } from './currencies';
+import { formatCurrency } from './formatCurrency';
+import { formatDate } from './dateUtils';
+
+// Expenses already on an invoice. A voided invoice keeps its expenses unless
+// they were released along with its time entries.
+export function billedExpenseIds(invoices: Invoice[]): Set<string> {
+  return new Set(invoices.flatMap((i) => i.expenseIds || []));
+}
+
+export function unbilledExpenses(expenses: Expense[], invoices: Invoice[], companyId: string): Expense[] {
+  const billed = billedExpenseIds(invoices);
+  return expenses
+    .filter((e) => e.billable && e.companyId === companyId && !billed.has(e.id))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// What the client is charged, in the invoice currency: the expense at `rate`
+// (from its own currency on its date) plus any markup
+export function billedExpenseAmount(expense: Expense, rate: number, currency: Currency): number {
+  return roundMoney(expense.amount * rate * (1 + (expense.markupPercent || 0) / 100), currency);
+}
+
+// Line item passing the expense through. The description shows the original
+// amount when it was converted or marked up.
+export function expenseLineItem(expense: Expense, rate: number, currency: Currency): LineItem {
+  const markup = expense.markupPercent ? ` + ${expense.markupPercent}%` : '';
+  const original = expense.currency !== currency || markup ? ` (${formatCurrency(expense.amount, expense.currency)}${markup})` : '';
+  return {
+    id: crypto.randomUUID(),
+    description: `${formatDate(expense.date)}: ${expense.description}${expense.vendor ? ` — ${expense.vendor}` : ''}${original}`,
+    amount: billedExpenseAmount(expense, rate, currency),
+    expenseId: expense.id,
+  };
+}
@@ -1,4 +1,7 @@
-import type { TimeEntry, Invoice, Company, Currency } from '../types';
+import type { TimeEntry, Invoice, InvoiceDisplayStatus, Payment, Company, Currency, Project } from '../types';
+import { minorUnits } from './currencies';
+import { daysSince, today } from './dateUtils';
+import { isCreditNote } from './creditNotes';
 
 export function isFixedMonthly(company: Company): boolean {
   return company.billingType === 'fixed_monthly';
@@ -24,16 +27,64 @@ export function parseHoursInput(input: string): number | null {
   return roundToQuarter(num);
 }
 
+// --- Rates ---
+
+// The company's hourly rate on a date: the latest dated change in effect by
+// then, else the base rate
+export function companyRateOn(company: Company, date: string): number {
+  let rate = company.hourlyRate;
+  let from = '';
+  for (const change of company.rateHistory || []) {
+    if (change.effectiveFrom <= date && change.effectiveFrom >= from) {
+      rate = change.hourlyRate;
+      from = change.effectiveFrom;
+    }
+  }
+  return rate;
+}
+
+// The rate an entry bills at: its project's own rate, else the company rate
+// on the entry's date
+export function entryRate(entry: TimeEntry, company: Company, projectMap: Map<string, Project>): number {
+  const project = entry.projectId ? projectMap.get(entry.projectId) : undefined;
+  return project?.hourlyRate ?? companyRateOn(company, entry.date);
+}
+
 export function entryAmount(entry: TimeEntry, rate: number): number {
   return entry.fixedAmount != null ? entry.fixedAmount : entry.hours * rate;
 }
 
+// Entry value at its resolved rate
+export function billableAmount(entry: TimeEntry, company: Company, projectMap: Map<string, Project>): number {
+  return entryAmount(entry, entryRate(entry, company, projectMap));
+}
+
 export function totalHours(entries: TimeEntry[]): number {
   return entries.reduce((sum, e) => sum + e.hours, 0);
 }
 
-export function totalAmount(entries: TimeEntry[], rate: number): number {
-  return entries.reduce((sum, e) => sum + entryAmount(e, rate), 0);
+export function totalAmount(entries: TimeEntry[], company: Company, projectMap: Map<string, Project>): number {
+  return entries.reduce((sum, e) => sum + billableAmount(e, company, projectMap), 0);
+}
+
+// Rates to record on a new invoice: one rate when every entry shares it,
+// otherwise each entry's own rate (rateUsed is then today's company rate)
+export function invoiceRates(
+  entries: TimeEntry[],
+  company: Company,
+  projectMap: Map<string, Project>,
+  date: string,
+): { rateUsed: number; entryRates?: Record<string, number> } {
+  const rates = new Map(entries.map((e) => [e.id, entryRate(e, company, projectMap)]));
+  const distinct = new Set(rates.values());
+  if (distinct.size === 1) return { rateUsed: [...distinct][0] };
+  if (distinct.size === 0) return { rateUsed: companyRateOn(company, date) };
+  return { rateUsed: companyRateOn(company, date), entryRates: Object.fromEntries(rates) };
+}
+
+// The rate an invoiced entry was billed at
+export function invoiceEntryRate(invoice: Invoice, entry: TimeEntry): number {
+  return invoice.entryRates?.[entry.id] ?? invoice.rateUsed;
 }
 
 export interface CurrencyTotal {
@@ -44,9 +95,11 @@ export interface CurrencyTotal {
 
 export function totalsByCurrency(
   entries: TimeEntry[],
-  companies: Company[]
+  companies: Company[],
+  projects: Project[]
 ): CurrencyTotal[] {
   const companyMap = new Map(companies.map((c) => [c.id, c]));
+  const projectMap = new Map(projects.map((p) => [p.id, p]));
   const totals = new Map<Currency, { hours: number; amount: number }>();
 
   for (const entry of entries) {
@@ -55,7 +108,7 @@ export function totalsByCurrency(
     const cur = company.currency;
     const existing = totals.get(cur) || { hours: 0, amount: 0 };
     existing.hours += entry.hours;
-    existing.amount += entryAmount(entry, company.hourlyRate);
+    existing.amount += billableAmount(entry, company, projectMap);
     totals.set(cur, existing);
   }
 
@@ -78,6 +131,87 @@ export function generateInvoiceNumber(invoices: Invoice[], year: number): string
   return `${yearPrefix}-${String(maxNum + 1).padStart(3, '0')}`;
 }
 
+// --- Invoice payments ---
+
+// Balances under half the currency's smallest unit (half a cent, half a yen)
+// count as settled
+function settledTolerance(currency: Currency): number {
+  return 0.5 / 10 ** minorUnits(currency);
+}
+
+export function invoicePayments(invoice: Invoice, payments: Payment[]): Payment[] {
+  return payments
+    .filter((p) => p.invoiceId === invoice.id)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Fees the payer withheld still settle their share of the invoice
+export function amountApplied(payment: Payment): number {
+  return payment.amount + (payment.feesWithheld ?? 0);
+}
+
+export function amountPaid(invoice: Invoice, payments: Payment[]): number {
+  return invoicePayments(invoice, payments).reduce((sum, p) => sum + amountApplied(p), 0);
+}
+
+export function invoiceBalance(invoice: Invoice, payments: Payment[]): number {
+  const balance = invoice.totalAmount - amountPaid(invoice, payments);
+  return Math.abs(balance) < settledTolerance(invoice.currency) ? 0 : balance;
+}
+
+export function isOverdue(invoice: Invoice, asOf = today()): boolean {
+  return invoice.status === 'sent' && !isCreditNote(invoice) && !!invoice.dueDate && invoice.dueDate < asOf;
+}
+
+export function invoiceDisplayStatus(invoice: Invoice, payments: Payment[]): InvoiceDisplayStatus {
+  if (isCreditNote(invoice)) return 'credit';
+  if (isOverdue(invoice)) return 'overdue';
+  if (invoice.status === 'sent' && amountPaid(invoice, payments) > 0) return 'partial';
+  return invoice.status;
+}
+
+// --- AR aging ---
+
+export type AgingBucket = 'current' | '1-30' | '31-60' | '61-90' | '90+';
+
+export const AGING_BUCKETS: { id: AgingBucket; label: string }[] = [
+  { id: 'current', label: 'Current' },
+  { id: '1-30', label: '1–30 days' },
+  { id: '31-60', label: '31–60 days' },
+  { id: '61-90', label: '61–90 days' },
+  { id: '90+', label: '90+ days' },
+];
+
+// Days past the due date (negative while not yet due). Invoices from before due
+// dates, or to companies without parseable terms, age from the invoice date.
+export function daysPastDue(invoice: Invoice): number {
+  return daysSince(invoice.dueDate ?? invoice.invoiceDate);
+}
+
+export function agingBucket(daysPast: number): AgingBucket {
+  if (daysPast <= 0) return 'current';
+  if (daysPast <= 30) return '1-30';
+  if (daysPast <= 60) return '31-60';
+  if (daysPast <= 90) return '61-90';
+  return '90+';
+}
+
+// The invoice with status/paidDate brought in line with its payments: paid once
+// the balance is settled (dated by the last payment), back to sent if it isn't.
+export function withPaymentStatus(invoice: Invoice, payments: Payment[]): Invoice {
+  if (invoice.status === 'draft' || invoice.status === 'void' || isCreditNote(invoice)) return invoice;
+  const own = invoicePayments(invoice, payments);
+  if (own.length > 0 && invoiceBalance(invoice, own) <= 0) {
+    const paidDate = own[own.length - 1].date;
+    return invoice.status === 'paid' && invoice.paidDate === paidDate
+      ? invoice
+      : { ...invoice, status: 'paid', paidDate, updatedAt: new Date().toISOString() };
+  }
+  return invoice.status === 'paid'
+    ? { ...invoice, status: 'sent', paidDate: undefined, updatedAt: new Date().toISOString() }
+    : invoice;
+}
+
 export function getEntryPaymentStatus(
   entry: TimeEntry,
   company: Company | undefined,
@@ -89,7 +223,7 @@ export function getEntryPaymentStatus(
   if (isFixedMonthly(company)) {
     const entryMonth = entry.date.substring(0, 7);
     const retainerInv = invoices.find(
-      (i) => i.companyId === company.id && i.billingType === 'fixed_monthly' && i.retainerMonth === entryMonth
+      (i) => i.companyId === company.id && i.billingType === 'fixed_monthly' && i.retainerMonth === entryMonth && i.status !== 'void'
     );
     if (retainerInv) {
       switch (retainerInv.status) {
@@ -108,6 +242,7 @@ export function getEntryPaymentStatus(
       case 'paid': return 'Paid';
       case 'sent': return 'Invoiced / Awaiting payment';
       case 'draft': return 'Draft';
+      case 'void': return 'Invoice voided';
     }
   }
 
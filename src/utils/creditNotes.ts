@@ -0,0 +1,91 @@
+import type { Company, Invoice, LineItem } from '../types';
+import { getMonthLabel, formatDate, today } from './dateUtils';
+import { formatHours } from './formatCurrency';
+import { invoiceNetAmount } from './tax';
+
+export function isCreditNote(invoice: Invoice): boolean {
+  return !!invoice.creditNoteFor;
+}
+
+// Credit notes are numbered in their own series per company: CN-001, CN-002...
+export function formatCreditNoteNumber(n: number): string {
+  return `CN-${String(n).padStart(3, '0')}`;
+}
+
+// Only sent invoices with nothing paid against them can be voided; paid work
+// needs a refund, which is recorded outside the app
+export function canVoid(invoice: Invoice, paymentCount: number): boolean {
+  return invoice.status === 'sent' && !isCreditNote(invoice) && paymentCount === 0;
+}
+
+// Time entries the invoice billed, including any released when it was voided
+export function billedEntryIds(invoice: Invoice): string[] {
+  return invoice.releasedTimeEntryIds ? [...invoice.timeEntryIds, ...invoice.releasedTimeEntryIds] : invoice.timeEntryIds;
+}
+
+// Mirror of the invoice with every amount negated. The billed work becomes one
+// line referencing the original; its line items carry over one for one.
+export function buildCreditNote(invoice: Invoice, creditNoteNumber: string, date = today()): Invoice {
+  const now = new Date().toISOString();
+  const lineItems = invoice.lineItems || [];
+  const workAmount = invoiceNetAmount(invoice) - lineItems.reduce((sum, li) => sum + li.amount, 0);
+  const work = invoice.billingType === 'fixed_monthly'
+    ? `Monthly advisory retainer${invoice.retainerMonth ? ` — ${getMonthLabel(invoice.retainerMonth + '-01')}` : ''}`
+    : `${formatHours(invoice.totalHours)} hours`;
+  const credited: LineItem[] = [
+    { id: crypto.randomUUID(), description: `Invoice #${invoice.invoiceNumber || '—'} of ${formatDate(invoice.invoiceDate)}: ${work}`, amount: -workAmount },
+    ...lineItems.map((li) => ({ ...li, id: crypto.randomUUID(), unitPrice: li.unitPrice != null ? -li.unitPrice : undefined, amount: -li.amount })),
+  ];
+  return {
+    id: crypto.randomUUID(),
+    companyId: invoice.companyId,
+    invoiceNumber: creditNoteNumber,
+    invoiceDate: date,
+    timeEntryIds: [],
+    totalHours: 0,
+    totalAmount: -invoice.totalAmount,
+    netAmount: invoice.netAmount != null ? -invoice.netAmount : undefined,
+    taxAmount: invoice.taxAmount != null ? -invoice.taxAmount : undefined,
+    taxLines: invoice.taxLines?.map((line) => ({ ...line, net: -line.net, tax: -line.tax })),
+    currency: invoice.currency,
+    rateUsed: 0,
+    status: 'sent',
+    lineItems: credited.filter((li) => li.amount !== 0),
+    exchangeRates: invoice.exchangeRates,
+    creditNoteFor: invoice.id,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export interface VoidOptions {
+  creditNote: boolean;     // issue a credit note for the invoice
+  releaseEntries: boolean; // free its time entries and expenses to be invoiced again
+}
+
+export interface VoidResult {
+  invoice: Invoice;
+  creditNote?: Invoice;
+  company?: Company; // with the credit note number advanced
+}
+
+export function voidInvoice(invoice: Invoice, company: Company | undefined, options: VoidOptions, date = today()): VoidResult {
+  const now = new Date().toISOString();
+  let voided: Invoice = { ...invoice, status: 'void', voidedAt: date, updatedAt: now };
+  if (options.releaseEntries && invoice.timeEntryIds.length > 0) {
+    voided = { ...voided, timeEntryIds: [], releasedTimeEntryIds: [...(invoice.releasedTimeEntryIds || []), ...invoice.timeEntryIds] };
+  }
+  // Released expenses stay traceable through the expense ids on the line items
+  if (options.releaseEntries && invoice.expenseIds?.length) {
+    voided = { ...voided, expenseIds: undefined };
+  }
+  if (!options.creditNote || !company) return { invoice: voided };
+
+  const nextNum = company.nextCreditNoteNumber || 1;
+  const creditNote = buildCreditNote(invoice, formatCreditNoteNumber(nextNum), date);
+  return {
+    invoice: { ...voided, creditNoteId: creditNote.id },
+    creditNote,
+    company: { ...company, nextCreditNoteNumber: nextNum + 1, updatedAt: now },
+  };
+}
@@ -1,7 +1,14 @@
-import type { TimeEntry, Invoice, Company, Project, Expense } from '../types';
+import type { TimeEntry, Invoice, Company, Project, Expense, Currency } from '../types';
 import { EXPENSE_CATEGORY_LABELS } from '../types';
-import { getEntryPaymentStatus, entryAmount } from './calculations';
+import { getEntryPaymentStatus, entryAmount, entryRate, invoiceEntryRate } from './calculations';
 import { formatDate } from './dateUtils';
+import { invoiceNetAmount } from './tax';
+import { recordedRate } from './exchangeRate';
+import { minorUnits } from './currencies';
+import { isCreditNote } from './creditNotes';
+import { hasReceipt } from './receiptStore';
+import { profitAndLossRows } from './profitAndLoss';
+import type { ProfitAndLoss } from './profitAndLoss';
 
 function escapeCsv(val: string): string {
   let escaped = val;
@@ -33,7 +40,8 @@ export function exportTimeEntriesCsv(
       const company = companyMap.get(e.companyId);
       const project = e.projectId ? projectMap.get(e.projectId) : undefined;
       const invoice = invoices.find((i) => i.timeEntryIds.includes(e.id));
-      const rate = company?.hourlyRate ?? 0;
+      // Invoiced entries keep the rate they were billed at
+      const rate = invoice ? invoiceEntryRate(invoice, e) : company ? entryRate(e, company, projectMap) : 0;
       const currency = company?.currency ?? 'USD';
       const status = getEntryPaymentStatus(e, company, invoices);
       const paidDate = invoice?.status === 'paid' ? invoice.paidDate ?? '' : e.paidDate ?? '';
@@ -57,15 +65,18 @@ export function exportTimeEntriesCsv(
 
 export function exportInvoicesCsv(
   invoices: Invoice[],
-  companies: Company[]
+  companies: Company[],
+  reporting: Currency
 ): string {
   const companyMap = new Map(companies.map((c) => [c.id, c]));
-  const header = ['Invoice #', 'Company', 'Date', 'Hours', 'Amount', 'Currency', 'Status', 'Paid Date', 'Billing Type', 'Retainer Month', 'Exchange Rate to USD', 'Amount (USD)'];
+  const invoiceMap = new Map(invoices.map((i) => [i.id, i]));
+  const header = ['Invoice #', 'Company', 'Date', 'Hours', 'Amount', 'Currency', 'Status', 'Paid Date', 'Billing Type', 'Retainer Month', `Exchange Rate to ${reporting}`, `Amount (${reporting})`, 'Net Amount', 'Tax Amount', 'Due Date', 'Credits Invoice #'];
   const rows = invoices
     .sort((a, b) => a.invoiceDate.localeCompare(b.invoiceDate))
     .map((i) => {
       const company = companyMap.get(i.companyId);
-      const amountUSD = i.exchangeRateToUSD != null ? (i.totalAmount * i.exchangeRateToUSD).toFixed(2) : '';
+      const rate = recordedRate(i, reporting);
+      const converted = rate != null ? (i.totalAmount * rate).toFixed(minorUnits(reporting)) : '';
       return toCsvRow([
         i.invoiceNumber ?? '',
         company?.name ?? '',
@@ -73,12 +84,16 @@ export function exportInvoicesCsv(
         String(i.totalHours),
         String(i.totalAmount),
         i.currency,
-        i.status,
+        isCreditNote(i) ? 'credit note' : i.status,
         i.paidDate ? formatDate(i.paidDate) : '',
         i.billingType ?? 'hourly',
         i.retainerMonth ?? '',
-        i.exchangeRateToUSD != null ? String(i.exchangeRateToUSD) : '',
-        amountUSD,
+        rate != null ? String(rate) : '',
+        converted,
+        String(invoiceNetAmount(i)),
+        String(i.taxAmount ?? 0),
+        i.dueDate ? formatDate(i.dueDate) : '',
+        i.creditNoteFor ? invoiceMap.get(i.creditNoteFor)?.invoiceNumber ?? '' : '',
       ]);
     });
   return [toCsvRow(header), ...rows].join('\n');
@@ -89,7 +104,7 @@ export function exportExpensesCsv(
   companies: Company[]
 ): string {
   const companyMap = new Map(companies.map((c) => [c.id, c]));
-  const header = ['Date', 'Category', 'Description', 'Amount', 'Currency', 'Vendor', 'Payment Method', 'Receipt', 'Client', 'Recurring', 'Notes'];
+  const header = ['Date', 'Category', 'Description', 'Amount', 'Currency', 'Vendor', 'Payment Method', 'Receipt', 'Client', 'Recurring', 'Notes', 'Billable', 'Markup %', 'Receipt Files'];
   const rows = expenses
     .sort((a, b) => a.date.localeCompare(b.date))
     .map((e) => {
@@ -102,15 +117,32 @@ export function exportExpensesCsv(
         e.currency,
         e.vendor ?? '',
         e.paymentMethod ?? '',
-        e.hasReceipt ? 'Yes' : 'No',
+        hasReceipt(e) ? 'Yes' : 'No',
         company?.name ?? '',
         e.recurring ? 'Yes' : 'No',
         e.notes ?? '',
+        e.billable ? 'Yes' : 'No',
+        e.markupPercent ? String(e.markupPercent) : '',
+        (e.receipts || []).map((r) => r.name).join('; '),
       ]);
     });
   return [toCsvRow(header), ...rows].join('\n');
 }
 
+// Tax-year P&L keyed to Schedule C lines, in the reporting currency
+export function exportProfitAndLossCsv(pl: ProfitAndLoss): string {
+  const digits = minorUnits(pl.reporting);
+  const header = ['Schedule C Line', 'Description', `Spent (${pl.reporting})`, `Cash Basis (${pl.reporting})`, `Accrual Basis (${pl.reporting})`];
+  const rows = profitAndLossRows(pl).map((r) => toCsvRow([
+    r.line,
+    r.label,
+    r.spent != null ? r.spent.toFixed(digits) : '',
+    r.cash.toFixed(digits),
+    r.accrual.toFixed(digits),
+  ]));
+  return [toCsvRow(header), ...rows].join('\n');
+}
+
 export function downloadCsv(content: string, filename: string): void {
   const blob = new Blob([content], { type: 'text/csv;charset=utf-8;' });
   const url = URL.createObjectURL(blob);
@@ -0,0 +1,69 @@
+import type { Currency } from '../types';
+import type { BusinessProfile } from './storage';
+
+// Offered in currency pickers until the user configures their own list
+export const DEFAULT_CURRENCIES: Currency[] = ['USD', 'EUR', 'GBP'];
+
+let supported: Set<string> | null = null;
+
+// ISO 4217 codes this browser can format, alphabetically
+export function supportedCurrencies(): Currency[] {
+  return typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('currency') : [...DEFAULT_CURRENCIES];
+}
+
+export function isCurrencyCode(code: string): boolean {
+  if (!/^[A-Z]{3}$/.test(code)) return false;
+  supported ??= new Set(supportedCurrencies());
+  return supported.has(code);
+}
+
+// Trimmed, upper-cased code, or null when it isn't a known ISO 4217 currency
+export function normalizeCurrency(code: string): Currency | null {
+  const upper = code.trim().toUpperCase();
+  return isCurrencyCode(upper) ? upper : null;
+}
+
+const minorUnitCache = new Map<Currency, number>();
+
+// Decimal places the currency is billed in: 2 for USD, 0 for JPY, 3 for KWD
+export function minorUnits(currency: Currency): number {
+  let digits = minorUnitCache.get(currency);
+  if (digits == null) {
+    try {
+      digits = new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+    } catch {
+      digits = 2;
+    }
+    minorUnitCache.set(currency, digits);
+  }
+  return digits;
+}
+
+// Round to the currency's smallest unit (cents, or whole yen)
+export function roundMoney(amount: number, currency: Currency): number {
+  const factor = 10 ** minorUnits(currency);
+  return Math.round(amount * factor) / factor;
+}
+
+let displayNames: Intl.DisplayNames | null = null;
+
+export function currencyName(code: Currency): string {
+  try {
+    displayNames ??= new Intl.DisplayNames(['en'], { type: 'currency' });
+    return displayNames.of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+export function getReportingCurrency(profile: BusinessProfile): Currency {
+  return profile.reportingCurrency || 'USD';
+}
+
+// Currencies to offer in a picker: the profile's list, plus any already in use
+// on the record being edited so removing a currency never hides a value
+export function currencyOptions(profile: BusinessProfile, ...inUse: (Currency | undefined)[]): Currency[] {
+  const list = profile.currencies?.length ? profile.currencies : DEFAULT_CURRENCIES;
+  const extra = inUse.filter((c): c is Currency => !!c && !list.includes(c));
+  return [...list, ...new Set(extra)];
+}
@@ -51,6 +51,12 @@ export function getWeekDates(refDate: string): string[] {
   return dates;
 }
 
+export function addDays(dateStr: string, days: number): string {
+  const d = new Date(dateStr + 'T00:00:00');
+  d.setDate(d.getDate() + days);
+  return toLocalDateString(d);
+}
+
 export function isInRange(date: string, start: string, end: string): boolean {
   return date >= start && date <= end;
 }
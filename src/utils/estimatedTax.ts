@@ -0,0 +1,115 @@
+import type { EstimatedTaxPayment, EstimatedTaxSettings, TaxJurisdiction, TaxQuarterNumber } from '../types';
+import { DEFAULT_ESTIMATED_TAX } from '../types';
+import type { BusinessProfile } from './storage';
+import { addDays, today } from './dateUtils';
+
+// IRS estimated tax windows. Income realized in each is paid for by the due
+// date after it; the fourth window's falls in January of the next year.
+const WINDOWS: { quarter: TaxQuarterNumber; start: string; end: string; due: string }[] = [
+  { quarter: 1, start: '01-01', end: '03-31', due: '04-15' },
+  { quarter: 2, start: '04-01', end: '05-31', due: '06-15' },
+  { quarter: 3, start: '06-01', end: '08-31', due: '09-15' },
+  { quarter: 4, start: '09-01', end: '12-31', due: '01-15' },
+];
+
+// Share of net profit subject to self-employment tax
+const SE_TAXABLE_SHARE = 0.9235;
+
+export interface TaxQuarter {
+  year: number;
+  quarter: TaxQuarterNumber;
+  start: string;
+  end: string;
+  due: string;
+}
+
+export function estimatedTaxSettings(profile: BusinessProfile): EstimatedTaxSettings {
+  return { ...DEFAULT_ESTIMATED_TAX, ...profile.estimatedTax };
+}
+
+// A due date on a weekend moves to the Monday. Federal holidays aren't
+// accounted for.
+function nextBusinessDay(date: string): string {
+  const day = new Date(date + 'T00:00:00').getDay();
+  if (day === 6) return addDays(date, 2);
+  if (day === 0) return addDays(date, 1);
+  return date;
+}
+
+export function taxQuarters(year: number): TaxQuarter[] {
+  return WINDOWS.map((w) => ({
+    year,
+    quarter: w.quarter,
+    start: `${year}-${w.start}`,
+    end: `${year}-${w.end}`,
+    due: nextBusinessDay(`${w.quarter === 4 ? year + 1 : year}-${w.due}`),
+  }));
+}
+
+// The first deadline on or after `asOf`: in early January, the previous
+// year's fourth quarter
+export function nextDeadline(asOf = today()): TaxQuarter {
+  const year = parseInt(asOf.substring(0, 4), 10);
+  return [...taxQuarters(year - 1), ...taxQuarters(year)].find((q) => q.due >= asOf)!;
+}
+
+export interface TaxEstimate {
+  selfEmployment: number;
+  federal: number; // income tax
+  state: number;
+  total: number;
+}
+
+// Flat-rate estimate on a net profit. Half the self-employment tax is
+// deductible from income before income tax.
+export function estimateTax(netProfit: number, settings: EstimatedTaxSettings): TaxEstimate {
+  const profit = Math.max(0, netProfit);
+  const selfEmployment = profit * SE_TAXABLE_SHARE * settings.selfEmploymentRate / 100;
+  const taxable = Math.max(0, profit - selfEmployment / 2);
+  const federal = taxable * settings.federalRate / 100;
+  const state = taxable * settings.stateRate / 100;
+  return { selfEmployment, federal, state, total: selfEmployment + federal + state };
+}
+
+// Federal covers income and self-employment tax; the state only income tax
+export function owedTo(estimate: TaxEstimate): Record<TaxJurisdiction, number> {
+  return { federal: estimate.selfEmployment + estimate.federal, state: estimate.state };
+}
+
+export interface QuarterPlan extends TaxQuarter {
+  netProfit: number;        // realized in this window
+  profitToDate: number;     // realized from January through this window
+  estimate: TaxEstimate;    // on the profit to date
+  paid: Record<TaxJurisdiction, number>; // payments for this and earlier quarters
+  unpaid: Record<TaxJurisdiction, number>; // estimate to date not yet paid
+}
+
+// Each quarter asks for the tax on profit realized so far in the year, less
+// what has been paid toward the year's earlier quarters and this one.
+// `profits` holds the net profit realized in each window, in order.
+export function quarterPlans(
+  year: number,
+  profits: number[],
+  settings: EstimatedTaxSettings,
+  payments: EstimatedTaxPayment[],
+): QuarterPlan[] {
+  const yearPayments = payments.filter((p) => p.taxYear === year);
+  let profitToDate = 0;
+  return taxQuarters(year).map((q, i) => {
+    profitToDate += profits[i] || 0;
+    const estimate = estimateTax(profitToDate, settings);
+    const owed = owedTo(estimate);
+    const paid: Record<TaxJurisdiction, number> = { federal: 0, state: 0 };
+    for (const p of yearPayments) {
+      if (p.quarter <= q.quarter) paid[p.jurisdiction] += p.amount;
+    }
+    return {
+      ...q,
+      netProfit: profits[i] || 0,
+      profitToDate,
+      estimate,
+      paid,
+      unpaid: { federal: Math.max(0, owed.federal - paid.federal), state: Math.max(0, owed.state - paid.state) },
+    };
+  });
+}
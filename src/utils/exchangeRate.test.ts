@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { RateRecord } from '../types';
+import type { ExchangeRateProvider } from './exchangeRate';
+import { getExchangeRate, lookupRate, parseEcbXml, recordRates, setRateProvider, staticRateProvider } from './exchangeRate';
+import { getRateTable, saveRateTable } from './storage';
+
+// Keep the rate table in memory instead of IndexedDB
+vi.mock('./storage', () => {
+  let table: RateRecord[] = [];
+  return {
+    getProfile: () => ({ name: '', address: '', email: '', phone: '', ein: '' }),
+    getRateTable: () => table,
+    saveRateTable: (records: RateRecord[]) => { table = records; },
+  };
+});
+
+function rate(from: string, to: string, date: string, value: number, source: RateRecord['source'] = 'fetched'): RateRecord {
+  return { from, to, date, rate: value, source };
+}
+
+// A static provider whose calls can be counted
+function countingProvider(rates: Record<string, number>, date?: string): ExchangeRateProvider {
+  const provider = staticRateProvider(rates, date);
+  vi.spyOn(provider, 'fetchRate');
+  return provider;
+}
+
+beforeEach(() => {
+  saveRateTable([]);
+});
+
+afterEach(() => {
+  setRateProvider(null);
+});
+
+describe('lookupRate', () => {
+  const table = [
+    rate('EUR', 'USD', '2025-03-03', 1.05),
+    rate('EUR', 'USD', '2025-03-07', 1.08),
+    rate('EUR', 'GBP', '2025-03-07', 0.84),
+  ];
+
+  it('uses the rate on the date, else the nearest earlier one', () => {
+    expect(lookupRate(table, 'EUR', 'USD', '2025-03-07')).toBe(1.08);
+    expect(lookupRate(table, 'EUR', 'USD', '2025-03-09')).toBe(1.08);
+    expect(lookupRate(table, 'EUR', 'USD', '2025-03-05')).toBe(1.05);
+    expect(lookupRate(table, 'EUR', 'USD', '2025-03-01')).toBeNull();
+  });
+
+  it('inverts a pair and crosses through a shared currency', () => {
+    expect(lookupRate(table, 'USD', 'EUR', '2025-03-07')).toBeCloseTo(1 / 1.08);
+    expect(lookupRate(table, 'GBP', 'USD', '2025-03-07')).toBeCloseTo(1.08 / 0.84);
+  });
+});
+
+describe('recordRates', () => {
+  it('keeps a manual rate over a fetched one for the same day', () => {
+    recordRates([rate('EUR', 'USD', '2025-03-07', 1.1, 'manual')]);
+    recordRates([rate('EUR', 'USD', '2025-03-07', 1.08)]);
+    expect(getRateTable()).toEqual([rate('EUR', 'USD', '2025-03-07', 1.1, 'manual')]);
+  });
+});
+
+describe('parseEcbXml', () => {
+  it('reads EUR rates by day, limited to the wanted currencies', () => {
+    const xml = `<gesmes:Envelope><Cube><Cube time="2025-03-07"><Cube currency="USD" rate="1.0830"/><Cube currency="JPY" rate="160.1"/></Cube></Cube></gesmes:Envelope>`;
+    expect(parseEcbXml(xml, ['USD'])).toEqual([rate('EUR', 'USD', '2025-03-07', 1.083, 'imported')]);
+  });
+
+  it('rejects a file that is not an ECB rate file', () => {
+    expect(() => parseEcbXml('<html></html>')).toThrow();
+  });
+});
+
+describe('getExchangeRate', () => {
+  it('stores what the provider returns and answers from the table after', async () => {
+    const provider = countingProvider({ 'EUR/USD': 1.08 }, '2025-03-07');
+    setRateProvider(provider);
+    expect(await getExchangeRate('EUR', 'USD', '2025-03-07')).toBe(1.08);
+    expect(await getExchangeRate('EUR', 'USD', '2025-03-07')).toBe(1.08);
+    expect(provider.fetchRate).toHaveBeenCalledTimes(1);
+    expect(getRateTable()).toEqual([rate('EUR', 'USD', '2025-03-07', 1.08)]);
+  });
+
+  it('answers a weekend date from the Friday rate without asking again', async () => {
+    const provider = countingProvider({ 'EUR/USD': 1.08 }, '2025-03-07');
+    setRateProvider(provider);
+    expect(await getExchangeRate('EUR', 'USD', '2025-03-08')).toBe(1.08);
+    expect(await getExchangeRate('EUR', 'USD', '2025-03-08')).toBe(1.08);
+    expect(await getExchangeRate('EUR', 'USD', '2025-03-09')).toBe(1.08);
+    expect(provider.fetchRate).toHaveBeenCalledTimes(1);
+  });
+
+  it('asks again for a weekday after the last stored rate', async () => {
+    recordRates([rate('EUR', 'USD', '2025-03-07', 1.08)]);
+    const provider = countingProvider({ 'EUR/USD': 1.09 }, '2025-03-10');
+    setRateProvider(provider);
+    expect(await getExchangeRate('EUR', 'USD', '2025-03-10')).toBe(1.09);
+    expect(provider.fetchRate).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to the nearest earlier rate when the provider has none', async () => {
+    recordRates([rate('EUR', 'USD', '2025-03-03', 1.05)]);
+    setRateProvider(countingProvider({}));
+    expect(await getExchangeRate('EUR', 'USD', '2025-03-12')).toBe(1.05);
+  });
+
+  it('retries the latest rate after a failed fetch', async () => {
+    const fetchRate = vi.fn<ExchangeRateProvider['fetchRate']>()
+      .mockResolvedValueOnce(null)
+      .mockResolvedValue({ rate: 1.08, date: '2025-03-07' });
+    setRateProvider({ id: 'flaky', name: 'Flaky', fetchRate });
+    await getExchangeRate('EUR', 'USD');
+    await getExchangeRate('EUR', 'USD');
+    await getExchangeRate('EUR', 'USD');
+    expect(fetchRate).toHaveBeenCalledTimes(2);
+    expect(getRateTable()).toEqual([rate('EUR', 'USD', '2025-03-07', 1.08)]);
+  });
+
+  it('never asks the provider for a currency into itself', async () => {
+    const provider = countingProvider({});
+    setRateProvider(provider);
+    expect(await getExchangeRate('USD', 'USD')).toBe(1);
+    expect(provider.fetchRate).not.toHaveBeenCalled();
+  });
+});
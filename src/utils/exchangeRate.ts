@@ -1,66 +1,319 @@
-import type { Currency } from '../types';
+import type { Currency, Invoice, Payment, RateProviderId, RateRecord } from '../types';
+import { RATE_PROVIDER_LABELS } from '../types';
+import { getProfile, getRateTable, saveRateTable } from './storage';
+import { addDays, today } from './dateUtils';
+import { amountApplied, invoicePayments } from './calculations';
 
-const CACHE_KEY = 'ct_exchangeRates';
 const STALE_MS = 24 * 60 * 60 * 1000; // 24 hours
 
-interface CacheEntry {
-  rate: number;
-  fetchedAt: number;
+// --- Providers ---
+// A provider supplies rates from outside the app. Whatever it returns is added
+// to the rate table, and every lookup is answered from the table, so rates keep
+// working offline and for providers that never fetch (file import, manual).
+
+export interface ExchangeRateProvider {
+  readonly id: string;
+  readonly name: string;
+  // The rate on `date` (the latest when omitted) and the day it applies to,
+  // or null when the provider can't supply one
+  fetchRate(from: Currency, to: Currency, date?: string): Promise<{ rate: number; date: string } | null>;
+}
+
+export const frankfurterProvider: ExchangeRateProvider = {
+  id: 'frankfurter',
+  name: RATE_PROVIDER_LABELS.frankfurter,
+
+  async fetchRate(from, to, date) {
+    try {
+      const endpoint = date
+        ? `https://api.frankfurter.dev/v1/${date}?from=${from}&to=${to}`
+        : `https://api.frankfurter.dev/v1/latest?from=${from}&to=${to}`;
+      const res = await fetch(endpoint);
+      if (!res.ok) return null;
+      const data = await res.json();
+      const rate = data.rates?.[to];
+      if (typeof rate !== 'number') return null;
+      // Weekends and holidays resolve to the previous business day
+      return { rate, date: typeof data.date === 'string' ? data.date : date ?? today() };
+    } catch {
+      return null;
+    }
+  },
+};
+
+function offlineProvider(id: RateProviderId): ExchangeRateProvider {
+  return { id, name: RATE_PROVIDER_LABELS[id], fetchRate: async () => null };
+}
+
+export const RATE_PROVIDERS: Record<RateProviderId, ExchangeRateProvider> = {
+  frankfurter: frankfurterProvider,
+  ecb: offlineProvider('ecb'),
+  manual: offlineProvider('manual'),
+};
+
+// Fixed rates keyed 'FROM/TO' (e.g. { 'EUR/USD': 1.1 }) that never touch the
+// network, for tests and demos
+export function staticRateProvider(rates: Record<string, number>, date = today()): ExchangeRateProvider {
+  return {
+    id: 'static',
+    name: 'Static rates',
+    fetchRate: async (from, to) => {
+      const rate = rates[`${from}/${to}`];
+      return rate != null ? { rate, date } : null;
+    },
+  };
+}
+
+let providerOverride: ExchangeRateProvider | null = null;
+
+// Use `provider` instead of the one configured in Settings; null restores it
+export function setRateProvider(provider: ExchangeRateProvider | null): void {
+  providerOverride = provider;
+  lastFetched.clear();
+}
+
+function activeProvider(): ExchangeRateProvider {
+  return providerOverride ?? RATE_PROVIDERS[getProfile().rateProvider ?? 'frankfurter'];
+}
+
+// --- Rate table ---
+
+function rateKey(r: { from: Currency; to: Currency; date: string }): string {
+  return `${r.from}/${r.to}/${r.date}`;
+}
+
+// Add or replace rates by pair and date. A manual rate is only replaced by
+// another manual one, so a correction survives later fetches and imports.
+export function recordRates(records: RateRecord[]): void {
+  const byKey = new Map(getRateTable().map((r) => [rateKey(r), r]));
+  for (const r of records) {
+    const existing = byKey.get(rateKey(r));
+    if (existing?.source === 'manual' && r.source !== 'manual') continue;
+    byKey.set(rateKey(r), r);
+  }
+  saveRateTable(Array.from(byKey.values()));
+}
+
+export function deleteRate(record: RateRecord): void {
+  const key = rateKey(record);
+  saveRateTable(getRateTable().filter((r) => rateKey(r) !== key));
+}
+
+interface RateIndex {
+  table: RateRecord[];
+  byPair: Map<string, RateRecord[]>; // 'FROM/TO' → records sorted by date
+  currencies: Set<Currency>;
+}
+
+let cachedIndex: RateIndex | null = null;
+
+function indexFor(table: RateRecord[]): RateIndex {
+  if (cachedIndex?.table === table) return cachedIndex;
+  const byPair = new Map<string, RateRecord[]>();
+  const currencies = new Set<Currency>();
+  for (const r of table) {
+    const pair = `${r.from}/${r.to}`;
+    const list = byPair.get(pair);
+    if (list) list.push(r);
+    else byPair.set(pair, [r]);
+    currencies.add(r.from);
+    currencies.add(r.to);
+  }
+  for (const list of byPair.values()) list.sort((a, b) => a.date.localeCompare(b.date));
+  cachedIndex = { table, byPair, currencies };
+  return cachedIndex;
+}
+
+// Latest record on or before `date`
+function nearestPrior(list: RateRecord[] | undefined, date: string): RateRecord | null {
+  if (!list) return null;
+  let lo = 0;
+  let hi = list.length - 1;
+  let found: RateRecord | null = null;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (list[mid].date <= date) {
+      found = list[mid];
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
 }
 
-type RateCache = Record<string, CacheEntry>;
+// Direct or inverted rate for a pair, whichever was recorded closer to `date`
+function pairRate(index: RateIndex, from: Currency, to: Currency, date: string): number | null {
+  const direct = nearestPrior(index.byPair.get(`${from}/${to}`), date);
+  const inverse = nearestPrior(index.byPair.get(`${to}/${from}`), date);
+  if (direct && (!inverse || direct.date >= inverse.date)) return direct.rate;
+  return inverse && inverse.rate > 0 ? 1 / inverse.rate : null;
+}
 
-function readCache(): RateCache {
-  try {
-    const raw = localStorage.getItem(CACHE_KEY);
-    return raw ? JSON.parse(raw) : {};
-  } catch {
-    return {};
+// Rate from `from` to `to` on `date`, falling back to the nearest earlier date.
+// Pairs missing from the table are crossed through a shared currency, e.g.
+// USD → GBP via EUR after an ECB import.
+export function lookupRate(table: RateRecord[], from: Currency, to: Currency, date: string): number | null {
+  if (from === to) return 1.0;
+  const index = indexFor(table);
+  const rate = pairRate(index, from, to, date);
+  if (rate != null) return rate;
+  for (const via of index.currencies) {
+    if (via === from || via === to) continue;
+    const first = pairRate(index, from, via, date);
+    const second = first != null ? pairRate(index, via, to, date) : null;
+    if (first != null && second != null) return first * second;
   }
+  return null;
 }
 
-function writeCache(cache: RateCache): void {
-  localStorage.setItem(CACHE_KEY, JSON.stringify(cache));
+// --- ECB file import ---
+
+// Rates from one of the ECB's eurofxref XML files (daily, 90-day or full
+// history), as EUR → currency records. Limited to `currencies` when given,
+// since the full history is large.
+export function parseEcbXml(xml: string, currencies?: Iterable<Currency>): RateRecord[] {
+  const wanted = currencies ? new Set(currencies) : null;
+  const records: RateRecord[] = [];
+  const dayPattern = /<Cube\s+time=["'](\d{4}-\d{2}-\d{2})["']\s*>([\s\S]*?)<\/Cube>/g;
+  const ratePattern = /<Cube\s+currency=["']([A-Z]{3})["']\s+rate=["']([\d.]+)["']\s*\/>/g;
+  for (const [, date, body] of xml.matchAll(dayPattern)) {
+    for (const [, currency, rate] of body.matchAll(ratePattern)) {
+      if (wanted && !wanted.has(currency)) continue;
+      records.push({ from: 'EUR', to: currency, date, rate: parseFloat(rate), source: 'imported' });
+    }
+  }
+  if (records.length === 0 && !dayPattern.test(xml)) {
+    throw new Error('This does not look like an ECB exchange rate file (eurofxref XML).');
+  }
+  return records;
 }
 
-export async function getExchangeRate(from: Currency, date?: string): Promise<number | null> {
-  if (from === 'USD') return 1.0;
+// --- Lookups ---
+
+// When each pair was last fetched: "latest" is fetched at most daily per
+// session, and a date the provider answered with an earlier day's rate (a
+// holiday) isn't asked about again
+const lastFetched = new Map<string, number>();
 
-  const cacheKey = `${from}-${date || 'latest'}`;
-  const cache = readCache();
-  const entry = cache[cacheKey];
+// True when nothing but a weekend lies between the rate's date and `date`, so
+// the provider would answer with that same rate
+function coversDate(record: RateRecord, date: string): boolean {
+  for (let d = addDays(record.date, 1); d <= date; d = addDays(d, 1)) {
+    const day = new Date(d + 'T00:00:00').getDay();
+    if (day !== 0 && day !== 6) return false;
+  }
+  return true;
+}
 
-  if (entry && (Date.now() - entry.fetchedAt) < STALE_MS) {
-    return entry.rate;
+// Rate from `from` to `to` on `date` (today when omitted). Asks the active
+// provider unless the table already has it, then answers from the table —
+// which falls back to the nearest earlier rate when the provider has none.
+export async function getExchangeRate(from: Currency, to: Currency, date?: string): Promise<number | null> {
+  if (from === to) return 1.0;
+
+  const provider = activeProvider();
+  const fetchKey = `${provider.id}:${from}/${to}/${date ?? 'latest'}`;
+  let known: boolean;
+  if (date) {
+    const prior = nearestPrior(indexFor(getRateTable()).byPair.get(`${from}/${to}`), date);
+    known = (prior != null && coversDate(prior, date)) || lastFetched.has(fetchKey);
+  } else {
+    known = Date.now() - (lastFetched.get(fetchKey) ?? 0) < STALE_MS;
   }
 
-  try {
-    const endpoint = date
-      ? `https://api.frankfurter.dev/v1/${date}?from=${from}&to=USD`
-      : `https://api.frankfurter.dev/v1/latest?from=${from}&to=USD`;
-    const res = await fetch(endpoint);
-    if (!res.ok) return entry?.rate ?? null;
-    const data = await res.json();
-    const rate = data.rates?.USD;
-    if (typeof rate !== 'number') return entry?.rate ?? null;
-
-    cache[cacheKey] = { rate, fetchedAt: Date.now() };
-    writeCache(cache);
-    return rate;
-  } catch {
-    return entry?.rate ?? null;
+  if (!known) {
+    const fetched = await provider.fetchRate(from, to, date).catch(() => null);
+    if (fetched) {
+      lastFetched.set(fetchKey, Date.now());
+      recordRates([{ from, to, date: fetched.date, rate: fetched.rate, source: 'fetched' }]);
+    }
   }
+
+  return lookupRate(getRateTable(), from, to, date ?? today());
 }
 
-export function convertToUSD(amount: number, _currency: Currency, rate: number | null): number | null {
+export function convertAmount(amount: number, rate: number | null | undefined): number | null {
   if (rate == null) return null;
   return amount * rate;
 }
 
-export async function preloadRates(): Promise<Record<Currency, number | null>> {
-  const [eurRate, gbpRate] = await Promise.all([
-    getExchangeRate('EUR'),
-    getExchangeRate('GBP'),
-  ]);
-  return { USD: 1, EUR: eurRate, GBP: gbpRate };
+// Rate recorded on an invoice or payment for converting into `to`, or null if
+// none was recorded for that currency
+export function recordedRate(record: { currency: Currency; exchangeRates?: Record<Currency, number> }, to: Currency): number | null {
+  if (record.currency === to) return 1.0;
+  return record.exchangeRates?.[to] ?? null;
+}
+
+// Latest rates into `to` for the given currencies, e.g. those on the user's
+// companies, invoices and expenses
+export async function preloadRates(currencies: Iterable<Currency>, to: Currency): Promise<Record<Currency, number | null>> {
+  const codes = [...new Set(currencies)].filter((c) => c !== to);
+  const rates = await Promise.all(codes.map((c) => getExchangeRate(c, to)));
+  const result: Record<Currency, number | null> = { [to]: 1 };
+  codes.forEach((c, i) => { result[c] = rates[i]; });
+  return result;
+}
+
+// --- Realized FX ---
+// A foreign-currency invoice is booked at the rate recorded when it was sent,
+// but each payment converts at the rate on the day it arrives. The difference
+// on the amount settled is a realized exchange gain (or loss).
+
+export interface RealizedFx {
+  settled: number;   // payments plus fees withheld, in the invoice currency
+  booked: number;    // `settled` at the invoice rate, in the reporting currency
+  received: number;  // `settled` at each payment's rate, in the reporting currency
+  gain: number;      // received - booked; negative for a loss
+  missingRates: number; // payments left out for lack of an invoice or payment rate
+}
+
+function emptyFx(): RealizedFx {
+  return { settled: 0, booked: 0, received: 0, gain: 0, missingRates: 0 };
+}
+
+function addPaymentFx(fx: RealizedFx, invoice: Invoice, payment: Payment, reporting: Currency): void {
+  const invoiceRate = recordedRate(invoice, reporting);
+  const paymentRate = recordedRate(payment, reporting);
+  if (invoiceRate == null || paymentRate == null) {
+    fx.missingRates++;
+    return;
+  }
+  const settled = amountApplied(payment);
+  fx.settled += settled;
+  fx.booked += settled * invoiceRate;
+  fx.received += settled * paymentRate;
+  fx.gain = fx.received - fx.booked;
+}
+
+// Realized FX on one invoice, or null when it is billed in the reporting currency
+export function realizedFx(invoice: Invoice, payments: Payment[], reporting: Currency): RealizedFx | null {
+  if (invoice.currency === reporting) return null;
+  const fx = emptyFx();
+  for (const p of invoicePayments(invoice, payments)) addPaymentFx(fx, invoice, p, reporting);
+  return fx;
+}
+
+export interface FxSummaryRow extends RealizedFx {
+  year: string;
+  currency: Currency;
+}
+
+// Realized FX by payment year and invoice currency, newest year first
+export function realizedFxByYear(invoices: Invoice[], payments: Payment[], reporting: Currency): FxSummaryRow[] {
+  const invoiceMap = new Map(invoices.map((i) => [i.id, i]));
+  const rows = new Map<string, FxSummaryRow>();
+  for (const p of payments) {
+    const invoice = invoiceMap.get(p.invoiceId);
+    if (!invoice || invoice.currency === reporting) continue;
+    const year = p.date.substring(0, 4);
+    const key = `${year}/${invoice.currency}`;
+    let row = rows.get(key);
+    if (!row) {
+      row = { year, currency: invoice.currency, ...emptyFx() };
+      rows.set(key, row);
+    }
+    addPaymentFx(row, invoice, p, reporting);
+  }
+  return Array.from(rows.values()).sort((a, b) => b.year.localeCompare(a.year) || a.currency.localeCompare(b.currency));
 }
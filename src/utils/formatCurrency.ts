@@ -1,19 +1,32 @@
 import type { Currency } from '../types';
 
-const formatters: Record<Currency, Intl.NumberFormat> = {
-  USD: new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }),
-  EUR: new Intl.NumberFormat('en-US', { style: 'currency', currency: 'EUR' }),
-  GBP: new Intl.NumberFormat('en-GB', { style: 'currency', currency: 'GBP' }),
-};
+const formatters = new Map<Currency, Intl.NumberFormat>();
+
+// Formatters are built on first use; en-GB for pounds so they read "£1,234.00"
+// the way UK clients expect, en-US otherwise. Intl supplies each currency's
+// decimal places (none for JPY) and symbol.
+function formatterFor(currency: Currency): Intl.NumberFormat {
+  let formatter = formatters.get(currency);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(currency === 'GBP' ? 'en-GB' : 'en-US', { style: 'currency', currency });
+    formatters.set(currency, formatter);
+  }
+  return formatter;
+}
 
 export function formatCurrency(amount: number, currency: Currency): string {
-  return formatters[currency].format(amount);
+  return formatterFor(currency).format(amount);
 }
 
-const currencySymbols: Record<Currency, string> = { USD: '$', EUR: '\u20AC', GBP: '\u00A3' };
+// '$', '€', 'CA$', 'CHF', ...
+export function currencySymbol(currency: Currency): string {
+  return formatterFor(currency).formatToParts(0).find((p) => p.type === 'currency')?.value ?? currency;
+}
 
 export function formatCurrencyShort(amount: number, currency: Currency): string {
-  const sym = currencySymbols[currency];
+  const symbol = currencySymbol(currency);
+  // Letter symbols like 'CHF' need a space before the number
+  const sym = /[A-Za-z]$/.test(symbol) ? `${symbol} ` : symbol;
   if (amount >= 1000) {
     return `${sym}${(amount / 1000).toFixed(1)}k`;
   }
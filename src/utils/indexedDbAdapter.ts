@@ -0,0 +1,101 @@
+import { COLLECTION_NAMES } from './storageAdapter';
+import type { StorageAdapter } from './storageAdapter';
+
+const DB_NAME = 'consulting-tracker';
+const DB_VERSION = 4; // 2: payments store, 3: receipts store, 4: estimated tax payments store
+const META_STORE = 'meta';
+// Receipt files, kept out of the collections: they're never synced to Sheets
+// and are too big to hold in memory
+export const RECEIPTS_STORE = 'receipts';
+
+export function promisify<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
+
+// An upgrade waits while a tab running the previous version holds the database
+// open; `onBlocked` lets the caller ask the user to close it. The open then
+// completes by itself once that tab is gone.
+export function openDatabase(onBlocked?: () => void): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    // Object store layout only — data-shape changes go through storageMigrations.ts
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      for (const name of COLLECTION_NAMES) {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath: 'id' });
+        }
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+      }
+      if (!db.objectStoreNames.contains(RECEIPTS_STORE)) {
+        db.createObjectStore(RECEIPTS_STORE, { keyPath: 'id' });
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+    req.onblocked = () => onBlocked?.();
+  });
+}
+
+// Readwrite transactions on the same store run in the order they were created,
+// so fire-and-forget puts from storage.ts land in call order.
+export async function openIndexedDbAdapter(onBlocked?: () => void): Promise<StorageAdapter> {
+  const db = await openDatabase(onBlocked);
+
+  return {
+    name: 'IndexedDB',
+
+    async getAll(collection) {
+      const tx = db.transaction(collection, 'readonly');
+      return promisify(tx.objectStore(collection).getAll());
+    },
+
+    async put(collection, record) {
+      const tx = db.transaction(collection, 'readwrite');
+      tx.objectStore(collection).put(record);
+      await transactionDone(tx);
+    },
+
+    async remove(collection, id) {
+      const tx = db.transaction(collection, 'readwrite');
+      tx.objectStore(collection).delete(id);
+      await transactionDone(tx);
+    },
+
+    async replaceAll(collection, records) {
+      const tx = db.transaction(collection, 'readwrite');
+      const store = tx.objectStore(collection);
+      store.clear();
+      for (const record of records) store.put(record);
+      await transactionDone(tx);
+    },
+
+    async getValue<T>(key: string) {
+      const tx = db.transaction(META_STORE, 'readonly');
+      return (await promisify(tx.objectStore(META_STORE).get(key))) as T | undefined;
+    },
+
+    async setValue(key, value) {
+      const tx = db.transaction(META_STORE, 'readwrite');
+      tx.objectStore(META_STORE).put(value, key);
+      await transactionDone(tx);
+    },
+  };
+}
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { Packer } from 'docx';
+import JSZip from 'jszip';
+import type { Company, Invoice, Project, TimeEntry } from '../types';
+import type { BusinessProfile } from './storage';
+import type { InvoiceDocument } from './invoiceDocument';
+import { buildInvoiceDocument } from './invoiceDocument';
+import { renderInvoiceHtml } from './invoiceHtml';
+import { buildInvoiceDocx } from './invoiceDocx';
+
+// Both renderers draw the line table from the same InvoiceDocument, so the
+// printed page and the Word file must show the same lines and totals.
+
+const stamp = '2025-03-01T09:00:00.000Z';
+
+const profile: BusinessProfile = {
+  name: 'Jo Consulting LLC',
+  address: '1 Main St\nSpringfield',
+  email: 'jo@example.com',
+  phone: '',
+  ein: '12-3456789',
+  bankName: 'Chase',
+};
+
+const company: Company = {
+  id: 'c1',
+  name: 'Acme GmbH',
+  currency: 'EUR',
+  billingType: 'hourly',
+  hourlyRate: 100,
+  invoiceRequired: true,
+  billingAddress: 'Hauptstr. 1\n10115 Berlin',
+  isActive: true,
+  createdAt: stamp,
+  updatedAt: stamp,
+};
+
+const projects: Project[] = [
+  { id: 'p1', companyId: 'c1', name: 'Website & App', isActive: true, createdAt: stamp, updatedAt: stamp },
+];
+
+function entry(id: string, date: string, hours: number, projectId?: string): TimeEntry {
+  return { id, companyId: 'c1', projectId, date, hours, description: `Work <${id}>`, createdAt: stamp, updatedAt: stamp };
+}
+
+const entries = [
+  entry('t1', '2025-03-03', 2, 'p1'),
+  entry('t2', '2025-03-05', 1.5, 'p1'),
+  entry('t3', '2025-03-11', 3, 'p1'),
+  entry('t4', '2025-03-12', 4),
+];
+
+const hourly: Invoice = {
+  id: 'i1',
+  companyId: 'c1',
+  invoiceNumber: '2025-007',
+  invoiceDate: '2025-03-31',
+  dueDate: '2025-04-30',
+  timeEntryIds: ['t1', 't2', 't3', 't4'],
+  totalHours: 10.5,
+  totalAmount: 1582.7,
+  netAmount: 1390,
+  taxAmount: 192.7,
+  taxLines: [
+    { taxRateId: 'de-vat', name: 'DE VAT', rate: 19, net: 960, tax: 182.4 },
+    { taxRateId: 'de-reduced', name: 'DE VAT reduced', rate: 7, net: 430, tax: 30.1 },
+  ],
+  currency: 'EUR',
+  rateUsed: 100,
+  entryRates: { t4: 120 },
+  status: 'sent',
+  billingType: 'hourly',
+  lineItems: [
+    { id: 'li1', description: 'Setup fee', quantity: 2, unitPrice: 50, amount: 100 },
+    { id: 'li2', description: 'Train to Berlin', amount: 240, expenseId: 'e1' },
+  ],
+  notes: 'Thank you!',
+  createdAt: stamp,
+  updatedAt: stamp,
+};
+
+const detailed: Invoice = { ...hourly, id: 'i2', detailLevel: 'detailed' };
+
+const retainer: Invoice = {
+  id: 'i3',
+  companyId: 'c1',
+  invoiceNumber: '2025-008',
+  invoiceDate: '2025-04-01',
+  timeEntryIds: [],
+  totalHours: 0,
+  totalAmount: 5100,
+  currency: 'EUR',
+  rateUsed: 5000,
+  status: 'draft',
+  billingType: 'fixed_monthly',
+  retainerMonth: '2025-04',
+  lineItems: [{ id: 'li3', description: 'Hosting', amount: 100 }],
+  createdAt: stamp,
+  updatedAt: stamp,
+};
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// Each row of the line table as its cell texts joined with ' | '
+function htmlTableRows(html: string): string[] {
+  const table = html.match(/<table>([\s\S]*?)<\/table>/)![1];
+  return [...table.matchAll(/<tr>([\s\S]*?)<\/tr>/g)].map((tr) =>
+    [...tr[1].matchAll(/<t[hd][^>]*>([\s\S]*?)<\/t[hd]>/g)].map((cell) => decodeEntities(cell[1])).join(' | '));
+}
+
+async function docxTableRows(doc: InvoiceDocument): Promise<string[]> {
+  const zip = await JSZip.loadAsync(await Packer.toBuffer(await buildInvoiceDocx(doc)));
+  const xml = await zip.file('word/document.xml')!.async('string');
+  // Header and parties come first; the line table is the third
+  const table = xml.split('<w:tbl>')[3];
+  return [...table.matchAll(/<w:tr>([\s\S]*?)<\/w:tr>/g)].map((tr) =>
+    [...tr[1].matchAll(/<w:tc>([\s\S]*?)<\/w:tc>/g)]
+      .map((tc) => [...tc[1].matchAll(/<w:t(?: [^>]*)?>([\s\S]*?)<\/w:t>/g)].map((t) => decodeEntities(t[1])).join(''))
+      .join(' | '));
+}
+
+describe('invoice renderers', () => {
+  it.each([
+    ['hourly, grouped by project and week', hourly],
+    ['detailed', detailed],
+    ['retainer', retainer],
+  ])('show the same lines and totals for a %s invoice', async (_, invoice) => {
+    const doc = buildInvoiceDocument(invoice, company, entries, projects, profile);
+    const html = htmlTableRows(renderInvoiceHtml(doc, { print: false }));
+    expect(await docxTableRows(doc)).toEqual(html);
+    expect(html).toMatchSnapshot();
+  });
+
+  it('leave out the hours column in both when the template hides it', async () => {
+    const noHours = { ...profile, invoiceTemplates: [{ id: 't', name: 'No hours', accentColor: '#000000', font: 'sans' as const, headingText: 'INVOICE', showBankDetails: true, showHoursColumn: false, showRateLine: true }], defaultInvoiceTemplateId: 't' };
+    const doc = buildInvoiceDocument(hourly, company, entries, projects, noHours);
+    expect(doc.columns.map((c) => c.label)).toEqual(['Description', 'Amount']);
+    expect(htmlTableRows(renderInvoiceHtml(doc, { print: false }))[0]).toBe('Description | Amount');
+    expect((await docxTableRows(doc))[0]).toBe('Description | Amount');
+  });
+});
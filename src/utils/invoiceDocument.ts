@@ -0,0 +1,370 @@
+import type { Invoice, Company, TimeEntry, Project, LineItem, Currency, InvoiceTemplate, TemplateFont } from '../types';
+import { DEFAULT_INVOICE_TEMPLATE } from '../types';
+import type { BusinessProfile } from './storage';
+import { formatDate, getMonthLabel, getMondayDate } from './dateUtils';
+import { formatCurrency, formatHours } from './formatCurrency';
+import { isReverseCharge, taxRateLabel } from './tax';
+import { invoiceEntryRate } from './calculations';
+import { isCreditNote, billedEntryIds } from './creditNotes';
+
+// Render-agnostic description of a printed invoice. Every value is already
+// formatted, so each renderer only decides how things look, never what they say.
+
+export type CellAlign = 'left' | 'right';
+
+export interface DocumentColumn {
+  label: string;
+  align: CellAlign;
+  width: number; // percent of the table width
+}
+
+export interface DocumentRow {
+  kind: 'group' | 'line' | 'item';
+  // One cell per column, except that the first cell spans `span` columns
+  cells: string[];
+  span?: number;
+  indent?: boolean;
+  muted?: boolean; // first cell de-emphasized (dates, week labels)
+}
+
+export interface DocumentStyle {
+  accentColor: string; // RRGGBB, no '#'
+  font: TemplateFont;
+  logoDataUrl?: string;
+}
+
+export interface InvoiceDocument {
+  style: DocumentStyle;
+  title: string;
+  filename: string; // without extension
+  from: { name?: string; lines: string[] };
+  billTo: { name: string; addressLines: string[] };
+  details: { label: string; value: string }[];
+  columns: DocumentColumn[];
+  rows: DocumentRow[];
+  subtotals: DocumentRow[]; // subtotal and tax lines above the total, when taxed
+  total: DocumentRow;
+  notes?: string;
+  vatNotice?: string;
+  paymentInfo: string[];
+  footer?: string;
+}
+
+export const DEFAULT_VAT_NOTICE = 'Reverse charge applies — recipient is liable for VAT under Articles 44 and 196 of EU VAT Directive 2006/112/EC.';
+
+export interface WeekLine {
+  mondayDate: string;
+  hours: number;
+  amount: number;
+}
+
+export interface ProjectGroup {
+  projectName: string | null;
+  weeks: WeekLine[];
+  totalHours: number;
+  totalAmount: number;
+}
+
+export interface DetailedLine {
+  date: string;
+  projectName: string | null;
+  description: string;
+  hours: number;
+  amount: number;
+}
+
+// `rateFor` gives the rate each entry was billed at (see invoiceEntryRate)
+export function groupEntriesByProjectAndWeek(
+  entries: TimeEntry[],
+  projectMap: Map<string, Project>,
+  rateFor: (entry: TimeEntry) => number,
+): ProjectGroup[] {
+  // Group by projectId ('' for no project)
+  const byProject = new Map<string, TimeEntry[]>();
+  for (const e of entries) {
+    const key = e.projectId || '';
+    const arr = byProject.get(key) || [];
+    arr.push(e);
+    byProject.set(key, arr);
+  }
+
+  const groups: ProjectGroup[] = [];
+
+  // Named projects first (sorted), then no-project group
+  const projectIds = Array.from(byProject.keys()).sort((a, b) => {
+    if (a === '') return 1;
+    if (b === '') return -1;
+    const nameA = projectMap.get(a)?.name || '';
+    const nameB = projectMap.get(b)?.name || '';
+    return nameA.localeCompare(nameB);
+  });
+
+  for (const pid of projectIds) {
+    const projectEntries = byProject.get(pid)!;
+    const projectName = pid ? (projectMap.get(pid)?.name || 'Unknown Project') : null;
+
+    // Group by week (Monday date)
+    const byWeek = new Map<string, { hours: number; amount: number }>();
+    for (const e of projectEntries) {
+      const monday = getMondayDate(e.date);
+      const existing = byWeek.get(monday) || { hours: 0, amount: 0 };
+      existing.hours += e.hours;
+      existing.amount += e.fixedAmount != null ? e.fixedAmount : e.hours * rateFor(e);
+      byWeek.set(monday, existing);
+    }
+
+    const weeks = Array.from(byWeek.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([mondayDate, data]) => ({ mondayDate, ...data }));
+
+    const totalHours = weeks.reduce((s, w) => s + w.hours, 0);
+    const totalAmount = weeks.reduce((s, w) => s + w.amount, 0);
+
+    groups.push({ projectName, weeks, totalHours, totalAmount });
+  }
+
+  return groups;
+}
+
+export function buildDetailedLines(
+  entries: TimeEntry[],
+  projectMap: Map<string, Project>,
+  rateFor: (entry: TimeEntry) => number,
+): DetailedLine[] {
+  return entries.map((e) => ({
+    date: e.date,
+    projectName: e.projectId ? (projectMap.get(e.projectId)?.name || null) : null,
+    description: e.description,
+    hours: e.hours,
+    amount: e.fixedAmount != null ? e.fixedAmount : e.hours * rateFor(e),
+  }));
+}
+
+// A company's own template, else the profile default, else the built-in layout
+export function resolveInvoiceTemplate(profile: BusinessProfile, company: Company | undefined): InvoiceTemplate {
+  const templates = profile.invoiceTemplates || [];
+  return templates.find((t) => t.id === company?.invoiceTemplateId)
+    ?? templates.find((t) => t.id === profile.defaultInvoiceTemplateId)
+    ?? DEFAULT_INVOICE_TEMPLATE;
+}
+
+function lineItemText(li: LineItem, currency: Currency): string {
+  const detail = li.quantity && li.unitPrice ? ` (${li.quantity} × ${formatCurrency(li.unitPrice, currency)})` : '';
+  return li.description + detail;
+}
+
+function splitLines(text: string | undefined): string[] {
+  return text && text.trim() ? text.split('\n') : [];
+}
+
+export function buildInvoiceDocument(
+  invoice: Invoice,
+  company: Company | undefined,
+  entries: TimeEntry[],
+  projects: Project[],
+  profile: BusinessProfile,
+  template: InvoiceTemplate = resolveInvoiceTemplate(profile, company),
+): InvoiceDocument {
+  const currency = invoice.currency;
+  const money = (amount: number) => formatCurrency(amount, currency);
+  const companyName = company?.name || 'Unknown';
+  const isRetainer = invoice.billingType === 'fixed_monthly';
+  const isCredit = isCreditNote(invoice);
+  const projectMap = new Map(projects.map((p) => [p.id, p]));
+  // A voided invoice still shows the work it billed, even once released
+  const entryIds = billedEntryIds(invoice);
+  const invoiceEntries = entries
+    .filter((e) => entryIds.includes(e.id))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const rateFor = (entry: TimeEntry) => invoiceEntryRate(invoice, entry);
+  const totalHours = formatHours(invoice.totalHours);
+  const totalAmount = money(invoice.totalAmount);
+  // Hours are left out entirely when the template hides that column, and on
+  // credit notes, which bill none
+  const showHours = template.showHoursColumn && !isCredit;
+  const hours = (value: string) => (showHours ? [value] : []);
+
+  let columns: DocumentColumn[];
+  const rows: DocumentRow[] = [];
+  let total: DocumentRow;
+  // Builds a row shaped like the total row, for the subtotal and tax lines
+  let summaryRow: (label: string, amount: string) => DocumentRow;
+  let itemRow: (li: LineItem) => DocumentRow;
+
+  if (isRetainer) {
+    const monthLabel = invoice.retainerMonth ? getMonthLabel(invoice.retainerMonth + '-01') : '';
+    columns = [
+      { label: 'Description', align: 'left', width: 70 },
+      { label: 'Amount', align: 'right', width: 30 },
+    ];
+    rows.push({ kind: 'line', cells: [`Monthly advisory retainer — ${monthLabel}`, money(invoice.rateUsed)] });
+    itemRow = (li) => ({ kind: 'item', cells: [lineItemText(li, currency), money(li.amount)] });
+    total = { kind: 'line', cells: ['Total', totalAmount] };
+    summaryRow = (label, amount) => ({ kind: 'line', cells: [label, amount] });
+  } else if (invoice.detailLevel === 'detailed') {
+    columns = [
+      { label: 'Date', align: 'left', width: 15 },
+      { label: 'Description', align: 'left', width: showHours ? 45 : 60 },
+      ...(showHours ? [{ label: 'Hours', align: 'right' as const, width: 15 }] : []),
+      { label: 'Amount', align: 'right', width: 25 },
+    ];
+    for (const line of buildDetailedLines(invoiceEntries, projectMap, rateFor)) {
+      const desc = line.projectName ? `${line.projectName}: ${line.description}` : line.description;
+      rows.push({ kind: 'line', cells: [formatDate(line.date), desc, ...hours(formatHours(line.hours)), money(line.amount)], muted: true });
+    }
+    itemRow = (li) => ({ kind: 'item', cells: [lineItemText(li, currency), ...hours(''), money(li.amount)], span: 2 });
+    total = { kind: 'line', cells: ['Total', ...hours(totalHours), totalAmount], span: 2 };
+    summaryRow = (label, amount) => ({ kind: 'line', cells: [label, ...hours(''), amount], span: 2 });
+  } else {
+    columns = [
+      { label: 'Description', align: 'left', width: showHours ? 60 : 75 },
+      ...(showHours ? [{ label: 'Hours', align: 'right' as const, width: 15 }] : []),
+      { label: 'Amount', align: 'right', width: 25 },
+    ];
+    for (const group of groupEntriesByProjectAndWeek(invoiceEntries, projectMap, rateFor)) {
+      if (group.projectName) {
+        rows.push({ kind: 'group', cells: [group.projectName], span: columns.length });
+      }
+      for (const week of group.weeks) {
+        rows.push({
+          kind: 'line',
+          cells: [`Week of ${formatDate(week.mondayDate)}`, ...hours(formatHours(week.hours)), money(week.amount)],
+          indent: !!group.projectName,
+          muted: true,
+        });
+      }
+    }
+    itemRow = (li) => ({ kind: 'item', cells: [lineItemText(li, currency), ...hours(''), money(li.amount)] });
+    total = { kind: 'line', cells: ['Total', ...hours(totalHours), totalAmount] };
+    summaryRow = (label, amount) => ({ kind: 'line', cells: [label, ...hours(''), amount] });
+  }
+
+  // Line items, then billed expenses in a section of their own
+  const lineItems = invoice.lineItems || [];
+  for (const li of lineItems.filter((item) => !item.expenseId)) rows.push(itemRow(li));
+  const expenseItems = lineItems.filter((item) => item.expenseId);
+  if (expenseItems.length > 0) {
+    rows.push({ kind: 'group', cells: ['Expenses'], span: columns.length });
+    for (const li of expenseItems) rows.push(itemRow(li));
+  }
+
+  const subtotals: DocumentRow[] = [];
+  const taxLines = invoice.taxLines || [];
+  if (taxLines.length > 0 && invoice.netAmount != null) {
+    subtotals.push(summaryRow('Subtotal', money(invoice.netAmount)));
+    for (const line of taxLines) {
+      // Say what each rate applies to when more than one rate is in play
+      const base = taxLines.length > 1 ? ` on ${money(line.net)}` : '';
+      subtotals.push(summaryRow(taxRateLabel(line) + base, money(line.tax)));
+    }
+  }
+
+  const fromLines = [...splitLines(profile.address)];
+  if (profile.email) fromLines.push(profile.email);
+  if (profile.phone) fromLines.push(profile.phone);
+
+  let vatNotice: string | undefined;
+  if (isReverseCharge(invoice, company, profile.taxRates || [])) {
+    const base = company?.vatNoticeText?.trim() || DEFAULT_VAT_NOTICE;
+    vatNotice = `${base}${profile.ein ? ` Supplier Tax ID (EIN): ${profile.ein}` : ''}`;
+  }
+
+  const paymentInfo: string[] = [];
+  if (template.showBankDetails) {
+    if (profile.ein) paymentInfo.push(`EIN: ${profile.ein}`);
+    if (profile.bankName) paymentInfo.push(`Bank: ${profile.bankName}`);
+    if (profile.accountName) paymentInfo.push(`Account Name: ${profile.accountName}`);
+    if (profile.routingNumber) paymentInfo.push(`Routing #: ${profile.routingNumber}`);
+    if (profile.accountNumber) paymentInfo.push(`Account #: ${profile.accountNumber}`);
+    if (profile.swiftCode) paymentInfo.push(`SWIFT: ${profile.swiftCode}`);
+  }
+
+  const safeName = companyName.replace(/[^a-zA-Z0-9_-]/g, '_');
+
+  const details = [
+    { label: isCredit ? 'Credit Note #' : 'Invoice #', value: invoice.invoiceNumber || '—' },
+    { label: 'Date', value: formatDate(invoice.invoiceDate) },
+  ];
+  if (invoice.dueDate) {
+    details.push({ label: 'Due Date', value: formatDate(invoice.dueDate) });
+  }
+  if (invoice.voidedAt) {
+    details.push({ label: 'Voided', value: formatDate(invoice.voidedAt) });
+  }
+  if (template.showRateLine && !isCredit) {
+    details.push({ label: 'Rate', value: isRetainer ? 'Monthly Retainer' : invoice.entryRates ? 'Varies by project/date' : `${money(invoice.rateUsed)}/hr` });
+  }
+
+  const accent = template.accentColor.replace('#', '');
+
+  return {
+    style: {
+      accentColor: /^[0-9a-f]{6}$/i.test(accent) ? accent.toUpperCase() : '222222',
+      font: template.font,
+      logoDataUrl: template.logoDataUrl,
+    },
+    title: isCredit ? 'CREDIT NOTE' : template.headingText.trim() || 'INVOICE',
+    filename: `${isCredit ? 'Credit-Note' : 'Invoice'}-${invoice.invoiceNumber || 'draft'}-${safeName}`,
+    from: { name: profile.name || undefined, lines: fromLines },
+    billTo: { name: companyName, addressLines: splitLines(company?.billingAddress) },
+    details,
+    columns,
+    rows,
+    subtotals,
+    total,
+    notes: invoice.notes || undefined,
+    vatNotice,
+    paymentInfo,
+    footer: template.footerText?.trim() || undefined,
+  };
+}
+
+// Decoded JPEG logo with its pixel size, for renderers that embed the bytes
+export interface LogoImage {
+  bytes: Uint8Array;
+  width: number;
+  height: number;
+  components: number;
+}
+
+export function decodeLogo(dataUrl: string | undefined): LogoImage | null {
+  const match = dataUrl?.match(/^data:image\/jpeg;base64,(.+)$/);
+  if (!match) return null;
+  const binary = atob(match[1]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+
+  // Walk the JPEG segments up to the start-of-frame header holding the size
+  let i = 2;
+  while (i + 9 < bytes.length && bytes[i] === 0xff) {
+    const marker = bytes[i + 1];
+    const length = (bytes[i + 2] << 8) | bytes[i + 3];
+    const isFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isFrame) {
+      return {
+        bytes,
+        height: (bytes[i + 5] << 8) | bytes[i + 6],
+        width: (bytes[i + 7] << 8) | bytes[i + 8],
+        components: bytes[i + 9],
+      };
+    }
+    i += 2 + length;
+  }
+  return null;
+}
+
+// Fit a logo inside a box, keeping its aspect ratio
+export function logoSize(logo: LogoImage, maxWidth: number, maxHeight: number): { width: number; height: number } {
+  const scale = Math.min(maxWidth / logo.width, maxHeight / logo.height, 1);
+  return { width: logo.width * scale, height: logo.height * scale };
+}
+
+// Save a generated file through a temporary download link
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -1,53 +1,26 @@
-import type { Invoice, Currency, LineItem } from '../types';
-import type { BusinessProfile } from './storage';
+import type { InvoiceDocument, DocumentRow } from './invoiceDocument';
+import { downloadBlob, decodeLogo, logoSize } from './invoiceDocument';
+import type { TemplateFont } from '../types';
+import type { Document as WordDocument } from 'docx';
 
-interface WeekLine {
-  mondayDate: string;
-  hours: number;
-  amount: number;
-}
-
-interface ProjectGroup {
-  projectName: string | null;
-  weeks: WeekLine[];
-  totalHours: number;
-  totalAmount: number;
-}
+const DOCX_FONTS: Record<TemplateFont, string> = { sans: 'Calibri', serif: 'Cambria', mono: 'Consolas' };
 
-interface DetailedLine {
-  date: string;
-  projectName: string | null;
-  description: string;
-  hours: number;
-  amount: number;
+export async function generateInvoiceDocx(doc: InvoiceDocument): Promise<void> {
+  const { Packer } = await import('docx');
+  const blob = await Packer.toBlob(await buildInvoiceDocx(doc));
+  downloadBlob(blob, `${doc.filename}.docx`);
 }
 
-export async function generateInvoiceDocx(
-  invoice: Invoice,
-  companyName: string,
-  billingAddress: string | undefined,
-  groups: ProjectGroup[],
-  totalHoursStr: string,
-  totalAmountStr: string,
-  rateStr: string,
-  currency: Currency,
-  profile: BusinessProfile,
-  isRetainer: boolean,
-  vatReverseCharge: boolean,
-  vatNoticeText: string | undefined,
-  retainerLine?: { description: string; amount: string },
-  notes?: string,
-  lineItems?: LineItem[],
-  detailedLines?: DetailedLine[],
-): Promise<void> {
+// The Word document itself, before it is packed into a file
+export async function buildInvoiceDocx(doc: InvoiceDocument): Promise<WordDocument> {
   const {
-    Document, Packer, Paragraph, Table, TableRow, TableCell,
-    TextRun, WidthType, AlignmentType, BorderStyle,
+    Document, Paragraph, Table, TableRow, TableCell,
+    TextRun, ImageRun, WidthType, AlignmentType, BorderStyle,
     TableLayoutType,
   } = await import('docx');
 
-  const formatDateLocal = (await import('./dateUtils')).formatDate;
-  const { formatCurrency: fmtCurrency, formatHours } = await import('./formatCurrency');
+  const font = DOCX_FONTS[doc.style.font];
+  const accent = doc.style.accentColor;
 
   const noBorders = {
     top: { style: BorderStyle.NONE, size: 0 },
@@ -64,7 +37,7 @@ export async function generateInvoiceDocx(
   };
 
   const thickTopBorder = {
-    top: { style: BorderStyle.SINGLE, size: 3, color: 'BBBBBB' },
+    top: { style: BorderStyle.SINGLE, size: 3, color: accent },
     bottom: { style: BorderStyle.SINGLE, size: 1, color: 'DDDDDD' },
     left: { style: BorderStyle.SINGLE, size: 1, color: 'DDDDDD' },
     right: { style: BorderStyle.SINGLE, size: 1, color: 'DDDDDD' },
@@ -72,21 +45,22 @@ export async function generateInvoiceDocx(
 
   // --- Header: "INVOICE" left, profile info right ---
   const profileLines: InstanceType<typeof TextRun>[] = [];
-  if (profile.name) {
-    profileLines.push(new TextRun({ text: profile.name, bold: true, size: 26, font: 'Calibri' }));
-  }
-  if (profile.address) {
-    for (const line of profile.address.split('\n')) {
-      profileLines.push(new TextRun({ break: 1, text: line, size: 20, color: '666666', font: 'Calibri' }));
-    }
+  if (doc.from.name) {
+    profileLines.push(new TextRun({ text: doc.from.name, bold: true, size: 26, font }));
   }
-  if (profile.email) {
-    profileLines.push(new TextRun({ break: 1, text: profile.email, size: 20, color: '666666', font: 'Calibri' }));
-  }
-  if (profile.phone) {
-    profileLines.push(new TextRun({ break: 1, text: profile.phone, size: 20, color: '666666', font: 'Calibri' }));
+  for (const line of doc.from.lines) {
+    profileLines.push(new TextRun({ break: profileLines.length > 0 ? 1 : undefined, text: line, size: 20, color: '666666', font }));
   }
 
+  // Logo above the heading, scaled to the same 220×64 px box as the printed page
+  const logo = decodeLogo(doc.style.logoDataUrl);
+  const logoParagraphs = logo ? [
+    new Paragraph({
+      spacing: { after: 120 },
+      children: [new ImageRun({ type: 'jpg', data: logo.bytes, transformation: logoSize(logo, 220, 64) })],
+    }),
+  ] : [];
+
   const headerTable = new Table({
     layout: TableLayoutType.FIXED,
     width: { size: 100, type: WidthType.PERCENTAGE },
@@ -97,8 +71,9 @@ export async function generateInvoiceDocx(
             width: { size: 50, type: WidthType.PERCENTAGE },
             borders: noBorders,
             children: [
+              ...logoParagraphs,
               new Paragraph({
-                children: [new TextRun({ text: 'INVOICE', bold: true, size: 56, font: 'Calibri' })],
+                children: [new TextRun({ text: doc.title, bold: true, size: 56, color: accent, font })],
               }),
             ],
           }),
@@ -118,8 +93,6 @@ export async function generateInvoiceDocx(
   });
 
   // --- Parties: Bill To (left) | Invoice Details (right) ---
-  const rateLabel = isRetainer ? 'Monthly Retainer' : `${rateStr}/hr`;
-
   const partiesTable = new Table({
     layout: TableLayoutType.FIXED,
     width: { size: 100, type: WidthType.PERCENTAGE },
@@ -131,16 +104,16 @@ export async function generateInvoiceDocx(
             borders: noBorders,
             children: [
               new Paragraph({
-                children: [new TextRun({ text: 'BILL TO', size: 18, color: '888888', font: 'Calibri' })],
+                children: [new TextRun({ text: 'BILL TO', size: 18, color: '888888', font })],
               }),
               new Paragraph({
-                children: [new TextRun({ text: companyName, bold: true, size: 24, font: 'Calibri' })],
+                children: [new TextRun({ text: doc.billTo.name, bold: true, size: 24, font })],
               }),
-              ...((billingAddress && billingAddress.trim() ? billingAddress.split('\n') : []).map((line) =>
+              ...doc.billTo.addressLines.map((line) =>
                 new Paragraph({
-                  children: [new TextRun({ text: line, size: 20, color: '555555', font: 'Calibri' })],
+                  children: [new TextRun({ text: line, size: 20, color: '555555', font })],
                 })
-              )),
+              ),
             ],
           }),
           new TableCell({
@@ -149,29 +122,17 @@ export async function generateInvoiceDocx(
             children: [
               new Paragraph({
                 alignment: AlignmentType.RIGHT,
-                children: [new TextRun({ text: 'INVOICE DETAILS', size: 18, color: '888888', font: 'Calibri' })],
-              }),
-              new Paragraph({
-                alignment: AlignmentType.RIGHT,
-                children: [
-                  new TextRun({ text: 'Invoice #: ', color: '888888', size: 20, font: 'Calibri' }),
-                  new TextRun({ text: invoice.invoiceNumber || '\u2014', size: 20, font: 'Calibri' }),
-                ],
-              }),
-              new Paragraph({
-                alignment: AlignmentType.RIGHT,
-                children: [
-                  new TextRun({ text: 'Date: ', color: '888888', size: 20, font: 'Calibri' }),
-                  new TextRun({ text: formatDateLocal(invoice.invoiceDate), size: 20, font: 'Calibri' }),
-                ],
-              }),
-              new Paragraph({
-                alignment: AlignmentType.RIGHT,
-                children: [
-                  new TextRun({ text: 'Rate: ', color: '888888', size: 20, font: 'Calibri' }),
-                  new TextRun({ text: rateLabel, size: 20, font: 'Calibri' }),
-                ],
+                children: [new TextRun({ text: 'INVOICE DETAILS', size: 18, color: '888888', font })],
               }),
+              ...doc.details.map((d) =>
+                new Paragraph({
+                  alignment: AlignmentType.RIGHT,
+                  children: [
+                    new TextRun({ text: `${d.label}: `, color: '888888', size: 20, font }),
+                    new TextRun({ text: d.value, size: 20, font }),
+                  ],
+                })
+              ),
             ],
           }),
         ],
@@ -180,292 +141,44 @@ export async function generateInvoiceDocx(
   });
 
   // --- Line items table ---
-  const tableRows: InstanceType<typeof TableRow>[] = [];
+  const cellRuns = (text: string, opts: { bold?: boolean; color?: string } = {}) =>
+    [new TextRun({ text, size: 20, font, ...opts })];
 
-  if (isRetainer && retainerLine) {
-    // Header row
-    tableRows.push(
-      new TableRow({
-        children: [
-          new TableCell({
-            width: { size: 70, type: WidthType.PERCENTAGE },
-            borders: thinBorder,
-            shading: { fill: 'F5F5F5' },
-            children: [new Paragraph({ children: [new TextRun({ text: 'Description', bold: true, size: 20, font: 'Calibri' })] })],
-          }),
-          new TableCell({
-            width: { size: 30, type: WidthType.PERCENTAGE },
-            borders: thinBorder,
-            shading: { fill: 'F5F5F5' },
-            children: [new Paragraph({ alignment: AlignmentType.RIGHT, children: [new TextRun({ text: 'Amount', bold: true, size: 20, font: 'Calibri' })] })],
-          }),
-        ],
-      }),
-    );
-    // Data row
-    tableRows.push(
-      new TableRow({
-        children: [
-          new TableCell({
-            borders: thinBorder,
-            children: [new Paragraph({ children: [new TextRun({ text: retainerLine.description, size: 20, font: 'Calibri' })] })],
-          }),
-          new TableCell({
-            borders: thinBorder,
-            children: [new Paragraph({ alignment: AlignmentType.RIGHT, children: [new TextRun({ text: retainerLine.amount, size: 20, font: 'Calibri' })] })],
-          }),
-        ],
-      }),
-    );
-    // Line items
-    if (lineItems) {
-      for (const li of lineItems) {
-        const detail = li.quantity && li.unitPrice ? ` (${li.quantity} × ${fmtCurrency(li.unitPrice, currency)})` : '';
-        tableRows.push(
-          new TableRow({
-            children: [
-              new TableCell({
-                borders: thinBorder,
-                children: [new Paragraph({ children: [new TextRun({ text: li.description + detail, size: 20, font: 'Calibri' })] })],
-              }),
-              new TableCell({
-                borders: thinBorder,
-                children: [new Paragraph({ alignment: AlignmentType.RIGHT, children: [new TextRun({ text: fmtCurrency(li.amount, currency), size: 20, font: 'Calibri' })] })],
-              }),
-            ],
-          }),
-        );
-      }
-    }
-    // Totals footer
-    tableRows.push(
-      new TableRow({
-        children: [
-          new TableCell({
-            borders: thickTopBorder,
-            children: [new Paragraph({ children: [new TextRun({ text: 'Total', bold: true, size: 20, font: 'Calibri' })] })],
-          }),
-          new TableCell({
-            borders: thickTopBorder,
-            children: [new Paragraph({ alignment: AlignmentType.RIGHT, children: [new TextRun({ text: totalAmountStr, bold: true, size: 20, font: 'Calibri' })] })],
-          }),
-        ],
-      }),
-    );
-  } else if (detailedLines) {
-    // Header row — 4 columns: Date, Description, Hours, Amount
-    tableRows.push(
-      new TableRow({
-        children: [
-          new TableCell({
-            width: { size: 15, type: WidthType.PERCENTAGE },
-            borders: thinBorder,
-            shading: { fill: 'F5F5F5' },
-            children: [new Paragraph({ children: [new TextRun({ text: 'Date', bold: true, size: 20, font: 'Calibri' })] })],
-          }),
-          new TableCell({
-            width: { size: 45, type: WidthType.PERCENTAGE },
-            borders: thinBorder,
-            shading: { fill: 'F5F5F5' },
-            children: [new Paragraph({ children: [new TextRun({ text: 'Description', bold: true, size: 20, font: 'Calibri' })] })],
-          }),
-          new TableCell({
-            width: { size: 15, type: WidthType.PERCENTAGE },
-            borders: thinBorder,
-            shading: { fill: 'F5F5F5' },
-            children: [new Paragraph({ alignment: AlignmentType.RIGHT, children: [new TextRun({ text: 'Hours', bold: true, size: 20, font: 'Calibri' })] })],
-          }),
-          new TableCell({
-            width: { size: 25, type: WidthType.PERCENTAGE },
-            borders: thinBorder,
-            shading: { fill: 'F5F5F5' },
-            children: [new Paragraph({ alignment: AlignmentType.RIGHT, children: [new TextRun({ text: 'Amount', bold: true, size: 20, font: 'Calibri' })] })],
-          }),
-        ],
-      }),
-    );
-    // Individual entry rows
-    for (const line of detailedLines) {
-      const desc = line.projectName ? `${line.projectName}: ${line.description}` : line.description;
-      tableRows.push(
-        new TableRow({
-          children: [
-            new TableCell({
-              borders: thinBorder,
-              children: [new Paragraph({ children: [new TextRun({ text: formatDateLocal(line.date), size: 20, color: '555555', font: 'Calibri' })] })],
-            }),
-            new TableCell({
-              borders: thinBorder,
-              children: [new Paragraph({ children: [new TextRun({ text: desc, size: 20, font: 'Calibri' })] })],
-            }),
-            new TableCell({
-              borders: thinBorder,
-              children: [new Paragraph({ alignment: AlignmentType.RIGHT, children: [new TextRun({ text: formatHours(line.hours), size: 20, font: 'Calibri' })] })],
-            }),
-            new TableCell({
-              borders: thinBorder,
-              children: [new Paragraph({ alignment: AlignmentType.RIGHT, children: [new TextRun({ text: fmtCurrency(line.amount, currency), size: 20, font: 'Calibri' })] })],
-            }),
-          ],
-        }),
-      );
-    }
-    // Line items
-    if (lineItems) {
-      for (const li of lineItems) {
-        const detail = li.quantity && li.unitPrice ? ` (${li.quantity} × ${fmtCurrency(li.unitPrice, currency)})` : '';
-        tableRows.push(
-          new TableRow({
-            children: [
-              new TableCell({
-                columnSpan: 2,
-                borders: thinBorder,
-                children: [new Paragraph({ children: [new TextRun({ text: li.description + detail, size: 20, font: 'Calibri' })] })],
-              }),
-              new TableCell({
-                borders: thinBorder,
-                children: [new Paragraph({ alignment: AlignmentType.RIGHT, children: [new TextRun({ text: '', size: 20, font: 'Calibri' })] })],
-              }),
-              new TableCell({
-                borders: thinBorder,
-                children: [new Paragraph({ alignment: AlignmentType.RIGHT, children: [new TextRun({ text: fmtCurrency(li.amount, currency), size: 20, font: 'Calibri' })] })],
-              }),
-            ],
-          }),
-        );
-      }
-    }
-    // Totals footer
-    tableRows.push(
-      new TableRow({
-        children: [
-          new TableCell({
-            columnSpan: 2,
-            borders: thickTopBorder,
-            children: [new Paragraph({ children: [new TextRun({ text: 'Total', bold: true, size: 20, font: 'Calibri' })] })],
-          }),
-          new TableCell({
-            borders: thickTopBorder,
-            children: [new Paragraph({ alignment: AlignmentType.RIGHT, children: [new TextRun({ text: totalHoursStr, bold: true, size: 20, font: 'Calibri' })] })],
-          }),
-          new TableCell({
-            borders: thickTopBorder,
-            children: [new Paragraph({ alignment: AlignmentType.RIGHT, children: [new TextRun({ text: totalAmountStr, bold: true, size: 20, font: 'Calibri' })] })],
-          }),
-        ],
-      }),
-    );
-  } else {
-    // Header row — 3 columns: Description, Hours, Amount (weekly summary)
-    tableRows.push(
-      new TableRow({
-        children: [
-          new TableCell({
-            width: { size: 60, type: WidthType.PERCENTAGE },
-            borders: thinBorder,
-            shading: { fill: 'F5F5F5' },
-            children: [new Paragraph({ children: [new TextRun({ text: 'Description', bold: true, size: 20, font: 'Calibri' })] })],
-          }),
-          new TableCell({
-            width: { size: 15, type: WidthType.PERCENTAGE },
-            borders: thinBorder,
-            shading: { fill: 'F5F5F5' },
-            children: [new Paragraph({ alignment: AlignmentType.RIGHT, children: [new TextRun({ text: 'Hours', bold: true, size: 20, font: 'Calibri' })] })],
-          }),
-          new TableCell({
-            width: { size: 25, type: WidthType.PERCENTAGE },
-            borders: thinBorder,
-            shading: { fill: 'F5F5F5' },
-            children: [new Paragraph({ alignment: AlignmentType.RIGHT, children: [new TextRun({ text: 'Amount', bold: true, size: 20, font: 'Calibri' })] })],
-          }),
-        ],
-      }),
-    );
-    // Data rows grouped by project
-    for (const group of groups) {
-      if (group.projectName) {
-        tableRows.push(
-          new TableRow({
-            children: [
-              new TableCell({
-                columnSpan: 3,
-                borders: thinBorder,
-                shading: { fill: 'F9F9F9' },
-                children: [new Paragraph({ children: [new TextRun({ text: group.projectName, bold: true, size: 20, font: 'Calibri' })] })],
-              }),
-            ],
-          }),
-        );
-      }
-      for (const week of group.weeks) {
-        const weekLabel = `Week of ${formatDateLocal(week.mondayDate)}`;
-        tableRows.push(
-          new TableRow({
-            children: [
-              new TableCell({
-                borders: thinBorder,
-                children: [new Paragraph({
-                  indent: group.projectName ? { left: 360 } : undefined,
-                  children: [new TextRun({ text: weekLabel, size: 20, color: '555555', font: 'Calibri' })],
-                })],
-              }),
-              new TableCell({
-                borders: thinBorder,
-                children: [new Paragraph({ alignment: AlignmentType.RIGHT, children: [new TextRun({ text: formatHours(week.hours), size: 20, font: 'Calibri' })] })],
-              }),
-              new TableCell({
-                borders: thinBorder,
-                children: [new Paragraph({ alignment: AlignmentType.RIGHT, children: [new TextRun({ text: fmtCurrency(week.amount, currency), size: 20, font: 'Calibri' })] })],
-              }),
-            ],
-          }),
-        );
-      }
-    }
-    // Line items
-    if (lineItems) {
-      for (const li of lineItems) {
-        const detail = li.quantity && li.unitPrice ? ` (${li.quantity} × ${fmtCurrency(li.unitPrice, currency)})` : '';
-        tableRows.push(
-          new TableRow({
-            children: [
-              new TableCell({
-                borders: thinBorder,
-                children: [new Paragraph({ children: [new TextRun({ text: li.description + detail, size: 20, font: 'Calibri' })] })],
-              }),
-              new TableCell({
-                borders: thinBorder,
-                children: [new Paragraph({ alignment: AlignmentType.RIGHT, children: [new TextRun({ text: '', size: 20, font: 'Calibri' })] })],
-              }),
-              new TableCell({
-                borders: thinBorder,
-                children: [new Paragraph({ alignment: AlignmentType.RIGHT, children: [new TextRun({ text: fmtCurrency(li.amount, currency), size: 20, font: 'Calibri' })] })],
-              }),
-            ],
-          }),
-        );
-      }
-    }
-    // Totals footer
-    tableRows.push(
-      new TableRow({
-        children: [
-          new TableCell({
-            borders: thickTopBorder,
-            children: [new Paragraph({ children: [new TextRun({ text: 'Total', bold: true, size: 20, font: 'Calibri' })] })],
-          }),
-          new TableCell({
-            borders: thickTopBorder,
-            children: [new Paragraph({ alignment: AlignmentType.RIGHT, children: [new TextRun({ text: totalHoursStr, bold: true, size: 20, font: 'Calibri' })] })],
-          }),
-          new TableCell({
-            borders: thickTopBorder,
-            children: [new Paragraph({ alignment: AlignmentType.RIGHT, children: [new TextRun({ text: totalAmountStr, bold: true, size: 20, font: 'Calibri' })] })],
-          }),
-        ],
-      }),
-    );
-  }
+  const rowCells = (row: DocumentRow, borders: typeof thinBorder, bold = false) => {
+    const span = row.span ?? 1;
+    return row.cells.map((text, i) => {
+      const col = doc.columns[i === 0 ? 0 : i + span - 1];
+      return new TableCell({
+        columnSpan: i === 0 && span > 1 ? span : undefined,
+        borders,
+        shading: row.kind === 'group' ? { fill: 'F9F9F9' } : undefined,
+        children: [new Paragraph({
+          alignment: col.align === 'right' ? AlignmentType.RIGHT : undefined,
+          indent: i === 0 && row.indent ? { left: 360 } : undefined,
+          children: cellRuns(text, { bold: bold || row.kind === 'group', color: i === 0 && row.muted ? '555555' : undefined }),
+        })],
+      });
+    });
+  };
+
+  const tableRows = [
+    new TableRow({
+      children: doc.columns.map((col) =>
+        new TableCell({
+          width: { size: col.width, type: WidthType.PERCENTAGE },
+          borders: thinBorder,
+          shading: { fill: 'F5F5F5' },
+          children: [new Paragraph({
+            alignment: col.align === 'right' ? AlignmentType.RIGHT : undefined,
+            children: cellRuns(col.label, { bold: true }),
+          })],
+        })
+      ),
+    }),
+    ...doc.rows.map((row) => new TableRow({ children: rowCells(row, thinBorder) })),
+    ...doc.subtotals.map((row) => new TableRow({ children: rowCells(row, thinBorder) })),
+    new TableRow({ children: rowCells(doc.total, thickTopBorder, true) }),
+  ];
 
   const lineItemsTable = new Table({
     layout: TableLayoutType.FIXED,
@@ -475,20 +188,18 @@ export async function generateInvoiceDocx(
 
   // --- Notes ---
   const notesSection: InstanceType<typeof Paragraph>[] = [];
-  if (notes) {
+  if (doc.notes) {
     notesSection.push(
       new Paragraph({ spacing: { before: 300 }, children: [
-        new TextRun({ text: 'Notes: ', bold: true, size: 20, color: '666666', font: 'Calibri' }),
-        new TextRun({ text: notes, size: 20, color: '666666', font: 'Calibri' }),
+        new TextRun({ text: 'Notes: ', bold: true, size: 20, color: '666666', font }),
+        new TextRun({ text: doc.notes, size: 20, color: '666666', font }),
       ] }),
     );
   }
 
   // --- VAT Reverse Charge Notice ---
   const vatSection: InstanceType<typeof Paragraph>[] = [];
-  if (vatReverseCharge) {
-    const baseVatText = (vatNoticeText && vatNoticeText.trim()) || 'Reverse charge applies — recipient is liable for VAT under Articles 44 and 196 of EU VAT Directive 2006/112/EC.';
-    const vatText = `${baseVatText}${profile.ein ? ` Supplier Tax ID (EIN): ${profile.ein}` : ''}`;
+  if (doc.vatNotice) {
     vatSection.push(
       new Paragraph({
         spacing: { before: 300 },
@@ -500,41 +211,42 @@ export async function generateInvoiceDocx(
           right: { style: BorderStyle.SINGLE, size: 1, color: '93C5FD', space: 4 },
         },
         children: [
-          new TextRun({ text: 'VAT Notice: ', bold: true, size: 20, color: '0369A1', font: 'Calibri' }),
-          new TextRun({ text: vatText, size: 20, color: '0369A1', font: 'Calibri' }),
+          new TextRun({ text: 'VAT Notice: ', bold: true, size: 20, color: '0369A1', font }),
+          new TextRun({ text: doc.vatNotice, size: 20, color: '0369A1', font }),
         ],
       }),
     );
   }
 
   // --- Payment Information ---
-  const bankItems: string[] = [];
-  if (profile.ein) bankItems.push(`EIN: ${profile.ein}`);
-  if (profile.bankName) bankItems.push(`Bank: ${profile.bankName}`);
-  if (profile.accountName) bankItems.push(`Account Name: ${profile.accountName}`);
-  if (profile.routingNumber) bankItems.push(`Routing #: ${profile.routingNumber}`);
-  if (profile.accountNumber) bankItems.push(`Account #: ${profile.accountNumber}`);
-  if (profile.swiftCode) bankItems.push(`SWIFT: ${profile.swiftCode}`);
-
   const bankSection: InstanceType<typeof Paragraph>[] = [];
-  if (bankItems.length > 0) {
+  if (doc.paymentInfo.length > 0) {
     bankSection.push(
       new Paragraph({
         spacing: { before: 400 },
         border: { top: { style: BorderStyle.SINGLE, size: 1, color: 'DDDDDD', space: 8 } },
-        children: [new TextRun({ text: 'Payment Information', bold: true, size: 20, color: '555555', font: 'Calibri' })],
+        children: [new TextRun({ text: 'Payment Information', bold: true, size: 20, color: '555555', font })],
       }),
-      ...bankItems.map((item, idx) =>
+      ...doc.paymentInfo.map((item, idx) =>
         new Paragraph({
           spacing: { before: idx === 0 ? 100 : 40 },
-          children: [new TextRun({ text: item, size: 20, color: '555555', font: 'Calibri' })],
+          children: [new TextRun({ text: item, size: 20, color: '555555', font })],
         })
       ),
     );
   }
 
   // --- Build document ---
-  const doc = new Document({
+  // --- Footer ---
+  const footerSection = doc.footer ? doc.footer.split('\n').map((line, idx) =>
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      spacing: { before: idx === 0 ? 480 : 0 },
+      children: [new TextRun({ text: line, size: 18, color: '888888', font })],
+    })
+  ) : [];
+
+  return new Document({
     sections: [{
       properties: {
         page: {
@@ -550,19 +262,8 @@ export async function generateInvoiceDocx(
         ...notesSection,
         ...vatSection,
         ...bankSection,
+        ...footerSection,
       ],
     }],
   });
-
-  // Generate and download
-  const blob = await Packer.toBlob(doc);
-  const safeName = companyName.replace(/[^a-zA-Z0-9_-]/g, '_');
-  const filename = `Invoice-${invoice.invoiceNumber || 'draft'}-${safeName}.docx`;
-
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement('a');
-  a.href = url;
-  a.download = filename;
-  a.click();
-  URL.revokeObjectURL(url);
 }
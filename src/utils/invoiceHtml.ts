@@ -0,0 +1,111 @@
+import type { InvoiceDocument, DocumentRow, CellAlign } from './invoiceDocument';
+import type { TemplateFont } from '../types';
+
+function esc(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const FONT_STACKS: Record<TemplateFont, string> = {
+  sans: "-apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif",
+  serif: "Georgia, 'Times New Roman', serif",
+  mono: "Menlo, Consolas, 'Courier New', monospace",
+};
+
+const CELL = 'padding:6px 8px;border-bottom:1px solid #eee';
+
+function alignStyle(align: CellAlign): string {
+  return align === 'right' ? ';text-align:right' : '';
+}
+
+function rowHtml(doc: InvoiceDocument, row: DocumentRow, base: string): string {
+  const span = row.span ?? 1;
+  if (row.kind === 'group') {
+    return `<tr><td colspan="${span}" style="padding:10px 8px 4px;font-weight:600;border-bottom:1px solid #eee">${esc(row.cells[0])}</td></tr>`;
+  }
+  const cells = row.cells.map((text, i) => {
+    const col = doc.columns[i === 0 ? 0 : i + span - 1];
+    let style = base + alignStyle(col.align);
+    if (i === 0 && row.indent) style += ';padding-left:24px';
+    if (i === 0 && row.muted) style += ';color:#555';
+    const colspan = i === 0 && span > 1 ? ` colspan="${span}"` : '';
+    return `<td${colspan} style="${style}">${esc(text)}</td>`;
+  });
+  return `<tr>${cells.join('')}</tr>`;
+}
+
+// Printable HTML page. Opens the browser print dialog on load unless `print`
+// is off, as for the template preview.
+export function renderInvoiceHtml(doc: InvoiceDocument, { print = true } = {}): string {
+  const accent = `#${doc.style.accentColor}`;
+  const totalCell = `font-weight:600;border-top:2px solid ${accent};padding:8px`;
+  const headerCols = doc.columns
+    .map((c) => `<th${c.align === 'right' ? ' style="text-align:right"' : ''}>${esc(c.label)}</th>`)
+    .join('');
+
+  const bodyHtml = `
+<table>
+  <thead><tr>${headerCols}</tr></thead>
+  <tbody>${doc.rows.map((row) => rowHtml(doc, row, CELL)).join('')}</tbody>
+  <tfoot>${doc.subtotals.map((row) => rowHtml(doc, row, CELL)).join('')}${rowHtml(doc, doc.total, totalCell)}</tfoot>
+</table>`;
+
+  const profileHtml = doc.from.name || doc.from.lines.length > 0 ? `
+    <div class="from">
+      ${doc.from.name ? `<div style="font-weight:600;font-size:16px">${esc(doc.from.name)}</div>` : ''}
+      ${doc.from.lines.map((line) => `<div>${esc(line)}</div>`).join('')}
+    </div>` : '';
+
+  const bankHtml = doc.paymentInfo.length > 0
+    ? `<div style="margin-top:20px;padding-top:16px;border-top:1px solid #ddd;font-size:13px;color:#555"><strong>Payment Information</strong><div style="margin-top:6px;line-height:1.6">${doc.paymentInfo.map((item) => `<div>${esc(item)}</div>`).join('')}</div></div>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html><head>
+<title>${esc(doc.filename)}</title>
+<style>
+  body { font-family: ${FONT_STACKS[doc.style.font]}; color: #222; max-width: 800px; margin: 0 auto; padding: 40px; }
+  .header { display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 30px; }
+  .header h1 { font-size: 28px; margin: 0; color: ${accent}; }
+  .header .logo { display: block; max-width: 220px; max-height: 64px; margin-bottom: 12px; }
+  .from { font-size: 13px; color: #555; text-align: right; line-height: 1.5; }
+  .parties { display: flex; justify-content: space-between; margin-bottom: 24px; }
+  .party { font-size: 14px; }
+  .party .label { color: #888; font-size: 12px; text-transform: uppercase; letter-spacing: 0.5px; margin-bottom: 4px; }
+  table { width: 100%; border-collapse: collapse; font-size: 14px; margin: 20px 0; }
+  th { text-align: left; padding: 8px; border-bottom: 2px solid #ddd; font-weight: 600; }
+  .notes { font-size: 13px; color: #666; margin-top: 16px; }
+  .footer { margin-top: 32px; font-size: 12px; color: #888; text-align: center; white-space: pre-line; }
+  @media print { body { padding: 0; } }
+</style>
+</head><body>
+<div class="header">
+  <div>
+    ${doc.style.logoDataUrl ? `<img class="logo" src="${esc(doc.style.logoDataUrl)}" alt="">` : ''}
+    <h1>${esc(doc.title)}</h1>
+  </div>
+  ${profileHtml}
+</div>
+<div class="parties">
+  <div class="party">
+    <div class="label">Bill To</div>
+    <div style="font-weight:600">${esc(doc.billTo.name)}</div>
+    ${doc.billTo.addressLines.length > 0 ? `<div style="font-size:13px;color:#555;line-height:1.5;margin-top:2px">${doc.billTo.addressLines.map(esc).join('<br>')}</div>` : ''}
+  </div>
+  <div class="party" style="text-align:right">
+    <div class="label">Invoice Details</div>
+    ${doc.details.map((d) => `<div><span style="color:#888">${esc(d.label)}:</span> ${esc(d.value)}</div>`).join('\n    ')}
+  </div>
+</div>
+${bodyHtml}
+${doc.notes ? `<div class="notes"><strong>Notes:</strong> ${esc(doc.notes)}</div>` : ''}
+${doc.vatNotice ? `<div style="margin-top:16px;padding:12px 16px;background:#f0f9ff;border:1px solid #bae6fd;border-radius:6px;font-size:13px;color:#0369a1"><strong>VAT Notice:</strong> ${esc(doc.vatNotice)}</div>` : ''}
+${bankHtml}
+${doc.footer ? `<div class="footer">${esc(doc.footer)}</div>` : ''}
+${print ? '<script>window.onload=function(){window.print()}</script>' : ''}
+</body></html>`;
+}
@@ -0,0 +1,474 @@
+import type { InvoiceDocument, DocumentRow, LogoImage } from './invoiceDocument';
+import { downloadBlob, decodeLogo, logoSize } from './invoiceDocument';
+import type { TemplateFont } from '../types';
+
+// Minimal PDF writer for invoices. Uses the standard 14 fonts (Helvetica,
+// Times, Courier), so nothing is embedded and the output stays a few kilobytes.
+// Coordinates below are in points measured from the top of the page; they are
+// flipped on output.
+
+const PAGE_WIDTH = 612; // US Letter
+const PAGE_HEIGHT = 792;
+const MARGIN_X = 45;
+const MARGIN_Y = 36;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN_X * 2;
+const CELL_PAD = 5;
+
+type FontFace = 'regular' | 'bold';
+
+const FONT_REF: Record<FontFace, string> = { regular: 'F1', bold: 'F2' };
+
+const BASE_FONTS: Record<TemplateFont, Record<FontFace, string>> = {
+  sans: { regular: 'Helvetica', bold: 'Helvetica-Bold' },
+  serif: { regular: 'Times-Roman', bold: 'Times-Bold' },
+  mono: { regular: 'Courier', bold: 'Courier-Bold' },
+};
+
+// Advance widths (1/1000 em) for ASCII 32–126, from the standard AFM metrics.
+// Courier is monospaced and needs no table.
+const WIDTHS: Record<'sans' | 'serif', Record<FontFace, number[]>> = {
+  sans: {
+    regular: [
+      278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+      556, 556, 556, 556, 556, 556, 556, 556, 556, 556,
+      278, 278, 584, 584, 584, 556, 1015,
+      667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611,
+      278, 278, 278, 469, 556, 333,
+      556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500,
+      334, 260, 334, 584,
+    ],
+    bold: [
+      278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+      556, 556, 556, 556, 556, 556, 556, 556, 556, 556,
+      333, 333, 584, 584, 584, 611, 975,
+      722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611,
+      333, 278, 333, 584, 556, 333,
+      556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500,
+      389, 280, 389, 584,
+    ],
+  },
+  serif: {
+    regular: [
+      250, 333, 408, 500, 500, 833, 778, 180, 333, 333, 500, 564, 250, 333, 250, 278,
+      500, 500, 500, 500, 500, 500, 500, 500, 500, 500,
+      278, 278, 564, 564, 564, 444, 921,
+      722, 667, 667, 722, 611, 556, 722, 722, 333, 389, 722, 611, 889, 722, 722, 556, 722, 667, 556, 611, 722, 722, 944, 722, 722, 611,
+      333, 278, 333, 469, 500, 333,
+      444, 500, 444, 500, 444, 333, 500, 500, 278, 278, 500, 278, 778, 500, 500, 500, 500, 333, 389, 278, 500, 500, 722, 500, 500, 444,
+      480, 200, 480, 541,
+    ],
+    bold: [
+      250, 333, 555, 500, 500, 1000, 833, 278, 333, 333, 500, 570, 250, 333, 250, 278,
+      500, 500, 500, 500, 500, 500, 500, 500, 500, 500,
+      333, 333, 570, 570, 570, 500, 930,
+      722, 667, 722, 722, 667, 611, 778, 778, 389, 500, 778, 667, 944, 722, 778, 611, 778, 722, 556, 667, 722, 722, 1000, 722, 722, 667,
+      333, 278, 333, 581, 500, 333,
+      500, 556, 444, 556, 444, 333, 500, 556, 278, 333, 556, 278, 833, 556, 500, 556, 556, 444, 389, 333, 556, 500, 722, 500, 500, 444,
+      394, 220, 394, 520,
+    ],
+  },
+};
+
+// Width of most non-ASCII glyphs in each family
+const DEFAULT_WIDTH: Record<TemplateFont, number> = { sans: 556, serif: 500, mono: 600 };
+
+// WinAnsiEncoding bytes for the characters outside Latin-1 that invoices use
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+  '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+// Widths for non-ASCII bytes that differ from the family default
+const WIDE_BYTES: Record<number, number> = {
+  0x85: 1000, 0x91: 222, 0x92: 222, 0x93: 333, 0x94: 333, 0x95: 350, 0x97: 1000, 0x99: 1000,
+  0xa0: 278, 0xb7: 278, 0xd7: 584,
+};
+
+function encode(text: string): number[] {
+  const bytes: number[] = [];
+  for (const ch of text) {
+    const code = ch.codePointAt(0)!;
+    if (code >= 32 && code <= 126) bytes.push(code);
+    else if (code >= 0xa0 && code <= 0xff) bytes.push(code);
+    else if (WIN_ANSI[ch] != null) bytes.push(WIN_ANSI[ch]);
+    else if (/\s/.test(ch)) bytes.push(32);
+    else bytes.push(63); // '?'
+  }
+  return bytes;
+}
+
+function measure(text: string, family: TemplateFont, font: FontFace, size: number): number {
+  if (family === 'mono') return (encode(text).length * 600 * size) / 1000;
+  let units = 0;
+  for (const b of encode(text)) {
+    units += b <= 126 ? WIDTHS[family][font][b - 32] : WIDE_BYTES[b] ?? DEFAULT_WIDTH[family];
+  }
+  return (units * size) / 1000;
+}
+
+function hexString(text: string): string {
+  return `<${encode(text).map((b) => b.toString(16).padStart(2, '0')).join('')}>`;
+}
+
+function rgb(hex: string): string {
+  const n = parseInt(hex, 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255].map((c) => (c / 255).toFixed(3)).join(' ');
+}
+
+function num(n: number): string {
+  return (Math.round(n * 100) / 100).toString();
+}
+
+// --- Text layout ---
+
+interface Run {
+  text: string;
+  font: FontFace;
+  color: string;
+}
+
+interface Segment extends Run {
+  x: number;
+}
+
+interface TextLine {
+  segments: Segment[];
+  width: number;
+}
+
+// Greedy word wrap across styled runs. Words wider than the line are split.
+function layoutRuns(family: TemplateFont, runs: Run[], size: number, maxWidth: number): TextLine[] {
+  const textWidth = (text: string, font: FontFace, fontSize: number) => measure(text, family, font, fontSize);
+  const lines: TextLine[] = [{ segments: [], width: 0 }];
+  let pendingSpace = false;
+
+  const place = (word: string, run: Run) => {
+    let line = lines[lines.length - 1];
+    const space = pendingSpace && line.width > 0 ? textWidth(' ', run.font, size) : 0;
+    let width = textWidth(word, run.font, size);
+    if (line.width > 0 && line.width + space + width > maxWidth) {
+      line = { segments: [], width: 0 };
+      lines.push(line);
+    } else if (space > 0) {
+      word = ' ' + word;
+      width += space;
+    }
+    pendingSpace = false;
+    const last = line.segments[line.segments.length - 1];
+    if (last && last.font === run.font && last.color === run.color) {
+      last.text += word;
+    } else {
+      line.segments.push({ ...run, text: word, x: line.width });
+    }
+    line.width += width;
+  };
+
+  for (const run of runs) {
+    run.text.split('\n').forEach((paragraph, i) => {
+      if (i > 0) {
+        lines.push({ segments: [], width: 0 });
+        pendingSpace = false;
+      }
+      for (const token of paragraph.split(/(\s+)/)) {
+        if (!token) continue;
+        if (/^\s+$/.test(token)) {
+          pendingSpace = true;
+          continue;
+        }
+        let word = token;
+        while (textWidth(word, run.font, size) > maxWidth && word.length > 1) {
+          let cut = word.length - 1;
+          while (cut > 1 && textWidth(word.slice(0, cut), run.font, size) > maxWidth) cut--;
+          place(word.slice(0, cut), run);
+          lines.push({ segments: [], width: 0 });
+          word = word.slice(cut);
+        }
+        place(word, run);
+      }
+    });
+  }
+  return lines;
+}
+
+const lineHeight = (size: number) => size * 1.3;
+
+// --- Page drawing ---
+
+class PdfPages {
+  pages: string[][] = [];
+  y = MARGIN_Y;
+  family: TemplateFont;
+
+  constructor(family: TemplateFont) {
+    this.family = family;
+    this.addPage();
+  }
+
+  width(text: string, font: FontFace, size: number): number {
+    return measure(text, this.family, font, size);
+  }
+
+  layout(runs: Run[], size: number, maxWidth: number): TextLine[] {
+    return layoutRuns(this.family, runs, size, maxWidth);
+  }
+
+  addPage() {
+    this.pages.push([]);
+    this.y = MARGIN_Y;
+  }
+
+  // Start a new page unless `height` more points fit on this one
+  ensure(height: number): boolean {
+    if (this.y + height <= PAGE_HEIGHT - MARGIN_Y || this.y === MARGIN_Y) return false;
+    this.addPage();
+    return true;
+  }
+
+  private get ops(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  text(x: number, top: number, text: string, font: FontFace, size: number, color: string) {
+    const baseline = PAGE_HEIGHT - (top + size * 0.9);
+    this.ops.push(`BT /${FONT_REF[font]} ${num(size)} Tf ${rgb(color)} rg ${num(x)} ${num(baseline)} Td ${hexString(text)} Tj ET`);
+  }
+
+  // Draw wrapped lines starting at `top`; returns the height used
+  lines(lines: TextLine[], x: number, top: number, size: number, align: 'left' | 'right' = 'left', width = 0): number {
+    lines.forEach((line, i) => {
+      const left = align === 'right' ? x + width - line.width : x;
+      for (const seg of line.segments) {
+        this.text(left + seg.x, top + i * lineHeight(size), seg.text, seg.font, size, seg.color);
+      }
+    });
+    return lines.length * lineHeight(size);
+  }
+
+  rect(x: number, top: number, w: number, h: number, fill?: string, stroke?: string) {
+    const ops = [`${num(x)} ${num(PAGE_HEIGHT - top - h)} ${num(w)} ${num(h)} re`];
+    if (fill) ops.unshift(`${rgb(fill)} rg`);
+    if (stroke) ops.unshift(`0.75 w ${rgb(stroke)} RG`);
+    ops.push(fill && stroke ? 'B' : fill ? 'f' : 'S');
+    this.ops.push(ops.join(' '));
+  }
+
+  image(name: string, x: number, top: number, w: number, h: number) {
+    this.ops.push(`q ${num(w)} 0 0 ${num(h)} ${num(x)} ${num(PAGE_HEIGHT - top - h)} cm /${name} Do Q`);
+  }
+
+  hline(x1: number, x2: number, top: number, width: number, color: string) {
+    const y = num(PAGE_HEIGHT - top);
+    this.ops.push(`${num(width)} w ${rgb(color)} RG ${num(x1)} ${y} m ${num(x2)} ${y} l S`);
+  }
+}
+
+// --- Sections ---
+
+function drawHeader(pdf: PdfPages, doc: InvoiceDocument, logo: LogoImage | null) {
+  const top = pdf.y;
+  let left = top;
+  if (logo) {
+    const size = logoSize(logo, 165, 48);
+    pdf.image('Im1', MARGIN_X, left, size.width, size.height);
+    left += size.height + 9;
+  }
+  pdf.text(MARGIN_X, left, doc.title, 'bold', 28, doc.style.accentColor);
+  left += lineHeight(28);
+  const right = PAGE_WIDTH - MARGIN_X;
+  let y = top;
+  if (doc.from.name) {
+    pdf.text(right - pdf.width(doc.from.name, 'bold', 13), y, doc.from.name, 'bold', 13, '222222');
+    y += lineHeight(13);
+  }
+  for (const line of doc.from.lines) {
+    pdf.text(right - pdf.width(line, 'regular', 10), y, line, 'regular', 10, '666666');
+    y += lineHeight(10);
+  }
+  pdf.y = Math.max(left, y) + 20;
+}
+
+function drawParties(pdf: PdfPages, doc: InvoiceDocument) {
+  const top = pdf.y;
+  const half = CONTENT_WIDTH / 2;
+
+  let left = top;
+  pdf.text(MARGIN_X, left, 'BILL TO', 'regular', 9, '888888');
+  left += lineHeight(9) + 2;
+  left += pdf.lines(pdf.layout([{ text: doc.billTo.name, font: 'bold', color: '222222' }], 12, half - 10), MARGIN_X, left, 12);
+  for (const line of doc.billTo.addressLines) {
+    left += pdf.lines(pdf.layout([{ text: line, font: 'regular', color: '555555' }], 10, half - 10), MARGIN_X, left, 10);
+  }
+
+  let right = top;
+  const rightEdge = PAGE_WIDTH - MARGIN_X;
+  pdf.text(rightEdge - pdf.width('INVOICE DETAILS', 'regular', 9), right, 'INVOICE DETAILS', 'regular', 9, '888888');
+  right += lineHeight(9) + 2;
+  for (const { label, value } of doc.details) {
+    const lines = pdf.layout([
+      { text: `${label}: `, font: 'regular', color: '888888' },
+      { text: value, font: 'regular', color: '222222' },
+    ], 10, half);
+    right += pdf.lines(lines, MARGIN_X + half, right, 10, 'right', half);
+  }
+
+  pdf.y = Math.max(left, right) + 20;
+}
+
+function columnEdges(doc: InvoiceDocument): number[] {
+  const edges = [MARGIN_X];
+  for (const col of doc.columns) edges.push(edges[edges.length - 1] + (CONTENT_WIDTH * col.width) / 100);
+  return edges;
+}
+
+interface RowStyle {
+  font: FontFace;
+  fill?: string;
+  topBorder?: { width: number; color: string };
+}
+
+function drawRow(pdf: PdfPages, doc: InvoiceDocument, edges: number[], row: DocumentRow, style: RowStyle, redrawHeader: () => void) {
+  const size = 10;
+  const span = row.span ?? 1;
+  const cells = row.cells.map((text, i) => {
+    const first = i === 0 ? 0 : i + span - 1;
+    const last = i === 0 ? span - 1 : first;
+    const indent = i === 0 && row.indent ? 18 : 0;
+    const x = edges[first] + CELL_PAD + indent;
+    const width = edges[last + 1] - edges[first] - CELL_PAD * 2 - indent;
+    const align = doc.columns[last].align;
+    const color = i === 0 && row.muted ? '555555' : '222222';
+    return { x, width, align, lines: pdf.layout([{ text, font: style.font, color }], size, width) };
+  });
+  const height = Math.max(...cells.map((c) => c.lines.length)) * lineHeight(size) + CELL_PAD * 2;
+
+  if (pdf.ensure(height)) redrawHeader();
+  const top = pdf.y;
+  if (style.fill) pdf.rect(MARGIN_X, top, CONTENT_WIDTH, height, style.fill);
+  for (const cell of cells) {
+    pdf.lines(cell.lines, cell.x, top + CELL_PAD, size, cell.align, cell.width);
+  }
+  pdf.hline(MARGIN_X, MARGIN_X + CONTENT_WIDTH, top + height, 0.5, 'DDDDDD');
+  if (style.topBorder) pdf.hline(MARGIN_X, MARGIN_X + CONTENT_WIDTH, top, style.topBorder.width, style.topBorder.color);
+  pdf.y = top + height;
+}
+
+function drawTable(pdf: PdfPages, doc: InvoiceDocument) {
+  const totalBorder = { width: 1.5, color: doc.style.accentColor };
+  const edges = columnEdges(doc);
+  const header: DocumentRow = { kind: 'line', cells: doc.columns.map((c) => c.label) };
+  const drawHeaderRow = () => drawRow(pdf, doc, edges, header, { font: 'bold', fill: 'F5F5F5', topBorder: { width: 0.5, color: 'DDDDDD' } }, drawHeaderRow);
+
+  drawHeaderRow();
+  for (const row of doc.rows) {
+    drawRow(pdf, doc, edges, row, row.kind === 'group' ? { font: 'bold', fill: 'F9F9F9' } : { font: 'regular' }, drawHeaderRow);
+  }
+  for (const row of doc.subtotals) {
+    drawRow(pdf, doc, edges, row, { font: 'regular' }, drawHeaderRow);
+  }
+  drawRow(pdf, doc, edges, doc.total, { font: 'bold', topBorder: totalBorder }, drawHeaderRow);
+}
+
+function drawNotes(pdf: PdfPages, notes: string) {
+  const lines = pdf.layout([
+    { text: 'Notes: ', font: 'bold', color: '666666' },
+    { text: notes, font: 'regular', color: '666666' },
+  ], 10, CONTENT_WIDTH);
+  pdf.y += 15;
+  pdf.ensure(lines.length * lineHeight(10));
+  pdf.y += pdf.lines(lines, MARGIN_X, pdf.y, 10);
+}
+
+function drawVatNotice(pdf: PdfPages, notice: string) {
+  const pad = 8;
+  const lines = pdf.layout([
+    { text: 'VAT Notice: ', font: 'bold', color: '0369A1' },
+    { text: notice, font: 'regular', color: '0369A1' },
+  ], 10, CONTENT_WIDTH - pad * 2);
+  const height = lines.length * lineHeight(10) + pad * 2;
+  pdf.y += 15;
+  pdf.ensure(height);
+  pdf.rect(MARGIN_X, pdf.y, CONTENT_WIDTH, height, 'EFF6FF', '93C5FD');
+  pdf.lines(lines, MARGIN_X + pad, pdf.y + pad, 10);
+  pdf.y += height;
+}
+
+function drawPaymentInfo(pdf: PdfPages, items: string[]) {
+  pdf.y += 20;
+  pdf.ensure(lineHeight(10) * (items.length + 1) + 10);
+  pdf.hline(MARGIN_X, MARGIN_X + CONTENT_WIDTH, pdf.y, 0.5, 'DDDDDD');
+  pdf.y += 10;
+  pdf.text(MARGIN_X, pdf.y, 'Payment Information', 'bold', 10, '555555');
+  pdf.y += lineHeight(10) + 4;
+  for (const item of items) {
+    pdf.y += pdf.lines(pdf.layout([{ text: item, font: 'regular', color: '555555' }], 10, CONTENT_WIDTH), MARGIN_X, pdf.y, 10) + 2;
+  }
+}
+
+function drawFooter(pdf: PdfPages, footer: string) {
+  const lines = pdf.layout([{ text: footer, font: 'regular', color: '888888' }], 9, CONTENT_WIDTH);
+  pdf.y += 24;
+  pdf.ensure(lines.length * lineHeight(9));
+  for (const line of lines) {
+    pdf.y += pdf.lines([line], MARGIN_X, pdf.y, 9, 'right', (CONTENT_WIDTH + line.width) / 2);
+  }
+}
+
+// --- File assembly ---
+
+function serialize(pages: string[][], title: string, family: TemplateFont, logo: LogoImage | null): Uint8Array {
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 6 + i * 2);
+  const imageId = 6 + pages.length * 2;
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = `<< /Type /Font /Subtype /Type1 /BaseFont /${BASE_FONTS[family].regular} /Encoding /WinAnsiEncoding >>`;
+  objects[4] = `<< /Type /Font /Subtype /Type1 /BaseFont /${BASE_FONTS[family].bold} /Encoding /WinAnsiEncoding >>`;
+  objects[5] = `<< /Title ${hexString(title)} /Producer (Consulting Tracker) >>`;
+  pages.forEach((ops, i) => {
+    const content = ops.join('\n');
+    objects[pageIds[i]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] `
+      + `/Resources << /Font << /F1 3 0 R /F2 4 0 R >>${logo ? ` /XObject << /Im1 ${imageId} 0 R >>` : ''} >> /Contents ${pageIds[i] + 1} 0 R >>`;
+    objects[pageIds[i] + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  if (logo) {
+    // Hex-encoded so the JPEG bytes stay ASCII like everything else
+    const hex = Array.from(logo.bytes, (b) => b.toString(16).padStart(2, '0')).join('') + '>';
+    const colorSpace = logo.components === 1 ? 'DeviceGray' : logo.components === 4 ? 'DeviceCMYK' : 'DeviceRGB';
+    objects[imageId] = `<< /Type /XObject /Subtype /Image /Width ${logo.width} /Height ${logo.height} /ColorSpace /${colorSpace} `
+      + `/BitsPerComponent 8 /Filter [/ASCIIHexDecode /DCTDecode] /Length ${hex.length} >>\nstream\n${hex}\nendstream`;
+  }
+
+  // Everything written is ASCII (text and images go out hex-encoded), so
+  // string lengths are byte offsets
+  let out = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = out.length;
+    out += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xref = out.length;
+  out += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) out += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  out += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return new TextEncoder().encode(out);
+}
+
+export function renderInvoicePdf(doc: InvoiceDocument): Uint8Array {
+  const pdf = new PdfPages(doc.style.font);
+  const logo = decodeLogo(doc.style.logoDataUrl);
+  drawHeader(pdf, doc, logo);
+  drawParties(pdf, doc);
+  drawTable(pdf, doc);
+  if (doc.notes) drawNotes(pdf, doc.notes);
+  if (doc.vatNotice) drawVatNotice(pdf, doc.vatNotice);
+  if (doc.paymentInfo.length > 0) drawPaymentInfo(pdf, doc.paymentInfo);
+  if (doc.footer) drawFooter(pdf, doc.footer);
+  return serialize(pdf.pages, doc.filename, doc.style.font, logo);
+}
+
+export function generateInvoicePdf(doc: InvoiceDocument): void {
+  const blob = new Blob([renderInvoicePdf(doc) as BlobPart], { type: 'application/pdf' });
+  downloadBlob(blob, `${doc.filename}.pdf`);
+}
@@ -0,0 +1,56 @@
+import type { Company, PaymentTerms } from '../types';
+import { addDays, endOfMonth } from './dateUtils';
+
+// Suggested in the company form; any text the parser understands works
+export const PAYMENT_TERMS_PRESETS = ['Due on receipt', 'Net 15', 'Net 30', 'Net 45', 'End of month'];
+
+const EOM = /\b(eom|end of (the )?month)\b/;
+
+// Structured terms from free text: 'Net 30', '30 days', 'Due on receipt',
+// 'EOM', 'Net 15 EOM'. Null when the text doesn't say when payment is due.
+export function parsePaymentTerms(text: string | undefined): PaymentTerms | null {
+  const t = (text || '').trim().toLowerCase();
+  if (!t) return null;
+  if (/\b(receipt|immediate(ly)?|due now)\b/.test(t)) return { kind: 'receipt', days: 0 };
+  const days = t.match(/\bnet\s*(\d{1,3})\b/) ?? t.match(/\b(\d{1,3})\s*days?\b/);
+  if (EOM.test(t)) return { kind: 'end_of_month', days: days ? parseInt(days[1], 10) : 0 };
+  if (days) return { kind: 'net', days: parseInt(days[1], 10) };
+  return null;
+}
+
+export function describePaymentTerms(terms: PaymentTerms): string {
+  switch (terms.kind) {
+    case 'receipt':
+      return 'Due on the invoice date';
+    case 'net':
+      return `Due ${terms.days} day${terms.days !== 1 ? 's' : ''} after the invoice date`;
+    case 'end_of_month':
+      return terms.days > 0
+        ? `Due ${terms.days} day${terms.days !== 1 ? 's' : ''} after the end of the invoice month`
+        : 'Due at the end of the invoice month';
+  }
+}
+
+export function computeDueDate(invoiceDate: string, terms: PaymentTerms): string {
+  switch (terms.kind) {
+    case 'receipt':
+      return invoiceDate;
+    case 'net':
+      return addDays(invoiceDate, terms.days);
+    case 'end_of_month':
+      return addDays(endOfMonth(new Date(invoiceDate + 'T00:00:00')), terms.days);
+  }
+}
+
+// Due date for an invoice to the company dated `invoiceDate`, or undefined
+// when the company has no terms the parser understands
+export function dueDateFor(company: Company | undefined, invoiceDate: string): string | undefined {
+  const terms = parsePaymentTerms(company?.paymentTerms);
+  return terms ? computeDueDate(invoiceDate, terms) : undefined;
+}
+
+// '12d overdue', 'due today' or 'in 5d', from daysPastDue
+export function dueLabel(daysPast: number): string {
+  if (daysPast > 0) return `${daysPast}d overdue`;
+  return daysPast === 0 ? 'due today' : `in ${-daysPast}d`;
+}
@@ -0,0 +1,235 @@
+import type { Company, Currency, Expense, ExpenseCategory, Invoice, Payment, Project, RateRecord, TimeEntry } from '../types';
+import { amountApplied, billableAmount, isFixedMonthly } from './calculations';
+import { invoiceNetAmount } from './tax';
+import { lookupRate, recordedRate } from './exchangeRate';
+import { isCreditNote } from './creditNotes';
+import { startOfYear, endOfYear, isInRange } from './dateUtils';
+
+// --- Schedule C (Form 1040) ---
+
+export interface ScheduleCLine {
+  line: string;
+  label: string;
+}
+
+// Part II line each expense category is reported on
+export const SCHEDULE_C_LINES: Record<ExpenseCategory, ScheduleCLine> = {
+  advertising: { line: '8', label: 'Advertising' },
+  car_transport: { line: '9', label: 'Car and truck expenses' },
+  contract_labor: { line: '11', label: 'Contract labor' },
+  equipment: { line: '13', label: 'Depreciation and section 179 expense' },
+  insurance: { line: '15', label: 'Insurance (other than health)' },
+  legal_professional: { line: '17', label: 'Legal and professional services' },
+  office_supplies: { line: '18', label: 'Office expense' },
+  rent_coworking: { line: '20b', label: 'Rent or lease: other business property' },
+  travel: { line: '24a', label: 'Travel' },
+  meals: { line: '24b', label: 'Deductible meals' },
+  telephone_internet: { line: '25', label: 'Utilities' },
+  software_subscriptions: { line: '27a', label: 'Other expenses' },
+  education_training: { line: '27a', label: 'Other expenses' },
+  other: { line: '27a', label: 'Other expenses' },
+};
+
+// Share of what was spent that can be deducted, where the IRS limits it
+const DEDUCTIBLE_SHARE: Partial<Record<ExpenseCategory, number>> = {
+  meals: 0.5,
+};
+
+export function deductibleShare(category: ExpenseCategory): number {
+  return DEDUCTIBLE_SHARE[category] ?? 1;
+}
+
+export function compareLines(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+// --- Tax-year P&L ---
+
+export interface RevenueTotals {
+  grossReceipts: number; // line 1
+  returns: number;       // line 2: credit notes, as a positive amount
+  byCompany: Map<string, number>; // net of returns
+}
+
+export interface ExpenseLineTotal extends ScheduleCLine {
+  categories: ExpenseCategory[];
+  spent: number;
+  deductible: number;
+  count: number;
+}
+
+// Something left out of the totals because there is no rate into the
+// reporting currency on or before its date
+export interface MissingRate {
+  currency: Currency;
+  date: string;
+  description: string;
+}
+
+export interface ProfitAndLoss {
+  year: number;
+  reporting: Currency;
+  cash: RevenueTotals;    // received: payments by payment date, direct payments by paid date
+  accrual: RevenueTotals; // billed: invoices by invoice date, direct-billed work by entry date
+  expenseLines: ExpenseLineTotal[];
+  totalExpenses: number;  // line 28, deductible amounts
+  unconfirmedExpenses: number; // generated recurring expenses not yet reviewed
+  missingRates: MissingRate[];
+}
+
+export interface ProfitAndLossInput {
+  year: number;
+  start?: string; // narrow the year to a window, e.g. an estimated tax quarter
+  end?: string;
+  reporting: Currency;
+  companies: Company[];
+  projects: Project[];
+  timeEntries: TimeEntry[];
+  invoices: Invoice[];
+  payments: Payment[];
+  expenses: Expense[];
+  rateTable: RateRecord[];
+}
+
+export function grossIncome(revenue: RevenueTotals): number {
+  return revenue.grossReceipts - revenue.returns;
+}
+
+export function netProfit(pl: ProfitAndLoss, revenue: RevenueTotals): number {
+  return grossIncome(revenue) - pl.totalExpenses;
+}
+
+function emptyRevenue(): RevenueTotals {
+  return { grossReceipts: 0, returns: 0, byCompany: new Map() };
+}
+
+function addRevenue(revenue: RevenueTotals, companyId: string, amount: number): void {
+  if (amount < 0) revenue.returns -= amount;
+  else revenue.grossReceipts += amount;
+  revenue.byCompany.set(companyId, (revenue.byCompany.get(companyId) || 0) + amount);
+}
+
+// Income on a cash basis (money received in the year) and an accrual basis
+// (money billed in the year), excluding tax collected, and deductible expenses
+// by Schedule C line. Foreign amounts convert at the rate recorded on the
+// invoice or payment, else the rate table's rate for their date.
+export function profitAndLoss(input: ProfitAndLossInput): ProfitAndLoss {
+  const { year, reporting, rateTable } = input;
+  const start = input.start ?? startOfYear(year);
+  const end = input.end ?? endOfYear(year);
+  const inYear = (date: string | undefined) => !!date && isInRange(date, start, end);
+  const missingRates: MissingRate[] = [];
+
+  function convert(amount: number, currency: Currency, date: string, recorded: number | null, description: string): number | null {
+    const rate = recorded ?? lookupRate(rateTable, currency, reporting, date);
+    if (rate == null) {
+      missingRates.push({ currency, date, description });
+      return null;
+    }
+    return amount * rate;
+  }
+
+  const companyMap = new Map(input.companies.map((c) => [c.id, c]));
+  const projectMap = new Map(input.projects.map((p) => [p.id, p]));
+  const invoiceMap = new Map(input.invoices.map((i) => [i.id, i]));
+  const cash = emptyRevenue();
+  const accrual = emptyRevenue();
+
+  // Cash: payments received, less the tax share of each
+  for (const p of input.payments) {
+    const invoice = invoiceMap.get(p.invoiceId);
+    if (!invoice || !inYear(p.date)) continue;
+    const netShare = invoice.totalAmount !== 0 ? invoiceNetAmount(invoice) / invoice.totalAmount : 1;
+    const amount = convert(amountApplied(p) * netShare, invoice.currency, p.date, recordedRate(p, reporting), `Payment on invoice #${invoice.invoiceNumber}`);
+    if (amount != null) addRevenue(cash, invoice.companyId, amount);
+  }
+
+  // Accrual: invoices sent in the year. A voided invoice counts only when a
+  // credit note reverses it; without one it was never income.
+  for (const inv of input.invoices) {
+    if (inv.status === 'draft' || (inv.status === 'void' && !inv.creditNoteId) || !inYear(inv.invoiceDate)) continue;
+    const label = `${isCreditNote(inv) ? 'Credit note' : 'Invoice'} #${inv.invoiceNumber}`;
+    const amount = convert(invoiceNetAmount(inv), inv.currency, inv.invoiceDate, recordedRate(inv, reporting), label);
+    if (amount != null) addRevenue(accrual, inv.companyId, amount);
+  }
+
+  // Work paid directly rather than invoiced: received on its paid date,
+  // earned on its work date
+  const invoicedEntryIds = new Set(input.invoices.filter((i) => i.status !== 'void').flatMap((i) => i.timeEntryIds));
+  for (const e of input.timeEntries) {
+    const company = companyMap.get(e.companyId);
+    if (!company || isFixedMonthly(company) || invoicedEntryIds.has(e.id)) continue;
+    if (!e.paidDate && company.invoiceRequired) continue;
+    const value = billableAmount(e, company, projectMap);
+    if (value === 0) continue;
+    if (e.paidDate && inYear(e.paidDate)) {
+      const amount = convert(value, company.currency, e.paidDate, null, `${company.name} work on ${e.date}`);
+      if (amount != null) addRevenue(cash, company.id, amount);
+    }
+    if (inYear(e.date)) {
+      const amount = convert(value, company.currency, e.date, null, `${company.name} work on ${e.date}`);
+      if (amount != null) addRevenue(accrual, company.id, amount);
+    }
+  }
+
+  const lines = new Map<string, ExpenseLineTotal>();
+  let unconfirmedExpenses = 0;
+  for (const exp of input.expenses) {
+    if (!inYear(exp.date)) continue;
+    const spent = convert(exp.amount, exp.currency, exp.date, null, `${exp.vendor || exp.description} on ${exp.date}`);
+    if (spent == null) continue;
+    if (exp.pendingReview) unconfirmedExpenses++;
+    const { line, label } = SCHEDULE_C_LINES[exp.category];
+    let total = lines.get(line);
+    if (!total) {
+      total = { line, label, categories: [], spent: 0, deductible: 0, count: 0 };
+      lines.set(line, total);
+    }
+    if (!total.categories.includes(exp.category)) total.categories.push(exp.category);
+    total.spent += spent;
+    total.deductible += spent * deductibleShare(exp.category);
+    total.count++;
+  }
+  const expenseLines = Array.from(lines.values()).sort((a, b) => compareLines(a.line, b.line));
+
+  return {
+    year,
+    reporting,
+    cash,
+    accrual,
+    expenseLines,
+    totalExpenses: expenseLines.reduce((sum, l) => sum + l.deductible, 0),
+    unconfirmedExpenses,
+    missingRates,
+  };
+}
+
+// --- Summary ---
+
+export interface ProfitAndLossRow {
+  line: string;
+  label: string;
+  kind: 'income' | 'expense' | 'total';
+  spent?: number; // expenses: before the deductible limit
+  cash: number;
+  accrual: number;
+}
+
+// The P&L as Schedule C lines, shared by the report, its printout and CSV
+export function profitAndLossRows(pl: ProfitAndLoss): ProfitAndLossRow[] {
+  const { cash, accrual } = pl;
+  const rows: ProfitAndLossRow[] = [
+    { line: '1', label: 'Gross receipts or sales', kind: 'income', cash: cash.grossReceipts, accrual: accrual.grossReceipts },
+    { line: '2', label: 'Returns and allowances', kind: 'income', cash: cash.returns, accrual: accrual.returns },
+    { line: '7', label: 'Gross income', kind: 'total', cash: grossIncome(cash), accrual: grossIncome(accrual) },
+  ];
+  for (const l of pl.expenseLines) {
+    const label = l.categories.includes('meals') ? `${l.label} (50% of meals)` : l.label;
+    rows.push({ line: l.line, label, kind: 'expense', spent: l.spent, cash: l.deductible, accrual: l.deductible });
+  }
+  rows.push(
+    { line: '28', label: 'Total expenses', kind: 'total', cash: pl.totalExpenses, accrual: pl.totalExpenses },
+    { line: '31', label: 'Net profit or (loss)', kind: 'total', cash: netProfit(pl, cash), accrual: netProfit(pl, accrual) },
+  );
+  return rows;
+}
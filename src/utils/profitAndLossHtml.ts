@@ -0,0 +1,76 @@
+import type { Company } from '../types';
+import type { BusinessProfile } from './storage';
+import type { ProfitAndLoss } from './profitAndLoss';
+import { grossIncome, profitAndLossRows } from './profitAndLoss';
+import { formatCurrency } from './formatCurrency';
+import { formatDate, today } from './dateUtils';
+
+function esc(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Printable tax-year summary for the accountant, opening the print dialog on load
+export function renderProfitAndLossHtml(pl: ProfitAndLoss, profile: BusinessProfile, companies: Company[]): string {
+  const money = (n: number) => esc(formatCurrency(n, pl.reporting));
+  const companyMap = new Map(companies.map((c) => [c.id, c]));
+
+  const lineRows = profitAndLossRows(pl).map((r) => {
+    const style = r.kind === 'total' ? ' class="total"' : '';
+    return `<tr${style}><td>${esc(r.line)}</td><td>${esc(r.label)}</td><td class="num">${r.spent != null ? money(r.spent) : ''}</td><td class="num">${money(r.cash)}</td><td class="num">${money(r.accrual)}</td></tr>`;
+  }).join('');
+
+  const clientIds = new Set([...pl.cash.byCompany.keys(), ...pl.accrual.byCompany.keys()]);
+  const clientRows = [...clientIds]
+    .map((id) => ({ name: companyMap.get(id)?.name ?? 'Unknown client', cash: pl.cash.byCompany.get(id) || 0, accrual: pl.accrual.byCompany.get(id) || 0 }))
+    .sort((a, b) => b.accrual - a.accrual)
+    .map((c) => `<tr><td>${esc(c.name)}</td><td class="num">${money(c.cash)}</td><td class="num">${money(c.accrual)}</td></tr>`)
+    .join('');
+
+  const notes: string[] = [
+    'Cash basis counts payments received in the year; accrual basis counts invoices dated in the year. Both exclude tax collected.',
+    `Amounts in other currencies are converted to ${pl.reporting} at the rate recorded on the invoice or payment, or the stored rate for their date.`,
+  ];
+  if (pl.missingRates.length > 0) {
+    notes.push(`${pl.missingRates.length} item${pl.missingRates.length !== 1 ? 's are' : ' is'} left out for lack of an exchange rate.`);
+  }
+  if (pl.unconfirmedExpenses > 0) {
+    notes.push(`Includes ${pl.unconfirmedExpenses} generated recurring expense${pl.unconfirmedExpenses !== 1 ? 's' : ''} not yet reviewed.`);
+  }
+
+  return `<!DOCTYPE html>
+<html><head>
+<title>Profit and Loss ${pl.year}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; color: #222; max-width: 800px; margin: 0 auto; padding: 40px; }
+  h1 { font-size: 24px; margin: 0 0 4px; }
+  h2 { font-size: 16px; margin: 28px 0 0; }
+  .sub { font-size: 13px; color: #666; }
+  table { width: 100%; border-collapse: collapse; font-size: 14px; margin: 12px 0; }
+  th { text-align: left; padding: 8px; border-bottom: 2px solid #ddd; font-weight: 600; }
+  td { padding: 6px 8px; border-bottom: 1px solid #eee; }
+  .num { text-align: right; font-variant-numeric: tabular-nums; }
+  tr.total td { font-weight: 600; border-top: 2px solid #ddd; }
+  .notes { font-size: 12px; color: #666; margin-top: 24px; line-height: 1.6; }
+  @media print { body { padding: 0; } }
+</style>
+</head><body>
+<h1>Profit and Loss — ${pl.year}</h1>
+<div class="sub">${profile.name ? `${esc(profile.name)} · ` : ''}Schedule C (Form 1040) summary in ${esc(pl.reporting)} · prepared ${esc(formatDate(today()))}</div>
+<table>
+  <thead><tr><th>Line</th><th>Description</th><th class="num">Spent</th><th class="num">Cash basis</th><th class="num">Accrual basis</th></tr></thead>
+  <tbody>${lineRows}</tbody>
+</table>
+${clientRows ? `<h2>Income by client</h2>
+<table>
+  <thead><tr><th>Client</th><th class="num">Cash basis</th><th class="num">Accrual basis</th></tr></thead>
+  <tbody>${clientRows}<tr class="total"><td>Total</td><td class="num">${money(grossIncome(pl.cash))}</td><td class="num">${money(grossIncome(pl.accrual))}</td></tr></tbody>
+</table>` : ''}
+<div class="notes">${notes.map((n) => `<div>${esc(n)}</div>`).join('')}</div>
+<script>window.onload=function(){window.print()}</script>
+</body></html>`;
+}
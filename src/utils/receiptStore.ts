@@ -0,0 +1,139 @@
+import type { Expense, ExpenseReceipt } from '../types';
+import { openDatabase, promisify, transactionDone, RECEIPTS_STORE } from './indexedDbAdapter';
+
+// Receipt files in IndexedDB, keyed by the ExpenseReceipt id on the expense.
+// Unlike the collections these are read on demand, never cached in memory.
+
+export const MAX_RECEIPT_BYTES = 10 * 1024 * 1024;
+export const RECEIPT_ACCEPT = 'image/*,application/pdf';
+const THUMBNAIL_SIZE = 96;
+
+interface StoredReceipt {
+  id: string;
+  blob: Blob;
+  thumbnail?: string; // JPEG data URL, for images
+}
+
+// A receipt as written into the JSON backup
+export interface BackupReceipt {
+  id: string;
+  data: string; // data URL
+  thumbnail?: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function db(): Promise<IDBDatabase> {
+  dbPromise ??= openDatabase().catch((err) => {
+    dbPromise = null;
+    throw new Error(`Receipts can't be stored in this browser (${err instanceof Error ? err.message : 'IndexedDB unavailable'}).`);
+  });
+  return dbPromise;
+}
+
+async function put(record: StoredReceipt): Promise<void> {
+  const tx = (await db()).transaction(RECEIPTS_STORE, 'readwrite');
+  tx.objectStore(RECEIPTS_STORE).put(record);
+  await transactionDone(tx);
+}
+
+async function get(id: string): Promise<StoredReceipt | undefined> {
+  const tx = (await db()).transaction(RECEIPTS_STORE, 'readonly');
+  return promisify(tx.objectStore(RECEIPTS_STORE).get(id)) as Promise<StoredReceipt | undefined>;
+}
+
+// Downscaled JPEG of an image receipt; undefined for PDFs or images the
+// browser can't decode
+async function makeThumbnail(file: Blob): Promise<string | undefined> {
+  if (!file.type.startsWith('image/')) return undefined;
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(THUMBNAIL_SIZE / bitmap.width, THUMBNAIL_SIZE / bitmap.height, 1);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL('image/jpeg', 0.7);
+  } catch {
+    return undefined;
+  }
+}
+
+// Store a picked file and describe it for the expense
+export async function addReceipt(file: File): Promise<ExpenseReceipt> {
+  if (file.size > MAX_RECEIPT_BYTES) {
+    throw new Error(`${file.name} is over ${MAX_RECEIPT_BYTES / 1024 / 1024} MB.`);
+  }
+  if (!file.type.startsWith('image/') && file.type !== 'application/pdf') {
+    throw new Error(`${file.name} isn't an image or PDF.`);
+  }
+  const id = crypto.randomUUID();
+  await put({ id, blob: file, thumbnail: await makeThumbnail(file) });
+  return { id, name: file.name, type: file.type, size: file.size, addedAt: new Date().toISOString() };
+}
+
+// The file, or null when it isn't in this browser (attached on another device)
+export async function getReceiptBlob(id: string): Promise<Blob | null> {
+  return (await get(id))?.blob ?? null;
+}
+
+export async function getReceiptThumbnail(id: string): Promise<string | null> {
+  return (await get(id))?.thumbnail ?? null;
+}
+
+export async function deleteReceipts(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const tx = (await db()).transaction(RECEIPTS_STORE, 'readwrite');
+  const store = tx.objectStore(RECEIPTS_STORE);
+  for (const id of ids) store.delete(id);
+  await transactionDone(tx);
+}
+
+export async function storedReceiptIds(): Promise<string[]> {
+  const tx = (await db()).transaction(RECEIPTS_STORE, 'readonly');
+  return (await promisify(tx.objectStore(RECEIPTS_STORE).getAllKeys())) as string[];
+}
+
+// Stored files no expense refers to any more. Deleted expenses keep theirs
+// so that undoing the delete brings the receipt back.
+export async function orphanedReceiptIds(expenses: Expense[]): Promise<string[]> {
+  const referenced = new Set(expenses.flatMap((e) => (e.receipts || []).map((r) => r.id)));
+  return (await storedReceiptIds()).filter((id) => !referenced.has(id));
+}
+
+export function hasReceipt(expense: Expense): boolean {
+  return expense.hasReceipt || !!expense.receipts?.length;
+}
+
+// --- JSON backup ---
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Every stored receipt the expenses refer to, base64-encoded
+export async function exportReceipts(expenses: Expense[]): Promise<BackupReceipt[]> {
+  const out: BackupReceipt[] = [];
+  for (const receipt of expenses.flatMap((e) => e.receipts || [])) {
+    const stored = await get(receipt.id);
+    if (stored) out.push({ id: stored.id, data: await blobToDataUrl(stored.blob), thumbnail: stored.thumbnail });
+  }
+  return out;
+}
+
+export async function importReceipts(receipts: BackupReceipt[]): Promise<number> {
+  let count = 0;
+  for (const r of receipts) {
+    if (!r?.id || typeof r.data !== 'string' || !r.data.startsWith('data:')) continue;
+    const blob = await (await fetch(r.data)).blob();
+    await put({ id: r.id, blob, thumbnail: r.thumbnail });
+    count++;
+  }
+  return count;
+}
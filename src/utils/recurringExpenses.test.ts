@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import type { Expense } from '../types';
+import { copyExpense, dueExpenseOccurrences, editedRecurrence } from './recurringExpenses';
+
+const source: Expense = {
+  id: 'e1',
+  date: '2025-01-31',
+  category: 'software_subscriptions',
+  description: 'Hosting',
+  amount: 20,
+  currency: 'USD',
+  hasReceipt: true,
+  recurring: true,
+  recurrence: { frequency: 'monthly', day: 31, amountChanges: [{ from: '2025-03-01', amount: 25 }] },
+  createdAt: '2025-01-31T09:00:00.000Z',
+  updatedAt: '2025-01-31T09:00:00.000Z',
+};
+
+function withoutTimestamps(expenses: Expense[]): Expense[] {
+  return expenses.map((e) => ({ ...e, createdAt: '', updatedAt: '' }));
+}
+
+describe('dueExpenseOccurrences', () => {
+  it('generates each date due since the first expense', () => {
+    const due = dueExpenseOccurrences(source, [source], '2025-04-15')!;
+    expect(due.occurrences.map((e) => [e.date, e.amount])).toEqual([
+      ['2025-02-28', 20],
+      ['2025-03-31', 25],
+    ]);
+    expect(due.source.recurrence?.generatedThrough).toBe('2025-03-31');
+  });
+
+  it('marks occurrences as generated copies, not series of their own', () => {
+    const [occurrence] = dueExpenseOccurrences(source, [source], '2025-02-28')!.occurrences;
+    expect(occurrence).toMatchObject({ recurring: false, recurringSourceId: 'e1', pendingReview: true, hasReceipt: false });
+    expect(occurrence.recurrence).toBeUndefined();
+  });
+
+  it('generates the same records on two devices that have not synced yet', () => {
+    const first = dueExpenseOccurrences(source, [source], '2025-04-15')!;
+    const second = dueExpenseOccurrences(source, [source], '2025-04-15')!;
+    expect(withoutTimestamps(second.occurrences)).toEqual(withoutTimestamps(first.occurrences));
+    expect(first.occurrences.map((e) => e.id)).toEqual(['e1-2025-02-28', 'e1-2025-03-31']);
+  });
+});
+
+describe('copyExpense', () => {
+  it('copies a series source as a one-off that stays one when saved', () => {
+    const copy = copyExpense(source, '2025-04-15');
+    expect(copy).toMatchObject({ recurring: false, date: '2025-04-15', hasReceipt: false });
+    expect(copy.id).not.toBe(source.id);
+    expect(copy.recurrence).toBeUndefined();
+
+    // Saving the copy as the expense editor does
+    const saved = { ...copy, recurrence: editedRecurrence(copy, copy) };
+    expect(saved.recurrence).toBeUndefined();
+    expect(dueExpenseOccurrences(saved, [source, saved], '2025-12-31')).toBeNull();
+  });
+});
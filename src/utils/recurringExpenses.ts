@@ -0,0 +1,140 @@
+import type { Expense, ExpenseRecurrence, RecurrenceFrequency } from '../types';
+import { addDays, today } from './dateUtils';
+import { addMonths } from './retainers';
+
+const MONTHS_PER_PERIOD: Record<Exclude<RecurrenceFrequency, 'weekly'>, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+};
+
+export function defaultRecurrence(date: string): ExpenseRecurrence {
+  return { frequency: 'monthly', day: parseInt(date.substring(8, 10), 10) || 1 };
+}
+
+// Date of the nth occurrence after the series' first expense (n = 0). Weekly
+// series keep the weekday; the others fall on the recurrence day, or the last
+// day of a month too short for it.
+export function occurrenceDate(firstDate: string, recurrence: ExpenseRecurrence, n: number): string {
+  if (n === 0) return firstDate;
+  if (recurrence.frequency === 'weekly') return addDays(firstDate, 7 * n);
+  const month = addMonths(firstDate.substring(0, 7), n * MONTHS_PER_PERIOD[recurrence.frequency]);
+  const [y, m] = month.split('-').map(Number);
+  const day = Math.min(Math.max(recurrence.day, 1), new Date(y, m, 0).getDate());
+  return `${month}-${String(day).padStart(2, '0')}`;
+}
+
+// The schedule an edited expense is saved with, cleaned up; none unless it's
+// marked recurring, and none for a generated occurrence. `original` is the
+// expense as stored before the edit, if it was saved before.
+export function editedRecurrence(exp: Expense, original?: Expense, asOf = today()): ExpenseRecurrence | undefined {
+  if (!exp.recurring || exp.recurringSourceId) return undefined;
+  const recurrence = exp.recurrence ?? defaultRecurrence(exp.date);
+  const amountChanges = (recurrence.amountChanges || [])
+    .filter((c) => c.from && c.amount > 0)
+    .sort((a, b) => a.from.localeCompare(b.from));
+  // An existing expense just made recurring was repeated by hand until now,
+  // so the series picks up from today rather than filling in the past
+  const generatedThrough = recurrence.generatedThrough ?? (original && !original.recurrence ? asOf : undefined);
+  return {
+    ...recurrence,
+    endDate: recurrence.endDate || undefined,
+    amountChanges: amountChanges.length > 0 ? amountChanges : undefined,
+    generatedThrough,
+  };
+}
+
+// A one-off copy of an expense, dated `date`
+export function copyExpense(exp: Expense, date = today()): Expense {
+  const now = new Date().toISOString();
+  return {
+    ...exp,
+    id: crypto.randomUUID(),
+    date,
+    // A new purchase needs its own receipt
+    hasReceipt: false,
+    receipts: undefined,
+    // A copy isn't part of the series
+    recurring: false,
+    recurrence: undefined,
+    recurringSourceId: undefined,
+    pendingReview: undefined,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// The series' amount on a date: the latest change in effect, else the first expense's
+export function amountOn(source: Expense, date: string): number {
+  const changes = (source.recurrence?.amountChanges || [])
+    .filter((c) => c.from <= date)
+    .sort((a, b) => a.from.localeCompare(b.from));
+  return changes.length > 0 ? changes[changes.length - 1].amount : source.amount;
+}
+
+// The next occurrence after `after`, or null once the series has ended
+export function nextOccurrence(source: Expense, after = today()): string | null {
+  const recurrence = source.recurrence;
+  if (!recurrence) return null;
+  for (let n = 1; ; n++) {
+    const date = occurrenceDate(source.date, recurrence, n);
+    if (recurrence.endDate && date > recurrence.endDate) return null;
+    if (date > after) return date;
+  }
+}
+
+// Id of a series' occurrence on a date, the same on every device that
+// generates it, so occurrences created offline merge instead of doubling up.
+export function occurrenceId(sourceId: string, date: string): string {
+  return `${sourceId}-${date}`;
+}
+
+// One generated occurrence. It starts without a receipt and waits for review,
+// and isn't itself recurring.
+export function buildOccurrence(source: Expense, date: string): Expense {
+  const now = new Date().toISOString();
+  return {
+    ...source,
+    id: occurrenceId(source.id, date),
+    date,
+    amount: amountOn(source, date),
+    hasReceipt: false,
+    receipts: undefined,
+    recurring: false,
+    recurrence: undefined,
+    recurringSourceId: source.id,
+    pendingReview: true,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export interface ExpenseOccurrences {
+  source: Expense; // with generatedThrough advanced
+  occurrences: Expense[];
+}
+
+// Occurrences owed by a recurring expense: every date after the last one
+// generated (or the first expense) up to today and the end date, skipping
+// dates the series already has an expense for.
+export function dueExpenseOccurrences(source: Expense, expenses: Expense[], asOf = today()): ExpenseOccurrences | null {
+  const recurrence = source.recurrence;
+  if (!recurrence) return null;
+  const after = recurrence.generatedThrough && recurrence.generatedThrough > source.date ? recurrence.generatedThrough : source.date;
+  const existing = new Set(expenses.filter((e) => e.recurringSourceId === source.id).map((e) => e.date));
+
+  const occurrences: Expense[] = [];
+  let last: string | undefined;
+  for (let n = 1; ; n++) {
+    const date = occurrenceDate(source.date, recurrence, n);
+    if (date > asOf || (recurrence.endDate && date > recurrence.endDate)) break;
+    if (date <= after) continue;
+    last = date;
+    if (!existing.has(date)) occurrences.push(buildOccurrence(source, date));
+  }
+  if (!last) return null;
+  return {
+    source: { ...source, recurrence: { ...recurrence, generatedThrough: last }, updatedAt: new Date().toISOString() },
+    occurrences,
+  };
+}
@@ -0,0 +1,132 @@
+import type { Company, Invoice, ReminderStage, ReminderTemplate } from '../types';
+import { DEFAULT_REMINDER_TEMPLATES } from '../types';
+import type { BusinessProfile } from './storage';
+import { daysPastDue } from './calculations';
+import { formatDate } from './dateUtils';
+import { formatCurrency } from './formatCurrency';
+
+// Placeholders a reminder template can use, with what they stand for
+export const REMINDER_PLACEHOLDERS: { key: string; description: string }[] = [
+  { key: 'invoiceNumber', description: 'Invoice number' },
+  { key: 'amount', description: 'Balance still due' },
+  { key: 'dueDate', description: 'Due date' },
+  { key: 'daysOverdue', description: 'Days past the due date' },
+  { key: 'companyName', description: 'Client company' },
+  { key: 'contactName', description: 'Client contact, or "there"' },
+  { key: 'senderName', description: 'Your name from the profile' },
+];
+
+export function reminderTemplate(profile: BusinessProfile, stage: ReminderStage): ReminderTemplate {
+  return profile.reminderTemplates?.find((t) => t.stage === stage) ?? DEFAULT_REMINDER_TEMPLATES[stage];
+}
+
+// First reminder, then second, then final notice for every one after that
+export function nextReminderStage(invoice: Invoice): ReminderStage {
+  const sent = invoice.reminders?.length ?? 0;
+  return sent === 0 ? 'first' : sent === 1 ? 'second' : 'final';
+}
+
+// Replace {key} with its value; unknown placeholders are left as typed
+export function fillPlaceholders(text: string, values: Record<string, string>): string {
+  return text.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+}
+
+export interface ReminderEmail {
+  to: string;
+  subject: string;
+  body: string;
+}
+
+export function composeReminder(
+  template: ReminderTemplate,
+  invoice: Invoice,
+  company: Company | undefined,
+  profile: BusinessProfile,
+  balance: number,
+): ReminderEmail {
+  const values: Record<string, string> = {
+    invoiceNumber: invoice.invoiceNumber || '',
+    amount: formatCurrency(balance, invoice.currency),
+    dueDate: formatDate(invoice.dueDate ?? invoice.invoiceDate),
+    daysOverdue: String(Math.max(daysPastDue(invoice), 0)),
+    companyName: company?.name ?? '',
+    contactName: company?.contactName?.trim() || 'there',
+    senderName: profile.name,
+  };
+  return {
+    to: company?.contactEmail ?? '',
+    subject: fillPlaceholders(template.subject, values),
+    body: fillPlaceholders(template.body, values),
+  };
+}
+
+export function mailtoUrl(email: ReminderEmail): string {
+  return `mailto:${encodeURIComponent(email.to)}?subject=${encodeURIComponent(email.subject)}&body=${encodeURIComponent(email.body)}`;
+}
+
+// --- .eml ---
+// A mailto: link can't carry an attachment, so the reminder can also be saved
+// as an RFC 5322 message with the invoice PDF attached. X-Unsent opens it as a
+// draft in Outlook and Apple Mail rather than as a received message.
+
+const CRLF = '\r\n';
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+// Base64 body lines may be at most 76 characters
+function wrapBase64(bytes: Uint8Array): string {
+  return toBase64(bytes).match(/.{1,76}/g)?.join(CRLF) ?? '';
+}
+
+// RFC 2047 encoded-word for headers that aren't plain ASCII
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${toBase64(new TextEncoder().encode(value))}?=`;
+}
+
+export interface EmlAttachment {
+  filename: string;
+  contentType: string;
+  content: Uint8Array;
+}
+
+export function buildEml(email: ReminderEmail, from: string, attachment?: EmlAttachment): string {
+  const boundary = `----=_Part_${crypto.randomUUID()}`;
+  const headers = [
+    ...(from ? [`From: ${from}`] : []),
+    `To: ${email.to}`,
+    `Subject: ${encodeHeader(email.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    'X-Unsent: 1',
+  ];
+  const textPart = [
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrapBase64(new TextEncoder().encode(email.body.replace(/\r?\n/g, CRLF))),
+  ];
+  if (!attachment) return [...headers, ...textPart, ''].join(CRLF);
+
+  const filename = attachment.filename.replace(/"/g, '');
+  return [
+    ...headers,
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    ...textPart,
+    `--${boundary}`,
+    `Content-Type: ${attachment.contentType}; name="${filename}"`,
+    `Content-Disposition: attachment; filename="${filename}"`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrapBase64(attachment.content),
+    `--${boundary}--`,
+    '',
+  ].join(CRLF);
+}
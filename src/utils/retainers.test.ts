@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import type { Company, Invoice } from '../types';
+import { dueRetainerDrafts } from './retainers';
+
+const company: Company = {
+  id: 'c1',
+  name: 'Acme',
+  currency: 'USD',
+  billingType: 'fixed_monthly',
+  hourlyRate: 0,
+  monthlyRate: 5000,
+  invoiceRequired: true,
+  retainerAutoDraft: true,
+  retainerIssueDay: 1,
+  retainerStartMonth: '2025-03',
+  recurringLineItems: [{ id: 'li-1', description: 'Hosting', amount: 100 }],
+  nextInvoiceNumber: 7,
+  isActive: true,
+  createdAt: '2025-01-01T09:00:00.000Z',
+  updatedAt: '2025-01-01T09:00:00.000Z',
+};
+
+function withoutTimestamps(invoices: Invoice[]): Invoice[] {
+  return invoices.map((i) => ({ ...i, createdAt: '', updatedAt: '' }));
+}
+
+describe('dueRetainerDrafts', () => {
+  it('drafts each month due since the start month', () => {
+    const due = dueRetainerDrafts(company, [], [], '2025-04-15')!;
+    expect(due.invoices.map((i) => [i.retainerMonth, i.invoiceNumber, i.invoiceDate])).toEqual([
+      ['2025-03', '007', '2025-03-01'],
+      ['2025-04', '008', '2025-04-01'],
+    ]);
+    expect(due.company).toMatchObject({ nextInvoiceNumber: 9, retainerDraftedThrough: '2025-04' });
+  });
+
+  it('drafts the same records on two devices that have not synced yet', () => {
+    const first = dueRetainerDrafts(company, [], [], '2025-04-15')!;
+    const second = dueRetainerDrafts(company, [], [], '2025-04-15')!;
+    expect(withoutTimestamps(second.invoices)).toEqual(withoutTimestamps(first.invoices));
+  });
+
+  it('skips a month already invoiced', () => {
+    const [march] = dueRetainerDrafts(company, [], [], '2025-03-15')!.invoices;
+    const due = dueRetainerDrafts({ ...company, retainerDraftedThrough: undefined }, [march], [], '2025-04-15')!;
+    expect(due.invoices.map((i) => i.retainerMonth)).toEqual(['2025-04']);
+  });
+});
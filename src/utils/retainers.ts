@@ -0,0 +1,108 @@
+import type { Company, Invoice, LineItem, TaxRate } from '../types';
+import { today } from './dateUtils';
+import { withInvoiceTax } from './tax';
+import { dueDateFor } from './paymentTerms';
+
+export const DEFAULT_RETAINER_ISSUE_DAY = 1;
+
+// 'YYYY-MM' shifted by `delta` months
+export function addMonths(month: string, delta: number): string {
+  const [y, m] = month.split('-').map(Number);
+  const d = new Date(y, m - 1 + delta, 1);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+}
+
+// Date a retainer month's invoice is issued: the issue day, or the last day of
+// a month too short for it
+export function retainerIssueDate(month: string, issueDay = DEFAULT_RETAINER_ISSUE_DAY): string {
+  const [y, m] = month.split('-').map(Number);
+  const day = Math.min(Math.max(issueDay, 1), new Date(y, m, 0).getDate());
+  return `${month}-${String(day).padStart(2, '0')}`;
+}
+
+export function retainerMonthExists(invoices: Invoice[], companyId: string, month: string): boolean {
+  return invoices.some(
+    (i) => i.companyId === companyId && i.billingType === 'fixed_monthly' && i.retainerMonth === month && i.status !== 'void'
+  );
+}
+
+// Fresh copies of the company's recurring line items, for a new invoice
+export function recurringLineItems(company: Company | undefined): LineItem[] {
+  return (company?.recurringLineItems || []).map((li) => ({ ...li, id: crypto.randomUUID() }));
+}
+
+// A draft retainer invoice for one month. The caller allocates the number.
+export function buildRetainerInvoice(
+  company: Company,
+  month: string,
+  invoiceNumber: string,
+  lineItems: LineItem[],
+  taxRates: TaxRate[],
+  invoiceDate = today(),
+  id: string = crypto.randomUUID(),
+): Invoice {
+  const now = new Date().toISOString();
+  const monthlyRate = company.monthlyRate || 0;
+  const invoice: Invoice = {
+    id,
+    companyId: company.id,
+    invoiceNumber,
+    invoiceDate,
+    dueDate: dueDateFor(company, invoiceDate),
+    timeEntryIds: [],
+    totalHours: 0,
+    totalAmount: monthlyRate + lineItems.reduce((sum, li) => sum + (li.amount || 0), 0),
+    currency: company.currency,
+    rateUsed: monthlyRate,
+    status: 'draft',
+    billingType: 'fixed_monthly',
+    retainerMonth: month,
+    lineItems: lineItems.length > 0 ? lineItems : undefined,
+    createdAt: now,
+    updatedAt: now,
+  };
+  return withInvoiceTax(invoice, monthlyRate, company, taxRates);
+}
+
+export interface RetainerDrafts {
+  company: Company; // with the invoice number and drafted-through month advanced
+  invoices: Invoice[];
+}
+
+// Id of the draft for a company's month. Each device drafts on load before it
+// syncs, so two of them drafting the same month must produce the same record
+// for the merge to keep just one.
+export function retainerDraftId(companyId: string, month: string): string {
+  return `${companyId}-retainer-${month}`;
+}
+
+// Drafts owed by a company set to auto-draft: one per month from its start
+// month (or the month after the last one drafted) through the latest month
+// whose issue date has passed, skipping months already invoiced.
+export function dueRetainerDrafts(company: Company, invoices: Invoice[], taxRates: TaxRate[], asOf = today()): RetainerDrafts | null {
+  if (!company.isActive || !company.retainerAutoDraft || company.billingType !== 'fixed_monthly' || !company.monthlyRate) return null;
+  const issueDay = company.retainerIssueDay ?? DEFAULT_RETAINER_ISSUE_DAY;
+  const thisMonth = asOf.substring(0, 7);
+  const lastDue = asOf >= retainerIssueDate(thisMonth, issueDay) ? thisMonth : addMonths(thisMonth, -1);
+  let month = company.retainerStartMonth || thisMonth;
+  if (company.retainerDraftedThrough && company.retainerDraftedThrough >= month) {
+    month = addMonths(company.retainerDraftedThrough, 1);
+  }
+  if (month > lastDue) return null;
+
+  let nextNum = company.nextInvoiceNumber || 1;
+  const drafts: Invoice[] = [];
+  for (; month <= lastDue; month = addMonths(month, 1)) {
+    if (retainerMonthExists(invoices, company.id, month)) continue;
+    const invoiceNumber = String(nextNum++).padStart(3, '0');
+    const id = retainerDraftId(company.id, month);
+    // Line items are numbered after the invoice too, so both copies match
+    const lineItems = (company.recurringLineItems || []).map((li, i) => ({ ...li, id: `${id}-${i + 1}` }));
+    drafts.push(buildRetainerInvoice(company, month, invoiceNumber, lineItems, taxRates, retainerIssueDate(month, issueDay), id));
+  }
+  if (drafts.length === 0) return null;
+  return {
+    company: { ...company, nextInvoiceNumber: nextNum, retainerDraftedThrough: lastDue, updatedAt: new Date().toISOString() },
+    invoices: drafts,
+  };
+}
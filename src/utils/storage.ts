@@ -1,4 +1,9 @@
-import type { Company, Project, TimeEntry, Invoice, Expense } from '../types';
+import type { Company, Project, TimeEntry, Invoice, Expense, Payment, InvoiceTemplate, TaxRate, Currency, RateProviderId, RateRecord, ReminderTemplate, EstimatedTaxSettings, EstimatedTaxPayment } from '../types';
+import { localStorageAdapter, hasLegacyLocalStorageData, clearLegacyLocalStorageData, COLLECTION_NAMES } from './storageAdapter';
+import type { StorageAdapter, CollectionName, CollectionRecord } from './storageAdapter';
+import { openIndexedDbAdapter } from './indexedDbAdapter';
+import { applyMigrations, LATEST_SCHEMA_VERSION } from './storageMigrations';
+import type { StoredData } from './storageMigrations';
 
 export interface BusinessProfile {
   name: string;
@@ -11,169 +16,503 @@ export interface BusinessProfile {
   accountNumber?: string;
   bankName?: string;
   accountName?: string;
+  invoiceTemplates?: InvoiceTemplate[];
+  defaultInvoiceTemplateId?: string;
+  taxRates?: TaxRate[];
+  currencies?: Currency[]; // offered in pickers; DEFAULT_CURRENCIES when unset
+  reportingCurrency?: Currency; // totals, FX rates and tax figures; USD when unset
+  rateProvider?: RateProviderId; // where exchange rates come from; Frankfurter when unset
+  reminderTemplates?: ReminderTemplate[]; // customized stages; the rest use DEFAULT_REMINDER_TEMPLATES
+  estimatedTax?: EstimatedTaxSettings; // DEFAULT_ESTIMATED_TAX when unset
+  estimatedTaxPayments?: Omit<EstimatedTaxPayment, 'createdAt' | 'updatedAt'>[]; // legacy: moved into their own collection by migration 7
 }
 
-const KEYS = {
-  companies: 'ct_companies',
-  projects: 'ct_projects',
-  timeEntries: 'ct_timeEntries',
-  invoices: 'ct_invoices',
-  expenses: 'ct_expenses',
-  profile: 'ct_profile',
-} as const;
+const PROFILE_KEY = 'profile';
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+const PENDING_CHANGES_KEY = 'pendingChanges';
+const RATE_TABLE_KEY = 'rateTable';
 
-function read<T>(key: string): T[] {
-  const raw = localStorage.getItem(key);
-  return raw ? JSON.parse(raw) : [];
+// Deleted records are kept as tombstones (deletedAt set) so a sync merge can
+// tell "deleted here" from "never seen here". They are hidden from every getX
+// and purged on load once older than this.
+const TOMBSTONE_RETENTION_DAYS = 90;
+
+const emptyProfile: BusinessProfile = { name: '', address: '', email: '', phone: '', ein: '' };
+
+// All reads are served from this in-memory copy, loaded once by initStorage().
+// Writes update it synchronously and persist the changed record in the background.
+let adapter: StorageAdapter = localStorageAdapter;
+let data: StoredData = {
+  companies: [],
+  projects: [],
+  timeEntries: [],
+  invoices: [],
+  expenses: [],
+  payments: [],
+  estimatedTaxPayments: [],
+  profile: { ...emptyProfile },
+};
+
+function persist(op: Promise<void>): void {
+  op.catch((err) => console.error(`[Storage] ${adapter.name} write failed:`, err));
+}
+
+// --- Change journal ---
+// Every write records `${collection}:${id}` (or 'profile') with an increasing
+// sequence number, so a sync can push just those rows. The journal is persisted
+// so changes made before a reload or a failed push are still sent next time.
+
+export interface ChangeSet {
+  records: Record<CollectionName, string[]>;
+  profile: boolean;
+}
+
+export interface PendingChanges extends ChangeSet {
+  seq: number; // pass to clearPendingChanges once these are pushed
+}
+
+let journal: Record<string, number> = {};
+let changeSeq = 0;
+
+function markChanged(keys: string[]): void {
+  if (keys.length === 0) return;
+  changeSeq++;
+  journal = { ...journal };
+  for (const key of keys) journal[key] = changeSeq;
+  persist(adapter.setValue(PENDING_CHANGES_KEY, journal));
+}
+
+// Records written locally since the last push, plus any whose updatedAt is
+// after `since` (the last sync time) in case they arrived without a journal entry.
+export function getPendingChanges(since: string | null): PendingChanges {
+  const changes: PendingChanges = {
+    records: { companies: [], projects: [], timeEntries: [], invoices: [], expenses: [], payments: [], estimatedTaxPayments: [] },
+    profile: 'profile' in journal,
+    seq: changeSeq,
+  };
+  for (const name of COLLECTION_NAMES) {
+    const ids = new Set<string>();
+    for (const key of Object.keys(journal)) {
+      if (key.startsWith(`${name}:`)) ids.add(key.slice(name.length + 1));
+    }
+    if (since) {
+      for (const r of data[name]) if (r.updatedAt > since) ids.add(r.id);
+    }
+    changes.records[name] = Array.from(ids);
+  }
+  return changes;
+}
+
+// Forget journal entries up to `seq` (all when omitted); later edits stay pending
+export function clearPendingChanges(seq?: number): void {
+  const remaining = Object.fromEntries(
+    Object.entries(journal).filter(([, s]) => seq != null && s > seq)
+  );
+  journal = remaining;
+  persist(adapter.setValue(PENDING_CHANGES_KEY, journal));
+}
+
+// --- Undo history ---
+// Each user action is one entry holding the before/after of every record it
+// touched. Writes inside runBatch() collapse into a single entry. Undo and redo
+// write the other side back as a fresh edit (updatedAt = now), so the result
+// syncs like any other change. History is per session and is cleared when
+// writeAll() replaces the data from outside.
+
+const HISTORY_LIMIT = 100;
+
+const RECORD_NOUNS: Record<CollectionName, string> = {
+  companies: 'company',
+  projects: 'project',
+  timeEntries: 'time entry',
+  invoices: 'invoice',
+  expenses: 'expense',
+  payments: 'payment',
+  estimatedTaxPayments: 'estimated tax payment',
+};
+
+interface RecordChange<K extends CollectionName = CollectionName> {
+  collection: K;
+  before?: CollectionRecord<K>; // undefined when the record was created
+  after: CollectionRecord<K>;
+}
+
+interface HistoryEntry {
+  id: number;
+  label: string;
+  isDelete: boolean;
+  changes: RecordChange[];
+  profile?: { before: BusinessProfile; after: BusinessProfile };
+}
+
+export interface HistoryState {
+  undoLabel: string | null;
+  redoLabel: string | null;
+  // The entry on top of the undo stack, so the UI can offer Undo after a delete
+  last: { id: number; label: string; isDelete: boolean } | null;
+}
+
+let undoStack: HistoryEntry[] = [];
+let redoStack: HistoryEntry[] = [];
+let openBatch: HistoryEntry | null = null;
+let historySeq = 0;
+
+function newEntry(label: string): HistoryEntry {
+  return { id: ++historySeq, label, isDelete: false, changes: [] };
+}
+
+function pushEntry(entry: HistoryEntry): void {
+  if (entry.changes.length === 0 && !entry.profile) return;
+  undoStack = [...undoStack, entry].slice(-HISTORY_LIMIT);
+  redoStack = [];
+}
+
+function recordChange<K extends CollectionName>(collection: K, before: CollectionRecord<K> | undefined, after: CollectionRecord<K>): void {
+  const isDelete = !!after.deletedAt && !before?.deletedAt;
+  const entry = openBatch ?? newEntry(`${isDelete ? 'Delete' : before ? 'Edit' : 'Add'} ${RECORD_NOUNS[collection]}`);
+  // Within a batch, keep the first "before" of a record touched more than once
+  const existing = entry.changes.find((c) => c.collection === collection && c.after.id === after.id);
+  if (existing) existing.after = after;
+  else entry.changes.push({ collection, before, after } as RecordChange);
+  entry.isDelete = entry.isDelete || isDelete;
+  if (!openBatch) pushEntry(entry);
+}
+
+// Group every write made by `fn` into one undo step
+export function runBatch(label: string, fn: () => void): void {
+  if (openBatch) {
+    fn();
+    return;
+  }
+  openBatch = newEntry(label);
+  try {
+    fn();
+  } finally {
+    const entry = openBatch;
+    openBatch = null;
+    pushEntry(entry);
+  }
+}
+
+export function getHistoryState(): HistoryState {
+  const top = undoStack[undoStack.length - 1];
+  return {
+    undoLabel: top?.label ?? null,
+    redoLabel: redoStack[redoStack.length - 1]?.label ?? null,
+    last: top ? { id: top.id, label: top.label, isDelete: top.isDelete } : null,
+  };
+}
+
+function restore(entry: HistoryEntry, side: 'before' | 'after'): void {
+  const now = new Date().toISOString();
+  const changes = side === 'before' ? [...entry.changes].reverse() : entry.changes;
+  for (const { collection, before, after } of changes) {
+    // Undoing a create tombstones the record rather than dropping it, so the delete syncs
+    const target = side === 'after' ? after : before ?? { ...after, deletedAt: now };
+    writeRecord(collection, { ...target, updatedAt: now });
+  }
+  if (entry.profile) {
+    data = { ...data, profile: entry.profile[side] };
+    persist(adapter.setValue(PROFILE_KEY, data.profile));
+    markChanged(['profile']);
+  }
+}
+
+// Returns the label of the step undone, or null if there was nothing to undo
+export function undo(): string | null {
+  const entry = undoStack[undoStack.length - 1];
+  if (!entry) return null;
+  undoStack = undoStack.slice(0, -1);
+  restore(entry, 'before');
+  redoStack = [...redoStack, entry];
+  return entry.label;
+}
+
+export function redo(): string | null {
+  const entry = redoStack[redoStack.length - 1];
+  if (!entry) return null;
+  redoStack = redoStack.slice(0, -1);
+  restore(entry, 'after');
+  undoStack = [...undoStack, entry];
+  return entry.label;
+}
+
+function clearHistory(): void {
+  undoStack = [];
+  redoStack = [];
 }
 
-function write<T>(key: string, data: T[]): void {
-  localStorage.setItem(key, JSON.stringify(data));
+function live<T extends { deletedAt?: string }>(records: T[]): T[] {
+  return records.filter((r) => !r.deletedAt);
+}
+
+function writeRecord<K extends CollectionName>(collection: K, record: CollectionRecord<K>): StoredData[K] {
+  const records = data[collection] as CollectionRecord<K>[];
+  const idx = records.findIndex((r) => r.id === record.id);
+  const updated = (idx >= 0
+    ? records.map((r) => (r.id === record.id ? record : r))
+    : [...records, record]) as StoredData[K];
+  data = { ...data, [collection]: updated };
+  persist(adapter.put(collection, record));
+  markChanged([`${collection}:${record.id}`]);
+  return live(updated as CollectionRecord<K>[]) as StoredData[K];
+}
+
+// A user write: recorded for undo, then stored
+function upsert<K extends CollectionName>(collection: K, record: CollectionRecord<K>): StoredData[K] {
+  const before = (data[collection] as CollectionRecord<K>[]).find((r) => r.id === record.id);
+  recordChange(collection, before, record);
+  return writeRecord(collection, record);
+}
+
+function softDelete<K extends CollectionName>(collection: K, id: string): StoredData[K] {
+  const existing = (data[collection] as CollectionRecord<K>[]).find((r) => r.id === id);
+  if (!existing || existing.deletedAt) return live(data[collection] as CollectionRecord<K>[]) as StoredData[K];
+  const now = new Date().toISOString();
+  return upsert(collection, { ...existing, deletedAt: now, updatedAt: now });
+}
+
+function compactTombstones(): void {
+  const cutoff = new Date(Date.now() - TOMBSTONE_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  for (const name of COLLECTION_NAMES) {
+    const records = data[name] as CollectionRecord<typeof name>[];
+    const expired = records.filter((r) => r.deletedAt && r.deletedAt < cutoff);
+    if (expired.length === 0) continue;
+    const expiredIds = new Set(expired.map((r) => r.id));
+    data = { ...data, [name]: records.filter((r) => !expiredIds.has(r.id)) };
+    for (const id of expiredIds) persist(adapter.remove(name, id));
+    // Pushed as a row delete on the next sync
+    markChanged([...expiredIds].map((id) => `${name}:${id}`));
+  }
+}
+
+async function loadAll(from: StorageAdapter): Promise<StoredData> {
+  const [companies, projects, timeEntries, invoices, expenses, payments, estimatedTaxPayments, profile] = await Promise.all([
+    from.getAll('companies'),
+    from.getAll('projects'),
+    from.getAll('timeEntries'),
+    from.getAll('invoices'),
+    from.getAll('expenses'),
+    from.getAll('payments'),
+    from.getAll('estimatedTaxPayments'),
+    from.getValue<BusinessProfile>(PROFILE_KEY),
+  ]);
+  return { companies, projects, timeEntries, invoices, expenses, payments, estimatedTaxPayments, profile: profile ?? { ...emptyProfile } };
+}
+
+async function saveAll(to: StorageAdapter, all: StoredData): Promise<void> {
+  await Promise.all([
+    ...COLLECTION_NAMES.map((name) => to.replaceAll(name, all[name])),
+    to.setValue(PROFILE_KEY, all.profile),
+  ]);
+}
+
+// Open the best available backend, move any pre-IndexedDB localStorage data
+// into it, run pending migrations and load everything into memory.
+// Must complete before the first render. `onBlocked` is called while another
+// tab keeps an older version of the database open.
+export async function initStorage(onBlocked?: () => void): Promise<void> {
+  try {
+    adapter = await openIndexedDbAdapter(onBlocked);
+  } catch (err) {
+    console.warn('[Storage] IndexedDB unavailable, falling back to localStorage:', err);
+    adapter = localStorageAdapter;
+  }
+
+  let version = (await adapter.getValue<number>(SCHEMA_VERSION_KEY)) ?? 0;
+
+  // One-time move from the legacy ct_* localStorage keys
+  if (adapter !== localStorageAdapter && version === 0 && hasLegacyLocalStorageData()) {
+    const legacy = await loadAll(localStorageAdapter);
+    version = (await localStorageAdapter.getValue<number>(SCHEMA_VERSION_KEY)) ?? 0;
+    await saveAll(adapter, legacy);
+    for (const key of [PENDING_CHANGES_KEY, RATE_TABLE_KEY]) {
+      const value = await localStorageAdapter.getValue(key);
+      if (value !== undefined) await adapter.setValue(key, value);
+    }
+    await adapter.setValue(SCHEMA_VERSION_KEY, version);
+    clearLegacyLocalStorageData();
+    console.log('[Storage] Moved localStorage data to IndexedDB');
+  }
+
+  data = await loadAll(adapter);
+  journal = (await adapter.getValue<Record<string, number>>(PENDING_CHANGES_KEY)) ?? {};
+  rateTable = (await adapter.getValue<RateRecord[]>(RATE_TABLE_KEY)) ?? [];
+  changeSeq = Math.max(0, ...Object.values(journal));
+
+  if (version < LATEST_SCHEMA_VERSION) {
+    data = applyMigrations(data, version);
+    await saveAll(adapter, data);
+    await adapter.setValue(SCHEMA_VERSION_KEY, LATEST_SCHEMA_VERSION);
+  }
+
+  compactTombstones();
 }
 
 // Companies
 export function getCompanies(): Company[] {
-  return read<Company>(KEYS.companies).map((c) => ({
-    ...c,
-    billingType: c.billingType || 'hourly',
-  }));
+  return live(data.companies);
 }
 
 export function saveCompany(company: Company): Company[] {
-  const companies = getCompanies();
-  const idx = companies.findIndex((c) => c.id === company.id);
-  const updated = idx >= 0
-    ? companies.map((c) => (c.id === company.id ? company : c))
-    : [...companies, company];
-  write(KEYS.companies, updated);
-  return updated;
+  return upsert('companies', company);
 }
 
 export function deleteCompany(id: string): Company[] {
-  const updated = getCompanies().filter((c) => c.id !== id);
-  write(KEYS.companies, updated);
-  return updated;
+  return softDelete('companies', id);
 }
 
 // Projects
 export function getProjects(): Project[] {
-  return read<Project>(KEYS.projects);
+  return live(data.projects);
 }
 
 export function saveProject(project: Project): Project[] {
-  const projects = getProjects();
-  const idx = projects.findIndex((p) => p.id === project.id);
-  const updated = idx >= 0
-    ? projects.map((p) => (p.id === project.id ? project : p))
-    : [...projects, project];
-  write(KEYS.projects, updated);
-  return updated;
+  return upsert('projects', project);
 }
 
 export function deleteProject(id: string): Project[] {
-  const updated = getProjects().filter((p) => p.id !== id);
-  write(KEYS.projects, updated);
-  return updated;
+  return softDelete('projects', id);
 }
 
 // Time Entries
 export function getTimeEntries(): TimeEntry[] {
-  return read<TimeEntry>(KEYS.timeEntries);
+  return live(data.timeEntries);
 }
 
 export function saveTimeEntry(entry: TimeEntry): TimeEntry[] {
-  const entries = getTimeEntries();
-  const idx = entries.findIndex((e) => e.id === entry.id);
-  const updated = idx >= 0
-    ? entries.map((e) => (e.id === entry.id ? entry : e))
-    : [...entries, entry];
-  write(KEYS.timeEntries, updated);
-  return updated;
+  return upsert('timeEntries', entry);
 }
 
 export function deleteTimeEntry(id: string): TimeEntry[] {
-  const updated = getTimeEntries().filter((e) => e.id !== id);
-  write(KEYS.timeEntries, updated);
-  return updated;
+  return softDelete('timeEntries', id);
 }
 
+// Replace the full set of live entries; any live entry left out is tombstoned
 export function saveTimeEntries(entries: TimeEntry[]): TimeEntry[] {
-  write(KEYS.timeEntries, entries);
+  const now = new Date().toISOString();
+  const keepIds = new Set(entries.map((e) => e.id));
+  const dropped = data.timeEntries
+    .filter((e) => !keepIds.has(e.id))
+    .map((e) => e.deletedAt ? e : { ...e, deletedAt: now, updatedAt: now });
+  const previous = new Map(data.timeEntries.map((e) => [e.id, e]));
+  data = { ...data, timeEntries: [...entries, ...dropped] };
+  persist(adapter.replaceAll('timeEntries', data.timeEntries));
+  const changed = data.timeEntries.filter((e) => previous.get(e.id) !== e);
+  runBatch('Update time entries', () => {
+    for (const e of changed) recordChange('timeEntries', previous.get(e.id), e);
+  });
+  markChanged(changed.map((e) => `timeEntries:${e.id}`));
   return entries;
 }
 
 // Invoices
 export function getInvoices(): Invoice[] {
-  return read<Invoice>(KEYS.invoices).map((i) => ({
-    ...i,
-    billingType: i.billingType || 'hourly',
-    exchangeRateToUSD: i.exchangeRateToUSD ?? (i.currency === 'USD' ? 1.0 : undefined),
-  }));
+  return live(data.invoices);
 }
 
 export function saveInvoice(invoice: Invoice): Invoice[] {
-  const invoices = getInvoices();
-  const idx = invoices.findIndex((i) => i.id === invoice.id);
-  const updated = idx >= 0
-    ? invoices.map((i) => (i.id === invoice.id ? invoice : i))
-    : [...invoices, invoice];
-  write(KEYS.invoices, updated);
-  return updated;
+  return upsert('invoices', invoice);
 }
 
 export function deleteInvoice(id: string): Invoice[] {
-  const updated = getInvoices().filter((i) => i.id !== id);
-  write(KEYS.invoices, updated);
-  return updated;
+  return softDelete('invoices', id);
 }
 
 // Expenses
 export function getExpenses(): Expense[] {
-  return read<Expense>(KEYS.expenses);
+  return live(data.expenses);
 }
 
 export function saveExpense(expense: Expense): Expense[] {
-  const expenses = getExpenses();
-  const idx = expenses.findIndex((e) => e.id === expense.id);
-  const updated = idx >= 0
-    ? expenses.map((e) => (e.id === expense.id ? expense : e))
-    : [...expenses, expense];
-  write(KEYS.expenses, updated);
-  return updated;
+  return upsert('expenses', expense);
 }
 
 export function deleteExpense(id: string): Expense[] {
-  const updated = getExpenses().filter((e) => e.id !== id);
-  write(KEYS.expenses, updated);
-  return updated;
-}
-
-// Bulk write (used when pulling from Sheets)
-export function writeAll(data: {
-  companies: Company[];
-  projects: Project[];
-  timeEntries: TimeEntry[];
-  invoices: Invoice[];
-  expenses: Expense[];
-  profile: BusinessProfile;
-}): void {
-  write(KEYS.companies, data.companies);
-  write(KEYS.projects, data.projects);
-  write(KEYS.timeEntries, data.timeEntries);
-  write(KEYS.invoices, data.invoices);
-  write(KEYS.expenses, data.expenses);
-  localStorage.setItem(KEYS.profile, JSON.stringify(data.profile));
+  return softDelete('expenses', id);
 }
 
-// Business Profile
-const emptyProfile: BusinessProfile = { name: '', address: '', email: '', phone: '', ein: '' };
+// Payments
+export function getPayments(): Payment[] {
+  return live(data.payments);
+}
 
+export function savePayment(payment: Payment): Payment[] {
+  return upsert('payments', payment);
+}
+
+export function deletePayment(id: string): Payment[] {
+  return softDelete('payments', id);
+}
+
+// Estimated tax payments
+export function getEstimatedTaxPayments(): EstimatedTaxPayment[] {
+  return live(data.estimatedTaxPayments);
+}
+
+export function saveEstimatedTaxPayment(payment: EstimatedTaxPayment): EstimatedTaxPayment[] {
+  return upsert('estimatedTaxPayments', payment);
+}
+
+export function deleteEstimatedTaxPayment(id: string): EstimatedTaxPayment[] {
+  return softDelete('estimatedTaxPayments', id);
+}
+
+// Every record including tombstones (used when pushing to Sheets)
+export function getAllRecords(): StoredData {
+  return data;
+}
+
+// Bulk write (used when pulling from Sheets or importing a backup).
+// Incoming data is migrated from `fromVersion`, the schema version it was
+// saved at; data of unknown version (a Sheets pull) goes through every migration.
+// Records that were added, changed or removed are journaled like any other write.
+export function writeAll(incoming: StoredData, fromVersion = 0): void {
+  const previous = data;
+  data = applyMigrations(incoming, fromVersion);
+  persist(saveAll(adapter, data));
+  clearHistory();
+
+  const changed: string[] = [];
+  for (const name of COLLECTION_NAMES) {
+    const before = new Map((previous[name] as CollectionRecord<typeof name>[]).map((r) => [r.id, JSON.stringify(r)]));
+    const after = new Set<string>();
+    for (const r of data[name]) {
+      after.add(r.id);
+      if (before.get(r.id) !== JSON.stringify(r)) changed.push(`${name}:${r.id}`);
+    }
+    for (const id of before.keys()) {
+      if (!after.has(id)) changed.push(`${name}:${id}`);
+    }
+  }
+  if (JSON.stringify(previous.profile) !== JSON.stringify(data.profile)) changed.push('profile');
+  markChanged(changed);
+}
+
+// Exchange rate table — fetched, imported and manual rates. Kept on this
+// device only: it is a cache plus reference data, not part of the sync or undo history.
+let rateTable: RateRecord[] = [];
+
+export function getRateTable(): RateRecord[] {
+  return rateTable;
+}
+
+export function saveRateTable(records: RateRecord[]): void {
+  rateTable = records;
+  persist(adapter.setValue(RATE_TABLE_KEY, records));
+}
+
+// Business Profile
 export function getProfile(): BusinessProfile {
-  const raw = localStorage.getItem(KEYS.profile);
-  return raw ? JSON.parse(raw) : { ...emptyProfile };
+  return data.profile;
 }
 
 export function saveProfile(profile: BusinessProfile): BusinessProfile {
-  localStorage.setItem(KEYS.profile, JSON.stringify(profile));
+  const entry = openBatch ?? newEntry('Edit business profile');
+  entry.profile = { before: entry.profile?.before ?? data.profile, after: profile };
+  if (!openBatch) pushEntry(entry);
+  data = { ...data, profile };
+  persist(adapter.setValue(PROFILE_KEY, profile));
+  markChanged(['profile']);
   return profile;
 }
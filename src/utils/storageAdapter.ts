@@ -0,0 +1,88 @@
+import type { Company, Project, TimeEntry, Invoice, Expense, Payment, EstimatedTaxPayment } from '../types';
+
+export interface Collections {
+  companies: Company[];
+  projects: Project[];
+  timeEntries: TimeEntry[];
+  invoices: Invoice[];
+  expenses: Expense[];
+  payments: Payment[];
+  estimatedTaxPayments: EstimatedTaxPayment[];
+}
+
+export type CollectionName = keyof Collections;
+export type CollectionRecord<K extends CollectionName> = Collections[K][number];
+
+export const COLLECTION_NAMES: CollectionName[] = ['companies', 'projects', 'timeEntries', 'invoices', 'expenses', 'payments', 'estimatedTaxPayments'];
+
+// Persistence backend behind utils/storage.ts. Record-level put/remove let a
+// backend write only what changed; replaceAll is for bulk loads (pull, import).
+// Single values (profile, schema version) live in a separate key/value space.
+export interface StorageAdapter {
+  readonly name: string;
+  getAll<K extends CollectionName>(collection: K): Promise<Collections[K]>;
+  put<K extends CollectionName>(collection: K, record: CollectionRecord<K>): Promise<void>;
+  remove(collection: CollectionName, id: string): Promise<void>;
+  replaceAll<K extends CollectionName>(collection: K, records: Collections[K]): Promise<void>;
+  getValue<T>(key: string): Promise<T | undefined>;
+  setValue<T>(key: string, value: T): Promise<void>;
+}
+
+// --- localStorage backend ---
+// Same ct_* keys the app has always used. Each write re-serializes the whole
+// collection, so this is only the fallback when IndexedDB is unavailable.
+
+const LS_PREFIX = 'ct_';
+
+function lsRead<T>(key: string): T[] {
+  const raw = localStorage.getItem(LS_PREFIX + key);
+  return raw ? JSON.parse(raw) : [];
+}
+
+function lsWrite<T>(key: string, data: T[]): void {
+  localStorage.setItem(LS_PREFIX + key, JSON.stringify(data));
+}
+
+export const localStorageAdapter: StorageAdapter = {
+  name: 'localStorage',
+
+  async getAll<K extends CollectionName>(collection: K) {
+    return lsRead(collection) as Collections[K];
+  },
+
+  async put(collection, record) {
+    const records = lsRead<{ id: string }>(collection);
+    const idx = records.findIndex((r) => r.id === record.id);
+    lsWrite(collection, idx >= 0
+      ? records.map((r) => (r.id === record.id ? record : r))
+      : [...records, record]);
+  },
+
+  async remove(collection, id) {
+    lsWrite(collection, lsRead<{ id: string }>(collection).filter((r) => r.id !== id));
+  },
+
+  async replaceAll(collection, records) {
+    lsWrite<unknown>(collection, records);
+  },
+
+  async getValue<T>(key: string) {
+    const raw = localStorage.getItem(LS_PREFIX + key);
+    return raw ? (JSON.parse(raw) as T) : undefined;
+  },
+
+  async setValue(key, value) {
+    localStorage.setItem(LS_PREFIX + key, JSON.stringify(value));
+  },
+};
+
+// True if the pre-IndexedDB ct_* keys hold any data
+export function hasLegacyLocalStorageData(): boolean {
+  return [...COLLECTION_NAMES, 'profile'].some((key) => localStorage.getItem(LS_PREFIX + key) != null);
+}
+
+export function clearLegacyLocalStorageData(): void {
+  for (const key of [...COLLECTION_NAMES, 'profile', 'schemaVersion', 'pendingChanges', 'rateTable']) {
+    localStorage.removeItem(LS_PREFIX + key);
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import type { Company, EstimatedTaxPayment, Invoice } from '../types';
+import { applyMigrations } from './storageMigrations';
+import type { StoredData } from './storageMigrations';
+
+const stamp = '2025-01-01T09:00:00.000Z';
+
+const company: Company = {
+  id: 'c1', name: 'Acme', currency: 'USD', billingType: 'hourly', hourlyRate: 100, invoiceRequired: true,
+  paymentTerms: 'Net 30', isActive: true, createdAt: stamp, updatedAt: stamp,
+};
+
+function invoice(id: string, status: Invoice['status']): Invoice {
+  return {
+    id, companyId: 'c1', invoiceNumber: id, invoiceDate: '2025-01-10', timeEntryIds: [], totalHours: 0, totalAmount: 100,
+    currency: 'USD', rateUsed: 100, status, billingType: 'hourly', exchangeRates: { USD: 1 }, createdAt: stamp, updatedAt: stamp,
+  };
+}
+
+function stored(invoices: Invoice[]): StoredData {
+  return {
+    companies: [company], projects: [], timeEntries: [], invoices, expenses: [], payments: [], estimatedTaxPayments: [],
+    profile: { name: '', address: '', email: '', phone: '', ein: '' },
+  };
+}
+
+describe('applyMigrations', () => {
+  it('backfills a due date on drafts only', () => {
+    const migrated = applyMigrations(stored([invoice('draft', 'draft'), invoice('sent', 'sent')]), 0);
+    expect(migrated.invoices.map((i) => i.dueDate)).toEqual(['2025-02-09', undefined]);
+  });
+
+  it('changes nothing when run again, as pulls and imports do', () => {
+    const once = applyMigrations(stored([invoice('draft', 'draft'), invoice('paid', 'paid')]), 0);
+    expect(applyMigrations(once, 0)).toEqual(once);
+  });
+
+  it('moves estimated tax payments off the profile into their own records', () => {
+    const recorded: EstimatedTaxPayment = {
+      id: 'et2', taxYear: 2025, quarter: 1, jurisdiction: 'state', date: '2025-04-14', amount: 300,
+      createdAt: '2025-04-14T10:00:00.000Z', updatedAt: '2025-04-14T10:00:00.000Z',
+    };
+    const data: StoredData = {
+      ...stored([]),
+      estimatedTaxPayments: [recorded],
+      profile: {
+        ...stored([]).profile,
+        estimatedTaxPayments: [
+          { id: 'et1', taxYear: 2025, quarter: 1, jurisdiction: 'federal', date: '2025-04-15', amount: 1200 },
+          { id: 'et2', taxYear: 2025, quarter: 1, jurisdiction: 'state', date: '2025-04-14', amount: 300 },
+        ],
+      },
+    };
+    const migrated = applyMigrations(data, 6);
+    expect(migrated.profile).not.toHaveProperty('estimatedTaxPayments');
+    expect(migrated.estimatedTaxPayments).toEqual([
+      recorded,
+      { id: 'et1', taxYear: 2025, quarter: 1, jurisdiction: 'federal', date: '2025-04-15', amount: 1200, createdAt: '2025-04-15T00:00:00.000Z', updatedAt: '2025-04-15T00:00:00.000Z' },
+    ]);
+    expect(applyMigrations(migrated, 0)).toEqual(migrated);
+  });
+});
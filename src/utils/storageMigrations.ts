@@ -0,0 +1,150 @@
+import type { Collections } from './storageAdapter';
+import type { BusinessProfile } from './storage';
+import { REVERSE_CHARGE_RATE_ID } from '../types';
+import type { TaxRate, Invoice, Payment } from '../types';
+import { dueDateFor } from './paymentTerms';
+
+export interface StoredData extends Collections {
+  profile: BusinessProfile;
+}
+
+// Estimated tax payments used to be one list on the profile, so a sync had to
+// keep one device's whole list. As records they merge one by one. Stamped from
+// the payment date so every device moves a payment to the same record. Also
+// used on a pull from a spreadsheet that still keeps them on the Profile sheet.
+export function moveEstimatedTaxPayments<T extends StoredData>(data: T): T {
+  const { estimatedTaxPayments: legacy, ...profile } = data.profile;
+  if (!legacy) return data;
+  const existing = data.estimatedTaxPayments ?? [];
+  const known = new Set(existing.map((p) => p.id));
+  const moved = legacy
+    .filter((p) => !known.has(p.id))
+    .map((p) => ({ ...p, createdAt: `${p.date}T00:00:00.000Z`, updatedAt: `${p.date}T00:00:00.000Z` }));
+  return { ...data, profile, estimatedTaxPayments: [...existing, ...moved] };
+}
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (data: StoredData) => StoredData;
+}
+
+// Numbered data migrations, applied in order on startup to bring stored data up
+// to LATEST_SCHEMA_VERSION. Append new migrations with the next number; never
+// edit or reorder a released one.
+//
+// Migrations must be idempotent: data arriving from a Sheets pull, or a JSON
+// backup made before backups recorded their version, has no version, so it is
+// run through the whole list.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Backfill billingType on companies and invoices created before retainer billing',
+    migrate: (data) => ({
+      ...data,
+      companies: data.companies.map((c) => c.billingType ? c : { ...c, billingType: 'hourly' }),
+      invoices: data.invoices.map((i) => i.billingType ? i : { ...i, billingType: 'hourly' }),
+    }),
+  },
+  {
+    version: 2,
+    description: 'Default exchangeRateToUSD to 1.0 on USD invoices',
+    migrate: (data) => ({
+      ...data,
+      invoices: data.invoices.map((i) =>
+        i.exchangeRateToUSD == null && i.currency === 'USD' ? { ...i, exchangeRateToUSD: 1.0 } : i
+      ),
+    }),
+  },
+  {
+    version: 3,
+    description: 'Record a full payment for each invoice already marked paid',
+    migrate: (data) => {
+      const payments = data.payments ?? [];
+      const paidInvoiceIds = new Set(payments.map((p) => p.invoiceId));
+      const backfilled = data.invoices
+        .filter((i) => i.status === 'paid' && !paidInvoiceIds.has(i.id))
+        .map((i) => ({
+          // Derived from the invoice id so every device backfills the same record
+          id: `${i.id}-payment`,
+          invoiceId: i.id,
+          date: i.paidDate || i.updatedAt.substring(0, 10),
+          amount: i.totalAmount,
+          currency: i.currency,
+          exchangeRateToUSD: i.exchangeRateToUSD,
+          notes: i.paymentNote,
+          createdAt: i.updatedAt,
+          updatedAt: i.updatedAt,
+        }));
+      return { ...data, payments: [...payments, ...backfilled] };
+    },
+  },
+  {
+    version: 4,
+    description: 'Move the VAT reverse-charge flag on companies onto a 0% reverse-charge tax rate',
+    migrate: (data) => {
+      const flagged = data.companies.filter((c) => c.vatReverseCharge);
+      if (flagged.length === 0) return data;
+      const taxRates = data.profile.taxRates ?? [];
+      const reverseCharge: TaxRate = { id: REVERSE_CHARGE_RATE_ID, name: 'VAT reverse charge', kind: 'vat', rate: 0, reverseCharge: true };
+      return {
+        ...data,
+        profile: taxRates.some((r) => r.id === REVERSE_CHARGE_RATE_ID)
+          ? data.profile
+          : { ...data.profile, taxRates: [...taxRates, reverseCharge] },
+        companies: data.companies.map((c) =>
+          c.vatReverseCharge ? { ...c, vatReverseCharge: undefined, taxRateId: c.taxRateId ?? REVERSE_CHARGE_RATE_ID } : c
+        ),
+      };
+    },
+  },
+  {
+    version: 5,
+    description: 'Move exchangeRateToUSD on invoices and payments into per-currency exchangeRates',
+    migrate: (data) => {
+      // A rate already recorded under exchangeRates wins over the legacy field
+      const move = <T extends Invoice | Payment>(r: T): T => {
+        if (r.exchangeRateToUSD == null) return r;
+        const exchangeRates = r.currency === 'USD' ? r.exchangeRates : { USD: r.exchangeRateToUSD, ...r.exchangeRates };
+        return { ...r, exchangeRates, exchangeRateToUSD: undefined };
+      };
+      return {
+        ...data,
+        invoices: data.invoices.map(move),
+        payments: (data.payments ?? []).map(move),
+      };
+    },
+  },
+  {
+    version: 6,
+    description: 'Backfill dueDate on draft invoices from their company\'s payment terms',
+    // Only drafts: the company's terms today may not be the ones a sent
+    // invoice went out under, and pulls and imports run this again on data
+    // from other devices. Sent invoices without a due date age from their
+    // invoice date instead.
+    migrate: (data) => {
+      const companyMap = new Map(data.companies.map((c) => [c.id, c]));
+      return {
+        ...data,
+        invoices: data.invoices.map((i) => {
+          if (i.dueDate || i.status !== 'draft') return i;
+          const dueDate = dueDateFor(companyMap.get(i.companyId), i.invoiceDate);
+          return dueDate ? { ...i, dueDate } : i;
+        }),
+      };
+    },
+  },
+  {
+    version: 7,
+    description: 'Move estimated tax payments off the business profile into their own collection',
+    migrate: moveEstimatedTaxPayments,
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export function applyMigrations(data: StoredData, fromVersion: number): StoredData {
+  return MIGRATIONS
+    .filter((m) => m.version > fromVersion)
+    .reduce((acc, m) => m.migrate(acc), data);
+}
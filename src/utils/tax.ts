@@ -0,0 +1,92 @@
+import type { Invoice, Company, LineItem, TaxRate, InvoiceTaxLine, Currency } from '../types';
+import { NO_TAX_RATE_ID } from '../types';
+import { roundMoney } from './currencies';
+
+export function taxRateLabel(rate: { name: string; rate: number; reverseCharge?: boolean }): string {
+  return rate.reverseCharge ? rate.name : `${rate.name} ${rate.rate}%`;
+}
+
+// Net amounts grouped by the tax rate that applies to them, with the tax
+// rounded once per rate to the currency's minor unit. Amounts under an unknown
+// (deleted) rate go untaxed.
+export function computeTaxLines(
+  parts: { amount: number; taxRateId?: string }[],
+  taxRates: TaxRate[],
+  currency: Currency,
+): InvoiceTaxLine[] {
+  const rateMap = new Map(taxRates.map((r) => [r.id, r]));
+  const lines = new Map<string, InvoiceTaxLine>();
+  for (const part of parts) {
+    const rate = part.taxRateId ? rateMap.get(part.taxRateId) : undefined;
+    if (!rate) continue;
+    const line = lines.get(rate.id) ?? {
+      taxRateId: rate.id,
+      name: rate.name,
+      rate: rate.reverseCharge ? 0 : rate.rate,
+      reverseCharge: rate.reverseCharge || undefined,
+      net: 0,
+      tax: 0,
+    };
+    line.net += part.amount;
+    lines.set(rate.id, line);
+  }
+  return Array.from(lines.values()).map((line) => ({
+    ...line,
+    net: roundMoney(line.net, currency),
+    tax: roundMoney((line.net * line.rate) / 100, currency),
+  }));
+}
+
+export interface InvoiceTax {
+  netAmount: number;
+  taxAmount: number;
+  taxLines: InvoiceTaxLine[];
+}
+
+// Tax on an invoice's billed work (`workAmount`: hours or retainer, taxed at
+// the company rate) and line items (taxed at their own rate, else the company's)
+export function computeInvoiceTax(
+  workAmount: number,
+  lineItems: LineItem[],
+  company: Company | undefined,
+  taxRates: TaxRate[],
+  currency: Currency,
+): InvoiceTax {
+  const companyRateId = company?.taxRateId;
+  const parts = [
+    { amount: workAmount, taxRateId: companyRateId },
+    ...lineItems.map((li) => ({
+      amount: li.amount,
+      taxRateId: li.taxRateId === NO_TAX_RATE_ID ? undefined : li.taxRateId ?? companyRateId,
+    })),
+  ];
+  const netAmount = roundMoney(parts.reduce((sum, p) => sum + p.amount, 0), currency);
+  const taxLines = computeTaxLines(parts, taxRates, currency);
+  const taxAmount = roundMoney(taxLines.reduce((sum, l) => sum + l.tax, 0), currency);
+  return { netAmount, taxAmount, taxLines };
+}
+
+// The invoice with net, tax and gross recomputed from its current line items
+export function withInvoiceTax(invoice: Invoice, workAmount: number, company: Company | undefined, taxRates: TaxRate[]): Invoice {
+  const { netAmount, taxAmount, taxLines } = computeInvoiceTax(workAmount, invoice.lineItems || [], company, taxRates, invoice.currency);
+  return {
+    ...invoice,
+    netAmount,
+    taxAmount,
+    taxLines: taxLines.length > 0 ? taxLines : undefined,
+    totalAmount: roundMoney(netAmount + taxAmount, invoice.currency),
+  };
+}
+
+// Net (pre-tax) amount: what the invoice earns, as opposed to what is collected
+export function invoiceNetAmount(invoice: Invoice): number {
+  return invoice.netAmount ?? invoice.totalAmount;
+}
+
+// Tax lines on the invoice, or for invoices from before tax support, the
+// reverse charge their company was flagged for
+export function isReverseCharge(invoice: Invoice, company: Company | undefined, taxRates: TaxRate[]): boolean {
+  if (invoice.taxLines) return invoice.taxLines.some((l) => l.reverseCharge);
+  if (invoice.netAmount != null) return false;
+  return !!company?.taxRateId && !!taxRates.find((r) => r.id === company.taxRateId)?.reverseCharge;
+}